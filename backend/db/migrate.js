@@ -6,9 +6,45 @@ import db from './connection.js';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * 증분 마이그레이션 실행
+ * migrations/ 디렉토리의 .sql 파일을 이름 순으로 한 번씩만 적용
+ * 적용 이력은 schema_migrations 테이블에 기록
+ */
+async function applyMigrations() {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  const migrationsDir = path.join(__dirname, 'migrations');
+  if (!fs.existsSync(migrationsDir)) return;
+
+  const files = fs.readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.sql'))
+    .sort();
+
+  const applied = await db.query('SELECT name FROM schema_migrations');
+  const appliedNames = new Set(applied.rows.map((row) => row.name));
+
+  for (const file of files) {
+    if (appliedNames.has(file)) continue;
+
+    const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
+    await db.transaction(async (client) => {
+      await client.query(sql);
+      await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+    });
+
+    console.log(`  ✅ Applied migration: ${file}`);
+  }
+}
+
 /**
  * 데이터베이스 마이그레이션 스크립트
- * schema.sql 파일을 실행하여 테이블 생성
+ * schema.sql 파일을 실행하여 테이블 생성 후 증분 마이그레이션 적용
  */
 async function migrate() {
   console.log('🔄 Starting database migration...\n');
@@ -19,28 +55,37 @@ async function migrate() {
     const schema = fs.readFileSync(schemaPath, 'utf-8');
 
     // 스키마 실행
-    await db.query(schema);
+    try {
+      await db.query(schema);
+
+      console.log('✅ Base schema created successfully!\n');
+      console.log('Created tables:');
+      console.log('  - teachers');
+      console.log('  - assignment_sessions');
+      console.log('  - student_participants');
+      console.log('  - interview_states');
+      console.log('  - interview_conversations');
+      console.log('');
+      console.log('Created indexes and triggers');
+    } catch (error) {
+      // 이미 존재하는 경우 에러 처리
+      if (error.code === '42P07') {
+        console.log('⚠️  Tables already exist. Skipping creation.');
+      } else if (error.code === '42710') {
+        console.log('⚠️  Some objects already exist. Migration partially completed.');
+      } else {
+        throw error;
+      }
+    }
 
+    // 증분 마이그레이션
+    console.log('\n🔄 Applying incremental migrations...');
+    await applyMigrations();
     console.log('✅ Database migration completed successfully!\n');
-    console.log('Created tables:');
-    console.log('  - teachers');
-    console.log('  - assignment_sessions');
-    console.log('  - student_participants');
-    console.log('  - interview_states');
-    console.log('  - interview_conversations');
-    console.log('');
-    console.log('Created indexes and triggers');
 
   } catch (error) {
-    // 이미 존재하는 경우 에러 처리
-    if (error.code === '42P07') {
-      console.log('⚠️  Tables already exist. Skipping creation.');
-    } else if (error.code === '42710') {
-      console.log('⚠️  Some objects already exist. Migration partially completed.');
-    } else {
-      console.error('❌ Migration failed:', error.message);
-      throw error;
-    }
+    console.error('❌ Migration failed:', error.message);
+    throw error;
   } finally {
     await db.closePool();
   }
@@ -55,6 +100,18 @@ async function reset() {
 
   try {
     await db.query(`
+      DROP TABLE IF EXISTS schema_migrations CASCADE;
+      DROP TABLE IF EXISTS course_students CASCADE;
+      DROP TABLE IF EXISTS courses CASCADE;
+      DROP TABLE IF EXISTS join_conflicts CASCADE;
+      DROP TABLE IF EXISTS session_roster CASCADE;
+      DROP TABLE IF EXISTS participant_attempts CASCADE;
+      DROP TABLE IF EXISTS interview_interventions CASCADE;
+      DROP TABLE IF EXISTS participant_evaluations CASCADE;
+      DROP TABLE IF EXISTS answer_recordings CASCADE;
+      DROP TABLE IF EXISTS integrity_events CASCADE;
+      DROP TABLE IF EXISTS submission_similarities CASCADE;
+      DROP TABLE IF EXISTS topic_analysis_logs CASCADE;
       DROP TABLE IF EXISTS interview_conversations CASCADE;
       DROP TABLE IF EXISTS interview_states CASCADE;
       DROP TABLE IF EXISTS student_participants CASCADE;
@@ -0,0 +1,18 @@
+-- Summary schema v2 (평가 요약 스키마 v2)
+-- v1 { strengths, weaknesses, overallComment } 행을 v2 구조로 변환
+-- 레거시 행에는 점수가 없으므로 authorshipScore = null, verdict = 'undetermined'
+
+UPDATE student_participants
+SET summary = jsonb_build_object(
+  'version', 2,
+  'authorshipScore', NULL,
+  'verdict', 'undetermined',
+  'strengths', COALESCE(summary->'strengths', '[]'::jsonb),
+  'weaknesses', COALESCE(summary->'weaknesses', '[]'::jsonb),
+  'overallComment', COALESCE(summary->>'overallComment', ''),
+  'topicAssessments', '[]'::jsonb,
+  'migratedFrom', 1
+)
+WHERE summary IS NOT NULL
+  AND jsonb_typeof(summary) = 'object'
+  AND summary->>'version' IS NULL;
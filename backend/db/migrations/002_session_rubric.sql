@@ -0,0 +1,15 @@
+-- Session rubric (세션별 평가 루브릭)
+-- NULL이면 기본 루브릭(services/rubric.js DEFAULT_RUBRIC) 사용
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+-- Summary schema v3: 기존 v2 요약에 빈 criteriaScores 추가
+UPDATE student_participants
+SET summary = summary || jsonb_build_object(
+  'version', 3,
+  'criteriaScores', '[]'::jsonb,
+  'migratedFrom', COALESCE(summary->'migratedFrom', '2'::jsonb)
+)
+WHERE summary IS NOT NULL
+  AND jsonb_typeof(summary) = 'object'
+  AND summary->>'version' = '2';
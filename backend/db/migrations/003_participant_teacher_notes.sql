@@ -0,0 +1,4 @@
+-- Teacher notes per participant (교사 메모)
+-- 상세 패널에서 작성하며 PDF 보고서에 포함된다
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS teacher_notes TEXT;
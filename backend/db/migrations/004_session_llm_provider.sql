@@ -0,0 +1,4 @@
+-- Session LLM provider (세션별 LLM 제공자)
+-- NULL이면 배포 기본값(LLM_PROVIDER 환경변수) 사용
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS llm_provider VARCHAR(40);
@@ -0,0 +1,5 @@
+-- Session speech settings (세션별 음성 설정)
+-- { ttsProvider, sttProvider, voice, language }
+-- NULL이면 배포 기본값(TTS_PROVIDER, STT_PROVIDER, SPEECH_LANGUAGE) 사용
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS speech_settings JSONB;
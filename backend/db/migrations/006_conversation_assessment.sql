@@ -0,0 +1,5 @@
+-- Answer assessment per student turn (답변 품질 분류)
+-- { quality: specific | vague | contradictory | off_topic, authorshipShown, rationale }
+-- 적응형 질문 전략(services/questionStrategy.js)이 기록하며, 분류하지 못한 답변은 NULL
+
+ALTER TABLE interview_conversations ADD COLUMN IF NOT EXISTS assessment JSONB;
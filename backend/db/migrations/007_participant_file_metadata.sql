@@ -0,0 +1,7 @@
+-- Stored submission metadata (제출 파일 보관)
+-- submitted_file_url: local://<key> 또는 s3://<bucket>/<key> (services/fileStorage)
+-- 파일은 SHA-256 내용 해시로 저장된다
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS submitted_file_type VARCHAR(150);
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS submitted_file_size INT;
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS submitted_file_sha256 CHAR(64);
@@ -0,0 +1,5 @@
+-- Cited assignment passages per AI question (질문 인용 구간)
+-- [{ start, end, quote }] - start/end는 student_participants.extracted_text의 문자 위치
+-- 교사 상세 화면과 학생 채팅에서 질문을 누르면 해당 구간을 강조한다
+
+ALTER TABLE interview_conversations ADD COLUMN IF NOT EXISTS citations JSONB;
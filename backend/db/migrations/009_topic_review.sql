@@ -0,0 +1,30 @@
+-- Topic review before the interview (인터뷰 전 주제 검토)
+-- topic_review_policy: 'student' (학생이 확정/수정/재분석) | 'teacher' (교사가 확정)
+-- topics_fallback: 주제 분석이 실패해 기본 주제("주제 1" 등)가 사용됨 → 교사 화면에 표시
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS topic_review_policy VARCHAR(20) DEFAULT 'student';
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS topics_fallback BOOLEAN DEFAULT false;
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS topics_confirmed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS topics_confirmed_by VARCHAR(20);
+
+-- 검토 단계 도입 전에 제출한 학생은 확정된 것으로 간주
+UPDATE student_participants
+SET topics_confirmed_at = COALESCE(file_submitted_at, NOW()),
+    topics_confirmed_by = 'system'
+WHERE analyzed_topics IS NOT NULL
+  AND topics_confirmed_at IS NULL;
+
+-- Topic analysis log (주제 분석/수정 이력)
+-- action: upload | student_reanalysis | teacher_reanalysis | student_edit | teacher_edit
+CREATE TABLE IF NOT EXISTS topic_analysis_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  action VARCHAR(30) NOT NULL,
+  topics JSONB NOT NULL,
+  fallback BOOLEAN DEFAULT false,
+  llm_provider VARCHAR(40),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_analysis_logs_participant ON topic_analysis_logs(participant_id);
@@ -0,0 +1,7 @@
+-- Teacher-defined topics and questions (교사 지정 주제/질문)
+-- topic_mode: 'ai' (과제 분석) | 'fixed' (교사 지정 주제만) | 'hybrid' (교사 지정 + 과제 분석)
+-- question_bank: { topics: [{ id, title, seedQuestions, mandatoryQuestions }], mandatoryQuestions }
+-- 구조는 services/questionBank.js 참고
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS topic_mode VARCHAR(20) DEFAULT 'ai';
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS question_bank JSONB;
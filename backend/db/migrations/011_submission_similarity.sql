@@ -0,0 +1,18 @@
+-- Cross-submission similarity (세션 내 제출물 간 유사도)
+-- text_signature: extracted_text의 MinHash 서명 (services/similarity.js)
+-- submission_similarities: 기준 이상으로 유사한 제출물 쌍 (participant_a_id < participant_b_id)
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS text_signature JSONB;
+
+CREATE TABLE IF NOT EXISTS submission_similarities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+  participant_a_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  participant_b_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  score NUMERIC(5, 4) NOT NULL,
+  passages JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (participant_a_id, participant_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_similarities_session ON submission_similarities(session_id);
@@ -0,0 +1,4 @@
+-- Answer behavior telemetry (채팅 답변 입력 행동 기록)
+-- telemetry: 학생 답변 행에만 저장 - 첫 입력까지 시간, 입력 시간, 붙여넣기, 화면 이탈 (services/answerTelemetry.js)
+
+ALTER TABLE interview_conversations ADD COLUMN IF NOT EXISTS telemetry JSONB;
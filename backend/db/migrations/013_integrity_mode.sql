@@ -0,0 +1,21 @@
+-- Integrity mode (세션 무결성 모드)
+-- integrity_mode: 채팅 붙여넣기 차단, 화면 이탈 시 전체 화면 경고 및 기록
+-- focus_penalty_seconds: 화면 이탈마다 현재 주제 시간에서 차감 (0 = 차감 없음)
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS integrity_mode BOOLEAN DEFAULT false;
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS focus_penalty_seconds INTEGER DEFAULT 0;
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS focus_loss_count INTEGER DEFAULT 0;
+
+-- type: focus_lost | focus_returned | paste_blocked
+CREATE TABLE IF NOT EXISTS integrity_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL,
+  topic_index INTEGER,
+  duration_ms INTEGER,
+  penalty_seconds INTEGER DEFAULT 0,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_integrity_events_participant ON integrity_events(participant_id);
@@ -0,0 +1,23 @@
+-- Student audio retention (음성 답변 녹음 보관)
+-- audio_retention_days: 세션 설정 (NULL이면 보관하지 않음), audio_consent_at: 참여 시 학생 동의 시각
+-- answer_recordings: 보관 중인 녹음 (expires_at이 지나면 workers/audioRetention.js가 파일과 함께 삭제)
+-- interview_conversations.recording_id: 학생 답변 행에 연결된 녹음
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS audio_retention_days INTEGER;
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS audio_consent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS answer_recordings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  storage_url TEXT NOT NULL,
+  content_type VARCHAR(100),
+  size_bytes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_recordings_participant ON answer_recordings(participant_id);
+CREATE INDEX IF NOT EXISTS idx_answer_recordings_expires ON answer_recordings(expires_at);
+
+ALTER TABLE interview_conversations
+  ADD COLUMN IF NOT EXISTS recording_id UUID REFERENCES answer_recordings(id) ON DELETE SET NULL;
@@ -0,0 +1,33 @@
+-- Teacher override and evaluation history (교사 최종 판정과 평가 이력)
+-- participant_evaluations: 참가자별 평가 버전 (kind 'ai': generateSummary 결과, 'teacher': 교사 판정)
+-- student_participants.teacher_evaluation: 현재 교사 판정 { verdict, score, comment, version, decidedAt } (없으면 AI 평가 사용)
+-- interview_conversations.teacher_annotation: 대화 턴별 교사 주석
+
+CREATE TABLE IF NOT EXISTS participant_evaluations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  summary JSONB,
+  llm_provider VARCHAR(50),
+  instructions TEXT,
+  fallback BOOLEAN DEFAULT false,
+  verdict VARCHAR(20),
+  score INTEGER,
+  comment TEXT,
+  teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (participant_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_evaluations_participant ON participant_evaluations(participant_id);
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS teacher_evaluation JSONB;
+ALTER TABLE interview_conversations ADD COLUMN IF NOT EXISTS teacher_annotation TEXT;
+
+-- 기존 AI 평가를 1번 버전으로 기록
+INSERT INTO participant_evaluations (participant_id, version, kind, summary, created_at)
+SELECT p.id, 1, 'ai', p.summary, COALESCE(p.interview_ended_at, NOW())
+FROM student_participants p
+WHERE p.summary IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM participant_evaluations e WHERE e.participant_id = p.id);
@@ -0,0 +1,19 @@
+-- Teacher intervention on live interviews (진행 중 인터뷰 교사 조치)
+-- interview_states.teacher_paused_at: 교사 일시정지 시각 (설정되어 있으면 주제 시간이 흐르지 않음, 재개 시 topic_started_at을 미룸)
+-- interview_interventions: 교사 조치 감사 기록 (시간 연장, 주제 건너뛰기, 일시정지/재개, 강제 종료, 초기화)
+
+ALTER TABLE interview_states ADD COLUMN IF NOT EXISTS teacher_paused_at TIMESTAMP WITH TIME ZONE;
+
+-- action: extend_time | skip_topic | pause | resume | force_complete | reset
+-- details: { seconds } (extend_time), { previousStatus } (reset) 등
+CREATE TABLE IF NOT EXISTS interview_interventions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  action VARCHAR(30) NOT NULL,
+  topic_index INTEGER,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_interventions_participant ON interview_interventions(participant_id);
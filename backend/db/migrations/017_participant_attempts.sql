@@ -0,0 +1,49 @@
+-- Multiple attempts per participant (재응시)
+-- assignment_sessions.max_attempts: 학생당 기본 응시 횟수 (1 = 재응시 없음)
+-- student_participants.attempt_number: 현재 응시 회차, extra_attempts: 교사가 추가로 허용한 횟수
+-- participant_attempts: 지난 회차 기록 (재응시할 때 현재 회차를 여기에 보관)
+--   보관된 회차의 interview_states, interview_conversations는 participant_id 대신 attempt_id로 연결되고
+--   integrity_events, participant_evaluations, topic_analysis_logs는 participant_id를 유지한 채 attempt_id가 채워진다
+--   (attempt_id IS NULL = 현재 회차)
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 1;
+
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS attempt_number INTEGER DEFAULT 1;
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS extra_attempts INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS participant_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES student_participants(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  status VARCHAR(30) NOT NULL,
+  chosen_interview_mode VARCHAR(20),
+  submitted_file_url TEXT,
+  submitted_file_name VARCHAR(255),
+  submitted_file_type VARCHAR(150),
+  submitted_file_size INTEGER,
+  extracted_text TEXT,
+  analyzed_topics JSONB,
+  summary JSONB,
+  teacher_evaluation JSONB,
+  focus_loss_count INTEGER DEFAULT 0,
+  file_submitted_at TIMESTAMP WITH TIME ZONE,
+  interview_started_at TIMESTAMP WITH TIME ZONE,
+  interview_ended_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (participant_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_attempts_participant ON participant_attempts(participant_id);
+
+ALTER TABLE interview_states
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES participant_attempts(id) ON DELETE CASCADE;
+ALTER TABLE interview_conversations
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES participant_attempts(id) ON DELETE CASCADE;
+ALTER TABLE integrity_events
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES participant_attempts(id) ON DELETE CASCADE;
+ALTER TABLE participant_evaluations
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES participant_attempts(id) ON DELETE CASCADE;
+ALTER TABLE topic_analysis_logs
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES participant_attempts(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_attempt ON interview_conversations(attempt_id);
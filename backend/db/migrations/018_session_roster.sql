@@ -0,0 +1,36 @@
+-- Student roster and identity check on join (학생 명단과 참여 시 본인 확인)
+-- assignment_sessions.join_policy: open(누구나 이름으로 참여) | roster(명단의 이름+학번) | pin(명단 + 학생별 PIN) | one_time_code(명단 + 1회용 코드)
+-- session_roster: 교사가 CSV로 가져온 명단 (pin, one_time_code는 가져올 때 생성, code_used_at: 1회용 코드 사용 시각)
+-- join_conflicts: 중복 참여/본인 확인 실패 기록 → 교사 화면에 표시
+
+ALTER TABLE assignment_sessions ADD COLUMN IF NOT EXISTS join_policy VARCHAR(20) DEFAULT 'open';
+
+CREATE TABLE IF NOT EXISTS session_roster (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+  student_name VARCHAR(100) NOT NULL,
+  student_id VARCHAR(50) NOT NULL,
+  email VARCHAR(255),
+  pin VARCHAR(10) NOT NULL,
+  one_time_code VARCHAR(12) NOT NULL,
+  code_used_at TIMESTAMP WITH TIME ZONE,
+  participant_id UUID REFERENCES student_participants(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_roster_session ON session_roster(session_id);
+
+-- reason: rejoin | not_on_roster | invalid_credential | code_reused
+CREATE TABLE IF NOT EXISTS join_conflicts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+  roster_id UUID REFERENCES session_roster(id) ON DELETE SET NULL,
+  participant_id UUID REFERENCES student_participants(id) ON DELETE SET NULL,
+  student_name VARCHAR(100),
+  student_id VARCHAR(50),
+  reason VARCHAR(30) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_join_conflicts_session ON join_conflicts(session_id);
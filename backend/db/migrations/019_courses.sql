@@ -0,0 +1,40 @@
+-- Courses/classes above sessions (과목/반)
+-- courses: 교사의 과목(반) - 학기 단위로 세션을 묶는다 (archived_at: 보관 처리, 목록에서 숨김)
+-- course_students: 과목 명단 (세션 명단으로 복사해 참여 확인에 사용, 학번으로 세션 참여 기록과 연결)
+-- assignment_sessions.course_id: 소속 과목 (과목을 삭제하면 세션은 과목 없음으로 남는다)
+
+CREATE TABLE IF NOT EXISTS courses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  teacher_id UUID REFERENCES teachers(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  term VARCHAR(50),
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_courses_teacher ON courses(teacher_id);
+
+CREATE TABLE IF NOT EXISTS course_students (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+  student_name VARCHAR(100) NOT NULL,
+  student_id VARCHAR(50) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (course_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_students_course ON course_students(course_id);
+
+ALTER TABLE assignment_sessions
+  ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES courses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_course ON assignment_sessions(course_id);
+
+DROP TRIGGER IF EXISTS update_courses_updated_at ON courses;
+CREATE TRIGGER update_courses_updated_at
+    BEFORE UPDATE ON courses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
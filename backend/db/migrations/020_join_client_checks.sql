@@ -0,0 +1,8 @@
+-- Per-client join checks (참여 확인 실패는 클라이언트별로, 중복 참여는 실제로 겹칠 때만 기록)
+-- join_conflicts.client_ip: PIN/1회용 코드 확인 실패를 명단 학생 + 요청 IP 단위로 센다 (다른 사람이 틀린 PIN으로 학생을 잠그지 못하도록)
+-- student_participants.join_device_id: 참여 화면이 브라우저에 저장해 두고 보내는 기기 식별자 (같은 기기의 재참여는 중복 참여가 아님)
+
+ALTER TABLE join_conflicts ADD COLUMN IF NOT EXISTS client_ip VARCHAR(64);
+ALTER TABLE student_participants ADD COLUMN IF NOT EXISTS join_device_id VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_join_conflicts_roster_client ON join_conflicts(roster_id, client_ip);
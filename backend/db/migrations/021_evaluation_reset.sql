@@ -0,0 +1,4 @@
+-- Evaluations cleared by a teacher reset (교사 초기화로 현재 결과에서 빠진 평가)
+-- participant_evaluations.reset_at: 인터뷰 초기화 시각. 행은 기록으로 남기고 현재 회차의 평가 이력에서는 제외한다
+
+ALTER TABLE participant_evaluations ADD COLUMN IF NOT EXISTS reset_at TIMESTAMP WITH TIME ZONE;
@@ -4,6 +4,7 @@ import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import db from './db/connection.js';
 import { startDisconnectChecker, stopDisconnectChecker } from './workers/disconnectChecker.js';
+import { startAudioRetention, stopAudioRetention } from './workers/audioRetention.js';
 
 // Routes
 import authRoutes from './routes/auth.js';
@@ -11,12 +12,24 @@ import sessionRoutes from './routes/sessions.js';
 import joinRoutes from './routes/join.js';
 import interviewRoutes from './routes/interview.js';
 import speechRoutes from './routes/speech.js';
+import courseRoutes from './routes/courses.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// 프록시 뒤에서 req.ip가 학생 IP가 되도록 (요청 제한, 참여 PIN 확인 실패 횟수가 IP 기준)
+// TRUST_PROXY: 프록시 단계 수, true/false 또는 신뢰할 주소 (기본: production 1, 그 외 loopback)
+const trustProxy = process.env.TRUST_PROXY ?? (process.env.NODE_ENV === 'production' ? '1' : 'loopback');
+if (/^\d+$/.test(trustProxy)) {
+  app.set('trust proxy', Number(trustProxy));
+} else if (trustProxy === 'true' || trustProxy === 'false') {
+  app.set('trust proxy', trustProxy === 'true');
+} else {
+  app.set('trust proxy', trustProxy);
+}
+
 // CORS 설정 - 환경변수와 기본 도메인 병합
 const defaultOrigins = [
   'http://localhost:3010',
@@ -94,6 +107,7 @@ app.use('/api/sessions', sessionRoutes);
 app.use('/api/join', joinRoutes);
 app.use('/api/interview', interviewRoutes);
 app.use('/api/speech', speechRoutes);
+app.use('/api/courses', courseRoutes);
 
 // 404 handler
 app.use('/api/*', (req, res) => {
@@ -126,6 +140,7 @@ async function gracefulShutdown(signal) {
 
   // 워커 중지
   stopDisconnectChecker();
+  stopAudioRetention();
 
   // 새 연결 거부하지 않고 기존 연결 처리 대기
   server.close(async () => {
@@ -162,6 +177,10 @@ const server = app.listen(PORT, async () => {
   startDisconnectChecker();
   console.log('✅ Disconnect checker worker started');
 
+  // 녹음 보관 기간 만료 워커 시작
+  startAudioRetention();
+  console.log('✅ Audio retention worker started');
+
   console.log(`\n📋 Available endpoints:`);
   console.log(`   GET  /health`);
   console.log(`   POST /api/auth/register`);
@@ -170,6 +189,8 @@ const server = app.listen(PORT, async () => {
   console.log(`   GET  /api/auth/me`);
   console.log(`   GET  /api/sessions`);
   console.log(`   POST /api/sessions`);
+  console.log(`   GET  /api/sessions/rubric/default`);
+  console.log(`   GET  /api/sessions/llm/providers`);
   console.log(`   GET  /api/sessions/:id`);
   console.log(`   PUT  /api/sessions/:id`);
   console.log(`   DELETE /api/sessions/:id`);
@@ -177,16 +198,55 @@ const server = app.listen(PORT, async () => {
   console.log(`   POST /api/sessions/:id/close`);
   console.log(`   GET  /api/sessions/:id/qr`);
   console.log(`   GET  /api/sessions/:id/participants`);
+  console.log(`   GET  /api/sessions/:id/events`);
+  console.log(`   GET  /api/sessions/:id/export`);
+  console.log(`   GET  /api/sessions/:id/reports`);
+  console.log(`   GET  /api/sessions/:id/roster`);
+  console.log(`   POST /api/sessions/:id/roster`);
+  console.log(`   POST /api/sessions/:id/roster/from-course`);
+  console.log(`   GET  /api/sessions/:id/roster/export`);
+  console.log(`   POST /api/sessions/:id/roster/:rosterId/reissue`);
+  console.log(`   DELETE /api/sessions/:id/roster/:rosterId`);
+  console.log(`   GET  /api/sessions/:id/similarity`);
+  console.log(`   POST /api/sessions/:id/similarity/recompute`);
+  console.log(`   GET  /api/sessions/:id/similarity/:pairId`);
+  console.log(`   GET  /api/sessions/:id/participants/:pid/file`);
+  console.log(`   GET  /api/sessions/:id/participants/:pid/recordings/:recordingId`);
+  console.log(`   GET  /api/sessions/:id/participants/:pid/report`);
+  console.log(`   PUT  /api/sessions/:id/participants/:pid/notes`);
+  console.log(`   POST /api/sessions/:id/participants/:pid/interventions`);
+  console.log(`   POST /api/sessions/:id/participants/:pid/attempts/grant`);
+  console.log(`   GET  /api/sessions/:id/participants/:pid/attempts/:attemptId`);
+  console.log(`   PUT  /api/sessions/:id/participants/:pid/evaluation`);
+  console.log(`   POST /api/sessions/:id/participants/:pid/evaluation/regrade`);
+  console.log(`   PUT  /api/sessions/:id/participants/:pid/turns/:turnId/annotation`);
+  console.log(`   PUT  /api/sessions/:id/participants/:pid/topics`);
+  console.log(`   POST /api/sessions/:id/participants/:pid/topics/reanalyze`);
+  console.log(`   GET  /api/courses`);
+  console.log(`   POST /api/courses`);
+  console.log(`   GET  /api/courses/:id`);
+  console.log(`   PUT  /api/courses/:id`);
+  console.log(`   DELETE /api/courses/:id`);
+  console.log(`   POST /api/courses/:id/students`);
+  console.log(`   DELETE /api/courses/:id/students/:studentId`);
+  console.log(`   GET  /api/courses/:id/gradebook`);
+  console.log(`   GET  /api/courses/:id/students/:studentId/history`);
   console.log(`   GET  /api/join/:accessCode`);
   console.log(`   POST /api/join/:accessCode`);
   console.log(`   POST /api/join/reconnect`);
+  console.log(`   GET  /api/interview/upload-formats`);
   console.log(`   POST /api/interview/upload`);
+  console.log(`   PUT  /api/interview/topics`);
+  console.log(`   POST /api/interview/topics/reanalyze`);
   console.log(`   POST /api/interview/start`);
   console.log(`   GET  /api/interview/state`);
   console.log(`   POST /api/interview/heartbeat`);
   console.log(`   POST /api/interview/answer`);
+  console.log(`   POST /api/interview/answer/stream`);
   console.log(`   POST /api/interview/next-topic`);
   console.log(`   POST /api/interview/complete`);
+  console.log(`   GET  /api/interview/attempts`);
+  console.log(`   POST /api/interview/retake`);
   console.log(`   GET  /api/speech/status`);
   console.log(`   POST /api/speech/tts`);
   console.log(`   POST /api/speech/stt`);
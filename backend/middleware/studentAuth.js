@@ -1,10 +1,24 @@
 import db from '../db/connection.js';
+import { publishSessionEvent } from '../services/sessionEvents.js';
+import { attemptPolicy } from '../services/attempts.js';
 
 /**
  * Student session token authentication middleware
  * Verifies session token and attaches participant info to request
  */
 export async function authenticateStudent(req, res, next) {
+  return authenticate(req, res, next, { allowEnded: false });
+}
+
+/**
+ * Same as authenticateStudent, but also lets in participants whose interview has ended
+ * (abandoned, timeout) - used by the retake routes
+ */
+export async function authenticateEndedStudent(req, res, next) {
+  return authenticate(req, res, next, { allowEnded: true });
+}
+
+async function authenticate(req, res, next, { allowEnded }) {
   try {
     const authHeader = req.headers.authorization;
     const xSessionToken = req.headers['x-session-token'];
@@ -26,9 +40,13 @@ export async function authenticateStudent(req, res, next) {
         p.submitted_file_url, p.submitted_file_name, p.extracted_text,
         p.analyzed_topics, p.chosen_interview_mode, p.disconnected_at,
         p.last_active_at, p.summary,
+        p.topics_fallback, p.topics_confirmed_at, p.topics_confirmed_by, p.audio_consent_at,
+        p.attempt_number, p.extra_attempts,
         s.title as session_title, s.topic_count, s.topic_duration,
         s.interview_mode as session_interview_mode, s.status as session_status,
-        s.reconnect_timeout, s.ends_at
+        s.reconnect_timeout, s.ends_at, s.rubric, s.llm_provider, s.speech_settings,
+        s.topic_review_policy, s.topic_mode, s.question_bank,
+        s.integrity_mode, s.focus_penalty_seconds, s.audio_retention_days, s.max_attempts
       FROM student_participants p
       JOIN assignment_sessions s ON p.session_id = s.id
       WHERE p.session_token = $1`,
@@ -54,14 +72,15 @@ export async function authenticateStudent(req, res, next) {
       return res.status(403).json({ error: 'Session has ended' });
     }
 
-    // Check if participant is abandoned or timed out (cannot continue)
-    if (participant.status === 'abandoned' || participant.status === 'timeout') {
+    // Check if participant is abandoned or timed out (cannot continue, 남은 횟수가 있으면 재응시 가능)
+    if (!allowEnded && (participant.status === 'abandoned' || participant.status === 'timeout')) {
       return res.status(403).json({
         error: 'Cannot continue interview',
         status: participant.status,
         message: participant.status === 'abandoned'
           ? 'Reconnection timeout exceeded'
-          : 'Interview time exceeded'
+          : 'Interview time exceeded',
+        attempts: attemptPolicy(participant),
       });
     }
 
@@ -125,6 +144,13 @@ export async function checkReconnection(req, res, next) {
       [participant.id]
     );
 
+    publishSessionEvent(participant.session_id, 'reconnected', {
+      participantId: participant.id,
+      studentName: participant.student_name,
+      status: participant.status === 'interview_paused' ? 'interview_in_progress' : participant.status,
+      disconnectedDuration: Math.floor(disconnectedDuration),
+    });
+
     // Add reconnection info to request
     req.reconnectionInfo = {
       wasDisconnected: true,
@@ -174,6 +200,7 @@ export async function validateSessionToken(sessionToken) {
 
 export default {
   authenticateStudent,
+  authenticateEndedStudent,
   checkReconnection,
   validateSessionToken,
 };
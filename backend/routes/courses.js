@@ -0,0 +1,355 @@
+import express from 'express';
+import db from '../db/connection.js';
+import { authenticateTeacher } from '../middleware/auth.js';
+import { buildCourseGradebook, buildStudentHistory, validateCourse } from '../services/courses.js';
+import { MAX_ROSTER_SIZE, parseRosterCsv } from '../services/roster.js';
+
+const router = express.Router();
+
+async function loadCourse(courseId, teacherId) {
+  const result = await db.query(
+    'SELECT * FROM courses WHERE id = $1 AND teacher_id = $2',
+    [courseId, teacherId]
+  );
+  return result.rows[0] || null;
+}
+
+// 과목 세션 (오래된 순서 = 과제 순서)
+async function loadCourseSessions(courseId) {
+  const result = await db.query(
+    `SELECT s.id, s.title, s.status, s.access_code, s.created_at, s.ends_at,
+       (SELECT COUNT(*)::int FROM student_participants WHERE session_id = s.id) AS participant_count,
+       (SELECT COUNT(*)::int FROM student_participants WHERE session_id = s.id AND status = 'completed') AS completed_count
+     FROM assignment_sessions s
+     WHERE s.course_id = $1
+     ORDER BY s.created_at ASC`,
+    [courseId]
+  );
+  return result.rows;
+}
+
+async function loadCourseStudents(courseId) {
+  const result = await db.query(
+    `SELECT id, student_name, student_id, email, created_at
+     FROM course_students
+     WHERE course_id = $1
+     ORDER BY student_id ASC`,
+    [courseId]
+  );
+  return result.rows;
+}
+
+async function loadCourseParticipants(courseId) {
+  const result = await db.query(
+    `SELECT p.id, p.session_id, p.student_name, p.student_id, p.status, p.attempt_number,
+            p.summary, p.teacher_evaluation, p.registered_at, p.interview_ended_at
+     FROM student_participants p
+     JOIN assignment_sessions s ON s.id = p.session_id
+     WHERE s.course_id = $1`,
+    [courseId]
+  );
+  return result.rows;
+}
+
+/**
+ * GET /api/courses
+ * List the teacher's courses (archived=true 이면 보관한 과목 포함)
+ */
+router.get('/', authenticateTeacher, async (req, res) => {
+  try {
+    const includeArchived = req.query.archived === 'true';
+
+    const result = await db.query(
+      `SELECT c.*,
+         (SELECT COUNT(*)::int FROM assignment_sessions WHERE course_id = c.id) AS session_count,
+         (SELECT COUNT(*)::int FROM course_students WHERE course_id = c.id) AS student_count
+       FROM courses c
+       WHERE c.teacher_id = $1 ${includeArchived ? '' : 'AND c.archived_at IS NULL'}
+       ORDER BY c.archived_at IS NOT NULL, c.created_at DESC`,
+      [req.teacher.id]
+    );
+
+    res.json({ courses: result.rows });
+  } catch (error) {
+    console.error('List courses error:', error);
+    res.status(500).json({ error: 'Failed to list courses' });
+  }
+});
+
+/**
+ * POST /api/courses
+ * Create a course
+ */
+router.post('/', authenticateTeacher, async (req, res) => {
+  try {
+    const { course, error } = validateCourse(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const result = await db.query(
+      `INSERT INTO courses (teacher_id, name, description, term)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [req.teacher.id, course.name, course.description ?? null, course.term ?? null]
+    );
+
+    res.status(201).json({ message: 'Course created', course: result.rows[0] });
+  } catch (error) {
+    console.error('Create course error:', error);
+    res.status(500).json({ error: 'Failed to create course' });
+  }
+});
+
+/**
+ * GET /api/courses/:id
+ * Course with its sessions and roster
+ */
+router.get('/:id', authenticateTeacher, async (req, res) => {
+  try {
+    const course = await loadCourse(req.params.id, req.teacher.id);
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const [sessions, students] = await Promise.all([
+      loadCourseSessions(course.id),
+      loadCourseStudents(course.id),
+    ]);
+
+    res.json({ course, sessions, students });
+  } catch (error) {
+    console.error('Get course error:', error);
+    res.status(500).json({ error: 'Failed to get course' });
+  }
+});
+
+/**
+ * PUT /api/courses/:id
+ * Update course name, description, term, or archive it (archived: true/false)
+ */
+router.put('/:id', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { archived } = req.body;
+
+    const { course, error } = validateCourse(req.body, { partial: true });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const result = await db.query(
+      `UPDATE courses
+       SET name = COALESCE($1, name),
+           description = CASE WHEN $2::boolean THEN $3::text ELSE description END,
+           term = CASE WHEN $4::boolean THEN $5::varchar ELSE term END,
+           archived_at = CASE
+             WHEN $6::boolean IS NULL THEN archived_at
+             WHEN $6::boolean THEN COALESCE(archived_at, NOW())
+             ELSE NULL
+           END
+       WHERE id = $7 AND teacher_id = $8
+       RETURNING *`,
+      [
+        course.name ?? null,
+        'description' in course,
+        course.description ?? null,
+        'term' in course,
+        course.term ?? null,
+        typeof archived === 'boolean' ? archived : null,
+        id,
+        req.teacher.id,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    res.json({ message: 'Course updated', course: result.rows[0] });
+  } catch (error) {
+    console.error('Update course error:', error);
+    res.status(500).json({ error: 'Failed to update course' });
+  }
+});
+
+/**
+ * DELETE /api/courses/:id
+ * Delete a course (세션과 참여 기록은 과목 없음으로 남는다)
+ */
+router.delete('/:id', authenticateTeacher, async (req, res) => {
+  try {
+    const result = await db.query(
+      'DELETE FROM courses WHERE id = $1 AND teacher_id = $2 RETURNING id',
+      [req.params.id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    res.json({ message: 'Course deleted' });
+  } catch (error) {
+    console.error('Delete course error:', error);
+    res.status(500).json({ error: 'Failed to delete course' });
+  }
+});
+
+/**
+ * POST /api/courses/:id/students
+ * Import the course roster CSV (이름, 학번, 이메일) - 같은 학번은 갱신,
+ * replace: true 이면 파일에 없는 학생 삭제 (세션 참여 기록은 남는다)
+ */
+router.post('/:id/students', authenticateTeacher, async (req, res) => {
+  try {
+    const { csv, replace = false } = req.body;
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'Roster CSV is required' });
+    }
+
+    const course = await loadCourse(req.params.id, req.teacher.id);
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const { entries, errors } = parseRosterCsv(csv);
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'No valid students in the roster', details: errors });
+    }
+
+    const studentIds = entries.map((entry) => entry.studentId);
+    const keptResult = await db.query(
+      `SELECT COUNT(*)::int AS count FROM course_students
+       WHERE course_id = $1 AND NOT (student_id = ANY($2)) AND $3::boolean = false`,
+      [course.id, studentIds, replace === true]
+    );
+    if (keptResult.rows[0].count + entries.length > MAX_ROSTER_SIZE) {
+      return res.status(400).json({ error: `A roster can have at most ${MAX_ROSTER_SIZE} students` });
+    }
+
+    const counts = await db.transaction(async (client) => {
+      let added = 0;
+      let updated = 0;
+      for (const entry of entries) {
+        const result = await client.query(
+          `INSERT INTO course_students (course_id, student_name, student_id, email)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (course_id, student_id)
+           DO UPDATE SET student_name = EXCLUDED.student_name, email = EXCLUDED.email
+           RETURNING (xmax = 0) AS inserted`,
+          [course.id, entry.studentName, entry.studentId, entry.email]
+        );
+        if (result.rows[0].inserted) added++;
+        else updated++;
+      }
+
+      let removed = 0;
+      if (replace === true) {
+        const removedResult = await client.query(
+          'DELETE FROM course_students WHERE course_id = $1 AND NOT (student_id = ANY($2))',
+          [course.id, studentIds]
+        );
+        removed = removedResult.rowCount;
+      }
+      return { added, updated, removed };
+    });
+
+    res.json({
+      message: 'Roster imported',
+      ...counts,
+      errors,
+      students: await loadCourseStudents(course.id),
+    });
+  } catch (error) {
+    console.error('Import course roster error:', error);
+    res.status(500).json({ error: 'Failed to import roster' });
+  }
+});
+
+/**
+ * DELETE /api/courses/:id/students/:studentId
+ * Remove a student from the course roster
+ */
+router.delete('/:id/students/:studentId', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, studentId } = req.params;
+
+    const result = await db.query(
+      `DELETE FROM course_students cs
+       USING courses c
+       WHERE cs.id = $1 AND cs.course_id = c.id AND c.id = $2 AND c.teacher_id = $3
+       RETURNING cs.id`,
+      [studentId, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ message: 'Removed from roster' });
+  } catch (error) {
+    console.error('Delete course student error:', error);
+    res.status(500).json({ error: 'Failed to remove from roster' });
+  }
+});
+
+/**
+ * GET /api/courses/:id/gradebook
+ * Scores of every course student in every course session (과목 성적표)
+ */
+router.get('/:id/gradebook', authenticateTeacher, async (req, res) => {
+  try {
+    const course = await loadCourse(req.params.id, req.teacher.id);
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const [sessions, students, participants] = await Promise.all([
+      loadCourseSessions(course.id),
+      loadCourseStudents(course.id),
+      loadCourseParticipants(course.id),
+    ]);
+
+    res.json(buildCourseGradebook(sessions, students, participants));
+  } catch (error) {
+    console.error('Get course gradebook error:', error);
+    res.status(500).json({ error: 'Failed to get gradebook' });
+  }
+});
+
+/**
+ * GET /api/courses/:id/students/:studentId/history
+ * One student's results across all course sessions (학생별 세션 이력)
+ */
+router.get('/:id/students/:studentId/history', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, studentId } = req.params;
+
+    const course = await loadCourse(id, req.teacher.id);
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const studentResult = await db.query(
+      'SELECT id, student_name, student_id, email FROM course_students WHERE id = $1 AND course_id = $2',
+      [studentId, course.id]
+    );
+    if (studentResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const student = studentResult.rows[0];
+    const [sessions, participants] = await Promise.all([
+      loadCourseSessions(course.id),
+      loadCourseParticipants(course.id),
+    ]);
+
+    res.json({ student, ...buildStudentHistory(student, sessions, participants) });
+  } catch (error) {
+    console.error('Get student history error:', error);
+    res.status(500).json({ error: 'Failed to get student history' });
+  }
+});
+
+export default router;
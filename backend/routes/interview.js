@@ -1,16 +1,205 @@
 import express from 'express';
 import multer from 'multer';
-import pdfParse from 'pdf-parse';
 import db from '../db/connection.js';
-import { authenticateStudent, checkReconnection } from '../middleware/studentAuth.js';
-import { analyzeAssignment, generateQuestion, generateSummary } from '../services/llm.js';
+import { authenticateEndedStudent, authenticateStudent, checkReconnection } from '../middleware/studentAuth.js';
+import { analyzeSessionTopics, assessAnswer, generateQuestion, generateSummary } from '../services/llm.js';
+import { MAX_ANSWERS_PER_TOPIC, planNextStep } from '../services/questionStrategy.js';
+import { mergeTopics, nextMandatoryQuestion } from '../services/questionBank.js';
+import { MAX_STUDENT_REANALYSES, applyTopicEdits, topicReviewState } from '../services/topicReview.js';
+import { normalizeSummary } from '../services/summarySchema.js';
+import { findSimilarPairs, submissionSignature } from '../services/similarity.js';
+import { normalizeTelemetry } from '../services/answerTelemetry.js';
+import { applyFocusPenalty, integritySettings, normalizeIntegrityEvents } from '../services/integrity.js';
+import { TIMED_PHASES, topicTimeLeft } from '../services/interviewControl.js';
+import { attemptPolicy } from '../services/attempts.js';
+import { ExtractionError, extractDocument, listSupportedFormats } from '../services/documentExtraction/index.js';
+import { storeSubmission } from '../services/fileStorage/index.js';
+import { publishSessionEvent, topicEventFields } from '../services/sessionEvents.js';
+import { getLLMProvider } from '../services/llmProviders/index.js';
 
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 15 * 1024 * 1024 } });
 
+/**
+ * Publish a live event for the authenticated participant (교사 실시간 모니터링)
+ */
+function publishParticipantEvent(participant, type, extra = {}) {
+  publishSessionEvent(participant.session_id, type, {
+    participantId: participant.id,
+    studentName: participant.student_name,
+    ...extra,
+  });
+}
+
+/**
+ * Record a topic analysis or edit (topic_analysis_logs)
+ */
+async function logTopicAnalysis(participant, action, { topics, fallback = false }) {
+  await db.query(
+    `INSERT INTO topic_analysis_logs (participant_id, action, topics, fallback, llm_provider)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      participant.id,
+      action,
+      JSON.stringify(topics),
+      fallback,
+      action.endsWith('_edit') ? null : getLLMProvider(participant.llm_provider).name,
+    ]
+  );
+}
+
+/**
+ * Analyze topics according to the session topic mode (교사 지정 주제 + 과제 분석)
+ */
+function analyzeParticipantTopics(participant, assignmentText) {
+  return analyzeSessionTopics({
+    assignmentText,
+    topicMode: participant.topic_mode,
+    questionBank: participant.question_bank,
+    topicCount: participant.topic_count,
+    provider: participant.llm_provider,
+  });
+}
+
+/**
+ * Compare a new submission with the rest of the session (submission_similarities)
+ */
+async function checkSubmissionSimilarity(participant, assignmentText) {
+  const signature = submissionSignature(assignmentText);
+  await db.query(
+    'UPDATE student_participants SET text_signature = $1 WHERE id = $2',
+    [signature ? JSON.stringify(signature) : null, participant.id]
+  );
+  if (!signature) return;
+
+  const others = await db.query(
+    `SELECT id, extracted_text AS text, text_signature AS signature
+     FROM student_participants
+     WHERE session_id = $1 AND id <> $2 AND text_signature IS NOT NULL`,
+    [participant.session_id, participant.id]
+  );
+
+  const pairs = findSimilarPairs({ id: participant.id, text: assignmentText, signature }, others.rows);
+  for (const pair of pairs) {
+    await db.query(
+      `INSERT INTO submission_similarities (session_id, participant_a_id, participant_b_id, score, passages)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (participant_a_id, participant_b_id)
+       DO UPDATE SET score = EXCLUDED.score, passages = EXCLUDED.passages, created_at = NOW()`,
+      [participant.session_id, pair.participantAId, pair.participantBId, pair.score, JSON.stringify(pair.passages)]
+    );
+  }
+}
+
+/**
+ * Shorten the current topic once per focus loss under a row lock (답변 처리나 교사 조치와 동시에 일어나도 차감이 사라지지 않도록)
+ * @returns {Promise<{ state: object, penalties: number[] }>} locked state after the penalty and the seconds applied per focus loss
+ */
+function applyFocusPenalties(participant, state, focusLosses, penaltySeconds) {
+  return withLockedState(participant, async (current, client) => {
+    if (!current || current.current_phase !== 'topic_active' || !penaltySeconds) {
+      return { state: current || state, penalties: focusLosses.map(() => 0) };
+    }
+
+    let topicsState = current.topics_state;
+    const penalties = focusLosses.map(() => {
+      const result = applyFocusPenalty(topicsState, current.current_topic_index, penaltySeconds);
+      topicsState = result.topicsState;
+      return result.applied;
+    });
+
+    if (penalties.some((applied) => applied > 0)) {
+      await client.query(
+        'UPDATE interview_states SET topics_state = $1, updated_at = NOW() WHERE participant_id = $2',
+        [JSON.stringify(topicsState), participant.id]
+      );
+    }
+    return { state: { ...current, topics_state: topicsState }, penalties };
+  });
+}
+
+/**
+ * Record integrity-mode events sent with a heartbeat (화면 이탈 시간 차감 포함)
+ * @returns {Promise<object>} interview state with the updated topics_state
+ */
+async function recordIntegrityEvents(participant, state, input) {
+  const events = normalizeIntegrityEvents(input);
+  if (events.length === 0) return state;
+
+  const { penaltySeconds } = integritySettings(participant);
+  const focusLosses = events.filter((event) => event.type === 'focus_lost');
+  const penalized = focusLosses.length > 0
+    ? await applyFocusPenalties(participant, state, focusLosses, penaltySeconds)
+    : { state, penalties: [] };
+  let focusLossCount = null;
+
+  for (const event of events) {
+    let penalty = 0;
+    if (event.type === 'focus_lost') {
+      penalty = penalized.penalties[focusLosses.indexOf(event)];
+      const counted = await db.query(
+        `UPDATE student_participants SET focus_loss_count = COALESCE(focus_loss_count, 0) + 1
+         WHERE id = $1 RETURNING focus_loss_count`,
+        [participant.id]
+      );
+      focusLossCount = counted.rows[0].focus_loss_count;
+    }
+
+    await db.query(
+      `INSERT INTO integrity_events (participant_id, type, topic_index, duration_ms, penalty_seconds, occurred_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [participant.id, event.type, penalized.state.current_topic_index, event.durationMs, penalty, event.occurredAt]
+    );
+
+    publishParticipantEvent(participant, 'integrity', {
+      status: participant.status,
+      integrityType: event.type,
+      durationMs: event.durationMs,
+      penaltySeconds: penalty,
+      ...(focusLossCount !== null && { focusLossCount }),
+    });
+  }
+
+  return penalized.state;
+}
+
+/**
+ * Most recent teacher intervention (학생 화면이 heartbeat로 확인해 안내를 띄운다)
+ */
+async function loadLatestIntervention(participant) {
+  const result = await db.query(
+    `SELECT id, action, details, created_at FROM interview_interventions
+     WHERE participant_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [participant.id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Topic review status incl. remaining student re-analyses
+ */
+async function loadTopicReview(participant) {
+  const countResult = await db.query(
+    `SELECT COUNT(*)::int AS count FROM topic_analysis_logs
+     WHERE participant_id = $1 AND attempt_id IS NULL AND action = 'student_reanalysis'`,
+    [participant.id]
+  );
+  return topicReviewState(participant, countResult.rows[0].count);
+}
+
+/**
+ * GET /api/interview/upload-formats
+ * Accepted assignment file formats (이미지는 OCR이 설정된 경우에만)
+ */
+router.get('/upload-formats', authenticateStudent, (req, res) => {
+  res.json({ formats: listSupportedFormats() });
+});
+
 /**
  * POST /api/interview/upload
- * Upload assignment file and analyze topics
+ * Upload assignment file (PDF, DOCX, HWP/HWPX, TXT, MD, images with OCR) and analyze topics
  */
 router.post('/upload', authenticateStudent, upload.single('file'), async (req, res) => {
   try {
@@ -27,48 +216,101 @@ router.post('/upload', authenticateStudent, upload.single('file'), async (req, r
     // Check for file or text
     let assignmentText = req.body.assignmentText;
     let fileName = 'text_input';
+    let storedFile = null;
 
     if (req.file) {
-      // Parse PDF
       try {
-        const parsed = await pdfParse(req.file.buffer);
-        assignmentText = parsed.text;
+        const extracted = await extractDocument(req.file.buffer, {
+          fileName: req.file.originalname,
+          mimetype: req.file.mimetype,
+        });
+        assignmentText = extracted.text;
         fileName = req.file.originalname;
-      } catch (parseError) {
-        console.error('PDF parse error:', parseError);
-        return res.status(400).json({ error: 'Failed to extract text from PDF' });
+      } catch (extractError) {
+        if (extractError instanceof ExtractionError) {
+          return res.status(400).json({
+            error: extractError.message,
+            code: extractError.code,
+            format: extractError.format,
+          });
+        }
+        throw extractError;
       }
     }
 
     if (!assignmentText || assignmentText.trim().length < 100) {
-      return res.status(400).json({ error: 'Assignment text is too short or empty' });
+      return res.status(400).json({ error: 'Assignment text is too short or empty', code: 'too_short' });
     }
 
-    // Analyze and extract topics
-    const topicCount = participant.topic_count;
-    const { topics, fallback } = await analyzeAssignment(assignmentText, topicCount);
+    // Keep the original file for teacher download
+    if (req.file) {
+      storedFile = await storeSubmission(req.file.buffer, {
+        fileName,
+        contentType: req.file.mimetype,
+      });
+    }
 
-    // Store file URL (in production, upload to S3/Supabase Storage)
-    // For now, we'll just store the filename
-    const fileUrl = null; // TODO: implement file storage
+    // Analyze and extract topics
+    const { topics, fallback } = await analyzeParticipantTopics(participant, assignmentText);
+    // 교사 지정 주제만 있으면 검토할 것이 없으므로 바로 확정
+    const autoConfirmed = topics.length > 0 && topics.every((topic) => topic.source === 'teacher');
 
     // Update participant
-    await db.query(
+    const submitted = await db.query(
       `UPDATE student_participants
        SET status = 'file_submitted',
            submitted_file_url = $1,
            submitted_file_name = $2,
-           extracted_text = $3,
-           analyzed_topics = $4,
+           submitted_file_type = $3,
+           submitted_file_size = $4,
+           submitted_file_sha256 = $5,
+           extracted_text = $6,
+           analyzed_topics = $7,
+           topics_fallback = $8,
+           topics_confirmed_at = CASE WHEN $10::boolean THEN NOW() ELSE NULL END,
+           topics_confirmed_by = CASE WHEN $10::boolean THEN 'system' ELSE NULL END,
            file_submitted_at = NOW()
-       WHERE id = $5`,
-      [fileUrl, fileName, assignmentText, JSON.stringify(topics), participant.id]
+       WHERE id = $9
+       RETURNING topics_confirmed_at, topics_confirmed_by`,
+      [
+        storedFile?.url || null,
+        fileName,
+        req.file?.mimetype || null,
+        storedFile?.size ?? null,
+        storedFile?.sha256 || null,
+        assignmentText,
+        JSON.stringify(topics),
+        fallback,
+        participant.id,
+        autoConfirmed,
+      ]
     );
 
+    await logTopicAnalysis(participant, 'upload', { topics, fallback });
+
+    // 유사도 검사 실패는 제출을 막지 않는다 (교사가 세션 화면에서 다시 검사 가능)
+    try {
+      await checkSubmissionSimilarity(participant, assignmentText);
+    } catch (similarityError) {
+      console.error('Similarity check error:', similarityError);
+    }
+
+    publishParticipantEvent(participant, 'file_submitted', {
+      status: 'file_submitted',
+      fileName,
+      topicsFallback: fallback,
+    });
+
     res.json({
       message: 'File uploaded and analyzed',
       topics,
       fallback,
+      topic_review: await loadTopicReview({
+        ...participant,
+        status: 'file_submitted',
+        topics_fallback: fallback,
+        ...submitted.rows[0],
+      }),
     });
   } catch (error) {
     console.error('Upload error:', error);
@@ -76,6 +318,109 @@ router.post('/upload', authenticateStudent, upload.single('file'), async (req, r
   }
 });
 
+/**
+ * POST /api/interview/topics/reanalyze
+ * Ask the AI to analyze the assignment again (topic review, limited per student)
+ */
+router.post('/topics/reanalyze', authenticateStudent, async (req, res) => {
+  try {
+    const participant = req.participant;
+    const review = await loadTopicReview(participant);
+
+    if (!review.studentCanEdit) {
+      return res.status(400).json({ error: 'Topics cannot be changed', code: 'topics_locked' });
+    }
+    if (review.reanalysesLeft === 0) {
+      return res.status(400).json({
+        error: `Re-analysis can be requested at most ${MAX_STUDENT_REANALYSES} times`,
+        code: 'reanalysis_limit',
+      });
+    }
+
+    const { topics, fallback } = await analyzeParticipantTopics(participant, participant.extracted_text);
+
+    await db.query(
+      `UPDATE student_participants
+       SET analyzed_topics = $1, topics_fallback = $2
+       WHERE id = $3`,
+      [JSON.stringify(topics), fallback, participant.id]
+    );
+    await logTopicAnalysis(participant, 'student_reanalysis', { topics, fallback });
+
+    publishParticipantEvent(participant, 'topics_reviewed', {
+      status: participant.status,
+      topicsFallback: fallback,
+      topicsConfirmed: false,
+    });
+
+    res.json({
+      topics,
+      fallback,
+      topic_review: { ...review, fallback, reanalysesLeft: review.reanalysesLeft - 1 },
+    });
+  } catch (error) {
+    console.error('Reanalyze topics error:', error);
+    res.status(500).json({ error: 'Failed to re-analyze topics' });
+  }
+});
+
+/**
+ * PUT /api/interview/topics
+ * Confirm the topics, optionally with edited titles (policy 'student')
+ */
+router.put('/topics', authenticateStudent, async (req, res) => {
+  try {
+    const participant = req.participant;
+    const review = await loadTopicReview(participant);
+
+    if (!review.studentCanEdit) {
+      return res.status(400).json({ error: 'Topics cannot be changed', code: 'topics_locked' });
+    }
+
+    let topics = participant.analyzed_topics || [];
+    if (req.body.topics !== undefined) {
+      const edit = applyTopicEdits(topics, req.body.topics);
+      if (edit.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid topics', details: edit.errors });
+      }
+      if (edit.changed) {
+        topics = edit.topics;
+        await logTopicAnalysis(participant, 'student_edit', { topics });
+      }
+    }
+
+    const result = await db.query(
+      `UPDATE student_participants
+       SET analyzed_topics = $1,
+           topics_confirmed_at = NOW(),
+           topics_confirmed_by = 'student'
+       WHERE id = $2
+       RETURNING topics_confirmed_at`,
+      [JSON.stringify(topics), participant.id]
+    );
+
+    publishParticipantEvent(participant, 'topics_reviewed', {
+      status: participant.status,
+      topicsFallback: review.fallback,
+      topicsConfirmed: true,
+    });
+
+    res.json({
+      topics,
+      topic_review: {
+        ...review,
+        confirmed: true,
+        confirmedBy: 'student',
+        confirmedAt: result.rows[0].topics_confirmed_at,
+        studentCanEdit: false,
+      },
+    });
+  } catch (error) {
+    console.error('Confirm topics error:', error);
+    res.status(500).json({ error: 'Failed to confirm topics' });
+  }
+});
+
 /**
  * POST /api/interview/start
  * Start the interview (create interview state)
@@ -96,6 +441,14 @@ router.post('/start', authenticateStudent, async (req, res) => {
       });
     }
 
+    if (!participant.topics_confirmed_at) {
+      return res.status(400).json({
+        error: 'Topics have not been confirmed yet',
+        code: 'topics_unconfirmed',
+        policy: participant.topic_review_policy,
+      });
+    }
+
     // Determine interview mode
     let interviewMode = participant.session_interview_mode;
     if (interviewMode === 'student_choice') {
@@ -105,8 +458,13 @@ router.post('/start', authenticateStudent, async (req, res) => {
       interviewMode = chosenInterviewMode;
     }
 
-    // Get topics
-    const topics = participant.analyzed_topics || [];
+    // Merge reviewed topics with the current question bank (세션 설정이 업로드 후 바뀌었을 수 있음)
+    const topics = mergeTopics(
+      participant.topic_mode,
+      participant.question_bank,
+      participant.analyzed_topics,
+      participant.topic_count
+    );
     if (topics.length === 0) {
       return res.status(400).json({ error: 'No topics found. Please re-upload your assignment.' });
     }
@@ -123,12 +481,13 @@ router.post('/start', authenticateStudent, async (req, res) => {
 
     // Generate first question
     const firstTopic = topics[0];
-    const { question } = await generateQuestion({
+    const { question, citations } = await generateQuestion({
       topic: firstTopic,
       assignmentText: participant.extracted_text,
       previousQA: [],
       studentAnswer: null,
       interviewMode,
+      provider: participant.llm_provider,
     });
 
     // Create interview state
@@ -142,9 +501,9 @@ router.post('/start', authenticateStudent, async (req, res) => {
     // Save first AI question
     await db.query(
       `INSERT INTO interview_conversations
-       (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, 0, 0, 'ai', $2)`,
-      [participant.id, question]
+       (participant_id, topic_index, turn_index, role, content, citations)
+       VALUES ($1, 0, 0, 'ai', $2, $3)`,
+      [participant.id, question, JSON.stringify(citations)]
     );
 
     // Update participant status
@@ -152,11 +511,18 @@ router.post('/start', authenticateStudent, async (req, res) => {
       `UPDATE student_participants
        SET status = 'interview_in_progress',
            chosen_interview_mode = $1,
+           analyzed_topics = $2,
            interview_started_at = NOW()
-       WHERE id = $2`,
-      [interviewMode, participant.id]
+       WHERE id = $3`,
+      [interviewMode, JSON.stringify(topics), participant.id]
     );
 
+    publishParticipantEvent(participant, 'interview_started', {
+      status: 'interview_in_progress',
+      interviewMode,
+      ...topicEventFields(topicsState, 0, 'topic_active'),
+    });
+
     res.json({
       message: 'Interview started',
       interview_mode: interviewMode,
@@ -164,6 +530,7 @@ router.post('/start', authenticateStudent, async (req, res) => {
       current_topic: firstTopic,
       topics_state: topicsState,
       first_question: question,
+      citations,
       interview_state: {
         current_topic_index: 0,
         current_phase: 'topic_active',
@@ -200,7 +567,10 @@ router.get('/state', authenticateStudent, checkReconnection, async (req, res) =>
         },
         interview_state: null,
         has_started: false,
+        analyzed_topics: participant.analyzed_topics,
+        topic_review: participant.analyzed_topics ? await loadTopicReview(participant) : null,
         session_interview_mode: participant.session_interview_mode,
+        integrity: integritySettings(participant),
       });
     }
 
@@ -213,9 +583,8 @@ router.get('/state', authenticateStudent, checkReconnection, async (req, res) =>
     if (topicsState && state.current_topic_index !== null) {
       const currentTopic = topicsState[state.current_topic_index];
 
-      if ((state.current_phase === 'topic_active' || state.current_phase === 'topic_paused') && state.topic_started_at) {
-        const elapsed = (Date.now() - new Date(state.topic_started_at).getTime()) / 1000;
-        remainingTime = Math.max(0, currentTopic.totalTime - elapsed);
+      if (TIMED_PHASES.includes(state.current_phase) && state.topic_started_at) {
+        remainingTime = topicTimeLeft(state);
       } else if (state.current_phase === 'topic_transition' || state.current_phase === 'topic_expired_while_away') {
         // Next topic will have full time
         const nextTopic = topicsState[state.current_topic_index + 1];
@@ -227,7 +596,7 @@ router.get('/state', authenticateStudent, checkReconnection, async (req, res) =>
 
     // Get recent conversations
     const conversationsResult = await db.query(
-      `SELECT topic_index, turn_index, role, content
+      `SELECT topic_index, turn_index, role, content, citations
        FROM interview_conversations
        WHERE participant_id = $1 AND topic_index = $2
        ORDER BY turn_index`,
@@ -240,19 +609,23 @@ router.get('/state', authenticateStudent, checkReconnection, async (req, res) =>
         id: participant.id,
         student_name: participant.student_name,
         status: participant.status,
-        summary: participant.summary,
+        summary: normalizeSummary(participant.summary),
       },
       interview_state: {
         current_topic_index: state.current_topic_index,
         current_phase: state.current_phase,
         topics_state: topicsState,
         remaining_time: Math.max(0, Math.floor(remainingTime || 0)),
+        teacher_paused: Boolean(state.teacher_paused_at),
       },
       conversations: conversationsResult.rows,
       reconnection_info: req.reconnectionInfo || null,
       analyzed_topics: participant.analyzed_topics,
+      // 질문 인용 구간 표시용 (citations의 start/end 기준 텍스트)
+      assignment_text: participant.extracted_text,
       session_interview_mode: participant.session_interview_mode,
       chosen_interview_mode: participant.chosen_interview_mode,
+      integrity: integritySettings(participant),
     });
   } catch (error) {
     console.error('Get state error:', error);
@@ -274,16 +647,24 @@ router.post('/heartbeat', authenticateStudent, async (req, res) => {
       [participant.id]
     );
 
+    // 교사 조치(시간 연장, 일시정지, 초기화 등) 안내용
+    const teacherAction = await loadLatestIntervention(participant);
+
     if (stateResult.rows.length === 0) {
       return res.json({
         status: participant.status,
         current_phase: null,
         remaining_time: null,
         time_left: null,
+        teacher_action: teacherAction,
       });
     }
 
-    const state = stateResult.rows[0];
+    let state = stateResult.rows[0];
+    // 무결성 모드: 화면 이탈/붙여넣기 차단 기록 (차감된 주제 시간으로 남은 시간 계산)
+    if (participant.integrity_mode) {
+      state = await recordIntegrityEvents(participant, state, req.body?.integrity_events);
+    }
     const topicsState = state.topics_state;
 
     // Calculate remaining time (no accumulated_pause_time - time flows during disconnection)
@@ -292,11 +673,9 @@ router.post('/heartbeat', authenticateStudent, async (req, res) => {
     let showTransitionPage = false;
 
     if (topicsState && state.current_topic_index !== null) {
-      const currentTopic = topicsState[state.current_topic_index];
-
-      if ((state.current_phase === 'topic_active' || state.current_phase === 'topic_paused') && state.topic_started_at) {
-        const elapsed = (Date.now() - new Date(state.topic_started_at).getTime()) / 1000;
-        remainingTime = Math.max(0, currentTopic.totalTime - elapsed);
+      if (TIMED_PHASES.includes(state.current_phase) && state.topic_started_at) {
+        // 교사 일시정지 중에는 멈춘 시점 기준
+        remainingTime = topicTimeLeft(state);
 
         // Check if time expired
         if (remainingTime <= 0) {
@@ -322,6 +701,8 @@ router.post('/heartbeat', authenticateStudent, async (req, res) => {
       time_expired: timeExpired,
       show_transition_page: showTransitionPage,
       topics_state: topicsState,
+      teacher_paused: Boolean(state.teacher_paused_at),
+      teacher_action: teacherAction,
     });
   } catch (error) {
     console.error('Heartbeat error:', error);
@@ -330,92 +711,277 @@ router.post('/heartbeat', authenticateStudent, async (req, res) => {
 });
 
 /**
- * POST /api/interview/answer
- * Submit student answer and get next question
+ * Validate and save a student answer, then load the context for the next question
+ * Shared by /answer and /answer/stream
+ * @returns {Promise<{ error?: { status, body }, state, turnIndex, answerId, questionInput }>}
  */
-router.post('/answer', authenticateStudent, async (req, res) => {
-  try {
-    const participant = req.participant;
-    const { answer, audioUrl } = req.body;
+async function recordAnswer(participant, { answer, recording_id: recordingId, telemetry }) {
+  if (!answer || answer.trim().length === 0) {
+    return { error: { status: 400, body: { error: 'Answer is required' } } };
+  }
 
-    if (!answer || answer.trim().length === 0) {
-      return res.status(400).json({ error: 'Answer is required' });
-    }
+  // Get current state
+  const stateResult = await db.query(
+    'SELECT * FROM interview_states WHERE participant_id = $1',
+    [participant.id]
+  );
 
-    // Get current state
-    const stateResult = await db.query(
-      'SELECT * FROM interview_states WHERE participant_id = $1',
-      [participant.id]
-    );
+  if (stateResult.rows.length === 0) {
+    return { error: { status: 400, body: { error: 'Interview not started' } } };
+  }
 
-    if (stateResult.rows.length === 0) {
-      return res.status(400).json({ error: 'Interview not started' });
-    }
+  const state = stateResult.rows[0];
 
-    const state = stateResult.rows[0];
+  if (state.current_phase !== 'topic_active') {
+    return {
+      error: {
+        status: 400,
+        body: { error: 'Cannot submit answer in current phase', currentPhase: state.current_phase },
+      },
+    };
+  }
 
-    if (state.current_phase !== 'topic_active') {
-      return res.status(400).json({
-        error: 'Cannot submit answer in current phase',
-        currentPhase: state.current_phase
-      });
-    }
+  if (state.teacher_paused_at) {
+    return { error: { status: 409, body: { error: 'Interview is paused by the teacher', code: 'teacher_paused' } } };
+  }
 
-    // Get current conversation count for turn index
-    const turnCountResult = await db.query(
-      `SELECT COUNT(*) as count FROM interview_conversations
-       WHERE participant_id = $1 AND topic_index = $2`,
-      [participant.id, state.current_topic_index]
+  // Get current conversation count for turn index
+  const turnCountResult = await db.query(
+    `SELECT COUNT(*) as count FROM interview_conversations
+     WHERE participant_id = $1 AND topic_index = $2`,
+    [participant.id, state.current_topic_index]
+  );
+  const turnIndex = parseInt(turnCountResult.rows[0].count);
+
+  // 보관 중인 녹음 (STT 응답의 recording_id) - 이 학생의 아직 연결되지 않은 녹음만 연결
+  let recording = null;
+  if (typeof recordingId === 'string' && /^[0-9a-f-]{36}$/i.test(recordingId)) {
+    const recordingResult = await db.query(
+      `SELECT r.id, r.storage_url FROM answer_recordings r
+       WHERE r.id = $1 AND r.participant_id = $2
+         AND NOT EXISTS (SELECT 1 FROM interview_conversations c WHERE c.recording_id = r.id)`,
+      [recordingId, participant.id]
     );
-    const turnIndex = parseInt(turnCountResult.rows[0].count);
+    recording = recordingResult.rows[0] || null;
+  }
+
+  // Save student answer (입력 행동 기록은 형식이 맞을 때만 저장)
+  const answerTelemetry = normalizeTelemetry(telemetry, answer);
+  const answerResult = await db.query(
+    `INSERT INTO interview_conversations
+     (participant_id, topic_index, turn_index, role, content, audio_url, recording_id, telemetry)
+     VALUES ($1, $2, $3, 'student', $4, $5, $6, $7)
+     RETURNING id`,
+    [
+      participant.id,
+      state.current_topic_index,
+      turnIndex,
+      answer.trim(),
+      recording?.storage_url || null,
+      recording?.id || null,
+      answerTelemetry ? JSON.stringify(answerTelemetry) : null,
+    ]
+  );
+
+  // Get previous Q&A for context
+  const previousQA = await db.query(
+    `SELECT role, content as text FROM interview_conversations
+     WHERE participant_id = $1 AND topic_index = $2
+     ORDER BY turn_index`,
+    [participant.id, state.current_topic_index]
+  );
+
+  const topics = participant.analyzed_topics || [];
+
+  return {
+    state,
+    turnIndex,
+    answerId: answerResult.rows[0].id,
+    questionInput: {
+      topic: topics[state.current_topic_index],
+      assignmentText: participant.extracted_text,
+      previousQA: previousQA.rows,
+      studentAnswer: answer,
+      interviewMode: participant.chosen_interview_mode,
+      provider: participant.llm_provider,
+    },
+  };
+}
+
+/**
+ * Classify the answer and decide the next step (see services/questionStrategy.js)
+ * Updates state.topics_state in place; the planned fields are merged into the locked row
+ * with the next question or the topic completion.
+ * @returns {Promise<{ topicComplete: object|null, strategy: string|null, mandatoryQuestion: string|null }>}
+ *   topicComplete is the response body
+ */
+async function planAfterAnswer(participant, state, answerId, questionInput) {
+  const { assessment } = await assessAnswer(questionInput);
 
-    // Save student answer
+  if (assessment) {
     await db.query(
-      `INSERT INTO interview_conversations
-       (participant_id, topic_index, turn_index, role, content, audio_url)
-       VALUES ($1, $2, $3, 'student', $4, $5)`,
-      [participant.id, state.current_topic_index, turnIndex, answer.trim(), audioUrl || null]
+      'UPDATE interview_conversations SET assessment = $1 WHERE id = $2',
+      [JSON.stringify(assessment), answerId]
     );
+  }
 
-    // Get previous Q&A for context
-    const previousQA = await db.query(
-      `SELECT role, content as text FROM interview_conversations
-       WHERE participant_id = $1 AND topic_index = $2
-       ORDER BY turn_index`,
-      [participant.id, state.current_topic_index]
+  const topicsState = state.topics_state;
+  const currentIndex = state.current_topic_index;
+  const answerCount = questionInput.previousQA.filter((turn) => turn.role === 'student').length;
+  const plan = planNextStep(assessment, {
+    answerCount,
+    followUpDepth: topicsState[currentIndex].followUpDepth || 0,
+  });
+  topicsState[currentIndex].followUpDepth = plan.followUpDepth;
+
+  // 교사 지정 필수 질문: 꼬리질문이 일단락될 때(다른 부분으로 넘어가거나 주제를 끝낼 때) 순서대로 묻는다
+  const mandatoryQuestion = nextMandatoryQuestion(questionInput.topic, topicsState[currentIndex]);
+  const settled = plan.action === 'complete_topic' || plan.strategy === 'advance' || plan.strategy === null;
+  if (mandatoryQuestion && settled && answerCount < MAX_ANSWERS_PER_TOPIC) {
+    topicsState[currentIndex].mandatoryAsked = (topicsState[currentIndex].mandatoryAsked || 0) + 1;
+    topicsState[currentIndex].followUpDepth = 0;
+    return { topicComplete: null, strategy: null, mandatoryQuestion };
+  }
+
+  if (plan.action === 'complete_topic') {
+    return { topicComplete: await completeTopicEarly(participant, state), strategy: null, mandatoryQuestion: null };
+  }
+  return { topicComplete: null, strategy: plan.strategy, mandatoryQuestion: null };
+}
+
+/**
+ * Change the interview state under a row lock
+ * 답변 처리는 LLM 호출 뒤에 저장하므로, 그동안 교사 조치(시간 연장, 주제 건너뛰기, 강제 종료)가 바꾼
+ * 행을 덮어쓰지 않도록 미리 읽어 둔 state 대신 잠근 최신 행에 변경을 적용한다.
+ * @param {(state: object|null, client) => Promise<any>} update - receives the locked interview_states row
+ */
+function withLockedState(participant, update) {
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      'SELECT * FROM interview_states WHERE participant_id = $1 FOR UPDATE',
+      [participant.id]
     );
+    return update(result.rows[0] || null, client);
+  });
+}
 
-    // Generate next question
-    const topics = participant.analyzed_topics || [];
-    const currentTopic = topics[state.current_topic_index];
+/**
+ * Answer-flow fields of the topic planned by planAfterAnswer (나머지 필드는 최신 행의 값을 유지)
+ */
+function plannedTopicFields(topic) {
+  return {
+    started: true,
+    ...(topic.followUpDepth !== undefined && { followUpDepth: topic.followUpDepth }),
+    ...(topic.mandatoryAsked !== undefined && { mandatoryAsked: topic.mandatoryAsked }),
+  };
+}
 
-    const { question } = await generateQuestion({
-      topic: currentTopic,
-      assignmentText: participant.extracted_text,
-      previousQA: previousQA.rows,
-      studentAnswer: answer,
-      interviewMode: participant.chosen_interview_mode,
-    });
+/**
+ * End the current topic before its timer runs out (작성 여부가 충분히 확인된 경우)
+ * Leaves current_topic_index on the finished topic; /next-topic moves on from there.
+ * 답변 처리 중 교사가 주제를 건너뛰었거나 인터뷰를 끝냈으면 그 상태를 그대로 두고 돌려준다.
+ */
+async function completeTopicEarly(participant, state) {
+  const currentIndex = state.current_topic_index;
+  const planned = state.topics_state[currentIndex];
 
-    // Save AI question
-    await db.query(
-      `INSERT INTO interview_conversations
-       (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, $3, 'ai', $4)`,
-      [participant.id, state.current_topic_index, turnIndex + 1, question]
+  const { phase, topicsState, changed } = await withLockedState(participant, async (current, client) => {
+    if (!current || current.current_phase !== 'topic_active' || current.current_topic_index !== currentIndex) {
+      return { phase: current?.current_phase ?? null, topicsState: current?.topics_state ?? state.topics_state, changed: false };
+    }
+
+    const isLastTopic = currentIndex + 1 >= current.topics_state.length;
+    const nextPhase = isLastTopic ? 'finalizing' : 'topic_transition';
+    const updated = [...current.topics_state];
+    updated[currentIndex] = {
+      ...updated[currentIndex],
+      ...plannedTopicFields(planned),
+      status: 'completed',
+      completedEarly: true,
+      timeLeft: 0,
+    };
+
+    await client.query(
+      `UPDATE interview_states
+       SET current_phase = $1,
+           topics_state = $2,
+           topic_started_at = NULL,
+           topic_paused_at = NULL,
+           teacher_paused_at = NULL,
+           accumulated_pause_time = 0
+       WHERE participant_id = $3`,
+      [nextPhase, JSON.stringify(updated), participant.id]
     );
+    return { phase: nextPhase, topicsState: updated, changed: true };
+  });
 
-    // Update topics state to mark as started
-    const topicsState = state.topics_state;
-    topicsState[state.current_topic_index].started = true;
-    await db.query(
+  if (changed) {
+    publishParticipantEvent(participant, 'topic_changed', {
+      status: participant.status,
+      ...topicEventFields(topicsState, currentIndex, phase, null),
+    });
+  }
+
+  return {
+    message: 'Answer submitted - topic complete',
+    topic_complete: true,
+    is_last_topic: phase === 'completed' || currentIndex + 1 >= topicsState.length,
+    topics_state: topicsState,
+  };
+}
+
+/**
+ * Persist the completed AI question and mark the topic as started
+ * Only the answer-flow fields of the topic are written back (see withLockedState).
+ */
+async function recordQuestion(participant, state, turnIndex, question, citations) {
+  await db.query(
+    `INSERT INTO interview_conversations
+     (participant_id, topic_index, turn_index, role, content, citations)
+     VALUES ($1, $2, $3, 'ai', $4, $5)`,
+    [participant.id, state.current_topic_index, turnIndex + 1, question, JSON.stringify(citations)]
+  );
+
+  const currentIndex = state.current_topic_index;
+  const planned = state.topics_state[currentIndex];
+  await withLockedState(participant, async (current, client) => {
+    if (!current || current.current_topic_index !== currentIndex) return;
+
+    const updated = [...current.topics_state];
+    updated[currentIndex] = { ...updated[currentIndex], ...plannedTopicFields(planned) };
+    await client.query(
       'UPDATE interview_states SET topics_state = $1 WHERE participant_id = $2',
-      [JSON.stringify(topicsState), participant.id]
+      [JSON.stringify(updated), participant.id]
     );
+  });
+}
+
+/**
+ * POST /api/interview/answer
+ * Submit student answer and get next question
+ */
+router.post('/answer', authenticateStudent, async (req, res) => {
+  try {
+    const participant = req.participant;
+    const { error, state, turnIndex, answerId, questionInput } = await recordAnswer(participant, req.body);
+    if (error) {
+      return res.status(error.status).json(error.body);
+    }
+
+    const { topicComplete, strategy, mandatoryQuestion } = await planAfterAnswer(
+      participant, state, answerId, questionInput
+    );
+    if (topicComplete) {
+      return res.json(topicComplete);
+    }
+
+    const { question, citations } = await generateQuestion({ ...questionInput, strategy, mandatoryQuestion });
+    await recordQuestion(participant, state, turnIndex, question, citations);
 
     res.json({
       message: 'Answer submitted',
       next_question: question,
+      citations,
       turn_index: turnIndex + 1,
     });
   } catch (error) {
@@ -424,6 +990,113 @@ router.post('/answer', authenticateStudent, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/interview/answer/stream
+ * Same as /answer, but streams the next question as Server-Sent Events
+ * events: delta { text } (질문 조각) → done { next_question, turn_index } | error { error }
+ * 주제가 조기 종료되면 delta 없이 done { topic_complete, is_last_topic }
+ * 질문은 생성이 끝난 뒤에만 저장되며, 클라이언트가 연결을 끊어도 생성과 저장은 계속된다.
+ */
+router.post('/answer/stream', authenticateStudent, async (req, res) => {
+  let closed = false;
+  const send = (event, data) => {
+    if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const participant = req.participant;
+    const { error, state, turnIndex, answerId, questionInput } = await recordAnswer(participant, req.body);
+    if (error) {
+      return res.status(error.status).json(error.body);
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // 프록시 버퍼링 비활성화
+    });
+    res.flushHeaders();
+    // req 'close'는 본문을 다 읽으면 바로 발생하므로 응답 쪽 연결 종료를 본다
+    res.on('close', () => {
+      closed = true;
+    });
+
+    const { topicComplete, strategy, mandatoryQuestion } = await planAfterAnswer(
+      participant, state, answerId, questionInput
+    );
+    if (topicComplete) {
+      send('done', topicComplete);
+      return res.end();
+    }
+
+    const { question, citations } = await generateQuestion({
+      ...questionInput,
+      strategy,
+      mandatoryQuestion,
+      onDelta: (text) => send('delta', { text }),
+    });
+    await recordQuestion(participant, state, turnIndex, question, citations);
+
+    send('done', {
+      message: 'Answer submitted',
+      next_question: question,
+      citations,
+      turn_index: turnIndex + 1,
+    });
+    res.end();
+  } catch (error) {
+    console.error('Answer stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to process answer' });
+    } else {
+      send('error', { error: 'Failed to process answer' });
+      res.end();
+    }
+  }
+});
+
+/**
+ * Start the next topic with its first question, if the state is still the one the question was planned for
+ * 질문 생성(LLM) 중 교사가 주제를 건너뛰거나 일시정지했으면 아무것도 바꾸지 않는다.
+ * @returns {Promise<Array|null>} updated topics_state, null when the state has changed
+ */
+function startNextTopic(participant, planned, nextIndex, question, citations) {
+  return withLockedState(participant, async (current, client) => {
+    if (
+      !current ||
+      current.current_phase !== planned.current_phase ||
+      current.current_topic_index !== planned.current_topic_index ||
+      current.teacher_paused_at
+    ) {
+      return null;
+    }
+
+    const topicsState = [...current.topics_state];
+    topicsState[planned.current_topic_index] = { ...topicsState[planned.current_topic_index], status: 'completed', timeLeft: 0 };
+    topicsState[nextIndex] = { ...topicsState[nextIndex], status: 'active' };
+
+    await client.query(
+      `INSERT INTO interview_conversations
+       (participant_id, topic_index, turn_index, role, content, citations)
+       VALUES ($1, $2, 0, 'ai', $3, $4)`,
+      [participant.id, nextIndex, question, JSON.stringify(citations)]
+    );
+    await client.query(
+      `UPDATE interview_states
+       SET current_topic_index = $1,
+           current_phase = 'topic_active',
+           topics_state = $2,
+           topic_started_at = NOW(),
+           topic_paused_at = NULL,
+           accumulated_pause_time = 0
+       WHERE participant_id = $3`,
+      [nextIndex, JSON.stringify(topicsState), participant.id]
+    );
+    return topicsState;
+  });
+}
+
 /**
  * POST /api/interview/next-topic
  * Move to the next topic
@@ -443,57 +1116,50 @@ router.post('/next-topic', authenticateStudent, async (req, res) => {
     }
 
     const state = stateResult.rows[0];
-    const topicsState = state.topics_state;
+    if (state.teacher_paused_at) {
+      return res.status(409).json({ error: 'Interview is paused by the teacher', code: 'teacher_paused' });
+    }
+    if (state.current_phase !== 'topic_active' && state.current_phase !== 'topic_transition') {
+      return res.status(400).json({
+        error: 'Cannot move to the next topic in current phase',
+        currentPhase: state.current_phase
+      });
+    }
+
     const currentIndex = state.current_topic_index;
     const nextIndex = currentIndex + 1;
 
     // Check if there's a next topic
-    if (nextIndex >= topicsState.length) {
+    if (nextIndex >= state.topics_state.length) {
       return res.status(400).json({
         error: 'No more topics',
         shouldFinalize: true
       });
     }
 
-    // Mark current topic as completed
-    topicsState[currentIndex].status = 'completed';
-    topicsState[currentIndex].timeLeft = 0;
-
-    // Mark next topic as active
-    topicsState[nextIndex].status = 'active';
-
     // Generate first question for next topic
     const topics = participant.analyzed_topics || [];
     const nextTopic = topics[nextIndex];
 
-    const { question } = await generateQuestion({
+    const { question, citations } = await generateQuestion({
       topic: nextTopic,
       assignmentText: participant.extracted_text,
       previousQA: [],
       studentAnswer: null,
       interviewMode: participant.chosen_interview_mode,
+      provider: participant.llm_provider,
     });
 
-    // Save AI question
-    await db.query(
-      `INSERT INTO interview_conversations
-       (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, 0, 'ai', $3)`,
-      [participant.id, nextIndex, question]
-    );
+    // Save AI question and move on (잠근 최신 상태가 그대로일 때만)
+    const topicsState = await startNextTopic(participant, state, nextIndex, question, citations);
+    if (!topicsState) {
+      return res.status(409).json({ error: 'Interview state has changed', code: 'state_changed' });
+    }
 
-    // Update state
-    await db.query(
-      `UPDATE interview_states
-       SET current_topic_index = $1,
-           current_phase = 'topic_active',
-           topics_state = $2,
-           topic_started_at = NOW(),
-           topic_paused_at = NULL,
-           accumulated_pause_time = 0
-       WHERE participant_id = $3`,
-      [nextIndex, JSON.stringify(topicsState), participant.id]
-    );
+    publishParticipantEvent(participant, 'topic_changed', {
+      status: 'interview_in_progress',
+      ...topicEventFields(topicsState, nextIndex, 'topic_active'),
+    });
 
     res.json({
       message: 'Moved to next topic',
@@ -502,6 +1168,7 @@ router.post('/next-topic', authenticateStudent, async (req, res) => {
       current_topic: nextTopic,
       topic_title: nextTopic.title,
       first_question: question,
+      citations,
       topics_state: topicsState,
     });
   } catch (error) {
@@ -537,20 +1204,36 @@ router.post('/confirm-transition', authenticateStudent, async (req, res) => {
         currentPhase: state.current_phase
       });
     }
+    if (state.teacher_paused_at) {
+      return res.status(409).json({ error: 'Interview is paused by the teacher', code: 'teacher_paused' });
+    }
 
-    const topicsState = state.topics_state;
     const currentIndex = state.current_topic_index;
     const nextIndex = currentIndex + 1;
 
     // Check if there's a next topic
-    if (nextIndex >= topicsState.length) {
+    if (nextIndex >= state.topics_state.length) {
       // No more topics - should finalize
-      await db.query(
-        `UPDATE interview_states
-         SET current_phase = 'finalizing'
-         WHERE participant_id = $1`,
-        [participant.id]
-      );
+      const finalized = await withLockedState(participant, async (current, client) => {
+        if (!current || current.current_phase !== state.current_phase || current.current_topic_index !== currentIndex) {
+          return null;
+        }
+        await client.query(
+          `UPDATE interview_states
+           SET current_phase = 'finalizing'
+           WHERE participant_id = $1`,
+          [participant.id]
+        );
+        return current.topics_state;
+      });
+      if (!finalized) {
+        return res.status(409).json({ error: 'Interview state has changed', code: 'state_changed' });
+      }
+
+      publishParticipantEvent(participant, 'topic_changed', {
+        status: participant.status,
+        ...topicEventFields(finalized, currentIndex, 'finalizing', null),
+      });
 
       return res.json({
         message: 'No more topics - finalizing',
@@ -558,44 +1241,29 @@ router.post('/confirm-transition', authenticateStudent, async (req, res) => {
       });
     }
 
-    // Mark current topic as completed
-    topicsState[currentIndex].status = 'completed';
-    topicsState[currentIndex].timeLeft = 0;
-
-    // Mark next topic as active
-    topicsState[nextIndex].status = 'active';
-
     // Generate first question for next topic
     const topics = participant.analyzed_topics || [];
     const nextTopic = topics[nextIndex];
 
-    const { question } = await generateQuestion({
+    const { question, citations } = await generateQuestion({
       topic: nextTopic,
       assignmentText: participant.extracted_text,
       previousQA: [],
       studentAnswer: null,
       interviewMode: participant.chosen_interview_mode,
+      provider: participant.llm_provider,
     });
 
-    // Save AI question
-    await db.query(
-      `INSERT INTO interview_conversations
-       (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, 0, 'ai', $3)`,
-      [participant.id, nextIndex, question]
-    );
+    // Save AI question and start fresh with the new topic (잠근 최신 상태가 그대로일 때만)
+    const topicsState = await startNextTopic(participant, state, nextIndex, question, citations);
+    if (!topicsState) {
+      return res.status(409).json({ error: 'Interview state has changed', code: 'state_changed' });
+    }
 
-    // Update state - start fresh with new topic
-    await db.query(
-      `UPDATE interview_states
-       SET current_topic_index = $1,
-           current_phase = 'topic_active',
-           topics_state = $2,
-           topic_started_at = NOW(),
-           topic_paused_at = NULL
-       WHERE participant_id = $3`,
-      [nextIndex, JSON.stringify(topicsState), participant.id]
-    );
+    publishParticipantEvent(participant, 'topic_changed', {
+      status: 'interview_in_progress',
+      ...topicEventFields(topicsState, nextIndex, 'topic_active'),
+    });
 
     res.json({
       message: 'Transition confirmed - moved to next topic',
@@ -604,6 +1272,7 @@ router.post('/confirm-transition', authenticateStudent, async (req, res) => {
       current_topic: nextTopic,
       topic_title: nextTopic.title,
       first_question: question,
+      citations,
       topics_state: topicsState,
       should_finalize: false,
     });
@@ -632,6 +1301,10 @@ router.post('/topic-timeout', authenticateStudent, async (req, res) => {
     }
 
     const state = stateResult.rows[0];
+    if (state.teacher_paused_at) {
+      return res.status(409).json({ error: 'Interview is paused by the teacher', code: 'teacher_paused' });
+    }
+
     const topicsState = state.topics_state;
     const currentIndex = state.current_topic_index;
     const nextIndex = currentIndex + 1;
@@ -651,6 +1324,11 @@ router.post('/topic-timeout', authenticateStudent, async (req, res) => {
         [JSON.stringify(topicsState), participant.id]
       );
 
+      publishParticipantEvent(participant, 'topic_changed', {
+        status: participant.status,
+        ...topicEventFields(topicsState, currentIndex, 'finalizing', null),
+      });
+
       return res.json({
         message: 'Topic timed out - all topics completed',
         should_finalize: true,
@@ -671,6 +1349,11 @@ router.post('/topic-timeout', authenticateStudent, async (req, res) => {
       [nextIndex, JSON.stringify(topicsState), participant.id]
     );
 
+    publishParticipantEvent(participant, 'topic_changed', {
+      status: participant.status,
+      ...topicEventFields(topicsState, nextIndex, 'topic_transition', null),
+    });
+
     res.json({
       message: 'Topic timed out - ready for next topic',
       next_topic_index: nextIndex,
@@ -691,6 +1374,14 @@ router.post('/complete', authenticateStudent, async (req, res) => {
   try {
     const participant = req.participant;
 
+    // 교사가 강제 종료한 경우 평가가 이미 생성되어 있다
+    if (participant.status === 'completed' && participant.summary) {
+      return res.json({
+        message: 'Interview completed',
+        summary: normalizeSummary(participant.summary),
+      });
+    }
+
     // Get all conversations
     const conversationsResult = await db.query(
       `SELECT topic_index, role, content
@@ -707,30 +1398,68 @@ router.post('/complete', authenticateStudent, async (req, res) => {
 
     // Generate summary
     const topics = participant.analyzed_topics || [];
-    const { summary } = await generateSummary({
+    const { summary, fallback } = await generateSummary({
       transcript,
       topics,
       assignmentText: participant.extracted_text,
       interviewMode: participant.chosen_interview_mode,
+      provider: participant.llm_provider,
+      rubric: participant.rubric,
     });
 
-    // Update interview state
-    await db.query(
-      `UPDATE interview_states
-       SET current_phase = 'completed'
-       WHERE participant_id = $1`,
-      [participant.id]
-    );
+    // Update participant and add the first AI version to the evaluation history
+    // 참여자 행을 잠근 뒤 다시 확인한다: 요약을 만드는 동안 교사 강제 종료가 먼저 평가를 저장했으면 그 평가를 쓴다
+    const stored = await db.transaction(async (client) => {
+      const locked = await client.query(
+        'SELECT status, summary FROM student_participants WHERE id = $1 FOR UPDATE',
+        [participant.id]
+      );
+      const current = locked.rows[0];
+      if (current?.status === 'completed' && current.summary) {
+        return { summary: current.summary };
+      }
 
-    // Update participant
-    await db.query(
-      `UPDATE student_participants
-       SET status = 'completed',
-           interview_ended_at = NOW(),
-           summary = $1
-       WHERE id = $2`,
-      [JSON.stringify(summary), participant.id]
-    );
+      // Update interview state (교사가 인터뷰를 초기화했으면 상태 행이 없다)
+      const stateResult = await client.query(
+        `UPDATE interview_states
+         SET current_phase = 'completed'
+         WHERE participant_id = $1`,
+        [participant.id]
+      );
+      if (stateResult.rowCount === 0) {
+        return { reset: true };
+      }
+      await client.query(
+        `UPDATE student_participants
+         SET status = 'completed',
+             interview_ended_at = NOW(),
+             summary = $1
+         WHERE id = $2`,
+        [JSON.stringify(summary), participant.id]
+      );
+      await client.query(
+        `INSERT INTO participant_evaluations (participant_id, version, kind, summary, llm_provider, fallback)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, 'ai', $2, $3, $4
+         FROM participant_evaluations WHERE participant_id = $1`,
+        [participant.id, JSON.stringify(summary), getLLMProvider(participant.llm_provider).name, fallback]
+      );
+      return null;
+    });
+
+    if (stored?.reset) {
+      return res.status(409).json({ error: 'Interview was reset by the teacher', code: 'interview_reset' });
+    }
+    if (stored) {
+      return res.json({
+        message: 'Interview completed',
+        summary: normalizeSummary(stored.summary),
+      });
+    }
+
+    publishParticipantEvent(participant, 'completed', {
+      status: 'completed',
+      authorshipScore: summary.authorshipScore,
+    });
 
     res.json({
       message: 'Interview completed',
@@ -742,4 +1471,133 @@ router.post('/complete', authenticateStudent, async (req, res) => {
   }
 });
 
+/**
+ * Move the current attempt into participant_attempts and start over from file upload
+ * (현재 회차의 상태/대화는 attempt_id로 옮기고, 무결성 기록/평가 이력/주제 분석 기록에는 attempt_id를 채운다)
+ * 동시에 온 재응시 요청이 새 회차까지 보관하지 않도록 참여자 행을 잠그고 재응시 가능 여부를 다시 확인한다.
+ * @returns {Promise<{ attemptId: string|null, policy: object }>} attemptId null when the locked row cannot retake
+ */
+async function archiveCurrentAttempt(participantId) {
+  return db.transaction(async (client) => {
+    const locked = await client.query(
+      `SELECT p.status, p.attempt_number, p.extra_attempts, s.max_attempts
+       FROM student_participants p
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE p.id = $1
+       FOR UPDATE OF p`,
+      [participantId]
+    );
+    const policy = attemptPolicy(locked.rows[0]);
+    if (!policy.canRetake) {
+      return { attemptId: null, policy };
+    }
+
+    const archived = await client.query(
+      `INSERT INTO participant_attempts
+       (participant_id, attempt_number, status, chosen_interview_mode, submitted_file_url, submitted_file_name,
+        submitted_file_type, submitted_file_size, extracted_text, analyzed_topics, summary, teacher_evaluation,
+        focus_loss_count, file_submitted_at, interview_started_at, interview_ended_at)
+       SELECT id, COALESCE(attempt_number, 1), status, chosen_interview_mode, submitted_file_url, submitted_file_name,
+              submitted_file_type, submitted_file_size, extracted_text, analyzed_topics, summary, teacher_evaluation,
+              COALESCE(focus_loss_count, 0), file_submitted_at, interview_started_at, interview_ended_at
+       FROM student_participants WHERE id = $1
+       RETURNING id`,
+      [participantId]
+    );
+    const attemptId = archived.rows[0].id;
+
+    for (const table of ['interview_states', 'interview_conversations']) {
+      await client.query(
+        `UPDATE ${table} SET attempt_id = $1, participant_id = NULL WHERE participant_id = $2`,
+        [attemptId, participantId]
+      );
+    }
+    for (const table of ['integrity_events', 'participant_evaluations', 'topic_analysis_logs']) {
+      await client.query(
+        `UPDATE ${table} SET attempt_id = $1 WHERE participant_id = $2 AND attempt_id IS NULL`,
+        [attemptId, participantId]
+      );
+    }
+    // 새 제출물로 다시 검사한다
+    await client.query(
+      'DELETE FROM submission_similarities WHERE participant_a_id = $1 OR participant_b_id = $1',
+      [participantId]
+    );
+
+    await client.query(
+      `UPDATE student_participants
+       SET status = 'registered',
+           attempt_number = COALESCE(attempt_number, 1) + 1,
+           submitted_file_url = NULL,
+           submitted_file_name = NULL,
+           submitted_file_type = NULL,
+           submitted_file_size = NULL,
+           submitted_file_sha256 = NULL,
+           extracted_text = NULL,
+           analyzed_topics = NULL,
+           topics_fallback = false,
+           topics_confirmed_at = NULL,
+           topics_confirmed_by = NULL,
+           text_signature = NULL,
+           chosen_interview_mode = NULL,
+           file_submitted_at = NULL,
+           interview_started_at = NULL,
+           interview_ended_at = NULL,
+           disconnected_at = NULL,
+           summary = NULL,
+           teacher_evaluation = NULL,
+           focus_loss_count = 0
+       WHERE id = $1`,
+      [participantId]
+    );
+    return { attemptId, policy };
+  });
+}
+
+/**
+ * GET /api/interview/attempts
+ * Attempt usage for the result page (인터뷰가 끝난 학생도 조회 가능)
+ */
+router.get('/attempts', authenticateEndedStudent, async (req, res) => {
+  res.json({ attempts: attemptPolicy(req.participant) });
+});
+
+/**
+ * POST /api/interview/retake
+ * Start a new attempt after the interview has ended (세션 max_attempts + 교사 추가 허용 횟수 이내)
+ */
+router.post('/retake', authenticateEndedStudent, async (req, res) => {
+  try {
+    const participant = req.participant;
+    const policy = attemptPolicy(participant);
+
+    if (!policy.canRetake) {
+      return res.status(403).json({
+        error: policy.remaining > 0 ? 'Interview has not ended' : 'No attempts left',
+        attempts: policy,
+      });
+    }
+
+    const archived = await archiveCurrentAttempt(participant.id);
+    if (!archived.attemptId) {
+      return res.status(409).json({ error: 'New attempt already started', attempts: archived.policy });
+    }
+
+    const attemptNumber = archived.policy.attemptNumber + 1;
+    publishParticipantEvent(participant, 'retake_started', {
+      status: 'registered',
+      attemptNumber,
+    });
+
+    res.json({
+      message: 'New attempt started',
+      status: 'registered',
+      attempts: attemptPolicy({ ...participant, status: 'registered', attempt_number: attemptNumber }),
+    });
+  } catch (error) {
+    console.error('Retake error:', error);
+    res.status(500).json({ error: 'Failed to start a new attempt' });
+  }
+});
+
 export default router;
@@ -1,6 +1,17 @@
 import express from 'express';
 import crypto from 'crypto';
 import db from '../db/connection.js';
+import { publishSessionEvent } from '../services/sessionEvents.js';
+import { attemptPolicy } from '../services/attempts.js';
+import {
+  MAX_FAILED_CHECKS,
+  MAX_ROSTER_FAILED_CHECKS,
+  FAILED_CHECK_WINDOW_MINUTES,
+  credentialMatches,
+  isConflictingJoin,
+  normalizeDeviceId,
+  sameStudentName,
+} from '../services/roster.js';
 
 const router = express.Router();
 
@@ -9,6 +20,26 @@ function generateSessionToken() {
   return crypto.randomBytes(32).toString('hex');
 }
 
+// 중복 참여/본인 확인 실패 기록 (교사 명단 화면에 표시)
+async function recordJoinConflict(sessionId, { rosterId = null, participantId = null, studentName, studentId, reason, clientIp = null }) {
+  await db.query(
+    `INSERT INTO join_conflicts (session_id, roster_id, participant_id, student_name, student_id, reason, client_ip)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [sessionId, rosterId, participantId, studentName, studentId, reason, clientIp]
+  );
+}
+
+// 1회용 코드 사용 처리 (동시에 같은 코드로 들어오면 한 명만 성공)
+async function claimOneTimeCode(rosterId) {
+  const result = await db.query(
+    `UPDATE session_roster SET code_used_at = NOW()
+     WHERE id = $1 AND code_used_at IS NULL
+     RETURNING id`,
+    [rosterId]
+  );
+  return result.rows.length > 0;
+}
+
 /**
  * GET /api/join/:accessCode
  * Get session information before joining
@@ -20,8 +51,8 @@ router.get('/:accessCode', async (req, res) => {
     const result = await db.query(
       `SELECT
         s.id, s.title, s.description, s.topic_count, s.topic_duration,
-        s.interview_mode, s.status, s.starts_at, s.ends_at,
-        t.name as teacher_name
+        s.interview_mode, s.status, s.starts_at, s.ends_at, s.audio_retention_days,
+        s.join_policy, t.name as teacher_name
        FROM assignment_sessions s
        JOIN teachers t ON s.teacher_id = t.id
        WHERE s.access_code = $1`,
@@ -68,6 +99,10 @@ router.get('/:accessCode', async (req, res) => {
         interview_mode: session.interview_mode,
         teacher_name: session.teacher_name,
         ends_at: session.ends_at,
+        // 음성 답변 녹음 보관 (참여 화면에서 동의를 받는다)
+        audio_retention_days: session.interview_mode !== 'chat' ? session.audio_retention_days : null,
+        // open이 아니면 학번(과 PIN/1회용 코드)을 받는다
+        join_policy: session.join_policy || 'open',
       }
     });
   } catch (error) {
@@ -83,7 +118,14 @@ router.get('/:accessCode', async (req, res) => {
 router.post('/:accessCode', async (req, res) => {
   try {
     const { accessCode } = req.params;
-    const { student_name: studentName, student_id: studentId } = req.body;
+    const {
+      student_name: studentName,
+      student_id: studentId,
+      audio_consent: audioConsent,
+      pin,
+      device_id: rawDeviceId,
+    } = req.body;
+    const deviceId = normalizeDeviceId(rawDeviceId);
 
     if (!studentName || studentName.trim().length === 0) {
       return res.status(400).json({ error: 'Student name is required' });
@@ -91,7 +133,8 @@ router.post('/:accessCode', async (req, res) => {
 
     // Get session
     const sessionResult = await db.query(
-      `SELECT id, status, ends_at, topic_count, topic_duration, interview_mode
+      `SELECT id, status, ends_at, topic_count, topic_duration, interview_mode, audio_retention_days, max_attempts,
+              join_policy
        FROM assignment_sessions
        WHERE access_code = $1`,
       [accessCode.toUpperCase()]
@@ -114,58 +157,234 @@ router.post('/:accessCode', async (req, res) => {
       return res.status(403).json({ error: 'Session deadline has passed' });
     }
 
-    // Check if student already joined (by name and studentId combination)
-    const existingParticipant = await db.query(
-      `SELECT id, session_token, status FROM student_participants
-       WHERE session_id = $1 AND student_name = $2
-       ${studentId ? 'AND student_id = $3' : 'AND student_id IS NULL'}`,
-      studentId ? [session.id, studentName.trim(), studentId.trim()] : [session.id, studentName.trim()]
-    );
+    const joinPolicy = session.join_policy || 'open';
+    let displayName = studentName.trim();
+    const trimmedStudentId = studentId?.trim() || null;
+    let rosterEntry = null;
+    let existing = null;
 
-    if (existingParticipant.rows.length > 0) {
-      const existing = existingParticipant.rows[0];
+    if (joinPolicy !== 'open') {
+      // 명단 확인: 학번으로 찾고 이름이 일치해야 한다
+      if (!trimmedStudentId) {
+        return res.status(400).json({ error: 'Student ID is required', code: 'STUDENT_ID_REQUIRED' });
+      }
 
-      // If completed or abandoned, don't allow rejoining
-      if (existing.status === 'completed' || existing.status === 'abandoned') {
+      const rosterResult = await db.query(
+        `SELECT id, student_name, pin, one_time_code, code_used_at, participant_id
+         FROM session_roster
+         WHERE session_id = $1 AND student_id = $2`,
+        [session.id, trimmedStudentId]
+      );
+      rosterEntry = rosterResult.rows[0] || null;
+
+      if (!rosterEntry || !sameStudentName(rosterEntry.student_name, displayName)) {
+        await recordJoinConflict(session.id, {
+          rosterId: rosterEntry?.id,
+          studentName: displayName,
+          studentId: trimmedStudentId,
+          reason: 'not_on_roster',
+          clientIp: req.ip,
+        });
+        return res.status(403).json({
+          error: 'Name and student ID do not match the class roster',
+          code: 'NOT_ON_ROSTER'
+        });
+      }
+
+      if (joinPolicy === 'pin' || joinPolicy === 'one_time_code') {
+        // 실패 횟수는 이 클라이언트의 시도로 센다 (다른 사람의 틀린 PIN으로 학생이 쉽게 잠기지 않도록)
+        // IP를 바꿔 가며 맞히는 것을 막기 위해 학생별 전체 실패에도 더 큰 한도를 둔다
+        const failedResult = await db.query(
+          `SELECT COUNT(*) FILTER (WHERE client_ip = $2)::int AS client_count, COUNT(*)::int AS total_count
+           FROM join_conflicts
+           WHERE roster_id = $1 AND reason = 'invalid_credential'
+             AND created_at > NOW() - $3 * INTERVAL '1 minute'`,
+          [rosterEntry.id, req.ip, FAILED_CHECK_WINDOW_MINUTES]
+        );
+        const { client_count: clientFailures, total_count: totalFailures } = failedResult.rows[0];
+        if (clientFailures >= MAX_FAILED_CHECKS || totalFailures >= MAX_ROSTER_FAILED_CHECKS) {
+          return res.status(429).json({
+            error: `Too many incorrect attempts. Try again in ${FAILED_CHECK_WINDOW_MINUTES} minutes`,
+            code: 'TOO_MANY_ATTEMPTS'
+          });
+        }
+
+        const expected = joinPolicy === 'pin' ? rosterEntry.pin : rosterEntry.one_time_code;
+        if (!credentialMatches(expected, pin)) {
+          await recordJoinConflict(session.id, {
+            rosterId: rosterEntry.id,
+            participantId: rosterEntry.participant_id,
+            studentName: displayName,
+            studentId: trimmedStudentId,
+            reason: 'invalid_credential',
+            clientIp: req.ip,
+          });
+          return res.status(403).json({
+            error: joinPolicy === 'pin' ? 'Incorrect PIN' : 'Incorrect join code',
+            code: 'INVALID_PIN'
+          });
+        }
+      }
+
+      // 명단의 이름으로 통일
+      displayName = rosterEntry.student_name;
+
+      if (rosterEntry.participant_id) {
+        const participantResult = await db.query(
+          `SELECT id, session_token, status, attempt_number, extra_attempts, disconnected_at, join_device_id
+           FROM student_participants WHERE id = $1`,
+          [rosterEntry.participant_id]
+        );
+        existing = participantResult.rows[0] || null;
+      }
+    } else {
+      // Check if student already joined (by name and studentId combination)
+      const existingParticipant = await db.query(
+        `SELECT id, session_token, status, attempt_number, extra_attempts, disconnected_at, join_device_id
+         FROM student_participants
+         WHERE session_id = $1 AND student_name = $2
+         ${trimmedStudentId ? 'AND student_id = $3' : 'AND student_id IS NULL'}`,
+        trimmedStudentId ? [session.id, displayName, trimmedStudentId] : [session.id, displayName]
+      );
+      existing = existingParticipant.rows[0] || null;
+    }
+
+    // 1회용 코드는 확인이 모두 끝난 뒤에 사용 처리한다
+    const useOneTimeCode = async () => {
+      if (joinPolicy !== 'one_time_code') return true;
+      if (await claimOneTimeCode(rosterEntry.id)) return true;
+      await recordJoinConflict(session.id, {
+        rosterId: rosterEntry.id,
+        participantId: rosterEntry.participant_id,
+        studentName: displayName,
+        studentId: trimmedStudentId,
+        reason: 'code_reused',
+        clientIp: req.ip,
+      });
+      return false;
+    };
+    const codeUsedResponse = () => res.status(403).json({
+      error: 'This join code has already been used. Ask your teacher for a new one',
+      code: 'CODE_ALREADY_USED'
+    });
+
+    if (existing) {
+      // If completed or abandoned, don't allow rejoining (남은 응시 횟수가 있으면 결과 화면에서 재응시)
+      const canRetake = attemptPolicy({ ...existing, max_attempts: session.max_attempts }).canRetake;
+      if ((existing.status === 'completed' || existing.status === 'abandoned') && !canRetake) {
         return res.status(403).json({
           error: 'You have already completed or been removed from this session',
           status: existing.status
         });
       }
 
+      if (!(await useOneTimeCode())) return codeUsedResponse();
+
+      // 다른 기기에서 들어오거나 원래 화면이 아직 인터뷰 중이면 교사에게 중복 참여로 알린다 (같은 기기의 재접속은 알리지 않음)
+      if (isConflictingJoin(existing, deviceId)) {
+        await recordJoinConflict(session.id, {
+          rosterId: rosterEntry?.id,
+          participantId: existing.id,
+          studentName: displayName,
+          studentId: trimmedStudentId,
+          reason: 'rejoin',
+          clientIp: req.ip,
+        });
+        publishSessionEvent(session.id, 'duplicate_join', {
+          participantId: existing.id,
+          studentName: displayName,
+          studentId: trimmedStudentId,
+          status: existing.status,
+        });
+      }
+      if (deviceId && existing.join_device_id !== deviceId) {
+        await db.query('UPDATE student_participants SET join_device_id = $1 WHERE id = $2', [deviceId, existing.id]);
+      }
+
+      publishSessionEvent(session.id, 'reconnected', {
+        participantId: existing.id,
+        studentName: displayName,
+        status: existing.status,
+      });
+
       // Return existing token for reconnection
       return res.json({
         message: 'Reconnected to existing session',
         session_token: existing.session_token,
         participant: {
           id: existing.id,
-          student_name: studentName.trim(),
+          student_name: displayName,
         },
         status: existing.status,
         is_reconnection: true,
       });
     }
 
+    if (rosterEntry && !(await useOneTimeCode())) return codeUsedResponse();
+
     // Generate session token
     const sessionToken = generateSessionToken();
 
-    // Create participant
-    const participantResult = await db.query(
-      `INSERT INTO student_participants
-       (session_id, student_name, student_id, session_token)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, status`,
-      [session.id, studentName.trim(), studentId?.trim() || null, sessionToken]
-    );
+    // Create participant (명단 학생은 명단 항목과 연결, 동시에 두 번 들어오면 한 명만)
+    const participant = await db.transaction(async (client) => {
+      if (rosterEntry) {
+        const locked = await client.query(
+          'SELECT participant_id FROM session_roster WHERE id = $1 FOR UPDATE',
+          [rosterEntry.id]
+        );
+        if (locked.rows[0]?.participant_id) return null;
+      }
+
+      const participantResult = await client.query(
+        `INSERT INTO student_participants
+         (session_id, student_name, student_id, session_token, audio_consent_at, join_device_id)
+         VALUES ($1, $2, $3, $4, CASE WHEN $5::boolean THEN NOW() END, $6)
+         RETURNING id, status`,
+        [
+          session.id,
+          displayName,
+          trimmedStudentId,
+          sessionToken,
+          audioConsent === true && session.audio_retention_days > 0,
+          deviceId,
+        ]
+      );
+      const created = participantResult.rows[0];
 
-    const participant = participantResult.rows[0];
+      if (rosterEntry) {
+        await client.query(
+          'UPDATE session_roster SET participant_id = $1 WHERE id = $2',
+          [created.id, rosterEntry.id]
+        );
+      }
+      return created;
+    });
+
+    if (!participant) {
+      await recordJoinConflict(session.id, {
+        rosterId: rosterEntry.id,
+        studentName: displayName,
+        studentId: trimmedStudentId,
+        reason: 'rejoin',
+        clientIp: req.ip,
+      });
+      return res.status(409).json({ error: 'This student has already joined', code: 'ALREADY_JOINED' });
+    }
+
+    publishSessionEvent(session.id, 'joined', {
+      participantId: participant.id,
+      studentName: displayName,
+      studentId: trimmedStudentId,
+      status: participant.status,
+      registeredAt: new Date().toISOString(),
+    });
 
     res.status(201).json({
       message: 'Successfully joined session',
       session_token: sessionToken,
       participant: {
         id: participant.id,
-        student_name: studentName.trim(),
+        student_name: displayName,
       },
       status: participant.status,
       is_reconnection: false,
@@ -198,10 +417,10 @@ router.post('/reconnect', async (req, res) => {
       `SELECT
         p.id, p.student_name, p.student_id, p.status, p.disconnected_at,
         p.submitted_file_name, p.extracted_text, p.analyzed_topics,
-        p.chosen_interview_mode,
+        p.chosen_interview_mode, p.attempt_number, p.extra_attempts,
         s.id as session_id, s.title as session_title, s.topic_count,
         s.topic_duration, s.interview_mode, s.status as session_status,
-        s.reconnect_timeout, s.ends_at,
+        s.reconnect_timeout, s.ends_at, s.max_attempts,
         i.current_topic_index, i.current_phase, i.topics_state,
         i.topic_started_at, i.accumulated_pause_time
        FROM student_participants p
@@ -227,6 +446,29 @@ router.post('/reconnect', async (req, res) => {
       return res.status(403).json({ error: 'Session deadline has passed' });
     }
 
+    const sessionInfo = {
+      id: data.session_id,
+      title: data.session_title,
+      topic_count: data.topic_count,
+      topic_duration: data.topic_duration,
+      interview_mode: data.interview_mode,
+    };
+
+    // Ended interview with attempts left - send the student to the result page to retake
+    const attempts = attemptPolicy(data);
+    if (attempts.canRetake) {
+      return res.json({
+        message: 'Interview ended, another attempt is available',
+        participant_id: data.id,
+        student_name: data.student_name,
+        status: data.status,
+        time_deducted: 0,
+        session_info: sessionInfo,
+        interview_state: null,
+        attempts,
+      });
+    }
+
     // Check participant status
     if (data.status === 'completed') {
       return res.status(403).json({
@@ -292,6 +534,14 @@ router.post('/reconnect', async (req, res) => {
         );
         data.current_phase = 'topic_active';
       }
+
+      publishSessionEvent(data.session_id, 'reconnected', {
+        participantId: data.id,
+        studentName: data.student_name,
+        status: data.status === 'interview_paused' ? 'interview_in_progress' : data.status,
+        disconnectedDuration: timeDeducted,
+        currentPhase: data.current_phase,
+      });
     }
 
     // Check if topic expired while away - prepare transition page data
@@ -331,13 +581,7 @@ router.post('/reconnect', async (req, res) => {
       student_name: data.student_name,
       status: data.status === 'interview_paused' ? 'interview_in_progress' : data.status,
       time_deducted: timeDeducted,
-      session_info: {
-        id: data.session_id,
-        title: data.session_title,
-        topic_count: data.topic_count,
-        topic_duration: data.topic_duration,
-        interview_mode: data.interview_mode,
-      },
+      session_info: sessionInfo,
       interview_state: data.topics_state ? {
         current_topic_index: data.current_topic_index,
         current_phase: data.current_phase,
@@ -1,8 +1,39 @@
 import express from 'express';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 import QRCode from 'qrcode';
+import archiver from 'archiver';
 import db from '../db/connection.js';
 import { authenticateTeacher } from '../middleware/auth.js';
+import { normalizeSummary } from '../services/summarySchema.js';
+import { publishSessionEvent, subscribeSessionEvents, topicEventFields } from '../services/sessionEvents.js';
+import { DEFAULT_RUBRIC, validateRubric } from '../services/rubric.js';
+import { EXPORT_FORMATS, buildExportRows, toCsv, toXlsx } from '../services/resultExport.js';
+import { renderParticipantReport } from '../services/reportPdf.js';
+import { getLLMProvider, listLLMProviders, validateLLMProviderName } from '../services/llmProviders/index.js';
+import { validateSpeechSettings } from '../services/speechProviders/index.js';
+import { openStoredFile } from '../services/fileStorage/index.js';
+import { analyzeSessionTopics, generateSummary } from '../services/llm.js';
+import { applyTopicEdits, validateTopicReviewPolicy } from '../services/topicReview.js';
+import { validateQuestionBank, validateTopicMode, validateTopicSetup } from '../services/questionBank.js';
+import { SIMILARITY_THRESHOLD, findSimilarPairs, submissionSignature } from '../services/similarity.js';
+import { compareStyle } from '../services/stylometry.js';
+import { validateFocusPenalty } from '../services/integrity.js';
+import { validateRetentionDays } from '../services/audioRetention.js';
+import {
+  toTeacherEvaluation,
+  validateAnnotation,
+  validateRegradeInstructions,
+  validateTeacherDecision,
+} from '../services/evaluationHistory.js';
+import { extendTopicTime, interventionBlocker, validateIntervention } from '../services/interviewControl.js';
+import { MAX_ATTEMPTS, attemptPolicy, validateMaxAttempts } from '../services/attempts.js';
+import {
+  MAX_ROSTER_SIZE,
+  generateOneTimeCode,
+  generatePin,
+  parseRosterCsv,
+  validateJoinPolicy,
+} from '../services/roster.js';
 
 const router = express.Router();
 
@@ -16,6 +47,55 @@ function generateAccessCode() {
   return code;
 }
 
+// course_id가 이 교사의 과목인지 확인 (null = 과목 없음, status: 형식 오류 400 / 다른 교사의 과목 404)
+async function validateCourseId(courseId, teacherId) {
+  if (courseId === null || courseId === undefined || courseId === '') return { courseId: null, error: null };
+  // 형식이 틀린 값이 uuid 컬럼 비교까지 가면 DB 오류(500)가 된다
+  if (!isUuid(courseId)) return { courseId: null, error: 'course_id must be a UUID', status: 400 };
+  const result = await db.query(
+    'SELECT id FROM courses WHERE id = $1 AND teacher_id = $2',
+    [courseId, teacherId]
+  );
+  return result.rows.length > 0
+    ? { courseId, error: null }
+    : { courseId: null, error: 'Course not found', status: 404 };
+}
+
+// Content-Disposition header with a UTF-8 (Korean) file name
+function attachmentHeader(fileName, asciiFallback) {
+  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// File-system safe name for report files
+function safeFileName(name) {
+  return String(name || '').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 80) || 'report';
+}
+
+/**
+ * Load everything needed to render a participant report
+ */
+async function loadReportData(session, participantId) {
+  const participantResult = await db.query(
+    `SELECT * FROM student_participants WHERE id = $1 AND session_id = $2`,
+    [participantId, session.id]
+  );
+
+  if (participantResult.rows.length === 0) return null;
+
+  const participant = participantResult.rows[0];
+  participant.summary = normalizeSummary(participant.summary);
+
+  const conversations = await db.query(
+    `SELECT topic_index, role, content, teacher_annotation, created_at
+     FROM interview_conversations
+     WHERE participant_id = $1
+     ORDER BY topic_index, turn_index`,
+    [participantId]
+  );
+
+  return { session, participant, conversations: conversations.rows };
+}
+
 // Generate QR code as data URL
 async function generateQRCode(url) {
   try {
@@ -46,6 +126,18 @@ router.post('/', authenticateTeacher, async (req, res) => {
       interview_mode,
       starts_at,
       ends_at,
+      rubric,
+      llm_provider,
+      speech_settings,
+      topic_review_policy,
+      topic_mode,
+      question_bank,
+      integrity_mode,
+      focus_penalty_seconds,
+      audio_retention_days,
+      max_attempts,
+      join_policy,
+      course_id,
       // camelCase 레거시 지원
       topicCount,
       topicDuration,
@@ -66,6 +158,66 @@ router.post('/', authenticateTeacher, async (req, res) => {
       return res.status(400).json({ error: 'Title is required' });
     }
 
+    const { rubric: validatedRubric, errors: rubricErrors } = validateRubric(rubric);
+    if (rubricErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid rubric', details: rubricErrors });
+    }
+
+    const { provider: llmProvider, error: providerError } = validateLLMProviderName(llm_provider);
+    if (providerError) {
+      return res.status(400).json({ error: providerError });
+    }
+
+    const { settings: speechSettings, errors: speechErrors } = validateSpeechSettings(speech_settings);
+    if (speechErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid speech settings', details: speechErrors });
+    }
+
+    const { policy: topicReviewPolicy, error: policyError } = validateTopicReviewPolicy(topic_review_policy);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const { mode: topicMode, error: topicModeError } = validateTopicMode(topic_mode);
+    if (topicModeError) {
+      return res.status(400).json({ error: topicModeError });
+    }
+
+    const { questionBank, errors: questionBankErrors } = validateQuestionBank(question_bank);
+    if (questionBankErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid question bank', details: questionBankErrors });
+    }
+
+    const topicSetupError = validateTopicSetup(topicMode, questionBank, resolvedTopicCount);
+    if (topicSetupError) {
+      return res.status(400).json({ error: topicSetupError });
+    }
+
+    const { seconds: focusPenaltySeconds, error: penaltyError } = validateFocusPenalty(focus_penalty_seconds);
+    if (penaltyError) {
+      return res.status(400).json({ error: penaltyError });
+    }
+
+    const { days: audioRetentionDays, error: retentionError } = validateRetentionDays(audio_retention_days);
+    if (retentionError) {
+      return res.status(400).json({ error: retentionError });
+    }
+
+    const { maxAttempts, error: maxAttemptsError } = validateMaxAttempts(max_attempts);
+    if (maxAttemptsError) {
+      return res.status(400).json({ error: maxAttemptsError });
+    }
+
+    const { policy: joinPolicy, error: joinPolicyError } = validateJoinPolicy(join_policy);
+    if (joinPolicyError) {
+      return res.status(400).json({ error: joinPolicyError });
+    }
+
+    const { courseId, error: courseError, status: courseStatus } = await validateCourseId(course_id, req.teacher.id);
+    if (courseError) {
+      return res.status(courseStatus).json({ error: courseError });
+    }
+
     // Generate unique access code
     let accessCode;
     let attempts = 0;
@@ -92,8 +244,12 @@ router.post('/', authenticateTeacher, async (req, res) => {
     const result = await db.query(
       `INSERT INTO assignment_sessions
        (teacher_id, title, description, topic_count, topic_duration, interview_mode,
-        access_code, qr_code_url, starts_at, ends_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        access_code, qr_code_url, starts_at, ends_at, rubric, llm_provider, speech_settings,
+        topic_review_policy, topic_mode, question_bank, integrity_mode, focus_penalty_seconds,
+        audio_retention_days, max_attempts, join_policy, course_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+               COALESCE($14, 'student'), COALESCE($15, 'ai'), $16, COALESCE($17, false), COALESCE($18, 0),
+               $19, COALESCE($20, 1), COALESCE($21, 'open'), $22)
        RETURNING *`,
       [
         req.teacher.id,
@@ -106,6 +262,18 @@ router.post('/', authenticateTeacher, async (req, res) => {
         qrCodeUrl,
         resolvedStartsAt,
         resolvedEndsAt,
+        validatedRubric ? JSON.stringify(validatedRubric) : null,
+        llmProvider,
+        speechSettings ? JSON.stringify(speechSettings) : null,
+        topicReviewPolicy,
+        topicMode,
+        questionBank ? JSON.stringify(questionBank) : null,
+        typeof integrity_mode === 'boolean' ? integrity_mode : null,
+        focusPenaltySeconds,
+        audioRetentionDays,
+        maxAttempts,
+        joinPolicy,
+        courseId,
       ]
     );
 
@@ -126,20 +294,33 @@ router.post('/', authenticateTeacher, async (req, res) => {
  */
 router.get('/', authenticateTeacher, async (req, res) => {
   try {
-    const { status } = req.query;
+    const { status, course_id: courseId } = req.query;
 
     let query = `
-      SELECT s.*,
+      SELECT s.*, c.name as course_name,
         (SELECT COUNT(*) FROM student_participants WHERE session_id = s.id) as participant_count,
         (SELECT COUNT(*) FROM student_participants WHERE session_id = s.id AND status = 'completed') as completed_count
       FROM assignment_sessions s
+      LEFT JOIN courses c ON c.id = s.course_id
       WHERE s.teacher_id = $1
     `;
     const params = [req.teacher.id];
 
     if (status) {
-      query += ' AND s.status = $2';
       params.push(status);
+      query += ` AND s.status = $${params.length}`;
+    }
+
+    // course_id=none: 과목에 속하지 않은 세션
+    if (courseId === 'none') {
+      query += ' AND s.course_id IS NULL';
+    } else if (courseId) {
+      const { error: courseError, status: courseStatus } = await validateCourseId(courseId, req.teacher.id);
+      if (courseError) {
+        return res.status(courseStatus).json({ error: courseError });
+      }
+      params.push(courseId);
+      query += ` AND s.course_id = $${params.length}`;
     }
 
     query += ' ORDER BY s.created_at DESC';
@@ -153,6 +334,22 @@ router.get('/', authenticateTeacher, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/sessions/rubric/default
+ * Default rubric used when a session has no rubric
+ */
+router.get('/rubric/default', authenticateTeacher, (req, res) => {
+  res.json({ rubric: DEFAULT_RUBRIC });
+});
+
+/**
+ * GET /api/sessions/llm/providers
+ * LLM providers available for per-session selection
+ */
+router.get('/llm/providers', authenticateTeacher, (req, res) => {
+  res.json({ providers: listLLMProviders() });
+});
+
 /**
  * GET /api/sessions/:id
  * Get session details with participants summary
@@ -245,7 +442,105 @@ router.get('/:id/qr', authenticateTeacher, async (req, res) => {
 router.put('/:id', authenticateTeacher, async (req, res) => {
   try {
     const { id } = req.params;
-    const { title, description, topicCount, topicDuration, interviewMode, startsAt, endsAt, reconnectTimeout } = req.body;
+    const {
+      title,
+      description,
+      rubric,
+      llm_provider,
+      speech_settings,
+      topic_review_policy,
+      topic_mode,
+      question_bank,
+      integrity_mode,
+      focus_penalty_seconds,
+      audio_retention_days,
+      max_attempts,
+      join_policy,
+      course_id,
+      // snake_case 지원
+      topic_count,
+      topic_duration,
+      interview_mode,
+      starts_at,
+      ends_at,
+      reconnect_timeout,
+      // camelCase 레거시 지원
+      topicCount,
+      topicDuration,
+      interviewMode,
+      startsAt,
+      endsAt,
+      reconnectTimeout,
+    } = req.body;
+
+    // rubric: 키가 있으면 교체 (null이면 기본 루브릭으로 되돌림)
+    const hasRubric = Object.prototype.hasOwnProperty.call(req.body, 'rubric');
+    const { rubric: validatedRubric, errors: rubricErrors } = validateRubric(rubric);
+    if (rubricErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid rubric', details: rubricErrors });
+    }
+
+    // llm_provider: 키가 있으면 교체 (null이면 배포 기본값)
+    const hasProvider = Object.prototype.hasOwnProperty.call(req.body, 'llm_provider');
+    const { provider: llmProvider, error: providerError } = validateLLMProviderName(llm_provider);
+    if (providerError) {
+      return res.status(400).json({ error: providerError });
+    }
+
+    // speech_settings: 키가 있으면 교체 (null이면 배포 기본값)
+    const hasSpeechSettings = Object.prototype.hasOwnProperty.call(req.body, 'speech_settings');
+    const { settings: speechSettings, errors: speechErrors } = validateSpeechSettings(speech_settings);
+    if (speechErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid speech settings', details: speechErrors });
+    }
+
+    const { policy: topicReviewPolicy, error: policyError } = validateTopicReviewPolicy(topic_review_policy);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const { mode: topicMode, error: topicModeError } = validateTopicMode(topic_mode);
+    if (topicModeError) {
+      return res.status(400).json({ error: topicModeError });
+    }
+
+    // question_bank: 키가 있으면 교체 (null이면 교사 지정 주제/질문 없음)
+    const hasQuestionBank = Object.prototype.hasOwnProperty.call(req.body, 'question_bank');
+    const { questionBank, errors: questionBankErrors } = validateQuestionBank(question_bank);
+    if (questionBankErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid question bank', details: questionBankErrors });
+    }
+
+    const { seconds: focusPenaltySeconds, error: penaltyError } = validateFocusPenalty(focus_penalty_seconds);
+    if (penaltyError) {
+      return res.status(400).json({ error: penaltyError });
+    }
+
+    // audio_retention_days: 키가 있으면 교체 (null이면 녹음 보관 안 함, 이미 저장된 녹음은 기존 만료일 유지)
+    const hasRetention = Object.prototype.hasOwnProperty.call(req.body, 'audio_retention_days');
+    const { days: audioRetentionDays, error: retentionError } = validateRetentionDays(audio_retention_days);
+    if (retentionError) {
+      return res.status(400).json({ error: retentionError });
+    }
+
+    // max_attempts: 줄여도 이미 시작한 회차는 유지된다 (남은 횟수만 줄어듦)
+    const { maxAttempts, error: maxAttemptsError } = validateMaxAttempts(max_attempts);
+    if (maxAttemptsError) {
+      return res.status(400).json({ error: maxAttemptsError });
+    }
+
+    // join_policy: 이미 참여한 학생은 그대로 두고 이후 참여부터 적용
+    const { policy: joinPolicy, error: joinPolicyError } = validateJoinPolicy(join_policy);
+    if (joinPolicyError) {
+      return res.status(400).json({ error: joinPolicyError });
+    }
+
+    // course_id: 키가 있으면 교체 (null이면 과목에서 뺀다)
+    const hasCourse = Object.prototype.hasOwnProperty.call(req.body, 'course_id');
+    const { courseId, error: courseError, status: courseStatus } = await validateCourseId(course_id, req.teacher.id);
+    if (courseError) {
+      return res.status(courseStatus).json({ error: courseError });
+    }
 
     // Check session exists and belongs to teacher
     const existing = await db.query(
@@ -262,6 +557,15 @@ router.put('/:id', authenticateTeacher, async (req, res) => {
       return res.status(400).json({ error: 'Cannot update closed session' });
     }
 
+    const topicSetupError = validateTopicSetup(
+      topicMode || existing.rows[0].topic_mode,
+      hasQuestionBank ? questionBank : existing.rows[0].question_bank,
+      topic_count ?? topicCount ?? existing.rows[0].topic_count
+    );
+    if (topicSetupError) {
+      return res.status(400).json({ error: topicSetupError });
+    }
+
     const result = await db.query(
       `UPDATE assignment_sessions
        SET title = COALESCE($1, title),
@@ -271,10 +575,51 @@ router.put('/:id', authenticateTeacher, async (req, res) => {
            interview_mode = COALESCE($5, interview_mode),
            starts_at = COALESCE($6, starts_at),
            ends_at = COALESCE($7, ends_at),
-           reconnect_timeout = COALESCE($8, reconnect_timeout)
+           reconnect_timeout = COALESCE($8, reconnect_timeout),
+           rubric = CASE WHEN $11::boolean THEN $12::jsonb ELSE rubric END,
+           llm_provider = CASE WHEN $13::boolean THEN $14::varchar ELSE llm_provider END,
+           speech_settings = CASE WHEN $15::boolean THEN $16::jsonb ELSE speech_settings END,
+           topic_review_policy = COALESCE($17, topic_review_policy),
+           topic_mode = COALESCE($18, topic_mode),
+           question_bank = CASE WHEN $19::boolean THEN $20::jsonb ELSE question_bank END,
+           integrity_mode = COALESCE($21, integrity_mode),
+           focus_penalty_seconds = COALESCE($22, focus_penalty_seconds),
+           audio_retention_days = CASE WHEN $23::boolean THEN $24::integer ELSE audio_retention_days END,
+           max_attempts = COALESCE($25, max_attempts),
+           join_policy = COALESCE($26, join_policy),
+           course_id = CASE WHEN $27::boolean THEN $28::uuid ELSE course_id END
        WHERE id = $9 AND teacher_id = $10
        RETURNING *`,
-      [title, description, topicCount, topicDuration, interviewMode, startsAt, endsAt, reconnectTimeout, id, req.teacher.id]
+      [
+        title,
+        description,
+        topic_count ?? topicCount,
+        topic_duration ?? topicDuration,
+        interview_mode ?? interviewMode,
+        starts_at ?? startsAt,
+        ends_at ?? endsAt,
+        reconnect_timeout ?? reconnectTimeout,
+        id,
+        req.teacher.id,
+        hasRubric,
+        validatedRubric ? JSON.stringify(validatedRubric) : null,
+        hasProvider,
+        llmProvider,
+        hasSpeechSettings,
+        speechSettings ? JSON.stringify(speechSettings) : null,
+        topicReviewPolicy,
+        topicMode,
+        hasQuestionBank,
+        questionBank ? JSON.stringify(questionBank) : null,
+        typeof integrity_mode === 'boolean' ? integrity_mode : null,
+        focusPenaltySeconds,
+        hasRetention,
+        audioRetentionDays,
+        maxAttempts,
+        joinPolicy,
+        hasCourse,
+        courseId,
+      ]
     );
 
     res.json({ message: 'Session updated', session: result.rows[0] });
@@ -400,10 +745,15 @@ router.get('/:id/participants', authenticateTeacher, async (req, res) => {
       SELECT
         p.id, p.student_name, p.student_id, p.status,
         p.submitted_file_name, p.chosen_interview_mode,
-        p.file_submitted_at, p.interview_started_at, p.interview_ended_at,
-        p.last_active_at, p.disconnected_at,
-        CASE WHEN p.summary IS NOT NULL THEN true ELSE false END as has_summary
+        p.registered_at, p.file_submitted_at, p.interview_started_at, p.interview_ended_at,
+        p.last_active_at, p.disconnected_at, p.topics_fallback, p.topics_confirmed_at,
+        p.focus_loss_count, p.attempt_number,
+        CASE WHEN p.summary IS NOT NULL THEN true ELSE false END as has_summary,
+        p.teacher_evaluation->>'verdict' as teacher_verdict,
+        ist.current_topic_index, ist.current_phase, ist.topic_started_at, ist.topics_state,
+        ist.teacher_paused_at
       FROM student_participants p
+      LEFT JOIN interview_states ist ON ist.participant_id = p.id
       WHERE p.session_id = $1
     `;
     const params = [id];
@@ -424,6 +774,123 @@ router.get('/:id/participants', authenticateTeacher, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/sessions/:id/events
+ * Server-Sent Events stream of participant status changes (실시간 모니터링)
+ */
+router.get('/:id/events', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Verify session belongs to teacher
+    const sessionCheck = await db.query(
+      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // 프록시 버퍼링 비활성화
+    });
+    res.flushHeaders();
+    res.write(`event: ready\ndata: ${JSON.stringify({ sessionId: id })}\n\n`);
+
+    const unsubscribe = subscribeSessionEvents(id, (event) => {
+      res.write(`event: participant\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // 프록시 유휴 연결 종료 방지용 주석 핑
+    const keepAlive = setInterval(() => {
+      res.write(': ping\n\n');
+    }, 25000);
+
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  } catch (error) {
+    console.error('Session events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open event stream' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+/**
+ * GET /api/sessions/:id/export?format=csv|xlsx
+ * Download session results, one row per participant (성적부 내보내기)
+ */
+router.get('/:id/export', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const requestedFormat = req.query.format ?? 'csv';
+
+    // ?format=csv&format=xlsx처럼 반복되면 배열로 들어온다
+    if (typeof requestedFormat !== 'string' || !EXPORT_FORMATS.includes(requestedFormat.toLowerCase())) {
+      return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+    const format = requestedFormat.toLowerCase();
+
+    const sessionResult = await db.query(
+      'SELECT id, title, topic_count FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const session = sessionResult.rows[0];
+
+    const participantsResult = await db.query(
+      `SELECT
+        p.id, p.student_name, p.student_id, p.status, p.chosen_interview_mode,
+        p.registered_at, p.file_submitted_at, p.interview_started_at, p.interview_ended_at,
+        p.summary, p.teacher_evaluation, p.attempt_number
+      FROM student_participants p
+      WHERE p.session_id = $1
+      ORDER BY p.registered_at ASC`,
+      [id]
+    );
+
+    // 주제별 학생 답변 수와 첫~마지막 대화 간격
+    const statsResult = await db.query(
+      `SELECT
+        c.participant_id, c.topic_index,
+        COUNT(*) FILTER (WHERE c.role = 'student') AS student_turns,
+        EXTRACT(EPOCH FROM MAX(c.created_at) - MIN(c.created_at)) AS seconds
+      FROM interview_conversations c
+      JOIN student_participants p ON p.id = c.participant_id
+      WHERE p.session_id = $1
+      GROUP BY c.participant_id, c.topic_index`,
+      [id]
+    );
+
+    const table = buildExportRows(participantsResult.rows, statsResult.rows, session.topic_count);
+    const body = format === 'xlsx' ? await toXlsx(table, session.title) : toCsv(table);
+
+    const fileName = `${session.title}_results.${format}`;
+    res.set({
+      'Content-Type': format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8',
+      'Content-Disposition': attachmentHeader(fileName, `results.${format}`),
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Export results error:', error);
+    res.status(500).json({ error: 'Failed to export results' });
+  }
+});
+
 /**
  * GET /api/sessions/:id/participants/:pid
  * Get detailed participant info including file, transcript, and summary
@@ -434,7 +901,7 @@ router.get('/:id/participants/:pid', authenticateTeacher, async (req, res) => {
 
     // Verify session belongs to teacher
     const sessionCheck = await db.query(
-      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      'SELECT id, max_attempts FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
       [id, req.teacher.id]
     );
 
@@ -453,6 +920,8 @@ router.get('/:id/participants/:pid', authenticateTeacher, async (req, res) => {
     }
 
     const participant = participantResult.rows[0];
+    participant.summary = normalizeSummary(participant.summary);
+    delete participant.text_signature;
 
     // Get interview state if exists
     const stateResult = await db.query(
@@ -462,13 +931,86 @@ router.get('/:id/participants/:pid', authenticateTeacher, async (req, res) => {
 
     // Get conversation history
     const conversationResult = await db.query(
-      `SELECT topic_index, turn_index, role, content, audio_url, created_at
+      `SELECT id, topic_index, turn_index, role, content, recording_id, citations, telemetry,
+              teacher_annotation, created_at
        FROM interview_conversations
        WHERE participant_id = $1
        ORDER BY topic_index, turn_index`,
       [pid]
     );
 
+    // Topic analysis / edit history
+    const topicLogResult = await db.query(
+      `SELECT action, topics, fallback, llm_provider, created_at
+       FROM topic_analysis_logs
+       WHERE participant_id = $1 AND attempt_id IS NULL
+       ORDER BY created_at`,
+      [pid]
+    );
+
+    // Evaluation history - AI versions and teacher decisions (평가 이력)
+    const evaluationResult = await db.query(
+      `SELECT version, kind, summary, llm_provider, instructions, fallback, verdict, score, comment, created_at
+       FROM participant_evaluations
+       WHERE participant_id = $1 AND attempt_id IS NULL AND reset_at IS NULL
+       ORDER BY version`,
+      [pid]
+    );
+    const evaluations = evaluationResult.rows.map((row) => ({
+      ...row,
+      summary: row.kind === 'ai' ? normalizeSummary(row.summary) : null,
+    }));
+
+    // Teacher interventions on the live interview (교사 조치 기록)
+    const interventionResult = await db.query(
+      `SELECT id, action, topic_index, details, created_at
+       FROM interview_interventions
+       WHERE participant_id = $1
+       ORDER BY created_at`,
+      [pid]
+    );
+
+    // Integrity mode events (화면 이탈, 붙여넣기 차단)
+    const integrityResult = await db.query(
+      `SELECT type, topic_index, duration_ms, penalty_seconds, occurred_at
+       FROM integrity_events
+       WHERE participant_id = $1 AND attempt_id IS NULL
+       ORDER BY occurred_at`,
+      [pid]
+    );
+
+    // Earlier attempts (재응시 전 회차) + the current one for comparison
+    const attemptResult = await db.query(
+      `SELECT a.id, a.attempt_number, a.status, a.chosen_interview_mode, a.submitted_file_name,
+              a.summary, a.teacher_evaluation, a.focus_loss_count,
+              a.file_submitted_at, a.interview_started_at, a.interview_ended_at, a.archived_at,
+              (SELECT COUNT(*)::int FROM interview_conversations c
+               WHERE c.attempt_id = a.id AND c.role = 'student') AS student_turns
+       FROM participant_attempts a
+       WHERE a.participant_id = $1
+       ORDER BY a.attempt_number`,
+      [pid]
+    );
+    const attempts = [
+      ...attemptResult.rows.map((row) => ({ ...row, summary: normalizeSummary(row.summary), current: false })),
+      {
+        id: null,
+        attempt_number: participant.attempt_number || 1,
+        status: participant.status,
+        chosen_interview_mode: participant.chosen_interview_mode,
+        submitted_file_name: participant.submitted_file_name,
+        summary: participant.summary,
+        teacher_evaluation: participant.teacher_evaluation,
+        focus_loss_count: participant.focus_loss_count,
+        file_submitted_at: participant.file_submitted_at,
+        interview_started_at: participant.interview_started_at,
+        interview_ended_at: participant.interview_ended_at,
+        archived_at: null,
+        student_turns: conversationResult.rows.filter((turn) => turn.role === 'student').length,
+        current: true,
+      },
+    ];
+
     // Group conversations by topic
     const conversationsByTopic = conversationResult.rows.reduce((acc, turn) => {
       if (!acc[turn.topic_index]) {
@@ -478,11 +1020,24 @@ router.get('/:id/participants/:pid', authenticateTeacher, async (req, res) => {
       return acc;
     }, {});
 
+    // Stylometric consistency - supporting signal only (보조 지표)
+    const answers = conversationResult.rows.filter((turn) => turn.role === 'student').map((turn) => turn.content);
+    const stylometry = participant.extracted_text && answers.length > 0
+      ? compareStyle(participant.extracted_text, answers, { answerMode: participant.chosen_interview_mode })
+      : null;
+
     res.json({
       participant,
       interviewState: stateResult.rows[0] || null,
       conversations: conversationsByTopic,
       totalTurns: conversationResult.rows.length,
+      topicLog: topicLogResult.rows,
+      integrityLog: integrityResult.rows,
+      interventionLog: interventionResult.rows,
+      evaluations,
+      stylometry,
+      attempts,
+      attemptPolicy: attemptPolicy({ ...participant, max_attempts: sessionCheck.rows[0].max_attempts }),
     });
   } catch (error) {
     console.error('Get participant error:', error);
@@ -490,6 +1045,1394 @@ router.get('/:id/participants/:pid', authenticateTeacher, async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/sessions/:id/participants/:pid/notes
+ * Save the teacher's notes for a participant
+ */
+router.put('/:id/participants/:pid/notes', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+    const { notes } = req.body;
+
+    if (notes !== null && typeof notes !== 'string') {
+      return res.status(400).json({ error: 'notes must be a string' });
+    }
+
+    const result = await db.query(
+      `UPDATE student_participants p
+       SET teacher_notes = $1
+       FROM assignment_sessions s
+       WHERE p.id = $2 AND p.session_id = s.id AND s.id = $3 AND s.teacher_id = $4
+       RETURNING p.teacher_notes`,
+      [notes ? notes.slice(0, 10000) : null, pid, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ message: 'Notes saved', notes: result.rows[0].teacher_notes });
+  } catch (error) {
+    console.error('Save notes error:', error);
+    res.status(500).json({ error: 'Failed to save notes' });
+  }
+});
+
+/**
+ * Run generateSummary over a participant's full transcript (인터뷰 종료와 같은 입력)
+ * @param {object} participant - { id, analyzed_topics, extracted_text, chosen_interview_mode, rubric, llm_provider }
+ */
+async function summarizeInterview(participant, { provider = participant.llm_provider, instructions = null } = {}) {
+  const conversationsResult = await db.query(
+    `SELECT topic_index, role, content
+     FROM interview_conversations
+     WHERE participant_id = $1
+     ORDER BY topic_index, turn_index`,
+    [participant.id]
+  );
+
+  const transcript = conversationsResult.rows
+    .map(turn => `${turn.role === 'ai' ? 'AI' : '학생'}: ${turn.content}`)
+    .join('\n');
+
+  return generateSummary({
+    transcript,
+    topics: participant.analyzed_topics || [],
+    assignmentText: participant.extracted_text,
+    interviewMode: participant.chosen_interview_mode,
+    provider,
+    rubric: participant.rubric,
+    instructions,
+  });
+}
+
+/**
+ * PUT /api/sessions/:id/participants/:pid/evaluation
+ * Record the teacher's final decision ({ verdict, score?, comment? }) as a new evaluation version
+ */
+router.put('/:id/participants/:pid/evaluation', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const { decision, errors } = validateTeacherDecision(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid evaluation', details: errors });
+    }
+
+    const participantResult = await db.query(
+      `SELECT p.id FROM student_participants p
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+      [pid, id, req.teacher.id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const evaluation = await db.transaction(async (client) => {
+      // 동시에 저장되는 평가가 같은 버전 번호를 받지 않도록 참여자 행을 먼저 잠근다
+      await client.query('SELECT id FROM student_participants WHERE id = $1 FOR UPDATE', [pid]);
+      const inserted = await client.query(
+        `INSERT INTO participant_evaluations (participant_id, version, kind, verdict, score, comment, teacher_id)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, 'teacher', $2, $3, $4, $5
+         FROM participant_evaluations WHERE participant_id = $1
+         RETURNING version, created_at`,
+        [pid, decision.verdict, decision.score, decision.comment, req.teacher.id]
+      );
+      const { version, created_at: createdAt } = inserted.rows[0];
+      const teacherEvaluation = toTeacherEvaluation(decision, version, createdAt);
+      await client.query(
+        'UPDATE student_participants SET teacher_evaluation = $1 WHERE id = $2',
+        [JSON.stringify(teacherEvaluation), pid]
+      );
+      return teacherEvaluation;
+    });
+
+    res.json({ message: 'Evaluation saved', teacherEvaluation: evaluation });
+  } catch (error) {
+    console.error('Save evaluation error:', error);
+    res.status(500).json({ error: 'Failed to save evaluation' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/participants/:pid/evaluation/regrade
+ * Re-run the AI evaluation with extra instructions and/or another model ({ instructions?, llm_provider? })
+ * The new version becomes the participant's summary; earlier versions stay in the history.
+ */
+router.post('/:id/participants/:pid/evaluation/regrade', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const { instructions, error: instructionsError } = validateRegradeInstructions(req.body.instructions);
+    if (instructionsError) {
+      return res.status(400).json({ error: instructionsError });
+    }
+
+    const { provider: llmProvider, error: providerError } = validateLLMProviderName(req.body.llm_provider);
+    if (providerError) {
+      return res.status(400).json({ error: providerError });
+    }
+
+    const participantResult = await db.query(
+      `SELECT p.id, p.analyzed_topics, p.extracted_text, p.chosen_interview_mode, p.interview_ended_at,
+              s.rubric, s.llm_provider
+       FROM student_participants p
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+      [pid, id, req.teacher.id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const participant = participantResult.rows[0];
+    if (!participant.interview_ended_at) {
+      return res.status(400).json({ error: 'Interview has not ended yet' });
+    }
+
+    const provider = llmProvider || participant.llm_provider;
+    const { summary, fallback } = await summarizeInterview(participant, { provider, instructions });
+
+    // 실패한 재채점은 이력에만 남기고 현재 평가는 바꾸지 않는다
+    const evaluation = await db.transaction(async (client) => {
+      // 동시에 저장되는 평가가 같은 버전 번호를 받지 않도록 참여자 행을 먼저 잠근다
+      await client.query('SELECT id FROM student_participants WHERE id = $1 FOR UPDATE', [pid]);
+      const inserted = await client.query(
+        `INSERT INTO participant_evaluations
+         (participant_id, version, kind, summary, llm_provider, instructions, fallback, teacher_id)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, 'ai', $2, $3, $4, $5, $6
+         FROM participant_evaluations WHERE participant_id = $1
+         RETURNING version, kind, summary, llm_provider, instructions, fallback, created_at`,
+        [pid, JSON.stringify(summary), getLLMProvider(provider).name, instructions, fallback, req.teacher.id]
+      );
+      if (!fallback) {
+        await client.query(
+          'UPDATE student_participants SET summary = $1 WHERE id = $2',
+          [JSON.stringify(summary), pid]
+        );
+      }
+      return inserted.rows[0];
+    });
+
+    res.json({
+      message: fallback ? 'Re-grading failed' : 'Evaluation re-graded',
+      evaluation: { ...evaluation, summary: normalizeSummary(evaluation.summary) },
+      summary: fallback ? null : summary,
+    });
+  } catch (error) {
+    console.error('Regrade evaluation error:', error);
+    res.status(500).json({ error: 'Failed to re-grade evaluation' });
+  }
+});
+
+/**
+ * Lock the interview state row and re-check the intervention against it
+ * 학생 답변 처리(LLM 호출 뒤 저장)나 화면 이탈 차감이 같은 행을 바꿀 수 있으므로 잠근 최신 행을 기준으로 바꾼다.
+ * @returns {Promise<{ state: object|null, blocker: string|null }>}
+ */
+async function lockStateForIntervention(client, participant, action) {
+  const result = await client.query(
+    'SELECT * FROM interview_states WHERE participant_id = $1 FOR UPDATE',
+    [participant.id]
+  );
+  const state = result.rows[0] || null;
+  return { state, blocker: interventionBlocker(action, participant, state) };
+}
+
+/**
+ * Apply one intervention to the interview state (see services/interviewControl.js)
+ * @returns {Promise<{ status: string, phase: string|null, topicsState, topicStartedAt, teacherPausedAt, details: object|null, blocker?: string }>}
+ *   blocker is set when the locked state no longer allows the action
+ */
+async function applyIntervention(participant, { action, seconds }) {
+  switch (action) {
+    case 'extend_time': {
+      return db.transaction(async (client) => {
+        const locked = await lockStateForIntervention(client, participant, action);
+        if (locked.blocker) return { blocker: locked.blocker };
+
+        const extended = extendTopicTime(locked.state.topics_state, locked.state.current_topic_index, seconds);
+        await client.query(
+          'UPDATE interview_states SET topics_state = $1 WHERE participant_id = $2',
+          [JSON.stringify(extended), participant.id]
+        );
+        return {
+          status: participant.status,
+          phase: locked.state.current_phase,
+          topicsState: extended,
+          topicStartedAt: locked.state.topic_started_at,
+          teacherPausedAt: locked.state.teacher_paused_at,
+          details: { seconds },
+        };
+      });
+    }
+
+    case 'skip_topic': {
+      // completeTopicEarly와 같이 현재 주제에 머문 채 전환 대기 (학생이 confirm-transition으로 다음 주제 시작)
+      return db.transaction(async (client) => {
+        const locked = await lockStateForIntervention(client, participant, action);
+        if (locked.blocker) return { blocker: locked.blocker };
+
+        const current = locked.state.current_topic_index;
+        const isLastTopic = current + 1 >= locked.state.topics_state.length;
+        const phase = isLastTopic ? 'finalizing' : 'topic_transition';
+        const skipped = [...locked.state.topics_state];
+        skipped[current] = { ...skipped[current], status: 'completed', timeLeft: 0, skippedByTeacher: true };
+        await client.query(
+          `UPDATE interview_states
+           SET current_phase = $1,
+               topics_state = $2,
+               topic_started_at = NULL,
+               topic_paused_at = NULL,
+               teacher_paused_at = NULL,
+               accumulated_pause_time = 0
+           WHERE participant_id = $3`,
+          [phase, JSON.stringify(skipped), participant.id]
+        );
+        return { status: participant.status, phase, topicsState: skipped, topicStartedAt: null, teacherPausedAt: null, details: null };
+      });
+    }
+
+    case 'pause': {
+      return db.transaction(async (client) => {
+        const locked = await lockStateForIntervention(client, participant, action);
+        if (locked.blocker) return { blocker: locked.blocker };
+
+        const result = await client.query(
+          `UPDATE interview_states SET teacher_paused_at = NOW()
+           WHERE participant_id = $1 AND teacher_paused_at IS NULL
+           RETURNING teacher_paused_at`,
+          [participant.id]
+        );
+        if (result.rows.length === 0) return { blocker: 'Interview is already paused' };
+        return {
+          status: participant.status,
+          phase: locked.state.current_phase,
+          topicsState: locked.state.topics_state,
+          topicStartedAt: locked.state.topic_started_at,
+          teacherPausedAt: result.rows[0].teacher_paused_at,
+          details: null,
+        };
+      });
+    }
+
+    case 'resume': {
+      // 멈춰 있던 시간만큼 주제 시작 시각을 미룬다
+      return db.transaction(async (client) => {
+        const locked = await lockStateForIntervention(client, participant, action);
+        if (locked.blocker) return { blocker: locked.blocker };
+
+        const result = await client.query(
+          `UPDATE interview_states
+           SET topic_started_at = topic_started_at + (NOW() - teacher_paused_at),
+               teacher_paused_at = NULL
+           WHERE participant_id = $1 AND teacher_paused_at IS NOT NULL
+           RETURNING topic_started_at, EXTRACT(EPOCH FROM (NOW() - $2::timestamptz)) AS paused_seconds`,
+          [participant.id, locked.state.teacher_paused_at]
+        );
+        if (result.rows.length === 0) return { blocker: 'Interview is not paused' };
+        return {
+          status: participant.status,
+          phase: locked.state.current_phase,
+          topicsState: locked.state.topics_state,
+          topicStartedAt: result.rows[0].topic_started_at,
+          teacherPausedAt: null,
+          details: { pausedSeconds: Math.round(Number(result.rows[0].paused_seconds)) },
+        };
+      });
+    }
+
+    case 'force_complete': {
+      const locked = await db.transaction(async (client) => {
+        const current = await lockStateForIntervention(client, participant, action);
+        if (current.blocker) return current;
+
+        let completed = current.state.topics_state;
+        const currentIndex = current.state.current_topic_index;
+        if (completed?.[currentIndex] && completed[currentIndex].status !== 'completed') {
+          completed = [...completed];
+          completed[currentIndex] = { ...completed[currentIndex], status: 'completed', timeLeft: 0 };
+        }
+        await client.query(
+          `UPDATE interview_states
+           SET current_phase = 'completed',
+               topics_state = $1,
+               topic_started_at = NULL,
+               teacher_paused_at = NULL
+           WHERE participant_id = $2`,
+          [JSON.stringify(completed), participant.id]
+        );
+        await client.query(
+          `UPDATE student_participants
+           SET status = 'completed', interview_ended_at = NOW(), disconnected_at = NULL
+           WHERE id = $1`,
+          [participant.id]
+        );
+        return { topicsState: completed, blocker: null };
+      });
+      if (locked.blocker) return { blocker: locked.blocker };
+
+      // 학생 화면이 닫혀 있어도 평가가 남도록 여기서 생성한다 (/complete는 저장된 평가를 돌려줌)
+      const generated = await summarizeInterview(participant);
+      // 참여자 행을 잠근 뒤 다시 확인한다: 학생의 /complete가 먼저 평가를 저장했으면 그 평가를 쓴다
+      const summary = await db.transaction(async (client) => {
+        const lockedParticipant = await client.query(
+          'SELECT status, summary FROM student_participants WHERE id = $1 FOR UPDATE',
+          [participant.id]
+        );
+        const current = lockedParticipant.rows[0];
+        if (current?.summary) return normalizeSummary(current.summary);
+        // 요약을 만드는 동안 교사가 인터뷰를 초기화했으면 저장하지 않는다
+        if (current?.status !== 'completed') return null;
+
+        await client.query(
+          'UPDATE student_participants SET summary = $1 WHERE id = $2',
+          [JSON.stringify(generated.summary), participant.id]
+        );
+        await client.query(
+          `INSERT INTO participant_evaluations (participant_id, version, kind, summary, llm_provider, fallback)
+           SELECT $1, COALESCE(MAX(version), 0) + 1, 'ai', $2, $3, $4
+           FROM participant_evaluations WHERE participant_id = $1`,
+          [participant.id, JSON.stringify(generated.summary), getLLMProvider(participant.llm_provider).name, generated.fallback]
+        );
+        return generated.summary;
+      });
+      return {
+        status: 'completed',
+        phase: 'completed',
+        topicsState: locked.topicsState,
+        topicStartedAt: null,
+        teacherPausedAt: null,
+        details: { authorshipScore: summary?.authorshipScore ?? null },
+      };
+    }
+
+    case 'reset': {
+      // 제출 파일과 확정된 주제는 유지하고 인터뷰만 처음부터 다시 (무결성 기록은 남김)
+      const locked = await db.transaction(async (client) => {
+        // 참여자 행을 잠근 뒤 다시 확인한다: 학생의 /complete나 강제 종료가 그 사이 평가를 저장했을 수 있다
+        const current = await client.query(
+          'SELECT status, file_submitted_at FROM student_participants WHERE id = $1 FOR UPDATE',
+          [participant.id]
+        );
+        const lockedParticipant = { ...participant, ...current.rows[0] };
+        const { blocker } = await lockStateForIntervention(client, lockedParticipant, action);
+        if (blocker) return { blocker };
+
+        await client.query('DELETE FROM interview_conversations WHERE participant_id = $1', [participant.id]);
+        await client.query('DELETE FROM interview_states WHERE participant_id = $1', [participant.id]);
+        // 지난 평가 이력은 기록으로 남기되 현재 결과에서는 뺀다
+        await client.query(
+          `UPDATE participant_evaluations SET reset_at = NOW()
+           WHERE participant_id = $1 AND attempt_id IS NULL AND reset_at IS NULL`,
+          [participant.id]
+        );
+        await client.query(
+          `UPDATE student_participants
+           SET status = 'file_submitted',
+               interview_started_at = NULL,
+               interview_ended_at = NULL,
+               disconnected_at = NULL,
+               summary = NULL,
+               teacher_evaluation = NULL,
+               focus_loss_count = 0
+           WHERE id = $1`,
+          [participant.id]
+        );
+        return { previousStatus: lockedParticipant.status, blocker: null };
+      });
+      if (locked.blocker) return { blocker: locked.blocker };
+
+      return {
+        status: 'file_submitted',
+        phase: null,
+        topicsState: null,
+        topicStartedAt: null,
+        teacherPausedAt: null,
+        details: { previousStatus: locked.previousStatus },
+      };
+    }
+
+    default:
+      throw new Error(`Unknown intervention: ${action}`);
+  }
+}
+
+/**
+ * POST /api/sessions/:id/participants/:pid/interventions
+ * Act on a live interview ({ action, seconds? }); every action is recorded in interview_interventions
+ */
+router.post('/:id/participants/:pid/interventions', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const { intervention, error: interventionError } = validateIntervention(req.body);
+    if (interventionError) {
+      return res.status(400).json({ error: interventionError });
+    }
+
+    const participantResult = await db.query(
+      `SELECT p.id, p.session_id, p.student_name, p.status, p.file_submitted_at,
+              p.analyzed_topics, p.extracted_text, p.chosen_interview_mode,
+              s.rubric, s.llm_provider
+       FROM student_participants p
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+      [pid, id, req.teacher.id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const participant = participantResult.rows[0];
+    const stateResult = await db.query('SELECT * FROM interview_states WHERE participant_id = $1', [pid]);
+    const state = stateResult.rows[0] || null;
+
+    const blocker = interventionBlocker(intervention.action, participant, state);
+    if (blocker) {
+      return res.status(409).json({ error: blocker, currentPhase: state?.current_phase || null });
+    }
+
+    const result = await applyIntervention(participant, intervention);
+    if (result.blocker) {
+      return res.status(409).json({ error: result.blocker });
+    }
+
+    const logResult = await db.query(
+      `INSERT INTO interview_interventions (participant_id, teacher_id, action, topic_index, details)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, action, topic_index, details, created_at`,
+      [
+        pid,
+        req.teacher.id,
+        intervention.action,
+        state?.current_topic_index ?? null,
+        result.details ? JSON.stringify(result.details) : null,
+      ]
+    );
+
+    const topicFields = result.phase
+      ? topicEventFields(result.topicsState, state.current_topic_index, result.phase, result.topicStartedAt)
+      : {};
+    publishSessionEvent(participant.session_id, 'teacher_intervention', {
+      participantId: participant.id,
+      studentName: participant.student_name,
+      status: result.status,
+      action: intervention.action,
+      seconds: intervention.seconds,
+      teacherPausedAt: result.teacherPausedAt ? new Date(result.teacherPausedAt).toISOString() : null,
+      ...topicFields,
+    });
+    if (intervention.action === 'force_complete') {
+      publishSessionEvent(participant.session_id, 'completed', {
+        participantId: participant.id,
+        studentName: participant.student_name,
+        status: 'completed',
+        authorshipScore: result.details.authorshipScore,
+      });
+    }
+
+    res.json({
+      message: 'Intervention applied',
+      intervention: logResult.rows[0],
+      status: result.status,
+      current_phase: result.phase,
+    });
+  } catch (error) {
+    console.error('Intervention error:', error);
+    res.status(500).json({ error: 'Failed to apply intervention' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/participants/:pid/attempts/grant
+ * Allow the participant one more attempt than the session's max_attempts
+ */
+router.post('/:id/participants/:pid/attempts/grant', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const result = await db.query(
+      `UPDATE student_participants p
+       SET extra_attempts = COALESCE(p.extra_attempts, 0) + 1
+       FROM assignment_sessions s
+       WHERE p.id = $1 AND p.session_id = s.id AND s.id = $2 AND s.teacher_id = $3
+         AND COALESCE(p.extra_attempts, 0) < $4
+       RETURNING p.id, p.student_name, p.status, p.attempt_number, p.extra_attempts, s.max_attempts`,
+      [pid, id, req.teacher.id, MAX_ATTEMPTS]
+    );
+
+    if (result.rows.length === 0) {
+      const exists = await db.query(
+        `SELECT 1 FROM student_participants p
+         JOIN assignment_sessions s ON s.id = p.session_id
+         WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+        [pid, id, req.teacher.id]
+      );
+      return exists.rows.length === 0
+        ? res.status(404).json({ error: 'Not found' })
+        : res.status(400).json({ error: `At most ${MAX_ATTEMPTS} extra attempts can be granted` });
+    }
+
+    const participant = result.rows[0];
+    const policy = attemptPolicy(participant);
+
+    publishSessionEvent(id, 'attempt_granted', {
+      participantId: participant.id,
+      studentName: participant.student_name,
+      status: participant.status,
+      remaining: policy.remaining,
+    });
+
+    res.json({ message: 'Extra attempt granted', attemptPolicy: policy });
+  } catch (error) {
+    console.error('Grant attempt error:', error);
+    res.status(500).json({ error: 'Failed to grant attempt' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:pid/attempts/:attemptId
+ * Transcript and evaluation history of an earlier attempt
+ */
+router.get('/:id/participants/:pid/attempts/:attemptId', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid, attemptId } = req.params;
+
+    const attemptResult = await db.query(
+      `SELECT a.*
+       FROM participant_attempts a
+       JOIN student_participants p ON p.id = a.participant_id
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE a.id = $1 AND p.id = $2 AND s.id = $3 AND s.teacher_id = $4`,
+      [attemptId, pid, id, req.teacher.id]
+    );
+
+    if (attemptResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+
+    const attempt = attemptResult.rows[0];
+    attempt.summary = normalizeSummary(attempt.summary);
+
+    const conversationResult = await db.query(
+      `SELECT id, topic_index, turn_index, role, content, recording_id, citations, telemetry,
+              teacher_annotation, created_at
+       FROM interview_conversations
+       WHERE attempt_id = $1
+       ORDER BY topic_index, turn_index`,
+      [attemptId]
+    );
+
+    const evaluationResult = await db.query(
+      `SELECT version, kind, summary, llm_provider, instructions, fallback, verdict, score, comment, created_at
+       FROM participant_evaluations
+       WHERE attempt_id = $1 AND reset_at IS NULL
+       ORDER BY version`,
+      [attemptId]
+    );
+
+    const integrityResult = await db.query(
+      `SELECT type, topic_index, duration_ms, penalty_seconds, occurred_at
+       FROM integrity_events
+       WHERE attempt_id = $1
+       ORDER BY occurred_at`,
+      [attemptId]
+    );
+
+    const conversationsByTopic = conversationResult.rows.reduce((acc, turn) => {
+      if (!acc[turn.topic_index]) {
+        acc[turn.topic_index] = [];
+      }
+      acc[turn.topic_index].push(turn);
+      return acc;
+    }, {});
+
+    res.json({
+      attempt,
+      conversations: conversationsByTopic,
+      totalTurns: conversationResult.rows.length,
+      evaluations: evaluationResult.rows.map((row) => ({
+        ...row,
+        summary: row.kind === 'ai' ? normalizeSummary(row.summary) : null,
+      })),
+      integrityLog: integrityResult.rows,
+    });
+  } catch (error) {
+    console.error('Get attempt error:', error);
+    res.status(500).json({ error: 'Failed to get attempt' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/participants/:pid/turns/:turnId/annotation
+ * Annotate one transcript turn ({ annotation }, empty to remove)
+ */
+router.put('/:id/participants/:pid/turns/:turnId/annotation', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid, turnId } = req.params;
+
+    const { annotation, error: annotationError } = validateAnnotation(req.body.annotation);
+    if (annotationError) {
+      return res.status(400).json({ error: annotationError });
+    }
+
+    const result = await db.query(
+      `UPDATE interview_conversations c
+       SET teacher_annotation = $1
+       FROM student_participants p, assignment_sessions s
+       WHERE c.id = $2 AND c.participant_id = p.id AND p.id = $3
+         AND p.session_id = s.id AND s.id = $4 AND s.teacher_id = $5
+       RETURNING c.id, c.teacher_annotation`,
+      [annotation, turnId, pid, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ message: 'Annotation saved', turn: result.rows[0] });
+  } catch (error) {
+    console.error('Save annotation error:', error);
+    res.status(500).json({ error: 'Failed to save annotation' });
+  }
+});
+
+/**
+ * Participant awaiting topic review, scoped to the teacher's session
+ */
+async function loadReviewableParticipant(req) {
+  const result = await db.query(
+    `SELECT p.id, p.session_id, p.student_name, p.status, p.extracted_text, p.analyzed_topics,
+            p.topics_fallback, s.topic_count, s.llm_provider, s.topic_mode, s.question_bank
+     FROM student_participants p
+     JOIN assignment_sessions s ON s.id = p.session_id
+     WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+    [req.params.pid, req.params.id, req.teacher.id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Record a topic analysis or edit (topic_analysis_logs)
+ */
+async function logTopicAnalysis(participant, action, { topics, fallback = false }) {
+  await db.query(
+    `INSERT INTO topic_analysis_logs (participant_id, action, topics, fallback, llm_provider)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      participant.id,
+      action,
+      JSON.stringify(topics),
+      fallback,
+      action.endsWith('_edit') ? null : getLLMProvider(participant.llm_provider).name,
+    ]
+  );
+}
+
+/**
+ * POST /api/sessions/:id/participants/:pid/topics/reanalyze
+ * Re-run topic analysis for a participant before the interview starts
+ */
+router.post('/:id/participants/:pid/topics/reanalyze', authenticateTeacher, async (req, res) => {
+  try {
+    const participant = await loadReviewableParticipant(req);
+    if (!participant) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (participant.status !== 'file_submitted') {
+      return res.status(400).json({ error: 'Topics can only be changed before the interview starts' });
+    }
+
+    const { topics, fallback } = await analyzeSessionTopics({
+      assignmentText: participant.extracted_text,
+      topicMode: participant.topic_mode,
+      questionBank: participant.question_bank,
+      topicCount: participant.topic_count,
+      provider: participant.llm_provider,
+    });
+
+    const result = await db.query(
+      `UPDATE student_participants
+       SET analyzed_topics = $1, topics_fallback = $2,
+           topics_confirmed_at = NULL, topics_confirmed_by = NULL
+       WHERE id = $3
+       RETURNING analyzed_topics, topics_fallback, topics_confirmed_at, topics_confirmed_by`,
+      [JSON.stringify(topics), fallback, participant.id]
+    );
+    await logTopicAnalysis(participant, 'teacher_reanalysis', { topics, fallback });
+
+    publishSessionEvent(participant.session_id, 'topics_reviewed', {
+      participantId: participant.id,
+      studentName: participant.student_name,
+      status: participant.status,
+      topicsFallback: fallback,
+      topicsConfirmed: false,
+    });
+
+    res.json({ message: 'Topics re-analyzed', participant: result.rows[0] });
+  } catch (error) {
+    console.error('Reanalyze topics error:', error);
+    res.status(500).json({ error: 'Failed to re-analyze topics' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/participants/:pid/topics
+ * Edit topic titles and/or confirm the topics ({ topics?, confirm? })
+ */
+router.put('/:id/participants/:pid/topics', authenticateTeacher, async (req, res) => {
+  try {
+    const participant = await loadReviewableParticipant(req);
+    if (!participant) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (participant.status !== 'file_submitted') {
+      return res.status(400).json({ error: 'Topics can only be changed before the interview starts' });
+    }
+
+    let topics = participant.analyzed_topics || [];
+    if (req.body.topics !== undefined) {
+      const edit = applyTopicEdits(topics, req.body.topics);
+      if (edit.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid topics', details: edit.errors });
+      }
+      if (edit.changed) {
+        topics = edit.topics;
+        await logTopicAnalysis(participant, 'teacher_edit', { topics });
+      }
+    }
+
+    const confirm = req.body.confirm === true;
+    const result = await db.query(
+      `UPDATE student_participants
+       SET analyzed_topics = $1,
+           topics_confirmed_at = CASE WHEN $2::boolean THEN NOW() ELSE topics_confirmed_at END,
+           topics_confirmed_by = CASE WHEN $2::boolean THEN 'teacher' ELSE topics_confirmed_by END
+       WHERE id = $3
+       RETURNING analyzed_topics, topics_fallback, topics_confirmed_at, topics_confirmed_by`,
+      [JSON.stringify(topics), confirm, participant.id]
+    );
+
+    publishSessionEvent(participant.session_id, 'topics_reviewed', {
+      participantId: participant.id,
+      studentName: participant.student_name,
+      status: participant.status,
+      topicsFallback: participant.topics_fallback,
+      topicsConfirmed: Boolean(result.rows[0].topics_confirmed_at),
+    });
+
+    res.json({ message: confirm ? 'Topics confirmed' : 'Topics saved', participant: result.rows[0] });
+  } catch (error) {
+    console.error('Update topics error:', error);
+    res.status(500).json({ error: 'Failed to update topics' });
+  }
+});
+
+// 명단 추가/갱신 - 같은 학번은 이름과 이메일만 바꾸고 PIN/코드는 새 학생에게만 만든다
+// replace: 목록에 없는 학생 중 아직 참여하지 않은 학생 삭제
+async function upsertSessionRoster(sessionId, entries, replace) {
+  const studentIds = entries.map((entry) => entry.studentId);
+  return db.transaction(async (client) => {
+    let added = 0;
+    let updated = 0;
+    for (const entry of entries) {
+      const result = await client.query(
+        `INSERT INTO session_roster (session_id, student_name, student_id, email, pin, one_time_code)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (session_id, student_id)
+         DO UPDATE SET student_name = EXCLUDED.student_name, email = EXCLUDED.email
+         RETURNING (xmax = 0) AS inserted`,
+        [sessionId, entry.studentName, entry.studentId, entry.email, generatePin(), generateOneTimeCode()]
+      );
+      if (result.rows[0].inserted) added++;
+      else updated++;
+    }
+
+    let removed = 0;
+    if (replace) {
+      const removedResult = await client.query(
+        `DELETE FROM session_roster
+         WHERE session_id = $1 AND participant_id IS NULL AND NOT (student_id = ANY($2))`,
+        [sessionId, studentIds]
+      );
+      removed = removedResult.rowCount;
+    }
+    return { added, updated, removed };
+  });
+}
+
+// 명단 + 참여 상태 (교사 화면, 명단 내보내기)
+async function loadRoster(sessionId) {
+  const result = await db.query(
+    `SELECT r.id, r.student_name, r.student_id, r.email, r.pin, r.one_time_code, r.code_used_at,
+            r.participant_id, r.created_at, p.status AS participant_status,
+            (SELECT COUNT(*)::int FROM join_conflicts c WHERE c.roster_id = r.id) AS conflict_count
+     FROM session_roster r
+     LEFT JOIN student_participants p ON p.id = r.participant_id
+     WHERE r.session_id = $1
+     ORDER BY r.student_id ASC`,
+    [sessionId]
+  );
+  return result.rows;
+}
+
+/**
+ * GET /api/sessions/:id/roster
+ * Class roster with join credentials, join status and join conflicts (학생 명단)
+ */
+router.get('/:id/roster', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const sessionCheck = await db.query(
+      'SELECT id, join_policy FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const conflictsResult = await db.query(
+      `SELECT id, roster_id, participant_id, student_name, student_id, reason, created_at
+       FROM join_conflicts
+       WHERE session_id = $1
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [id]
+    );
+
+    res.json({
+      joinPolicy: sessionCheck.rows[0].join_policy || 'open',
+      roster: await loadRoster(id),
+      conflicts: conflictsResult.rows,
+    });
+  } catch (error) {
+    console.error('Get roster error:', error);
+    res.status(500).json({ error: 'Failed to get roster' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/roster
+ * Import a roster CSV (이름, 학번, 이메일). Existing student IDs are updated and keep their PIN/code;
+ * replace: true removes students missing from the file who have not joined yet
+ */
+router.post('/:id/roster', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { csv, replace = false } = req.body;
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'Roster CSV is required' });
+    }
+
+    const sessionCheck = await db.query(
+      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const { entries, errors } = parseRosterCsv(csv);
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'No valid students in the roster', details: errors });
+    }
+
+    const studentIds = entries.map((entry) => entry.studentId);
+    const keptResult = await db.query(
+      `SELECT COUNT(*)::int AS count FROM session_roster
+       WHERE session_id = $1 AND NOT (student_id = ANY($2))
+         AND ($3::boolean = false OR participant_id IS NOT NULL)`,
+      [id, studentIds, replace === true]
+    );
+    if (keptResult.rows[0].count + entries.length > MAX_ROSTER_SIZE) {
+      return res.status(400).json({ error: `A roster can have at most ${MAX_ROSTER_SIZE} students` });
+    }
+
+    const counts = await upsertSessionRoster(id, entries, replace === true);
+
+    res.json({
+      message: 'Roster imported',
+      ...counts,
+      errors,
+      roster: await loadRoster(id),
+    });
+  } catch (error) {
+    console.error('Import roster error:', error);
+    res.status(500).json({ error: 'Failed to import roster' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/roster/from-course
+ * Copy the roster of the session's course into the session roster (과목 명단 불러오기)
+ */
+router.post('/:id/roster/from-course', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { replace = false } = req.body;
+
+    const sessionCheck = await db.query(
+      'SELECT id, course_id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (!sessionCheck.rows[0].course_id) {
+      return res.status(400).json({ error: 'Session does not belong to a course' });
+    }
+
+    const studentsResult = await db.query(
+      `SELECT student_name AS "studentName", student_id AS "studentId", email
+       FROM course_students WHERE course_id = $1`,
+      [sessionCheck.rows[0].course_id]
+    );
+    if (studentsResult.rows.length === 0) {
+      return res.status(400).json({ error: 'The course roster is empty' });
+    }
+
+    const keptResult = await db.query(
+      `SELECT COUNT(*)::int AS count FROM session_roster
+       WHERE session_id = $1 AND NOT (student_id = ANY($2))
+         AND ($3::boolean = false OR participant_id IS NOT NULL)`,
+      [id, studentsResult.rows.map((student) => student.studentId), replace === true]
+    );
+    if (keptResult.rows[0].count + studentsResult.rows.length > MAX_ROSTER_SIZE) {
+      return res.status(400).json({ error: `A roster can have at most ${MAX_ROSTER_SIZE} students` });
+    }
+
+    const counts = await upsertSessionRoster(id, studentsResult.rows, replace === true);
+
+    res.json({
+      message: 'Roster imported',
+      ...counts,
+      errors: [],
+      roster: await loadRoster(id),
+    });
+  } catch (error) {
+    console.error('Import course roster error:', error);
+    res.status(500).json({ error: 'Failed to import roster' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/roster/export
+ * Download the roster with PINs and one-time codes as CSV (학생에게 나눠 줄 목록)
+ */
+router.get('/:id/roster/export', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const sessionCheck = await db.query(
+      'SELECT id, title FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const roster = await loadRoster(id);
+    const body = toCsv({
+      columns: [
+        { key: 'student_name', header: 'student_name' },
+        { key: 'student_id', header: 'student_id' },
+        { key: 'email', header: 'email' },
+        { key: 'pin', header: 'pin' },
+        { key: 'one_time_code', header: 'one_time_code' },
+        { key: 'joined', header: 'joined' },
+      ],
+      rows: roster.map((entry) => ({ ...entry, joined: entry.participant_id ? 'yes' : 'no' })),
+    });
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': attachmentHeader(`${sessionCheck.rows[0].title}_roster.csv`, 'roster.csv'),
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Export roster error:', error);
+    res.status(500).json({ error: 'Failed to export roster' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/roster/:rosterId/reissue
+ * Issue a new PIN and one-time code for a student (잊어버렸거나 코드를 이미 사용한 경우)
+ */
+router.post('/:id/roster/:rosterId/reissue', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, rosterId } = req.params;
+
+    const result = await db.query(
+      `UPDATE session_roster r
+       SET pin = $1, one_time_code = $2, code_used_at = NULL
+       FROM assignment_sessions s
+       WHERE r.id = $3 AND r.session_id = s.id AND s.id = $4 AND s.teacher_id = $5
+       RETURNING r.id, r.pin, r.one_time_code, r.code_used_at`,
+      [generatePin(), generateOneTimeCode(), rosterId, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ message: 'Join credentials reissued', entry: result.rows[0] });
+  } catch (error) {
+    console.error('Reissue roster credentials error:', error);
+    res.status(500).json({ error: 'Failed to reissue join credentials' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id/roster/:rosterId
+ * Remove a student from the roster (이미 참여한 기록은 남는다)
+ */
+router.delete('/:id/roster/:rosterId', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, rosterId } = req.params;
+
+    const result = await db.query(
+      `DELETE FROM session_roster r
+       USING assignment_sessions s
+       WHERE r.id = $1 AND r.session_id = s.id AND s.id = $2 AND s.teacher_id = $3
+       RETURNING r.id`,
+      [rosterId, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ message: 'Removed from roster' });
+  } catch (error) {
+    console.error('Delete roster entry error:', error);
+    res.status(500).json({ error: 'Failed to remove from roster' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/similarity
+ * Flagged pairs of similar submissions in the session (유사 제출물)
+ */
+router.get('/:id/similarity', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const sessionCheck = await db.query(
+      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const result = await db.query(
+      `SELECT ss.id, ss.score::float AS score, jsonb_array_length(ss.passages) AS passage_count, ss.created_at,
+              ss.participant_a_id, pa.student_name AS participant_a_name, pa.student_id AS participant_a_student_id,
+              ss.participant_b_id, pb.student_name AS participant_b_name, pb.student_id AS participant_b_student_id
+       FROM submission_similarities ss
+       JOIN student_participants pa ON pa.id = ss.participant_a_id
+       JOIN student_participants pb ON pb.id = ss.participant_b_id
+       WHERE ss.session_id = $1
+       ORDER BY ss.score DESC`,
+      [id]
+    );
+
+    res.json({ threshold: SIMILARITY_THRESHOLD, pairs: result.rows });
+  } catch (error) {
+    console.error('List similarity error:', error);
+    res.status(500).json({ error: 'Failed to list similar submissions' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/similarity/recompute
+ * Compare every submission in the session again (기준 변경 또는 도입 전 제출물)
+ */
+router.post('/:id/similarity/recompute', authenticateTeacher, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const sessionCheck = await db.query(
+      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const submissions = await db.query(
+      `SELECT id, extracted_text AS text FROM student_participants
+       WHERE session_id = $1 AND extracted_text IS NOT NULL`,
+      [id]
+    );
+    const signed = submissions.rows.map((row) => ({ ...row, signature: submissionSignature(row.text) }));
+    const pairs = signed.flatMap((submission, index) => findSimilarPairs(submission, signed.slice(index + 1)));
+
+    await db.transaction(async (client) => {
+      for (const submission of signed) {
+        await client.query(
+          'UPDATE student_participants SET text_signature = $1 WHERE id = $2',
+          [submission.signature ? JSON.stringify(submission.signature) : null, submission.id]
+        );
+      }
+      await client.query('DELETE FROM submission_similarities WHERE session_id = $1', [id]);
+      for (const pair of pairs) {
+        await client.query(
+          `INSERT INTO submission_similarities (session_id, participant_a_id, participant_b_id, score, passages)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [id, pair.participantAId, pair.participantBId, pair.score, JSON.stringify(pair.passages)]
+        );
+      }
+    });
+
+    res.json({ message: 'Similarity recomputed', compared: signed.length, flagged: pairs.length });
+  } catch (error) {
+    console.error('Recompute similarity error:', error);
+    res.status(500).json({ error: 'Failed to recompute similarity' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/similarity/:pairId
+ * Overlapping passages of a flagged pair, side by side
+ */
+router.get('/:id/similarity/:pairId', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pairId } = req.params;
+
+    const result = await db.query(
+      `SELECT ss.id, ss.score::float AS score, ss.passages, ss.created_at,
+              ss.participant_a_id, pa.student_name AS participant_a_name, pa.student_id AS participant_a_student_id,
+              ss.participant_b_id, pb.student_name AS participant_b_name, pb.student_id AS participant_b_student_id
+       FROM submission_similarities ss
+       JOIN assignment_sessions s ON s.id = ss.session_id
+       JOIN student_participants pa ON pa.id = ss.participant_a_id
+       JOIN student_participants pb ON pb.id = ss.participant_b_id
+       WHERE ss.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+      [pairId, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.json({ pair: result.rows[0] });
+  } catch (error) {
+    console.error('Get similarity pair error:', error);
+    res.status(500).json({ error: 'Failed to get similar submissions' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:pid/file
+ * Download the participant's original submitted file
+ */
+router.get('/:id/participants/:pid/file', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const result = await db.query(
+      `SELECT p.submitted_file_url, p.submitted_file_name, p.submitted_file_type
+       FROM student_participants p
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE p.id = $1 AND s.id = $2 AND s.teacher_id = $3`,
+      [pid, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Participant not found' });
+    }
+
+    const { submitted_file_url: fileUrl, submitted_file_name: fileName, submitted_file_type: fileType } = result.rows[0];
+    const file = fileUrl ? await openStoredFile(fileUrl) : null;
+    if (!file) {
+      return res.status(404).json({ error: 'Submitted file not found' });
+    }
+
+    const ext = (fileName || '').match(/\.[A-Za-z0-9]{1,10}$/)?.[0] || '';
+    res.set({
+      'Content-Type': fileType || 'application/octet-stream',
+      'Content-Disposition': attachmentHeader(fileName || `submission${ext}`, `submission${ext}`),
+      ...(file.size ? { 'Content-Length': String(file.size) } : {}),
+    });
+
+    file.stream.on('error', (streamError) => {
+      console.error('Submitted file stream error:', streamError);
+      res.destroy(streamError);
+    });
+    file.stream.pipe(res);
+  } catch (error) {
+    console.error('Get submitted file error:', error);
+    res.status(500).json({ error: 'Failed to download submitted file' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:pid/recordings/:recordingId
+ * Stream a retained audio recording of a student answer
+ */
+router.get('/:id/participants/:pid/recordings/:recordingId', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid, recordingId } = req.params;
+
+    const result = await db.query(
+      `SELECT r.storage_url, r.content_type
+       FROM answer_recordings r
+       JOIN student_participants p ON p.id = r.participant_id
+       JOIN assignment_sessions s ON s.id = p.session_id
+       WHERE r.id = $1 AND p.id = $2 AND s.id = $3 AND s.teacher_id = $4 AND r.expires_at > NOW()`,
+      [recordingId, pid, id, req.teacher.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    const { storage_url: storageUrl, content_type: contentType } = result.rows[0];
+    const file = await openStoredFile(storageUrl);
+    if (!file) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    res.set({
+      'Content-Type': contentType || 'application/octet-stream',
+      'Cache-Control': 'private, no-store',
+      ...(file.size ? { 'Content-Length': String(file.size) } : {}),
+    });
+
+    file.stream.on('error', (streamError) => {
+      console.error('Recording stream error:', streamError);
+      res.destroy(streamError);
+    });
+    file.stream.pipe(res);
+  } catch (error) {
+    console.error('Get recording error:', error);
+    res.status(500).json({ error: 'Failed to get recording' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:pid/report
+ * Download the participant interview report as PDF
+ */
+router.get('/:id/participants/:pid/report', authenticateTeacher, async (req, res) => {
+  try {
+    const { id, pid } = req.params;
+
+    const sessionResult = await db.query(
+      'SELECT * FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const report = await loadReportData(sessionResult.rows[0], pid);
+    if (!report) {
+      return res.status(404).json({ error: 'Participant not found' });
+    }
+
+    const pdf = await renderParticipantReport(report);
+    const fileName = `${safeFileName(report.participant.student_name)}_report.pdf`;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': attachmentHeader(fileName, 'report.pdf'),
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error('Get report error:', error);
+    res.status(500).json({ error: 'Failed to generate report' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/reports
+ * Download PDF reports for every participant in the session as a zip
+ */
+router.get('/:id/reports', authenticateTeacher, async (req, res) => {
+  let archive = null;
+  try {
+    const { id } = req.params;
+
+    const sessionResult = await db.query(
+      'SELECT * FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
+      [id, req.teacher.id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const session = sessionResult.rows[0];
+
+    const participants = await db.query(
+      `SELECT id, student_name, student_id FROM student_participants
+       WHERE session_id = $1
+       ORDER BY registered_at ASC`,
+      [id]
+    );
+
+    if (participants.rows.length === 0) {
+      return res.status(404).json({ error: 'No participants' });
+    }
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': attachmentHeader(`${safeFileName(session.title)}_reports.zip`, 'reports.zip'),
+    });
+
+    archive = archiver('zip');
+    archive.on('error', (error) => {
+      console.error('Report archive error:', error);
+      res.destroy(error);
+    });
+    archive.pipe(res);
+
+    // 동명이인 파일명 충돌 방지를 위해 순번을 붙인다
+    let index = 0;
+    for (const p of participants.rows) {
+      index += 1;
+      const report = await loadReportData(session, p.id);
+      if (!report) continue;
+
+      const pdf = await renderParticipantReport(report);
+      const label = [p.student_id, p.student_name].filter(Boolean).join('_');
+      archive.append(pdf, { name: `${String(index).padStart(3, '0')}_${safeFileName(label)}.pdf` });
+    }
+
+    await archive.finalize();
+  } catch (error) {
+    console.error('Get reports zip error:', error);
+    // 잘린 zip이 정상 다운로드처럼 끝나지 않도록 압축을 멈추고 연결을 끊는다
+    if (archive) {
+      archive.unpipe(res);
+      archive.abort();
+    }
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to generate reports' });
+    } else {
+      res.destroy(error);
+    }
+  }
+});
+
 /**
  * GET /api/sessions/:id/participants/:pid/transcript
  * Get full interview transcript as text
@@ -1,6 +1,15 @@
 import express from 'express';
 import multer from 'multer';
-import { textToSpeech, speechToText, isTTSAvailable, isSTTAvailable } from '../services/speech.js';
+import {
+  textToSpeech,
+  streamTextToSpeech,
+  speechToText,
+  isTTSAvailable,
+  isSTTAvailable,
+} from '../services/speech.js';
+import { getSpeechStatus } from '../services/speechProviders/index.js';
+import { storeRecording } from '../services/fileStorage/index.js';
+import { retentionExpiry, shouldRetainAudio } from '../services/audioRetention.js';
 import { authenticateStudent } from '../middleware/studentAuth.js';
 import db from '../db/connection.js';
 
@@ -22,21 +31,65 @@ const upload = multer({
   }
 });
 
+/**
+ * Keep the recorded answer when the session retains audio and the student consented
+ * 저장에 실패해도 음성 인식 결과는 그대로 돌려준다
+ * @returns {Promise<string|null>} answer_recordings.id
+ */
+async function retainRecording(participant, file) {
+  if (!shouldRetainAudio(participant)) return null;
+
+  try {
+    const { url, size } = await storeRecording(file.buffer, {
+      participantId: participant.id,
+      fileName: file.originalname,
+      contentType: file.mimetype,
+    });
+    const result = await db.query(
+      `INSERT INTO answer_recordings (participant_id, storage_url, content_type, size_bytes, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [participant.id, url, file.mimetype, size, retentionExpiry(participant.audio_retention_days)]
+    );
+    return result.rows[0].id;
+  } catch (error) {
+    console.error('Store recording error:', error);
+    return null;
+  }
+}
+
+/**
+ * Check that the student's interview mode allows speech output
+ * @returns {Promise<{ status: number, error: string }|null>} null when TTS is allowed
+ */
+async function checkTTSMode(participantId) {
+  // 학생의 인터뷰 모드가 voice인지 확인
+  const participant = await db.query(`
+    SELECT sp.chosen_interview_mode, ass.interview_mode
+    FROM student_participants sp
+    JOIN assignment_sessions ass ON ass.id = sp.session_id
+    WHERE sp.id = $1
+  `, [participantId]);
+
+  if (participant.rows.length === 0) {
+    return { status: 404, error: 'Participant not found' };
+  }
+
+  const { chosen_interview_mode, interview_mode } = participant.rows[0];
+  const effectiveMode = chosen_interview_mode || interview_mode;
+
+  if (effectiveMode !== 'voice' && interview_mode !== 'student_choice') {
+    return { status: 403, error: 'TTS not available for this interview mode' };
+  }
+  return null;
+}
+
 /**
  * GET /api/speech/status
- * TTS/STT 서비스 상태 확인
+ * TTS/STT 제공자별 사용 가능 여부, 음성 목록, 지원 언어
  */
 router.get('/status', (req, res) => {
-  res.json({
-    tts: {
-      available: isTTSAvailable(),
-      provider: 'ElevenLabs'
-    },
-    stt: {
-      available: isSTTAvailable(),
-      provider: 'OpenAI Whisper'
-    }
-  });
+  res.json(getSpeechStatus());
 });
 
 /**
@@ -45,7 +98,7 @@ router.get('/status', (req, res) => {
  */
 router.post('/tts', authenticateStudent, async (req, res) => {
   try {
-    if (!isTTSAvailable()) {
+    if (!isTTSAvailable(req.participant.speech_settings)) {
       return res.status(503).json({ error: 'TTS service not available' });
     }
 
@@ -59,34 +112,20 @@ router.post('/tts', authenticateStudent, async (req, res) => {
       return res.status(400).json({ error: 'Text too long (max 5000 characters)' });
     }
 
-    // 학생의 인터뷰 모드가 voice인지 확인
-    const participant = await db.query(`
-      SELECT sp.chosen_interview_mode, ass.interview_mode
-      FROM student_participants sp
-      JOIN assignment_sessions ass ON ass.id = sp.session_id
-      WHERE sp.id = $1
-    `, [req.participant.id]);
-
-    if (participant.rows.length === 0) {
-      return res.status(404).json({ error: 'Participant not found' });
-    }
-
-    const { chosen_interview_mode, interview_mode } = participant.rows[0];
-    const effectiveMode = chosen_interview_mode || interview_mode;
-
-    if (effectiveMode !== 'voice' && interview_mode !== 'student_choice') {
-      return res.status(403).json({ error: 'TTS not available for this interview mode' });
+    const modeError = await checkTTSMode(req.participant.id);
+    if (modeError) {
+      return res.status(modeError.status).json({ error: modeError.error });
     }
 
-    const audioBuffer = await textToSpeech(text);
+    const { audio, contentType } = await textToSpeech(text, req.participant.speech_settings);
 
     res.set({
-      'Content-Type': 'audio/mpeg',
-      'Content-Length': audioBuffer.length,
+      'Content-Type': contentType,
+      'Content-Length': audio.length,
       'Cache-Control': 'no-cache'
     });
 
-    res.send(audioBuffer);
+    res.send(audio);
   } catch (error) {
     console.error('TTS error:', error);
     res.status(500).json({ error: 'TTS conversion failed' });
@@ -99,7 +138,7 @@ router.post('/tts', authenticateStudent, async (req, res) => {
  */
 router.post('/stt', authenticateStudent, upload.single('audio'), async (req, res) => {
   try {
-    if (!isSTTAvailable()) {
+    if (!isSTTAvailable(req.participant.speech_settings)) {
       return res.status(503).json({ error: 'STT service not available' });
     }
 
@@ -144,12 +183,16 @@ router.post('/stt', authenticateStudent, upload.single('audio'), async (req, res
     const transcription = await speechToText(
       req.file.buffer,
       req.file.mimetype,
-      context
+      context,
+      req.participant.speech_settings
     );
 
+    const recordingId = await retainRecording(req.participant, req.file);
+
     res.json({
       text: transcription,
-      confidence: 1.0 // Whisper doesn't provide confidence scores
+      confidence: 1.0, // Whisper-style APIs don't provide confidence scores
+      recording_id: recordingId,
     });
   } catch (error) {
     console.error('STT error:', error);
@@ -159,11 +202,17 @@ router.post('/stt', authenticateStudent, upload.single('audio'), async (req, res
 
 /**
  * POST /api/speech/tts-stream
- * 스트리밍 TTS (긴 텍스트용) - 현재는 일반 TTS와 동일
+ * 스트리밍 TTS - 제공자에서 받은 오디오 청크를 그대로 전달 (첫 음성 재생 지연 최소화)
  */
 router.post('/tts-stream', authenticateStudent, async (req, res) => {
+  // req 'close'는 본문을 다 읽으면 바로 발생하므로 응답 쪽 연결 종료를 본다
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
   try {
-    if (!isTTSAvailable()) {
+    if (!isTTSAvailable(req.participant.speech_settings)) {
       return res.status(503).json({ error: 'TTS service not available' });
     }
 
@@ -173,19 +222,38 @@ router.post('/tts-stream', authenticateStudent, async (req, res) => {
       return res.status(400).json({ error: 'Text is required' });
     }
 
-    const audioBuffer = await textToSpeech(text);
+    if (text.length > 5000) {
+      return res.status(400).json({ error: 'Text too long (max 5000 characters)' });
+    }
+
+    const modeError = await checkTTSMode(req.participant.id);
+    if (modeError) {
+      return res.status(modeError.status).json({ error: modeError.error });
+    }
+
+    const { stream, contentType } = await streamTextToSpeech(text, req.participant.speech_settings);
 
     res.set({
-      'Content-Type': 'audio/mpeg',
-      'Content-Length': audioBuffer.length,
-      'Transfer-Encoding': 'chunked',
-      'Cache-Control': 'no-cache'
+      'Content-Type': contentType,
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no', // 프록시 버퍼링 비활성화
     });
+    res.flushHeaders();
+
+    for await (const chunk of stream) {
+      // 학생이 재생을 중단하면 제공자 스트림도 중단
+      if (closed) break;
+      res.write(chunk);
+    }
 
-    res.send(audioBuffer);
+    res.end();
   } catch (error) {
     console.error('TTS stream error:', error);
-    res.status(500).json({ error: 'TTS conversion failed' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'TTS conversion failed' });
+    } else {
+      res.end();
+    }
   }
 });
 
@@ -0,0 +1,113 @@
+/**
+ * Answer behavior telemetry (채팅 답변 입력 행동 기록)
+ *
+ * 학생 화면이 답변마다 보낸 기록을 검증하고 요약한다 → interview_conversations.telemetry (학생 행)
+ * 입력 (POST /api/interview/answer의 telemetry):
+ * {
+ *   totalMs,            // 질문 표시부터 제출까지
+ *   keystrokes,         // 붙여넣기 단축키 등 조합 키 제외
+ *   events: [{ type: 'first_key' | 'paste' | 'hidden' | 'visible' | 'blur' | 'focus', atMs, length? }]
+ * }
+ * 기록은 보조 자료이므로 형식이 잘못되면 버리고(null) 답변 저장은 그대로 진행한다.
+ */
+
+export const TELEMETRY_EVENT_TYPES = ['first_key', 'paste', 'hidden', 'visible', 'blur', 'focus'];
+export const MAX_TELEMETRY_EVENTS = 100;
+
+// 표시 기준
+const LONG_PAUSE_MS = 60 * 1000;
+const MIN_FLAGGED_PASTE_LENGTH = 50;
+const MOSTLY_PASTED_RATIO = 0.5;
+const MAX_DURATION_MS = 3 * 60 * 60 * 1000;
+
+function toMs(value) {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) return null;
+  return Math.min(Math.round(number), MAX_DURATION_MS);
+}
+
+/**
+ * Total time the page was hidden (hidden → visible, 제출 시점까지 숨겨져 있으면 제출까지)
+ */
+function hiddenDuration(events, totalMs) {
+  let hiddenMs = 0;
+  let hiddenSince = null;
+  for (const event of events) {
+    if (event.type === 'hidden' && hiddenSince === null) hiddenSince = event.atMs;
+    if (event.type === 'visible' && hiddenSince !== null) {
+      hiddenMs += event.atMs - hiddenSince;
+      hiddenSince = null;
+    }
+  }
+  if (hiddenSince !== null) hiddenMs += Math.max(0, totalMs - hiddenSince);
+  return hiddenMs;
+}
+
+/**
+ * Validate client telemetry and add the derived summary
+ * @param {object} input - request body telemetry
+ * @param {string} answer - submitted answer (붙여넣기 비율 계산용)
+ * @returns {object|null}
+ */
+export function normalizeTelemetry(input, answer = '') {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+
+  const totalMs = toMs(input.totalMs);
+  if (totalMs === null) return null;
+
+  const events = (Array.isArray(input.events) ? input.events : [])
+    .filter((event) => event && TELEMETRY_EVENT_TYPES.includes(event.type) && toMs(event.atMs) !== null)
+    .slice(0, MAX_TELEMETRY_EVENTS)
+    .map((event) => {
+      const normalized = { type: event.type, atMs: Math.min(toMs(event.atMs), totalMs) };
+      if (event.type === 'paste') normalized.length = toMs(event.length) ?? 0;
+      return normalized;
+    })
+    .sort((a, b) => a.atMs - b.atMs);
+
+  const firstKey = events.find((event) => event.type === 'first_key');
+  const pastes = events.filter((event) => event.type === 'paste');
+  const pastedChars = pastes.reduce((sum, event) => sum + event.length, 0);
+  const answerLength = (answer || '').trim().length;
+  const firstKeyMs = firstKey ? firstKey.atMs : null;
+
+  const summary = {
+    firstKeyMs,
+    typingMs: firstKeyMs !== null ? totalMs - firstKeyMs : null,
+    keystrokes: Math.min(toMs(input.keystrokes) ?? 0, 100000),
+    pasteCount: pastes.length,
+    pastedChars,
+    pasteRatio: answerLength > 0 ? Math.min(1, Math.round((pastedChars / answerLength) * 100) / 100) : 0,
+    hiddenCount: events.filter((event) => event.type === 'hidden').length,
+    hiddenMs: hiddenDuration(events, totalMs),
+    blurCount: events.filter((event) => event.type === 'blur').length,
+  };
+
+  const flags = [];
+  if (firstKeyMs === null ? totalMs >= LONG_PAUSE_MS : firstKeyMs >= LONG_PAUSE_MS) {
+    flags.push('long_pause');
+  }
+  // 한참 아무것도 입력하지 않다가 긴 글을 붙여넣음
+  if (
+    pastes.some(
+      (event) =>
+        event.length >= MIN_FLAGGED_PASTE_LENGTH &&
+        event.atMs >= LONG_PAUSE_MS &&
+        (firstKeyMs === null || firstKeyMs >= event.atMs)
+    )
+  ) {
+    flags.push('pasted_after_pause');
+  }
+  if (summary.pasteRatio >= MOSTLY_PASTED_RATIO && pastedChars >= MIN_FLAGGED_PASTE_LENGTH) {
+    flags.push('mostly_pasted');
+  }
+  if (summary.hiddenCount > 0 || summary.blurCount > 0) flags.push('left_page');
+
+  return { totalMs, ...summary, flags, events };
+}
+
+export default {
+  TELEMETRY_EVENT_TYPES,
+  MAX_TELEMETRY_EVENTS,
+  normalizeTelemetry,
+};
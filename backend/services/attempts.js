@@ -0,0 +1,49 @@
+/**
+ * Interview attempts (재응시)
+ *
+ * 세션의 max_attempts와 교사가 학생별로 추가 허용한 extra_attempts만큼 다시 응시할 수 있다.
+ * 인터뷰가 끝난(completed, timeout, abandoned) 학생이 POST /api/interview/retake를 보내면
+ * 현재 회차를 participant_attempts에 보관하고 registered 상태로 되돌려 파일 제출부터 다시 시작한다.
+ * 교사는 POST /api/sessions/:id/participants/:pid/attempts/grant로 한 번 더 허용할 수 있다.
+ */
+
+export const ENDED_STATUSES = ['completed', 'timeout', 'abandoned'];
+export const MAX_ATTEMPTS = 10;
+
+/**
+ * @returns {{ maxAttempts: number|null, error: string|null }} - null = 기본값 (1회)
+ */
+export function validateMaxAttempts(value) {
+  if (value === null || value === undefined || value === '') {
+    return { maxAttempts: null, error: null };
+  }
+  const maxAttempts = Number(value);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS) {
+    return { maxAttempts: null, error: `max_attempts must be an integer between 1 and ${MAX_ATTEMPTS}` };
+  }
+  return { maxAttempts, error: null };
+}
+
+/**
+ * Attempt usage of a participant
+ * @param {{ status: string, attempt_number?: number, extra_attempts?: number, max_attempts?: number }} participant
+ * @returns {{ attemptNumber: number, allowedAttempts: number, remaining: number, canRetake: boolean }}
+ */
+export function attemptPolicy(participant) {
+  const attemptNumber = participant.attempt_number || 1;
+  const allowedAttempts = (participant.max_attempts || 1) + (participant.extra_attempts || 0);
+  const remaining = Math.max(0, allowedAttempts - attemptNumber);
+  return {
+    attemptNumber,
+    allowedAttempts,
+    remaining,
+    canRetake: remaining > 0 && ENDED_STATUSES.includes(participant.status),
+  };
+}
+
+export default {
+  ENDED_STATUSES,
+  MAX_ATTEMPTS,
+  validateMaxAttempts,
+  attemptPolicy,
+};
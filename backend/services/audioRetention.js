@@ -0,0 +1,41 @@
+/**
+ * Audio retention (음성 답변 녹음 보관)
+ *
+ * 세션에 audio_retention_days가 설정되어 있고 학생이 참여할 때 동의한 경우에만
+ * STT로 보낸 녹음을 저장한다 → answer_recordings (expires_at = 저장 시각 + 보관 일수)
+ * 보관 기간이 지나면 workers/audioRetention.js가 파일과 행을 삭제한다.
+ */
+
+export const MAX_AUDIO_RETENTION_DAYS = 365;
+
+/**
+ * @returns {{ days: number|null, error: string|null }} - days null = 보관하지 않음
+ */
+export function validateRetentionDays(value) {
+  if (value === null || value === undefined || value === '' || value === 0) {
+    return { days: null, error: null };
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_AUDIO_RETENTION_DAYS) {
+    return { days: null, error: `audio_retention_days must be an integer between 1 and ${MAX_AUDIO_RETENTION_DAYS}` };
+  }
+  return { days, error: null };
+}
+
+/**
+ * Whether this participant's recordings are kept (세션 설정 + 학생 동의)
+ */
+export function shouldRetainAudio(participant) {
+  return Boolean(participant.audio_retention_days > 0 && participant.audio_consent_at);
+}
+
+export function retentionExpiry(days, now = Date.now()) {
+  return new Date(now + days * 24 * 60 * 60 * 1000);
+}
+
+export default {
+  MAX_AUDIO_RETENTION_DAYS,
+  validateRetentionDays,
+  shouldRetainAudio,
+  retentionExpiry,
+};
@@ -0,0 +1,91 @@
+/**
+ * Question citations (질문이 인용한 과제 본문 구간)
+ *
+ * interview_conversations.citations (AI 질문 행):
+ * [{ start, end, quote }]  // start/end: extracted_text의 문자 위치 (JS 문자열 인덱스, end 미포함)
+ *
+ * LLM은 본문 구절을 그대로 돌려주고(citePassages), 위치는 서버가 본문에서 찾아 계산한다.
+ */
+
+export const MAX_CITATIONS = 3;
+const MIN_QUOTE_LENGTH = 4;
+
+/**
+ * Whitespace-collapsed copy of text with a map back to original indices
+ */
+function collapseWhitespace(text) {
+  let collapsed = '';
+  const indexMap = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      pendingSpace = collapsed.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      collapsed += ' ';
+      indexMap.push(i);
+      pendingSpace = false;
+    }
+    collapsed += text[i];
+    indexMap.push(i);
+  }
+  return { collapsed, indexMap };
+}
+
+/**
+ * Find a quote in the document, ignoring whitespace differences (줄바꿈, 중복 공백)
+ * @returns {{ start: number, end: number } | null}
+ */
+export function locateQuote(documentText, quote) {
+  const needle = (quote || '').trim();
+  if (!documentText || needle.length < MIN_QUOTE_LENGTH) return null;
+
+  const exact = documentText.indexOf(needle);
+  if (exact !== -1) return { start: exact, end: exact + needle.length };
+
+  const doc = collapseWhitespace(documentText);
+  const target = collapseWhitespace(needle).collapsed;
+  const found = doc.collapsed.indexOf(target);
+  if (found === -1) return null;
+
+  return {
+    start: doc.indexMap[found],
+    end: doc.indexMap[found + target.length - 1] + 1,
+  };
+}
+
+/**
+ * Resolve quotes to document spans; unlocatable quotes are dropped
+ * Quotes containing an ellipsis are matched part by part.
+ */
+export function resolveCitations(documentText, quotes) {
+  const citations = [];
+  for (const quote of quotes || []) {
+    if (typeof quote !== 'string') continue;
+    for (const part of quote.split(/\.{3}|…/)) {
+      const cleaned = part.trim().replace(/^["'“”‘’「」『』]+|["'“”‘’「」『』]+$/g, '').trim();
+      const span = locateQuote(documentText, cleaned);
+      if (span && !citations.some((c) => c.start < span.end && span.start < c.end)) {
+        citations.push({ ...span, quote: documentText.slice(span.start, span.end) });
+      }
+    }
+  }
+  return citations.sort((a, b) => a.start - b.start).slice(0, MAX_CITATIONS);
+}
+
+/**
+ * Quoted fragments inside the question itself ("…"라고 쓰셨는데) - fallback when the LLM gives none
+ */
+export function quotesInQuestion(question) {
+  const quoteRe = /["“]([^"”]+)["”]|['‘]([^'’]+)['’]|[「『]([^」』]+)[」』]/g;
+  return [...(question || '').matchAll(quoteRe)].map((m) => m[1] || m[2] || m[3]);
+}
+
+export default {
+  MAX_CITATIONS,
+  locateQuote,
+  resolveCitations,
+  quotesInQuestion,
+};
@@ -0,0 +1,180 @@
+import { normalizeSummary } from './summarySchema.js';
+
+/**
+ * Courses/classes (과목/반)
+ *
+ * 교사가 과목을 만들고 세션을 과목 아래에 묶는다 (assignment_sessions.course_id).
+ * 과목 명단(course_students)의 학번으로 각 세션의 참여 기록을 찾아
+ * 과목 성적표(학생 × 세션)와 학생별 세션 이력(점수 변화)을 만든다.
+ * 학번 없이 참여한 기록은 이름이 같을 때만 연결한다.
+ */
+
+const MAX_NAME_LENGTH = 200;
+const MAX_TERM_LENGTH = 50;
+
+/**
+ * @param {{ name?: string, description?: string, term?: string }} input
+ * @param {{ partial?: boolean }} options - partial: 수정 시 빠진 값은 그대로 둔다
+ * @returns {{ course: { name?: string, description?: string|null, term?: string|null }|null, error: string|null }}
+ */
+export function validateCourse(input = {}, { partial = false } = {}) {
+  const course = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) return { course: null, error: 'Course name is required' };
+    if (name.length > MAX_NAME_LENGTH) {
+      return { course: null, error: `Course name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    course.name = name;
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== 'string') {
+      return { course: null, error: 'description must be a string' };
+    }
+    course.description = input.description?.trim() || null;
+  }
+
+  if (input.term !== undefined) {
+    if (input.term !== null && typeof input.term !== 'string') {
+      return { course: null, error: 'term must be a string' };
+    }
+    const term = input.term?.trim() || null;
+    if (term && term.length > MAX_TERM_LENGTH) {
+      return { course: null, error: `term must be at most ${MAX_TERM_LENGTH} characters` };
+    }
+    course.term = term;
+  }
+
+  return { course, error: null };
+}
+
+const normalizeName = (name) => String(name || '').replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Whether a session participant is this course student (학번 우선, 학번이 없으면 이름)
+ */
+export function isSameStudent(student, participant) {
+  const participantId = participant.student_id?.trim();
+  if (participantId) return participantId === student.student_id;
+  return normalizeName(participant.student_name) !== ''
+    && normalizeName(participant.student_name) === normalizeName(student.student_name);
+}
+
+function toCell(participant) {
+  const summary = normalizeSummary(participant.summary);
+  const authorshipScore = summary?.authorshipScore ?? null;
+  const teacherScore = participant.teacher_evaluation?.score ?? null;
+  return {
+    participantId: participant.id,
+    status: participant.status,
+    attemptNumber: participant.attempt_number || 1,
+    authorshipScore,
+    verdict: summary?.verdict || null,
+    teacherVerdict: participant.teacher_evaluation?.verdict || null,
+    teacherScore,
+    // 교사 점수가 있으면 우선
+    score: teacherScore ?? authorshipScore,
+    interviewEndedAt: participant.interview_ended_at || null,
+  };
+}
+
+// 한 세션에 같은 학생 기록이 여러 개면 완료된 기록, 그중 나중 기록을 쓴다
+function pickParticipant(current, candidate) {
+  if (!current) return candidate;
+  const done = (p) => p.status === 'completed';
+  if (done(current) && !done(candidate)) return current;
+  if (done(candidate) && !done(current)) return candidate;
+  return new Date(candidate.registered_at) >= new Date(current.registered_at) ? candidate : current;
+}
+
+function cellsFor(student, sessions, participantsBySession) {
+  const cells = {};
+  for (const session of sessions) {
+    let picked = null;
+    for (const participant of participantsBySession.get(session.id) || []) {
+      if (isSameStudent(student, participant)) picked = pickParticipant(picked, participant);
+    }
+    cells[session.id] = picked ? toCell(picked) : null;
+  }
+  return cells;
+}
+
+function groupBySession(participants) {
+  const bySession = new Map();
+  for (const participant of participants) {
+    if (!bySession.has(participant.session_id)) bySession.set(participant.session_id, []);
+    bySession.get(participant.session_id).push(participant);
+  }
+  return bySession;
+}
+
+/**
+ * Score summary over sessions in order (점수 변화)
+ * @param {Array<object|null>} cells - 세션 순서대로
+ */
+export function scoreStats(cells) {
+  const scores = cells.filter((cell) => cell?.score !== null && cell?.score !== undefined).map((cell) => cell.score);
+  return {
+    participatedCount: cells.filter(Boolean).length,
+    completedCount: cells.filter((cell) => cell?.status === 'completed').length,
+    averageScore: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    firstScore: scores.length ? scores[0] : null,
+    latestScore: scores.length ? scores[scores.length - 1] : null,
+    change: scores.length > 1 ? scores[scores.length - 1] - scores[0] : null,
+  };
+}
+
+/**
+ * Course gradebook: one row per course student, one cell per session (과목 성적표)
+ * @param {object[]} sessions - course sessions, oldest first
+ * @param {object[]} students - course_students rows
+ * @param {object[]} participants - student_participants rows of the course sessions
+ */
+export function buildCourseGradebook(sessions, students, participants) {
+  const participantsBySession = groupBySession(participants);
+
+  const rows = students.map((student) => {
+    const cells = cellsFor(student, sessions, participantsBySession);
+    return {
+      ...student,
+      cells,
+      stats: scoreStats(sessions.map((session) => cells[session.id])),
+    };
+  });
+
+  // 명단에 없는 참여 기록 수 (세션별) - 과목 명단을 세션에 쓰지 않은 경우 확인용
+  const unmatched = {};
+  for (const session of sessions) {
+    unmatched[session.id] = (participantsBySession.get(session.id) || [])
+      .filter((participant) => !students.some((student) => isSameStudent(student, participant)))
+      .length;
+  }
+
+  return { sessions, students: rows, unmatched };
+}
+
+/**
+ * One student's history across the course sessions (학생별 세션 이력)
+ * @returns {{ entries: object[], stats: object }}
+ */
+export function buildStudentHistory(student, sessions, participants) {
+  const cells = cellsFor(student, sessions, groupBySession(participants));
+  const entries = sessions.map((session) => ({
+    sessionId: session.id,
+    title: session.title,
+    status: session.status,
+    createdAt: session.created_at,
+    result: cells[session.id],
+  }));
+  return { entries, stats: scoreStats(entries.map((entry) => entry.result)) };
+}
+
+export default {
+  validateCourse,
+  isSameStudent,
+  scoreStats,
+  buildCourseGradebook,
+  buildStudentHistory,
+};
@@ -0,0 +1,69 @@
+import JSZip from 'jszip';
+import { ExtractionError } from './errors.js';
+import { attribute, readParagraphs } from './xml.js';
+import { joinParagraphs } from './format.js';
+
+/**
+ * DOCX extractor (word/document.xml)
+ * 제목 수준은 styles.xml의 스타일 이름(heading N, Title) 또는 개요 수준으로 판단한다.
+ */
+
+/**
+ * styleId → heading level (1~6)
+ */
+function headingStyles(stylesXml) {
+  const levels = {};
+  const styleRe = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+  let match;
+  while ((match = styleRe.exec(stylesXml || '')) !== null) {
+    const styleId = attribute(match[1], 'w:styleId');
+    if (!styleId) continue;
+
+    const name = (match[2].match(/<w:name w:val="([^"]*)"/) || [])[1] || '';
+    const outline = match[2].match(/<w:outlineLvl w:val="(\d)"/);
+    const heading = name.match(/^heading (\d)$/i);
+
+    if (/^title$/i.test(name)) levels[styleId] = 1;
+    else if (heading) levels[styleId] = Number(heading[1]);
+    else if (outline) levels[styleId] = Number(outline[1]) + 1;
+  }
+  return levels;
+}
+
+export default {
+  format: 'docx',
+  label: 'Word (DOCX)',
+  extensions: ['.docx'],
+  mimetypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+  async extract(buffer) {
+    let zip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw new ExtractionError('corrupt', 'Failed to read DOCX file', 'docx');
+    }
+
+    const documentFile = zip.file('word/document.xml');
+    if (!documentFile) {
+      throw new ExtractionError('corrupt', 'DOCX file has no document body', 'docx');
+    }
+
+    const stylesFile = zip.file('word/styles.xml');
+    const levels = headingStyles(stylesFile ? await stylesFile.async('string') : '');
+
+    const paragraphs = readParagraphs(await documentFile.async('string'), {
+      paragraph: 'w:p',
+      text: 'w:t',
+      tab: ['w:tab'],
+      lineBreak: ['w:br', 'w:cr'],
+      ignoreInside: ['w:pPr'],
+      styleOf: (name, attrs) => (name === 'w:pStyle' ? attribute(attrs, 'w:val') : null),
+    });
+
+    return {
+      text: joinParagraphs(paragraphs.map((p) => ({ text: p.text, headingLevel: levels[p.style] || null }))),
+      ocr: false,
+    };
+  },
+};
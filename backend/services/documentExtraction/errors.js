@@ -0,0 +1,15 @@
+/**
+ * Extraction failure with a machine-readable code (업로드 화면이 형식별 안내 문구로 변환)
+ *
+ * code: unsupported_format | encrypted | corrupt | empty_document | ocr_unavailable | ocr_failed
+ */
+export class ExtractionError extends Error {
+  constructor(code, message, format = null) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.code = code;
+    this.format = format;
+  }
+}
+
+export default ExtractionError;
@@ -0,0 +1,42 @@
+/**
+ * Text normalization shared by all extractors
+ *
+ * extracted_text 형식: 문단은 빈 줄로 구분하고, 제목은 마크다운 '#'으로 표시한다.
+ */
+
+/**
+ * Join extracted paragraphs; headingLevel 1~6 → '#' prefix, empty paragraphs dropped
+ * @param {Array<{ text: string, headingLevel?: number|null }>} paragraphs
+ */
+export function joinParagraphs(paragraphs) {
+  return paragraphs
+    .map(({ text, headingLevel }) => {
+      const line = text.replace(/[^\S\n]+/g, ' ').trim();
+      if (!line) return null;
+      return headingLevel ? `${'#'.repeat(Math.min(headingLevel, 6))} ${line}` : line;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Normalize whitespace while keeping paragraph breaks
+ */
+export function normalizeText(text) {
+  return (text || '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .replace(/[\u200b\ufeff]/g, '')
+    .replace(/[\u00a0\u2000-\u200a\u202f\u3000]/g, ' ')
+    .replace(/[^\S\n]+/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export default {
+  joinParagraphs,
+  normalizeText,
+};
@@ -0,0 +1,148 @@
+import zlib from 'zlib';
+import CFB from 'cfb';
+import { ExtractionError } from './errors.js';
+import { joinParagraphs } from './format.js';
+
+/**
+ * HWP 5.0 extractor (한/글 바이너리, OLE 복합 문서)
+ *
+ * FileHeader → 압축/암호 플래그, DocInfo → 문단 스타일 이름, BodyText/SectionN → 문단 레코드.
+ * 제목 수준은 '개요 N' (Outline N) 스타일로 판단한다. HWP 3.x 이하 형식은 지원하지 않는다.
+ */
+
+const HWPTAG_BEGIN = 0x10;
+const HWPTAG_STYLE = HWPTAG_BEGIN + 26;
+const HWPTAG_PARA_HEADER = HWPTAG_BEGIN + 50;
+const HWPTAG_PARA_TEXT = HWPTAG_BEGIN + 51;
+
+// 8 WCHAR를 차지하는 인라인/확장 컨트롤 문자
+const WIDE_CONTROLS = new Set([1, 2, 3, 4, 5, 6, 7, 8, 9, 11, 12, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23]);
+
+function streamContent(cfb, path) {
+  const entry = CFB.find(cfb, path);
+  return entry?.content ? Buffer.from(entry.content) : null;
+}
+
+function* readRecords(data) {
+  let offset = 0;
+  while (offset + 4 <= data.length) {
+    const header = data.readUInt32LE(offset);
+    offset += 4;
+    let size = header >>> 20;
+    if (size === 0xfff) {
+      size = data.readUInt32LE(offset);
+      offset += 4;
+    }
+    yield { tagId: header & 0x3ff, body: data.subarray(offset, offset + size) };
+    offset += size;
+  }
+}
+
+function readWString(body, offset) {
+  const length = body.readUInt16LE(offset);
+  const start = offset + 2;
+  return { value: body.toString('utf16le', start, start + length * 2), next: start + length * 2 };
+}
+
+/**
+ * Style index → heading level from DocInfo HWPTAG_STYLE records
+ */
+function headingStyles(docInfo) {
+  const levels = {};
+  let index = 0;
+  for (const { tagId, body } of readRecords(docInfo)) {
+    if (tagId !== HWPTAG_STYLE) continue;
+    try {
+      const name = readWString(body, 0);
+      const engName = readWString(body, name.next);
+      const outline = `${name.value} ${engName.value}`.match(/(?:개요|Outline) (\d)/);
+      if (outline) levels[index] = Number(outline[1]);
+    } catch {
+      // malformed style record - treat as body text
+    }
+    index += 1;
+  }
+  return levels;
+}
+
+function decodeParaText(body) {
+  let text = '';
+  for (let i = 0; i + 1 < body.length; i += 2) {
+    const code = body.readUInt16LE(i);
+    if (code >= 32) {
+      text += String.fromCharCode(code);
+    } else if (code === 9) {
+      text += '\t';
+      i += 14;
+    } else if (WIDE_CONTROLS.has(code)) {
+      i += 14;
+    } else if (code === 10) {
+      text += '\n';
+    } else if (code === 24) {
+      text += '-';
+    } else if (code === 30 || code === 31) {
+      text += ' ';
+    }
+  }
+  return text;
+}
+
+export default {
+  format: 'hwp',
+  label: '한/글 (HWP)',
+  extensions: ['.hwp'],
+  mimetypes: ['application/x-hwp', 'application/haansofthwp', 'application/vnd.hancom.hwp'],
+
+  async extract(buffer) {
+    let cfb;
+    try {
+      cfb = CFB.read(buffer, { type: 'buffer' });
+    } catch {
+      throw new ExtractionError('corrupt', 'Failed to read HWP file (only HWP 5.0 or later is supported)', 'hwp');
+    }
+
+    const fileHeader = streamContent(cfb, 'FileHeader');
+    if (!fileHeader || !fileHeader.toString('latin1', 0, 17).startsWith('HWP Document File')) {
+      throw new ExtractionError('corrupt', 'Not an HWP 5.0 document', 'hwp');
+    }
+
+    const properties = fileHeader.readUInt32LE(36);
+    const compressed = (properties & 0x1) !== 0;
+    if ((properties & 0x2) !== 0 || (properties & 0x4) !== 0) {
+      // 암호 문서, 배포용 문서(본문이 ViewText에 암호화되어 저장됨)
+      throw new ExtractionError('encrypted', 'HWP file is password protected or a distribution document', 'hwp');
+    }
+
+    const inflate = (data) => (compressed ? zlib.inflateRawSync(data) : data);
+
+    const sectionPaths = cfb.FullPaths
+      .map((path) => ({ path, match: path.match(/BodyText\/Section(\d+)$/) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => Number(a.match[1]) - Number(b.match[1]));
+
+    if (sectionPaths.length === 0) {
+      throw new ExtractionError('corrupt', 'HWP file has no body sections', 'hwp');
+    }
+
+    try {
+      const docInfo = streamContent(cfb, 'DocInfo');
+      const levels = docInfo ? headingStyles(inflate(docInfo)) : {};
+
+      const paragraphs = [];
+      for (const { path } of sectionPaths) {
+        let styleId = null;
+        for (const { tagId, body } of readRecords(inflate(streamContent(cfb, path)))) {
+          if (tagId === HWPTAG_PARA_HEADER && body.length > 10) {
+            styleId = body.readUInt8(10);
+          } else if (tagId === HWPTAG_PARA_TEXT) {
+            paragraphs.push({ text: decodeParaText(body), headingLevel: levels[styleId] || null });
+          }
+        }
+      }
+
+      return { text: joinParagraphs(paragraphs), ocr: false };
+    } catch {
+      throw new ExtractionError('corrupt', 'Failed to read HWP body text', 'hwp');
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import JSZip from 'jszip';
+import { ExtractionError } from './errors.js';
+import { attribute, readParagraphs } from './xml.js';
+import { joinParagraphs } from './format.js';
+
+/**
+ * HWPX extractor (한/글 OWPML, Contents/sectionN.xml)
+ * 제목 수준은 Contents/header.xml의 '개요 N' (Outline N) 문단 스타일로 판단한다.
+ */
+
+/**
+ * style id → heading level (1~6)
+ */
+function headingStyles(headerXml) {
+  const levels = {};
+  const styleRe = /<hh:style\b([^>]*?)\/?>/g;
+  let match;
+  while ((match = styleRe.exec(headerXml || '')) !== null) {
+    const id = attribute(match[1], 'id');
+    const name = `${attribute(match[1], 'name') || ''} ${attribute(match[1], 'engName') || ''}`;
+    const outline = name.match(/(?:개요|Outline) (\d)/);
+    if (id !== null && outline) levels[id] = Number(outline[1]);
+  }
+  return levels;
+}
+
+export default {
+  format: 'hwpx',
+  label: '한/글 (HWPX)',
+  extensions: ['.hwpx'],
+  mimetypes: ['application/hwp+zip', 'application/haansofthwpx', 'application/vnd.hancom.hwpx'],
+
+  async extract(buffer) {
+    let zip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw new ExtractionError('corrupt', 'Failed to read HWPX file', 'hwpx');
+    }
+
+    const manifest = zip.file('META-INF/manifest.xml');
+    if (manifest && /encryption-data/.test(await manifest.async('string'))) {
+      throw new ExtractionError('encrypted', 'HWPX file is password protected', 'hwpx');
+    }
+
+    const sections = Object.keys(zip.files)
+      .map((path) => ({ path, match: path.match(/^Contents\/section(\d+)\.xml$/) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => Number(a.match[1]) - Number(b.match[1]));
+
+    if (sections.length === 0) {
+      throw new ExtractionError('corrupt', 'HWPX file has no body sections', 'hwpx');
+    }
+
+    const headerFile = zip.file('Contents/header.xml');
+    const levels = headingStyles(headerFile ? await headerFile.async('string') : '');
+
+    const paragraphs = [];
+    for (const { path } of sections) {
+      paragraphs.push(...readParagraphs(await zip.file(path).async('string'), {
+        paragraph: 'hp:p',
+        text: 'hp:t',
+        tab: ['hp:tab'],
+        lineBreak: ['hp:lineBreak'],
+        styleOf: (name, attrs) => (name === 'hp:p' ? attribute(attrs, 'styleIDRef') : null),
+      }));
+    }
+
+    return {
+      text: joinParagraphs(paragraphs.map((p) => ({ text: p.text, headingLevel: levels[p.style] || null }))),
+      ocr: false,
+    };
+  },
+};
@@ -0,0 +1,19 @@
+import { ExtractionError } from './errors.js';
+import { isOcrAvailable, runOcr } from './ocr.js';
+
+/**
+ * Image extractor (촬영/스캔한 과제) - OCR 훅이 설정된 경우에만 사용 가능
+ */
+export default {
+  format: 'image',
+  label: '이미지',
+  extensions: ['.png', '.jpg', '.jpeg', '.webp'],
+  mimetypes: ['image/png', 'image/jpeg', 'image/webp'],
+
+  async extract(buffer, { fileName, mimetype }) {
+    if (!isOcrAvailable()) {
+      throw new ExtractionError('ocr_unavailable', 'Image uploads require OCR, which is not configured', 'image');
+    }
+    return { text: await runOcr(buffer, { mimetype, fileName }), ocr: true };
+  },
+};
@@ -0,0 +1,83 @@
+import path from 'path';
+import pdf from './pdf.js';
+import docx from './docx.js';
+import hwp from './hwp.js';
+import hwpx from './hwpx.js';
+import { plainText, markdown } from './text.js';
+import image from './image.js';
+import { ExtractionError } from './errors.js';
+import { normalizeText } from './format.js';
+import { isOcrAvailable } from './ocr.js';
+
+/**
+ * Document extraction (과제 파일 텍스트 추출)
+ *
+ * 모든 추출기는 같은 인터페이스를 구현한다:
+ * {
+ *   format, label,
+ *   extensions: ['.ext'], mimetypes: ['type/subtype'],
+ *   extract(buffer, { fileName, mimetype }) → Promise<{ text, ocr }>
+ * }
+ *
+ * 형식은 확장자로 먼저 판단하고, 없으면 MIME 타입으로 판단한다.
+ * 결과 텍스트는 normalizeText로 공백을 정리한다 (문단은 빈 줄, 제목은 '#').
+ */
+
+const extractors = [pdf, docx, hwp, hwpx, plainText, markdown, image];
+
+export { ExtractionError };
+export { setOcrHook } from './ocr.js';
+
+export function detectFormat(fileName, mimetype) {
+  const ext = path.extname(fileName || '').toLowerCase();
+  return extractors.find((e) => ext && e.extensions.includes(ext))
+    || extractors.find((e) => mimetype && e.mimetypes.includes(mimetype))
+    || null;
+}
+
+/**
+ * Accepted upload formats (images only when OCR is configured)
+ */
+export function listSupportedFormats() {
+  return extractors
+    .filter((e) => e !== image || isOcrAvailable())
+    .map((e) => ({ format: e.format, label: e.label, extensions: e.extensions }));
+}
+
+/**
+ * Extract normalized text from an uploaded file
+ * @throws {ExtractionError} with a code the upload page turns into a per-format message
+ * @returns {Promise<{ text: string, format: string, ocr: boolean }>}
+ */
+export async function extractDocument(buffer, { fileName, mimetype }) {
+  const extractor = detectFormat(fileName, mimetype);
+  if (!extractor) {
+    throw new ExtractionError('unsupported_format', 'Unsupported file format');
+  }
+
+  let result;
+  try {
+    result = await extractor.extract(buffer, { fileName, mimetype });
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      error.format = error.format || extractor.format;
+      throw error;
+    }
+    console.error(`[Extraction] ${extractor.format} extractor error:`, error);
+    throw new ExtractionError('corrupt', `Failed to extract text from ${extractor.label}`, extractor.format);
+  }
+
+  const text = normalizeText(result.text);
+  if (!text) {
+    throw new ExtractionError('empty_document', 'No text found in the file', extractor.format);
+  }
+
+  return { text, format: extractor.format, ocr: result.ocr };
+}
+
+export default {
+  ExtractionError,
+  detectFormat,
+  listSupportedFormats,
+  extractDocument,
+};
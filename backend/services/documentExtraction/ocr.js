@@ -0,0 +1,61 @@
+import { ExtractionError } from './errors.js';
+
+/**
+ * OCR hook (스캔 PDF / 이미지 텍스트 인식)
+ *
+ * 기본 OCR 엔진은 없다. 두 가지 방법으로 연결할 수 있다:
+ * - setOcrHook(async (buffer, { mimetype, fileName, language }) => text)
+ * - env OCR_SERVER_URL: 파일을 multipart(file, language)로 POST하고 { text } JSON을 받는 HTTP 서버
+ *   (OCR_SERVER_API_KEY가 있으면 Bearer 토큰으로 전달)
+ */
+
+let customHook = null;
+
+/**
+ * Register an OCR function (null to unregister)
+ */
+export function setOcrHook(hook) {
+  customHook = typeof hook === 'function' ? hook : null;
+}
+
+async function ocrServer(buffer, { mimetype, fileName, language }) {
+  const formData = new FormData();
+  formData.append('file', new Blob([buffer], { type: mimetype }), fileName);
+  formData.append('language', language);
+
+  const headers = {};
+  if (process.env.OCR_SERVER_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OCR_SERVER_API_KEY}`;
+  }
+
+  const response = await fetch(process.env.OCR_SERVER_URL, { method: 'POST', headers, body: formData });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`OCR server error ${response.status}: ${data.error || 'unknown'}`);
+  }
+  return typeof data.text === 'string' ? data.text : '';
+}
+
+export function isOcrAvailable() {
+  return Boolean(customHook || process.env.OCR_SERVER_URL);
+}
+
+/**
+ * Recognize text in a scanned document or image
+ * @returns {Promise<string>}
+ */
+export async function runOcr(buffer, { mimetype, fileName, language = process.env.OCR_LANGUAGE || 'kor+eng' }) {
+  const hook = customHook || ocrServer;
+  try {
+    return await hook(buffer, { mimetype, fileName, language });
+  } catch (error) {
+    console.error('[OCR] Recognition failed:', error);
+    throw new ExtractionError('ocr_failed', 'Text recognition (OCR) failed');
+  }
+}
+
+export default {
+  setOcrHook,
+  isOcrAvailable,
+  runOcr,
+};
@@ -0,0 +1,41 @@
+import pdfParse from 'pdf-parse';
+import { ExtractionError } from './errors.js';
+import { isOcrAvailable, runOcr } from './ocr.js';
+
+/**
+ * PDF extractor (pdf-parse)
+ * 텍스트 레이어가 거의 없는 스캔 PDF는 OCR 훅이 설정된 경우 OCR로 인식한다.
+ */
+
+// 페이지당 평균 글자 수가 이보다 적으면 스캔 문서로 판단
+const MIN_CHARS_PER_PAGE = 20;
+
+export default {
+  format: 'pdf',
+  label: 'PDF',
+  extensions: ['.pdf'],
+  mimetypes: ['application/pdf'],
+
+  async extract(buffer, { fileName }) {
+    let parsed;
+    try {
+      parsed = await pdfParse(buffer);
+    } catch (error) {
+      if (error?.name === 'PasswordException') {
+        throw new ExtractionError('encrypted', 'PDF is password protected', 'pdf');
+      }
+      throw new ExtractionError('corrupt', 'Failed to read PDF file', 'pdf');
+    }
+
+    const text = parsed.text || '';
+    const visibleChars = text.replace(/\s/g, '').length;
+    if (visibleChars >= MIN_CHARS_PER_PAGE * Math.max(1, parsed.numpages || 1)) {
+      return { text, ocr: false };
+    }
+
+    if (!isOcrAvailable()) {
+      throw new ExtractionError('empty_document', 'PDF has no text layer (scanned document) and OCR is not configured', 'pdf');
+    }
+    return { text: await runOcr(buffer, { mimetype: 'application/pdf', fileName }), ocr: true };
+  },
+};
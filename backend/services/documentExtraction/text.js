@@ -0,0 +1,49 @@
+import { ExtractionError } from './errors.js';
+
+/**
+ * Plain text / Markdown extractors
+ * UTF-8(BOM 포함)을 우선 시도하고, 실패하면 한국어 레거시 인코딩(CP949/EUC-KR)으로 읽는다.
+ */
+
+function decodeText(buffer, format) {
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    try {
+      return new TextDecoder('euc-kr', { fatal: true }).decode(buffer);
+    } catch {
+      throw new ExtractionError('corrupt', 'Text file encoding is not supported (use UTF-8)', format);
+    }
+  }
+}
+
+export const plainText = {
+  format: 'txt',
+  label: '텍스트 (TXT)',
+  extensions: ['.txt'],
+  mimetypes: ['text/plain'],
+
+  async extract(buffer) {
+    return { text: decodeText(buffer, 'txt'), ocr: false };
+  },
+};
+
+// 마크다운 제목/문단 구조는 extracted_text 형식과 같으므로 그대로 사용
+export const markdown = {
+  format: 'md',
+  label: 'Markdown',
+  extensions: ['.md', '.markdown'],
+  mimetypes: ['text/markdown', 'text/x-markdown'],
+
+  async extract(buffer) {
+    return { text: decodeText(buffer, 'md'), ocr: false };
+  },
+};
+
+export default {
+  plainText,
+  markdown,
+};
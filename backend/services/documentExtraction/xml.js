@@ -0,0 +1,99 @@
+/**
+ * Minimal paragraph reader for WordprocessingML (DOCX) and OWPML (HWPX)
+ * 전체 XML 파서 없이 문단/텍스트 태그만 순서대로 읽는다.
+ */
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function attribute(attrs, name) {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : null;
+}
+
+/**
+ * Read paragraphs in document order
+ * Nested paragraphs (table cells, text boxes) are emitted where they start.
+ *
+ * tags: {
+ *   paragraph, text,           // e.g. 'w:p', 'w:t'
+ *   tab: [], lineBreak: [],    // empty elements mapped to '\t' / '\n'
+ *   ignoreInside: [],          // elements whose tab/break children are layout, not text (e.g. 'w:pPr')
+ *   styleOf(tagName, attrs),   // style reference found on a tag, or null
+ * }
+ * @returns {Array<{ style: string|null, text: string }>}
+ */
+export function readParagraphs(xml, tags) {
+  const paragraphs = [];
+  const stack = [];
+  let textDepth = 0;
+  let ignoreDepth = 0;
+
+  const emit = (paragraph) => {
+    paragraphs.push({ style: paragraph.style, text: paragraph.parts.join('') });
+    paragraph.parts = [];
+  };
+
+  const tokenRe = /<(\/?)([\w.-]+:[\w.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match;
+  while ((match = tokenRe.exec(xml)) !== null) {
+    const [, closing, name, attrs, selfClosing, textNode] = match;
+    const current = stack[stack.length - 1];
+
+    if (textNode !== undefined) {
+      if (textDepth > 0 && current) current.parts.push(decodeEntities(textNode));
+      continue;
+    }
+
+    if (name === tags.paragraph) {
+      if (closing) {
+        const paragraph = stack.pop();
+        if (paragraph) emit(paragraph);
+      } else {
+        if (current && current.parts.length > 0) emit(current);
+        const paragraph = { style: tags.styleOf(name, attrs), parts: [] };
+        if (selfClosing) emit(paragraph);
+        else stack.push(paragraph);
+      }
+      continue;
+    }
+
+    if (name === tags.text) {
+      if (!selfClosing) textDepth += closing ? -1 : 1;
+      continue;
+    }
+
+    if (tags.ignoreInside?.includes(name)) {
+      if (!selfClosing) ignoreDepth += closing ? -1 : 1;
+      continue;
+    }
+
+    if (!current || closing) continue;
+
+    const style = tags.styleOf(name, attrs);
+    if (style) current.style = style;
+
+    if (ignoreDepth > 0) continue;
+    if (tags.tab.includes(name)) current.parts.push('\t');
+    else if (tags.lineBreak.includes(name)) current.parts.push('\n');
+  }
+
+  return paragraphs;
+}
+
+export default {
+  decodeEntities,
+  attribute,
+  readParagraphs,
+};
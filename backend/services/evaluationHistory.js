@@ -0,0 +1,92 @@
+/**
+ * Evaluation history (평가 이력과 교사 최종 판정)
+ *
+ * participant_evaluations에 참가자별 버전을 쌓는다:
+ * - kind 'ai': 인터뷰 종료 시 또는 교사가 다시 채점한 generateSummary 결과 (summary, llm_provider, instructions)
+ * - kind 'teacher': 교사 판정 (verdict, score, comment)
+ * 최신 AI 버전은 student_participants.summary, 최신 교사 판정은 teacher_evaluation에도 저장한다.
+ */
+
+export const TEACHER_VERDICTS = ['authored', 'assisted', 'not_authored'];
+export const EVALUATION_KINDS = ['ai', 'teacher'];
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_ANNOTATION_LENGTH = 2000;
+export const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Validate a teacher decision ({ verdict, score?, comment? })
+ * @returns {{ decision: { verdict, score, comment }|null, errors: string[] }}
+ */
+export function validateTeacherDecision(input) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { decision: null, errors: ['decision must be an object'] };
+  }
+
+  const errors = [];
+  if (!TEACHER_VERDICTS.includes(input.verdict)) {
+    errors.push(`verdict must be one of ${TEACHER_VERDICTS.join(', ')}`);
+  }
+
+  let score = null;
+  if (input.score !== null && input.score !== undefined && input.score !== '') {
+    score = Number(input.score);
+    if (!Number.isInteger(score) || score < 0 || score > 100) {
+      errors.push('score must be an integer between 0 and 100');
+    }
+  }
+
+  if (input.comment !== undefined && input.comment !== null && typeof input.comment !== 'string') {
+    errors.push('comment must be a string');
+  }
+
+  if (errors.length > 0) return { decision: null, errors };
+  return {
+    decision: {
+      verdict: input.verdict,
+      score,
+      comment: (input.comment || '').trim().slice(0, MAX_COMMENT_LENGTH),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Turn annotation (빈 문자열/null이면 주석 삭제)
+ * @returns {{ annotation: string|null, error: string|null }}
+ */
+export function validateAnnotation(value) {
+  if (value === null || value === undefined) return { annotation: null, error: null };
+  if (typeof value !== 'string') return { annotation: null, error: 'annotation must be a string' };
+  const annotation = value.trim().slice(0, MAX_ANNOTATION_LENGTH);
+  return { annotation: annotation || null, error: null };
+}
+
+/**
+ * Extra grading instructions for a re-run (요약 프롬프트에 덧붙임)
+ * @returns {{ instructions: string|null, error: string|null }}
+ */
+export function validateRegradeInstructions(value) {
+  if (value === null || value === undefined) return { instructions: null, error: null };
+  if (typeof value !== 'string') return { instructions: null, error: 'instructions must be a string' };
+  if (value.length > MAX_INSTRUCTIONS_LENGTH) {
+    return { instructions: null, error: `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` };
+  }
+  return { instructions: value.trim() || null, error: null };
+}
+
+/**
+ * Current teacher decision as stored on student_participants.teacher_evaluation
+ */
+export function toTeacherEvaluation(decision, version, decidedAt = new Date()) {
+  return { ...decision, version, decidedAt: new Date(decidedAt).toISOString() };
+}
+
+export default {
+  TEACHER_VERDICTS,
+  EVALUATION_KINDS,
+  validateTeacherDecision,
+  validateAnnotation,
+  validateRegradeInstructions,
+  toTeacherEvaluation,
+};
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import local from './local.js';
+import s3 from './s3.js';
+
+/**
+ * File storage (제출 파일, 음성 답변 녹음 보관)
+ *
+ * 모든 드라이버는 같은 인터페이스를 구현한다:
+ * {
+ *   name,
+ *   isAvailable(): boolean,
+ *   urlFor(key) → string, keyFromUrl(url) → key | null,   // student_participants.submitted_file_url
+ *   exists(key) → Promise<boolean>,
+ *   put(key, buffer, { contentType }) → Promise<void>,
+ *   get(key) → Promise<{ stream, size } | null>,
+ *   delete(key) → Promise<void>,   // 없는 파일은 무시
+ * }
+ *
+ * 드라이버는 STORAGE_DRIVER (local | s3, 기본 local)로 선택한다.
+ * 제출 파일은 내용의 SHA-256으로 저장하므로 같은 파일은 한 번만 저장된다.
+ * 녹음은 보관 기간이 지나면 개별 삭제하므로 녹음마다 새 키를 쓴다.
+ */
+
+const drivers = {
+  [local.name]: local,
+  [s3.name]: s3,
+};
+
+export function getStorage() {
+  const driver = drivers[process.env.STORAGE_DRIVER] || local;
+  if (!driver.isAvailable()) {
+    throw new Error(`Storage driver '${driver.name}' is not configured`);
+  }
+  return driver;
+}
+
+function extensionOf(fileName) {
+  const ext = path.extname(fileName || '').toLowerCase();
+  return /^\.[a-z0-9]{1,10}$/.test(ext) ? ext : '';
+}
+
+/**
+ * Store an uploaded submission under its content hash
+ * @returns {Promise<{ url: string, sha256: string, size: number }>}
+ */
+export async function storeSubmission(buffer, { fileName, contentType }) {
+  const storage = getStorage();
+  const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+  const key = `submissions/${sha256.slice(0, 2)}/${sha256}${extensionOf(fileName)}`;
+
+  if (!(await storage.exists(key))) {
+    await storage.put(key, buffer, { contentType });
+  }
+
+  return { url: storage.urlFor(key), sha256, size: buffer.length };
+}
+
+/**
+ * Store one recorded answer (answer_recordings.storage_url)
+ * @returns {Promise<{ url: string, size: number }>}
+ */
+export async function storeRecording(buffer, { participantId, fileName, contentType }) {
+  const storage = getStorage();
+  const key = `recordings/${participantId}/${uuidv4()}${extensionOf(fileName)}`;
+  await storage.put(key, buffer, { contentType });
+  return { url: storage.urlFor(key), size: buffer.length };
+}
+
+/**
+ * Open a stored file by its submitted_file_url
+ * Files stay readable after STORAGE_DRIVER changes as long as the old driver is still configured.
+ * @returns {Promise<{ stream, size } | null>} null when the file is missing or the URL is unknown
+ */
+export async function openStoredFile(url) {
+  for (const driver of Object.values(drivers)) {
+    if (!driver.isAvailable()) continue;
+    const key = driver.keyFromUrl(url);
+    if (key) return driver.get(key);
+  }
+  return null;
+}
+
+/**
+ * Delete a stored file by its URL (알 수 없는 URL이면 false)
+ */
+export async function deleteStoredFile(url) {
+  for (const driver of Object.values(drivers)) {
+    if (!driver.isAvailable()) continue;
+    const key = driver.keyFromUrl(url);
+    if (key) {
+      await driver.delete(key);
+      return true;
+    }
+  }
+  return false;
+}
+
+export default {
+  getStorage,
+  storeSubmission,
+  storeRecording,
+  openStoredFile,
+  deleteStoredFile,
+};
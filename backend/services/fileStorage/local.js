@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Local disk storage driver (기본값)
+ *
+ * env: STORAGE_LOCAL_DIR (기본 ./storage)
+ * url: local://<key>
+ */
+
+function rootDir() {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || './storage');
+}
+
+function filePath(key) {
+  const root = rootDir();
+  const resolved = path.resolve(root, key);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+}
+
+export default {
+  name: 'local',
+
+  isAvailable() {
+    return true;
+  },
+
+  urlFor(key) {
+    return `local://${key}`;
+  },
+
+  keyFromUrl(url) {
+    return url.startsWith('local://') ? url.slice('local://'.length) : null;
+  },
+
+  async exists(key) {
+    return fs.existsSync(filePath(key));
+  },
+
+  async put(key, buffer) {
+    const target = filePath(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // 임시 파일에 쓴 뒤 이름을 바꿔 불완전한 파일이 남지 않도록 한다
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, buffer);
+    await fs.promises.rename(temp, target);
+  },
+
+  async get(key) {
+    const source = filePath(key);
+    const stat = await fs.promises.stat(source).catch(() => null);
+    if (!stat) return null;
+    return { stream: fs.createReadStream(source), size: stat.size };
+  },
+
+  async delete(key) {
+    await fs.promises.unlink(filePath(key)).catch((error) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  },
+};
@@ -0,0 +1,92 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+
+/**
+ * S3-compatible storage driver (AWS S3, MinIO, Cloudflare R2 등)
+ *
+ * env: S3_BUCKET, S3_REGION (기본 us-east-1), S3_ENDPOINT (MinIO 등 호환 서버),
+ *      S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (없으면 AWS 기본 자격 증명 체인),
+ *      S3_FORCE_PATH_STYLE (S3_ENDPOINT가 있으면 기본 true - MinIO는 path-style 필요)
+ * url: s3://<bucket>/<key>
+ */
+
+let client = null;
+
+function getClient() {
+  if (!client) {
+    const endpoint = process.env.S3_ENDPOINT || undefined;
+    client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    });
+  }
+  return client;
+}
+
+function bucket() {
+  return process.env.S3_BUCKET;
+}
+
+export default {
+  name: 's3',
+
+  isAvailable() {
+    return Boolean(process.env.S3_BUCKET);
+  },
+
+  urlFor(key) {
+    return `s3://${bucket()}/${key}`;
+  },
+
+  keyFromUrl(url) {
+    const prefix = `s3://${bucket()}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  },
+
+  async exists(key) {
+    try {
+      await getClient().send(new HeadObjectCommand({ Bucket: bucket(), Key: key }));
+      return true;
+    } catch (error) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  },
+
+  async put(key, buffer, { contentType }) {
+    await getClient().send(new PutObjectCommand({
+      Bucket: bucket(),
+      Key: key,
+      Body: buffer,
+      ContentType: contentType,
+    }));
+  },
+
+  async get(key) {
+    try {
+      const response = await getClient().send(new GetObjectCommand({ Bucket: bucket(), Key: key }));
+      return { stream: response.Body, size: response.ContentLength ?? null };
+    } catch (error) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await getClient().send(new DeleteObjectCommand({ Bucket: bucket(), Key: key }));
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * Integrity mode (세션 무결성 모드)
+ *
+ * assignment_sessions.integrity_mode가 켜진 세션에서는
+ * - 채팅 입력창 붙여넣기를 막고 (paste_blocked 기록)
+ * - 화면을 벗어나면 전체 화면 경고를 띄우고 이탈/복귀를 기록한다 (focus_lost, focus_returned)
+ * - focus_penalty_seconds > 0이면 이탈마다 현재 주제 시간(topics_state[i].totalTime)을 줄인다
+ *
+ * 학생 화면은 이벤트를 모아 heartbeat 본문으로 보낸다:
+ * integrity_events: [{ type, at, durationMs? }]  // at: ISO 시각, durationMs: focus_returned의 이탈 시간
+ */
+
+export const INTEGRITY_EVENT_TYPES = ['focus_lost', 'focus_returned', 'paste_blocked'];
+export const MAX_FOCUS_PENALTY_SECONDS = 120;
+
+const MAX_EVENTS_PER_HEARTBEAT = 20;
+// heartbeat가 늦게 도착해도 이 범위 안의 학생 시각은 그대로 쓴다
+const MAX_EVENT_AGE_MS = 2 * 60 * 1000;
+
+/**
+ * @returns {{ seconds: number|null, error: string|null }} - seconds null when not given
+ */
+export function validateFocusPenalty(value) {
+  if (value === null || value === undefined || value === '') {
+    return { seconds: null, error: null };
+  }
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_FOCUS_PENALTY_SECONDS) {
+    return { seconds: null, error: `focus_penalty_seconds must be an integer between 0 and ${MAX_FOCUS_PENALTY_SECONDS}` };
+  }
+  return { seconds, error: null };
+}
+
+/**
+ * Integrity settings sent to the student page
+ */
+export function integritySettings(participant) {
+  return {
+    enabled: participant.integrity_mode === true,
+    penaltySeconds: participant.integrity_mode === true ? participant.focus_penalty_seconds || 0 : 0,
+  };
+}
+
+/**
+ * Validate events from a heartbeat body (잘못된 항목은 버린다)
+ * @returns {Array<{ type, occurredAt: string, durationMs: number|null }>}
+ */
+export function normalizeIntegrityEvents(input, now = Date.now()) {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter((event) => event && INTEGRITY_EVENT_TYPES.includes(event.type))
+    .slice(0, MAX_EVENTS_PER_HEARTBEAT)
+    .map((event) => {
+      const at = new Date(event.at).getTime();
+      const occurredAt = Number.isFinite(at) && at <= now && now - at <= MAX_EVENT_AGE_MS ? at : now;
+      const durationMs = Number(event.durationMs);
+      return {
+        type: event.type,
+        occurredAt: new Date(occurredAt).toISOString(),
+        durationMs:
+          event.type === 'focus_returned' && Number.isFinite(durationMs) && durationMs >= 0
+            ? Math.min(Math.round(durationMs), 24 * 60 * 60 * 1000)
+            : null,
+      };
+    });
+}
+
+/**
+ * Shorten the current topic by the penalty (0초 미만으로는 줄이지 않음)
+ * @returns {{ topicsState: Array, applied: number }}
+ */
+export function applyFocusPenalty(topicsState, topicIndex, seconds) {
+  const topic = topicsState?.[topicIndex];
+  if (!topic || !seconds) return { topicsState, applied: 0 };
+
+  const applied = Math.min(seconds, Math.max(0, topic.totalTime));
+  const updated = [...topicsState];
+  updated[topicIndex] = {
+    ...topic,
+    totalTime: topic.totalTime - applied,
+    penaltySeconds: (topic.penaltySeconds || 0) + applied,
+  };
+  return { topicsState: updated, applied };
+}
+
+export default {
+  INTEGRITY_EVENT_TYPES,
+  MAX_FOCUS_PENALTY_SECONDS,
+  validateFocusPenalty,
+  integritySettings,
+  normalizeIntegrityEvents,
+  applyFocusPenalty,
+};
@@ -0,0 +1,111 @@
+/**
+ * Teacher intervention on a live interview (진행 중 인터뷰 교사 조치)
+ *
+ * POST /api/sessions/:id/participants/:pid/interventions { action, seconds? }
+ * - extend_time: 현재 주제 시간(topics_state[i].totalTime)을 seconds만큼 늘린다
+ * - skip_topic: 현재 주제를 끝내고 전환 대기(마지막 주제면 finalizing)로 보낸다
+ * - pause / resume: 서버 타이머를 멈춘다 (interview_states.teacher_paused_at)
+ * - force_complete: 인터뷰를 끝내고 평가를 생성한다
+ * - reset: 대화와 진행 상태를 지우고 file_submitted로 되돌려 다시 응시하게 한다
+ *
+ * 학생 화면은 heartbeat 응답(teacher_paused, teacher_action)으로 변경을 바로 반영하고,
+ * 모든 조치는 interview_interventions에 기록된다.
+ */
+
+export const INTERVENTION_ACTIONS = ['extend_time', 'skip_topic', 'pause', 'resume', 'force_complete', 'reset'];
+export const MAX_EXTEND_SECONDS = 30 * 60;
+
+// 주제 타이머가 도는 단계 (topic_paused: 학생 이탈 중에도 시간은 흐른다)
+export const TIMED_PHASES = ['topic_active', 'topic_paused'];
+const LIVE_STATUSES = ['interview_in_progress', 'interview_paused'];
+const RESETTABLE_STATUSES = [...LIVE_STATUSES, 'completed', 'timeout', 'abandoned'];
+
+/**
+ * @returns {{ intervention: { action, seconds }|null, error: string|null }}
+ */
+export function validateIntervention(input) {
+  if (!input || typeof input !== 'object' || !INTERVENTION_ACTIONS.includes(input.action)) {
+    return { intervention: null, error: `action must be one of ${INTERVENTION_ACTIONS.join(', ')}` };
+  }
+
+  if (input.action !== 'extend_time') {
+    return { intervention: { action: input.action, seconds: null }, error: null };
+  }
+
+  const seconds = Number(input.seconds);
+  if (!Number.isInteger(seconds) || seconds <= 0 || seconds > MAX_EXTEND_SECONDS) {
+    return { intervention: null, error: `seconds must be an integer between 1 and ${MAX_EXTEND_SECONDS}` };
+  }
+  return { intervention: { action: 'extend_time', seconds }, error: null };
+}
+
+/**
+ * Why an action cannot run in the current state (null when allowed)
+ * @param {string} action
+ * @param {{ status: string, file_submitted_at?: string|null }} participant
+ * @param {object|null} state - interview_states row
+ */
+export function interventionBlocker(action, participant, state) {
+  if (action === 'reset') {
+    if (!RESETTABLE_STATUSES.includes(participant.status) || !participant.file_submitted_at) {
+      return 'Interview has not started';
+    }
+    return null;
+  }
+
+  if (!state || !LIVE_STATUSES.includes(participant.status)) return 'Interview is not in progress';
+
+  switch (action) {
+    case 'extend_time':
+      return TIMED_PHASES.includes(state.current_phase) ? null : 'No topic is running';
+    case 'skip_topic':
+      return [...TIMED_PHASES, 'topic_intro'].includes(state.current_phase) ? null : 'No topic is running';
+    case 'pause':
+      if (!TIMED_PHASES.includes(state.current_phase)) return 'No topic is running';
+      return state.teacher_paused_at ? 'Interview is already paused' : null;
+    case 'resume':
+      return state.teacher_paused_at ? null : 'Interview is not paused';
+    case 'force_complete':
+      return ['completed', 'finalizing'].includes(state.current_phase) ? 'Interview is already ending' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Seconds left on the current topic; the timer stands still while the teacher has paused it
+ */
+export function topicTimeLeft(state, now = Date.now()) {
+  const topic = state?.topics_state?.[state.current_topic_index];
+  if (!topic || !state.topic_started_at) return null;
+  const until = state.teacher_paused_at ? new Date(state.teacher_paused_at).getTime() : now;
+  const elapsed = (until - new Date(state.topic_started_at).getTime()) / 1000;
+  return Math.max(0, topic.totalTime - elapsed);
+}
+
+/**
+ * Add time to a topic (applyFocusPenalty의 반대)
+ * @returns {Array} updated topics_state
+ */
+export function extendTopicTime(topicsState, topicIndex, seconds) {
+  const topic = topicsState?.[topicIndex];
+  if (!topic) return topicsState;
+
+  const updated = [...topicsState];
+  updated[topicIndex] = {
+    ...topic,
+    totalTime: topic.totalTime + seconds,
+    extendedSeconds: (topic.extendedSeconds || 0) + seconds,
+  };
+  return updated;
+}
+
+export default {
+  INTERVENTION_ACTIONS,
+  MAX_EXTEND_SECONDS,
+  TIMED_PHASES,
+  validateIntervention,
+  interventionBlocker,
+  topicTimeLeft,
+  extendTopicTime,
+};
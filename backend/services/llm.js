@@ -1,12 +1,13 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { summaryJsonSchema, normalizeSummary, validateSummary, fallbackSummary } from './summarySchema.js';
+import { resolveRubric, rubricPromptSection } from './rubric.js';
+import { getLLMProvider } from './llmProviders/index.js';
+import { assessmentJsonSchema, normalizeAssessment, strategyPrompt } from './questionStrategy.js';
+import { MAX_CITATIONS, resolveCitations, quotesInQuestion } from './citations.js';
+import { aiTopicCount, mergeTopics, questionBankPrompt } from './questionBank.js';
 
 dotenv.config();
 
-const hasApiKey = Boolean(process.env.OPENAI_API_KEY);
-const openai = hasApiKey ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
-const model = process.env.OPENAI_MODEL || 'gpt-5.1';
-
 // System prompts
 const analyzeSystemPrompt = `너는 대학생 과제의 주제를 분석하는 AI이다.
 다음 한국어 에세이/레포트를 읽고, 3~5개의 핵심 주제를 추출하라.
@@ -49,7 +50,7 @@ const generateSystemPrompt = `너는 학생이 제출한 과제를 직접 작성
 
 const voiceModeAddendum = `
 추가 규칙 (음성 인터뷰 모드):
-- 현재 학생은 음성으로 답변하고 있으며, AI의 질문은 ElevenLabs TTS로 음성 합성되어 읽어준다.
+- 현재 학생은 음성으로 답변하고 있으며, AI의 질문은 음성 합성(TTS)으로 읽어준다.
 - 학생에게 "써주세요", "작성해 주세요", "적어주세요" 등 텍스트 작성을 요구하지 않는다.
 - 대신 "말씀해 주세요", "설명해 주세요", "답변해 주세요" 등 구두 응답을 요청한다.
 
@@ -61,6 +62,45 @@ TTS 최적화 규칙:
 - 문장 사이에 적절한 쉼표를 넣어 자연스러운 끊어읽기가 되도록 한다.
 - 어려운 한자어나 전문용어는 쉬운 표현으로 바꾼다.`;
 
+const assessSystemPrompt = `너는 과제 작성자 확인 인터뷰에서 학생의 최신 답변을 분류하는 평가자이다.
+
+분류 기준 (quality):
+- specific: 과제 본문의 내용과 맞고, 작성 과정, 선택 이유, 개인 경험을 구체적으로 설명한다.
+- vague: 일반적이거나 모호하다. 내용 요약만 하거나 "그냥 그렇게 썼다" 수준이다.
+- contradictory: 과제 본문이나 이전 답변과 모순된다.
+- off_topic: 질문이나 현재 주제와 관련이 없다.
+
+authorshipShown:
+- 이전 답변을 포함하여, 이 주제에서 학생이 해당 부분을 직접 작성했음이 충분히 확인되었으면 true.
+- 확신할 수 없으면 false.
+
+응답 JSON 형식:
+{ "quality": "specific | vague | contradictory | off_topic", "authorshipShown": false, "rationale": "분류 근거 한 문장" }`;
+
+const citeSystemPrompt = `너는 인터뷰 질문이 과제 본문의 어느 구절을 가리키는지 찾는 도우미이다.
+질문이 언급하거나 인용한 과제 본문의 구절을 최대 ${MAX_CITATIONS}개 찾아라.
+
+규칙:
+- 구절은 과제 본문에 있는 그대로(글자 하나 바꾸지 말고) 복사한다.
+- 한 구절은 한 문장 이내로 짧게 한다.
+- 질문이 본문의 특정 구절을 가리키지 않으면 빈 배열을 반환한다.
+
+응답 JSON 형식:
+{ "quotes": ["과제 본문 원문 구절"] }`;
+
+const citationJsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['quotes'],
+  properties: {
+    quotes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '질문이 가리키는 과제 본문 구절 (원문 그대로)',
+    },
+  },
+};
+
 const summarizeSystemPrompt = `너는 학생이 과제를 직접 작성했는지 판별하는 평가자이다.
 
 평가 목적:
@@ -69,7 +109,7 @@ const summarizeSystemPrompt = `너는 학생이 과제를 직접 작성했는지
 - AI 생성 후 검토: 내용은 이해하지만 작성 과정에 대한 답변이 모호함
 - AI 생성 그대로 제출: 내용도 제대로 모르고, 왜 이렇게 썼는지 설명 못함
 
-판별 기준:
+판별 기준 (아래 평가 루브릭이 주어지면 루브릭 기준으로 채점한다):
 1. 작성 과정 설명: "왜 이렇게 썼나요?"에 구체적으로 답변하는가?
 2. 의사결정 근거: 특정 표현, 구조, 사례 선택의 이유를 설명하는가?
 3. 개인적 경험: 조사 과정, 어려웠던 점, 새롭게 알게 된 점을 언급하는가?
@@ -88,12 +128,27 @@ const summarizeSystemPrompt = `너는 학생이 과제를 직접 작성했는지
 - 학생이 응답하지 않았다면 평가 불가로 처리
 - 적극적으로 대화에 참여한 경우 약간의 가산점 부여
 
+점수 기준 (authorshipScore, 0~100 정수 또는 null):
+- 70 이상: 직접 작성 (verdict: "authored")
+- 40~69: AI 생성 후 검토 (verdict: "assisted")
+- 39 이하: AI 생성 그대로 제출 (verdict: "not_authored")
+- 학생 응답이 없어 판단할 수 없으면 authorshipScore는 null, verdict: "undetermined" (0점은 "not_authored"로 해석된다)
+
 응답 JSON 형식:
 {
+  "authorshipScore": 0,
+  "verdict": "authored | assisted | not_authored | undetermined",
   "strengths": ["직접 작성했음을 보여주는 증거들"],
   "weaknesses": ["AI 생성 의심 또는 이해 부족 증거들"],
-  "overallComment": "종합 판단: 직접 작성 가능성 높음/낮음, 근거 요약"
-}`;
+  "overallComment": "종합 판단: 직접 작성 가능성 높음/낮음, 근거 요약",
+  "topicAssessments": [
+    { "topicIndex": 0, "topic": "주제 제목", "assessment": "주제별 판단 근거", "score": 0 }
+  ],
+  "criteriaScores": [
+    { "criterionId": "루브릭 기준 id", "score": 0, "rationale": "채점 근거", "evidence": ["학생 발화 원문 인용"] }
+  ]
+}
+topicAssessments에는 주제 목록의 모든 주제를 순서대로(topicIndex는 0부터) 포함한다.`;
 
 const voiceSummaryAddendum = `
 추가 참고 (음성 인터뷰):
@@ -102,60 +157,38 @@ const voiceSummaryAddendum = `
 - 구어체 표현, 말 더듬음, 반복 등은 자연스러운 것이므로 부정적으로 평가하지 않는다.
 - 핵심은 학생이 과제를 직접 작성했는지 여부이다.`;
 
+// 설정되지 않은 제공자는 제공자별로 한 번만 경고
+const warnedProviders = new Set();
+
 /**
- * Extract text from OpenAI Responses API response
+ * Run LLM with the session's provider (see llmProviders/index.js)
+ * task: 'analyze' | 'assess' | 'question' | 'cite' | 'summary' (mock provider uses it to pick a script)
+ * provider: session llm_provider (null → deployment default)
+ * onDelta: 주어지면 스트리밍 지원 제공자는 텍스트 조각마다 호출 (미지원 제공자는 완성 후 한 번)
  */
-function extractFromResponse(response) {
-  let text = '';
-  if (!response) return { text: '' };
-
-  // Method 1: SDK convenience property (recommended for Responses API)
-  if (response.output_text) {
-    text = response.output_text;
-    return { text };
-  }
+async function runLLM({ messages, maxTokens = 800, responseFormat, jsonSchema, task, provider, onDelta }) {
+  const llm = getLLMProvider(provider);
 
-  // Method 2: Manual extraction from output array
-  if (response.output && Array.isArray(response.output)) {
-    for (const item of response.output) {
-      if (item.type === 'message' && item.content) {
-        for (const contentItem of item.content) {
-          if (contentItem.type === 'output_text' && contentItem.text) {
-            text += contentItem.text;
-          }
-        }
-      }
+  if (!llm.isAvailable()) {
+    if (!warnedProviders.has(llm.name)) {
+      warnedProviders.add(llm.name);
+      console.warn(`[LLM] Provider '${llm.name}' is not configured - using fallback responses`);
     }
-    text = text.trim();
-    if (text) return { text };
-  }
-
-  // Method 3: Chat completions fallback
-  const choice = response.choices?.[0];
-  if (choice?.message?.content) {
-    text = choice.message.content;
-  }
-
-  return { text };
-}
-
-/**
- * Run LLM with OpenAI Responses API
- */
-async function runLLM({ messages, maxTokens = 800, responseFormat }) {
-  if (!openai) {
     return { fallback: true, text: '', raw: null };
   }
 
-  const response = await openai.responses.create({
-    model,
-    max_output_tokens: maxTokens,
-    input: messages,
-    text: responseFormat ? { format: { type: responseFormat } } : undefined,
-  });
+  if (onDelta && llm.streamComplete) {
+    let text = '';
+    for await (const delta of llm.streamComplete({ messages, maxTokens, task })) {
+      text += delta;
+      onDelta(delta);
+    }
+    return { fallback: false, text: text.trim(), raw: null };
+  }
 
-  const { text } = extractFromResponse(response);
-  return { fallback: false, text, raw: response };
+  const { text, raw } = await llm.complete({ messages, maxTokens, responseFormat, jsonSchema, task });
+  if (onDelta && text) onDelta(text);
+  return { fallback: false, text, raw };
 }
 
 /**
@@ -197,10 +230,21 @@ function parseJsonRelaxed(text) {
   }
 }
 
+/**
+ * Placeholder topics used when analysis fails ("주제 1", "주제 2", ...)
+ */
+function fallbackTopics(topicCount) {
+  return Array.from({ length: topicCount }, (_, i) => ({
+    id: `t${i + 1}`,
+    title: `주제 ${i + 1}`,
+  }));
+}
+
 /**
  * Analyze assignment and extract topics
+ * fallback is true whenever placeholder topics were used (provider unavailable, unusable response, error)
  */
-export async function analyzeAssignment(assignmentText, topicCount = 3) {
+export async function analyzeAssignment(assignmentText, topicCount = 3, { provider } = {}) {
   try {
     const { fallback, text: llmText } = await runLLM({
       messages: [
@@ -209,47 +253,132 @@ export async function analyzeAssignment(assignmentText, topicCount = 3) {
       ],
       maxTokens: 2000,
       responseFormat: 'json_object',
+      task: 'analyze',
+      provider,
     });
 
-    let parsed = parseJsonRelaxed(llmText);
+    const parsed = parseJsonRelaxed(llmText);
+    const topics = (parsed?.topics && Array.isArray(parsed.topics))
+      ? parsed.topics
+          .filter((t) => t && typeof t === 'object')
+          .slice(0, topicCount)
+          .map((t, idx) => ({
+            id: t.id || `t${idx + 1}`,
+            title: (typeof t.title === 'string' && t.title.trim()) || `주제 ${idx + 1}`,
+          }))
+      : [];
 
-    if (!parsed) {
-      console.warn('analyze JSON parse failed');
-      parsed = {
-        topics: Array.from({ length: topicCount }, (_, i) => ({
-          id: `t${i + 1}`,
-          title: `주제 ${i + 1}`,
-        })),
-      };
+    if (topics.length === 0) {
+      if (!fallback) console.warn('analyze JSON parse failed');
+      return { topics: fallbackTopics(topicCount), fallback: true };
     }
 
-    const topics = (parsed.topics && Array.isArray(parsed.topics))
-      ? parsed.topics.slice(0, topicCount).map((t, idx) => ({
-          id: t.id || `t${idx + 1}`,
-          title: t.title || `주제 ${idx + 1}`,
-        }))
-      : [];
-
     return { topics, fallback };
   } catch (error) {
     console.error('analyzeAssignment error:', error);
-    return {
-      topics: Array.from({ length: topicCount }, (_, i) => ({
-        id: `t${i + 1}`,
-        title: `주제 ${i + 1}`,
-      })),
-      fallback: true,
-    };
+    return { topics: fallbackTopics(topicCount), fallback: true };
   }
 }
 
+/**
+ * Topics for a participant according to the session topic mode (see questionBank.js)
+ * Analysis runs only for the slots not covered by teacher topics.
+ */
+export async function analyzeSessionTopics({ assignmentText, topicMode, questionBank, topicCount, provider }) {
+  const count = aiTopicCount(topicMode, questionBank, topicCount);
+  const analysis = count > 0
+    ? await analyzeAssignment(assignmentText, count, { provider })
+    : { topics: [], fallback: false };
+
+  return {
+    topics: mergeTopics(topicMode, questionBank, analysis.topics, topicCount),
+    fallback: analysis.fallback,
+  };
+}
+
+function formatPreviousQA(previousQA) {
+  return (previousQA || []).map((turn) => `${turn.role === 'ai' ? 'AI' : '학생'}: ${turn.text || turn.content}`).join('\n') || '없음';
+}
+
+/**
+ * Classify the latest student answer (see questionStrategy.js)
+ * Returns assessment null when the provider is unavailable or the response is unusable.
+ */
+export async function assessAnswer({ topic, assignmentText, previousQA, studentAnswer, provider }) {
+  try {
+    const docContent = (assignmentText || '').slice(0, 14000) || '본문 없음';
+    const userContext = `과제 본문:\n${docContent}\n\n현재 주제: ${topic?.title || '일반'}\n\n이전 Q&A:\n${formatPreviousQA(previousQA)}\n\n학생 최신 답변:\n${studentAnswer || '없음'}`;
+
+    const { fallback, text } = await runLLM({
+      messages: [
+        { role: 'system', content: assessSystemPrompt },
+        { role: 'user', content: userContext.slice(0, 15000) },
+      ],
+      maxTokens: 300,
+      jsonSchema: { name: 'answer_assessment', schema: assessmentJsonSchema },
+      task: 'assess',
+      provider,
+    });
+
+    const assessment = normalizeAssessment(parseJsonRelaxed(text));
+    if (!assessment && !fallback) console.warn('assessAnswer: unusable response');
+    return { assessment, fallback };
+  } catch (error) {
+    console.error('assessAnswer error:', error);
+    return { assessment: null, fallback: true };
+  }
+}
+
+/**
+ * Find the assignment passages a question refers to (see citations.js)
+ * Quotes come from the LLM; offsets are resolved against assignmentText.
+ * Falls back to quoted fragments in the question when the LLM gives nothing locatable.
+ * @returns {Promise<{ citations: Array<{ start, end, quote }>, fallback: boolean }>}
+ */
+export async function citePassages({ question, assignmentText, provider }) {
+  const docContent = (assignmentText || '').slice(0, 14000);
+  if (!docContent || !question) return { citations: [], fallback: true };
+
+  try {
+    const { fallback, text } = await runLLM({
+      messages: [
+        { role: 'system', content: citeSystemPrompt },
+        { role: 'user', content: `과제 본문:\n${docContent}\n\n질문:\n${question}`.slice(0, 15000) },
+      ],
+      maxTokens: 400,
+      jsonSchema: { name: 'question_citations', schema: citationJsonSchema },
+      task: 'cite',
+      provider,
+    });
+
+    const citations = resolveCitations(docContent, parseJsonRelaxed(text)?.quotes);
+    if (citations.length > 0) return { citations, fallback };
+  } catch (error) {
+    console.error('citePassages error:', error);
+  }
+
+  return { citations: resolveCitations(docContent, quotesInQuestion(question)), fallback: true };
+}
+
 /**
  * Generate interview question
+ * Returns the passages the question cites as well (citations, see citePassages).
+ * strategy: questionStrategy 전략 이름 (advance | probe | clarify | redirect, null → 기본 꼬리질문)
+ * mandatoryQuestion: 이번에 물어야 할 교사 지정 필수 질문 (questionBank.js, 전략보다 우선)
+ * onDelta: 질문 텍스트 조각 콜백 (스트리밍 응답용). 실패 시 대체 질문은 반환값으로만 전달된다.
  */
-export async function generateQuestion({ topic, assignmentText, previousQA, studentAnswer, interviewMode }) {
+export async function generateQuestion({ topic, assignmentText, previousQA, studentAnswer, interviewMode, provider, strategy, mandatoryQuestion, onDelta }) {
+  const isFirstQuestion = !previousQA || previousQA.length === 0;
+  // LLM을 쓸 수 없을 때: 필수 질문 → 교사 예시 질문 → 일반 질문
+  const fallbackQuestion = mandatoryQuestion
+    || (isFirstQuestion && topic?.seedQuestions?.[0])
+    || '주제와 관련된 내용을 더 자세히 설명해 주시겠어요?';
+
   try {
     const docContent = (assignmentText || '').slice(0, 14000) || '본문 없음';
-    const userContext = `과제 본문:\n${docContent}\n\n현재 주제: ${topic?.title || '일반'}\n\n이전 Q&A:\n${(previousQA || []).map((turn) => `${turn.role === 'ai' ? 'AI' : '학생'}: ${turn.text || turn.content}`).join('\n') || '없음'}\n\n학생 최신 답변:\n${studentAnswer || '없음'}`;
+    const bankDirective = questionBankPrompt(topic, { isFirstQuestion, mandatoryQuestion });
+    const directive = mandatoryQuestion ? null : strategyPrompt(strategy);
+    const userContext = `과제 본문:\n${docContent}\n\n현재 주제: ${topic?.title || '일반'}\n\n이전 Q&A:\n${formatPreviousQA(previousQA)}\n\n학생 최신 답변:\n${studentAnswer || '없음'}${directive ? `\n\n질문 전략:\n${directive}` : ''}${bankDirective ? `\n\n교사 지정 질문:\n${bankDirective}` : ''}`;
 
     const systemPrompt = interviewMode === 'voice'
       ? generateSystemPrompt + voiceModeAddendum
@@ -261,14 +390,22 @@ export async function generateQuestion({ topic, assignmentText, previousQA, stud
         { role: 'user', content: userContext.slice(0, 15000) },
       ],
       maxTokens: 300,
+      task: 'question',
+      provider,
+      onDelta,
     });
 
-    const question = text || '주제와 관련된 내용을 더 자세히 설명해 주시겠어요?';
-    return { question, fallback };
+    if (!text) {
+      return { question: fallbackQuestion, citations: [], fallback };
+    }
+
+    const { citations } = await citePassages({ question: text, assignmentText, provider });
+    return { question: text, citations, fallback };
   } catch (error) {
     console.error('generateQuestion error:', error);
     return {
-      question: '주제와 관련된 내용을 더 자세히 설명해 주시겠어요?',
+      question: fallbackQuestion,
+      citations: [],
       fallback: true,
     };
   }
@@ -276,44 +413,60 @@ export async function generateQuestion({ topic, assignmentText, previousQA, stud
 
 /**
  * Generate interview summary
+ * Always resolves to a current-version summary (see summarySchema.js)
+ * rubric: session rubric (null → default rubric)
+ * instructions: 교사가 다시 채점할 때 덧붙인 지침 (evaluationHistory.js)
  */
-export async function generateSummary({ transcript, topics, assignmentText, interviewMode }) {
+export async function generateSummary({ transcript, topics, assignmentText, interviewMode, rubric, provider, instructions }) {
   try {
     const docContent = (assignmentText || '').slice(0, 14000);
-    const userContent = `과제 본문:\n${docContent}\n\n주제 목록:\n${(topics || []).map((t) => t.title).join(', ')}\n\n대화 로그:\n${transcript}`;
+    const topicList = (topics || []).map((t, idx) => `${idx}. ${t.title}`).join('\n');
+    const userContent = `과제 본문:\n${docContent}\n\n주제 목록:\n${topicList}\n\n대화 로그:\n${transcript}`;
 
-    const systemPrompt = interviewMode === 'voice'
+    const appliedRubric = resolveRubric(rubric);
+    const systemPrompt = (interviewMode === 'voice'
       ? summarizeSystemPrompt + voiceSummaryAddendum
-      : summarizeSystemPrompt;
+      : summarizeSystemPrompt) + rubricPromptSection(appliedRubric)
+      + (instructions ? `\n\n교사 추가 지침 (위 평가 기준과 응답 형식은 그대로 지킨다):\n${instructions}` : '');
 
     const { fallback, text } = await runLLM({
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userContent.slice(0, 15000) },
       ],
-      maxTokens: 2000,
-      responseFormat: 'json_object',
+      maxTokens: 3000,
+      jsonSchema: { name: 'interview_summary', schema: summaryJsonSchema },
+      task: 'summary',
+      provider,
     });
 
-    let parsed = parseJsonRelaxed(text);
-
-    if (!parsed) {
-      parsed = {
-        strengths: [],
-        weaknesses: ['요약 생성에 실패했습니다. 다시 시도해 주세요.'],
-        overallComment: '학생의 응답이 없어 이해도를 평가할 수 없습니다.',
+    const summary = normalizeSummary(parseJsonRelaxed(text), {
+      topics,
+      rubric: appliedRubric,
+      transcript,
+      llmOutput: true,
+    });
+    const errors = summary ? validateSummary(summary) : ['unparseable response'];
+
+    if (errors.length > 0) {
+      if (!fallback) console.warn('summary validation failed:', errors.join('; '));
+      return {
+        summary: fallbackSummary(
+          '요약 생성에 실패했습니다. 다시 시도해 주세요.',
+          '학생의 응답이 없어 이해도를 평가할 수 없습니다.'
+        ),
+        fallback: true,
       };
     }
 
-    return { summary: parsed, fallback };
+    return { summary, fallback };
   } catch (error) {
     console.error('generateSummary error:', error);
     return {
-      summary: {
-        strengths: [],
-        weaknesses: ['요약 생성 중 오류가 발생했습니다.'],
-        overallComment: '기술적 문제로 평가를 완료할 수 없습니다.',
-      },
+      summary: fallbackSummary(
+        '요약 생성 중 오류가 발생했습니다.',
+        '기술적 문제로 평가를 완료할 수 없습니다.'
+      ),
       fallback: true,
     };
   }
@@ -321,6 +474,9 @@ export async function generateSummary({ transcript, topics, assignmentText, inte
 
 export default {
   analyzeAssignment,
+  analyzeSessionTopics,
+  assessAnswer,
+  citePassages,
   generateQuestion,
   generateSummary,
 };
@@ -0,0 +1,143 @@
+/**
+ * Anthropic Messages API adapter
+ * Messages API 형식을 따르는 호환 서버도 ANTHROPIC_BASE_URL로 사용할 수 있다.
+ *
+ * env: ANTHROPIC_API_KEY, ANTHROPIC_MODEL, ANTHROPIC_BASE_URL (선택)
+ */
+
+const API_VERSION = '2023-06-01';
+
+/**
+ * Split OpenAI-style messages into Anthropic's top-level system prompt and turns
+ */
+function toAnthropicMessages(messages) {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const turns = messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content }));
+  return { system, turns };
+}
+
+function baseUrl() {
+  return (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/$/, '');
+}
+
+function headers() {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': process.env.ANTHROPIC_API_KEY,
+    'anthropic-version': API_VERSION,
+  };
+}
+
+/**
+ * Parse an SSE response body into { event, data } objects
+ */
+async function* readEvents(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;
+
+      try {
+        yield { event, data: JSON.parse(dataLines.join('\n')) };
+      } catch {
+        // ignore malformed event
+      }
+    }
+  }
+}
+
+export default {
+  name: 'anthropic',
+  label: 'Anthropic',
+
+  isAvailable() {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  },
+
+  async complete({ messages, maxTokens, responseFormat, jsonSchema }) {
+    const { system, turns } = toAnthropicMessages(messages);
+
+    const body = {
+      model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+      max_tokens: maxTokens,
+      system: responseFormat === 'json_object' && !jsonSchema
+        ? `${system}\n\n반드시 JSON 객체만 출력하라.`
+        : system,
+      messages: turns,
+    };
+
+    // Structured output: force a single tool call whose input is the schema
+    if (jsonSchema) {
+      body.tools = [{ name: jsonSchema.name, description: 'Return the result', input_schema: jsonSchema.schema }];
+      body.tool_choice = { type: 'tool', name: jsonSchema.name };
+    }
+
+    const response = await fetch(`${baseUrl()}/v1/messages`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${data?.error?.message || 'unknown'}`);
+    }
+
+    const content = Array.isArray(data.content) ? data.content : [];
+    const toolUse = content.find((c) => c.type === 'tool_use');
+    const text = toolUse
+      ? JSON.stringify(toolUse.input)
+      : content.filter((c) => c.type === 'text').map((c) => c.text).join('');
+
+    return { text, raw: data };
+  },
+
+  async *streamComplete({ messages, maxTokens }) {
+    const { system, turns } = toAnthropicMessages(messages);
+
+    const response = await fetch(`${baseUrl()}/v1/messages`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+        max_tokens: maxTokens,
+        system,
+        messages: turns,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(`Anthropic API error ${response.status}: ${data?.error?.message || 'unknown'}`);
+    }
+
+    for await (const { event, data } of readEvents(response.body)) {
+      if (event === 'content_block_delta' && data.delta?.type === 'text_delta') {
+        yield data.delta.text;
+      } else if (event === 'error') {
+        throw new Error(`Anthropic stream error: ${data?.error?.message || 'unknown'}`);
+      }
+    }
+  },
+};
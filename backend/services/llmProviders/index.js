@@ -0,0 +1,79 @@
+import openaiResponses from './openaiResponses.js';
+import openaiCompatible from './openaiCompatible.js';
+import anthropic from './anthropic.js';
+import mock from './mock.js';
+
+/**
+ * LLM provider registry (LLM 제공자 선택)
+ *
+ * 모든 제공자는 같은 인터페이스를 구현한다:
+ * {
+ *   name, label,
+ *   isAvailable(): boolean,                 // 필요한 환경변수가 설정되었는지
+ *   complete({ messages, maxTokens, responseFormat, jsonSchema, task })
+ *     → Promise<{ text, raw }>,
+ *   streamComplete?({ messages, maxTokens, task })
+ *     → AsyncIterable<string>               // 텍스트 조각 (질문 스트리밍용, 선택)
+ * }
+ *
+ * 배포 기본값은 LLM_PROVIDER (기본 openai),
+ * 세션별로 assignment_sessions.llm_provider를 지정하면 그 제공자를 사용한다.
+ */
+
+const providers = {
+  [openaiResponses.name]: openaiResponses,
+  [openaiCompatible.name]: openaiCompatible,
+  [anthropic.name]: anthropic,
+  [mock.name]: mock,
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(providers);
+
+function defaultProviderName() {
+  const name = process.env.LLM_PROVIDER || 'openai';
+  return providers[name] ? name : 'openai';
+}
+
+/**
+ * Resolve the provider for a session (null → deployment default)
+ */
+export function getLLMProvider(name) {
+  return providers[name] || providers[defaultProviderName()];
+}
+
+/**
+ * Providers teachers can choose for a session
+ */
+export function listLLMProviders() {
+  const defaultName = defaultProviderName();
+  return Object.values(providers).map((p) => ({
+    name: p.name,
+    label: p.label,
+    available: p.isAvailable(),
+    isDefault: p.name === defaultName,
+  }));
+}
+
+/**
+ * Validate a session's llm_provider value (null/empty → deployment default)
+ * @returns {{ provider: string|null, error: string|null }}
+ */
+export function validateLLMProviderName(name) {
+  if (name === null || name === undefined || name === '') {
+    return { provider: null, error: null };
+  }
+  if (!providers[name]) {
+    return { provider: null, error: `llm_provider must be one of ${LLM_PROVIDER_NAMES.join(', ')}` };
+  }
+  if (!providers[name].isAvailable()) {
+    return { provider: null, error: `LLM provider '${name}' is not configured on this server` };
+  }
+  return { provider: name, error: null };
+}
+
+export default {
+  LLM_PROVIDER_NAMES,
+  getLLMProvider,
+  listLLMProviders,
+  validateLLMProviderName,
+};
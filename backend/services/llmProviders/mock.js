@@ -0,0 +1,198 @@
+import fs from 'fs';
+
+/**
+ * Deterministic mock provider (오프라인 테스트용)
+ *
+ * API 키 없이 업로드 → 인터뷰 → 평가 전체 흐름을 재현하기 위한 제공자.
+ * 같은 입력에는 항상 같은 출력을 반환한다.
+ *
+ * env: LLM_MOCK_SCRIPT (선택) - 응답을 고정할 JSON 파일 경로
+ * {
+ *   "topics": ["주제 제목", ...],
+ *   "questions": ["질문", ...],        // 주제 내 순서대로 사용, 마지막 질문 반복
+ *   "assessment": { quality, authorshipShown, rationale },  // 답변 분류를 고정
+ *   "summary": { ...summary JSON }      // 그대로 반환 (normalizeSummary가 정규화)
+ * }
+ */
+
+let cachedScript;
+
+function loadScript() {
+  if (cachedScript !== undefined) return cachedScript;
+
+  cachedScript = null;
+  const scriptPath = process.env.LLM_MOCK_SCRIPT;
+  if (scriptPath) {
+    try {
+      cachedScript = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+    } catch (error) {
+      console.error('[LLM mock] Failed to load LLM_MOCK_SCRIPT:', error.message);
+    }
+  }
+  return cachedScript;
+}
+
+function userContent(messages) {
+  return messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+}
+
+function systemContent(messages) {
+  return messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n');
+}
+
+/**
+ * Text between a "label:" line and the next blank-line-separated section
+ */
+function section(text, label) {
+  const start = text.indexOf(`${label}:\n`);
+  if (start === -1) return '';
+  const rest = text.slice(start + label.length + 2);
+  const end = rest.search(/\n\n[^\n]+:\n/);
+  return (end === -1 ? rest : rest.slice(0, end)).trim();
+}
+
+function mockTopics(messages) {
+  const script = loadScript();
+  const titles = Array.isArray(script?.topics) && script.topics.length > 0
+    ? script.topics
+    : userContent(messages)
+      .split(/\n+/)
+      .map((line) => line.trim())
+      .filter((line, idx, lines) => line.length >= 10 && lines.indexOf(line) === idx)
+      .slice(0, 5)
+      .map((line) => line.slice(0, 30));
+
+  const topics = (titles.length > 0 ? titles : ['과제 전반']).map((title, idx) => ({
+    id: `t${idx + 1}`,
+    title,
+  }));
+  return JSON.stringify({ topics });
+}
+
+function mockQuestion(messages) {
+  const content = userContent(messages);
+  const topic = (content.match(/현재 주제: (.+)/) || [])[1] || '과제';
+  const previous = section(content, '이전 Q&A');
+  const asked = previous === '없음' ? 0 : (previous.match(/^AI: /gm) || []).length;
+
+  const script = loadScript();
+  if (Array.isArray(script?.questions) && script.questions.length > 0) {
+    return script.questions[Math.min(asked, script.questions.length - 1)];
+  }
+
+  const templates = [
+    `과제에서 ${topic} 부분을 어떻게 쓰게 되었는지 작성 과정을 말씀해 주세요.`,
+    `${topic} 부분에서 이 사례를 선택한 이유가 있나요?`,
+    `${topic} 부분을 쓰면서 어려웠던 점은 무엇이었나요?`,
+  ];
+  return templates[asked % templates.length];
+}
+
+// 답변 길이로 분류: 짧으면 모호, 충분히 길면 직접 작성 확인
+function mockAssessment(messages) {
+  const script = loadScript();
+  if (script?.assessment) return JSON.stringify(script.assessment);
+
+  const answer = section(userContent(messages), '학생 최신 답변');
+  const length = answer === '없음' ? 0 : answer.length;
+  return JSON.stringify({
+    quality: length < 20 ? 'vague' : 'specific',
+    authorshipShown: length >= 60,
+    rationale: `모의 분류 (답변 ${length}자)`,
+  });
+}
+
+// 질문과 단어가 겹치는 첫 본문 줄을 인용 (모의 주제 제목은 본문 줄에서 만들어지므로 보통 일치)
+function mockCitations(messages) {
+  const content = userContent(messages);
+  const question = content.slice(content.lastIndexOf('질문:\n') + '질문:\n'.length);
+  const words = question.split(/\s+/).filter((word) => word.length >= 2);
+  const lines = section(content, '과제 본문')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length >= 10);
+
+  const cited = lines.find((line) => words.some((word) => line.includes(word))) || lines[0];
+  return JSON.stringify({ quotes: cited ? [cited.slice(0, 40)] : [] });
+}
+
+function mockSummary(messages) {
+  const script = loadScript();
+  if (script?.summary) return JSON.stringify(script.summary);
+
+  const content = userContent(messages);
+  const studentLines = section(content, '대화 로그')
+    .split('\n')
+    .filter((line) => line.startsWith('학생: '))
+    .map((line) => line.slice('학생: '.length).trim())
+    .filter(Boolean);
+
+  // 답변 길이에 따른 결정적 점수 (답변이 없으면 판단 불가)
+  const averageLength = studentLines.length > 0
+    ? studentLines.reduce((sum, line) => sum + line.length, 0) / studentLines.length
+    : 0;
+  const score = studentLines.length > 0 ? Math.min(95, 30 + Math.round(averageLength)) : null;
+
+  const topics = section(content, '주제 목록')
+    .split('\n')
+    .map((line) => line.match(/^(\d+)\. (.+)$/))
+    .filter(Boolean)
+    .map((m) => ({ topicIndex: Number(m[1]), topic: m[2], assessment: '모의 평가', score }));
+
+  const criterionIds = [...systemContent(messages).matchAll(/^- \[([^\]]+)\]/gm)].map((m) => m[1]);
+
+  return JSON.stringify({
+    authorshipScore: score,
+    verdict: studentLines.length === 0 ? 'undetermined' : undefined,
+    strengths: studentLines.length > 0 ? [`학생 답변 ${studentLines.length}개`] : [],
+    weaknesses: studentLines.length === 0 ? ['학생 응답 없음'] : [],
+    overallComment: `모의 평가 결과입니다. (답변 ${studentLines.length}개, 평균 ${Math.round(averageLength)}자)`,
+    topicAssessments: topics,
+    criteriaScores: criterionIds.map((criterionId) => ({
+      criterionId,
+      score,
+      rationale: '모의 채점',
+      evidence: studentLines.slice(0, 1),
+    })),
+  });
+}
+
+export default {
+  name: 'mock',
+  label: '모의 응답 (오프라인 테스트)',
+
+  // 운영 환경에서는 배포 기본값으로 지정한 경우에만 선택 가능
+  isAvailable() {
+    return process.env.NODE_ENV !== 'production' || process.env.LLM_PROVIDER === 'mock';
+  },
+
+  async complete({ messages, task }) {
+    let text;
+    switch (task) {
+      case 'analyze':
+        text = mockTopics(messages);
+        break;
+      case 'summary':
+        text = mockSummary(messages);
+        break;
+      case 'assess':
+        text = mockAssessment(messages);
+        break;
+      case 'cite':
+        text = mockCitations(messages);
+        break;
+      default:
+        text = mockQuestion(messages);
+    }
+    return { text, raw: null };
+  },
+
+  // 어절 단위로 나누어 스트리밍 흉내
+  async *streamComplete({ messages, task }) {
+    const { text } = await this.complete({ messages, task });
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      yield piece;
+    }
+  },
+};
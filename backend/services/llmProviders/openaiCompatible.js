@@ -0,0 +1,66 @@
+import OpenAI from 'openai';
+
+/**
+ * OpenAI-compatible Chat Completions adapter
+ * 로컬/자체 호스팅 서버(Ollama, vLLM, LM Studio 등)용
+ *
+ * env: LLM_COMPAT_BASE_URL (예: http://localhost:11434/v1), LLM_COMPAT_MODEL,
+ *      LLM_COMPAT_API_KEY (서버가 요구하는 경우)
+ */
+
+let client = null;
+
+function getClient() {
+  if (!client && process.env.LLM_COMPAT_BASE_URL) {
+    client = new OpenAI({
+      baseURL: process.env.LLM_COMPAT_BASE_URL,
+      // SDK requires a key even when the server ignores it
+      apiKey: process.env.LLM_COMPAT_API_KEY || 'not-needed',
+    });
+  }
+  return client;
+}
+
+function buildResponseFormat({ responseFormat, jsonSchema }) {
+  if (jsonSchema) {
+    return {
+      type: 'json_schema',
+      json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true },
+    };
+  }
+  return responseFormat ? { type: responseFormat } : undefined;
+}
+
+export default {
+  name: 'openai_compatible',
+  label: 'OpenAI 호환 (로컬 서버)',
+
+  isAvailable() {
+    return Boolean(process.env.LLM_COMPAT_BASE_URL && process.env.LLM_COMPAT_MODEL);
+  },
+
+  async complete({ messages, maxTokens, responseFormat, jsonSchema }) {
+    const response = await getClient().chat.completions.create({
+      model: process.env.LLM_COMPAT_MODEL,
+      max_tokens: maxTokens,
+      messages,
+      response_format: buildResponseFormat({ responseFormat, jsonSchema }),
+    });
+
+    return { text: response.choices?.[0]?.message?.content || '', raw: response };
+  },
+
+  async *streamComplete({ messages, maxTokens }) {
+    const stream = await getClient().chat.completions.create({
+      model: process.env.LLM_COMPAT_MODEL,
+      max_tokens: maxTokens,
+      messages,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  },
+};
@@ -0,0 +1,107 @@
+import OpenAI from 'openai';
+
+/**
+ * OpenAI Responses API adapter (기본 제공자)
+ *
+ * env: OPENAI_API_KEY, OPENAI_MODEL
+ */
+
+let client = null;
+
+function getClient() {
+  if (!client && process.env.OPENAI_API_KEY) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+}
+
+/**
+ * Extract text from OpenAI Responses API response
+ */
+function extractFromResponse(response) {
+  let text = '';
+  if (!response) return { text: '' };
+
+  // Method 1: SDK convenience property (recommended for Responses API)
+  if (response.output_text) {
+    text = response.output_text;
+    return { text };
+  }
+
+  // Method 2: Manual extraction from output array
+  if (response.output && Array.isArray(response.output)) {
+    for (const item of response.output) {
+      if (item.type === 'message' && item.content) {
+        for (const contentItem of item.content) {
+          if (contentItem.type === 'output_text' && contentItem.text) {
+            text += contentItem.text;
+          }
+        }
+      }
+    }
+    text = text.trim();
+    if (text) return { text };
+  }
+
+  // Method 3: Chat completions fallback
+  const choice = response.choices?.[0];
+  if (choice?.message?.content) {
+    text = choice.message.content;
+  }
+
+  return { text };
+}
+
+/**
+ * Build Responses API text format option
+ * jsonSchema forces structured output; responseFormat is the plain type (e.g. json_object)
+ */
+function buildTextFormat({ responseFormat, jsonSchema }) {
+  if (jsonSchema) {
+    return {
+      format: {
+        type: 'json_schema',
+        name: jsonSchema.name,
+        schema: jsonSchema.schema,
+        strict: true,
+      },
+    };
+  }
+  return responseFormat ? { format: { type: responseFormat } } : undefined;
+}
+
+export default {
+  name: 'openai',
+  label: 'OpenAI',
+
+  isAvailable() {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  async complete({ messages, maxTokens, responseFormat, jsonSchema }) {
+    const response = await getClient().responses.create({
+      model: process.env.OPENAI_MODEL || 'gpt-5.1',
+      max_output_tokens: maxTokens,
+      input: messages,
+      text: buildTextFormat({ responseFormat, jsonSchema }),
+    });
+
+    const { text } = extractFromResponse(response);
+    return { text, raw: response };
+  },
+
+  async *streamComplete({ messages, maxTokens }) {
+    const stream = await getClient().responses.create({
+      model: process.env.OPENAI_MODEL || 'gpt-5.1',
+      max_output_tokens: maxTokens,
+      input: messages,
+      stream: true,
+    });
+
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta' && event.delta) {
+        yield event.delta;
+      }
+    }
+  },
+};
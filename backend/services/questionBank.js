@@ -0,0 +1,211 @@
+/**
+ * Session question bank (교사 지정 주제와 질문)
+ *
+ * assignment_sessions.question_bank:
+ * {
+ *   topics: [{ id, title, seedQuestions: [string], mandatoryQuestions: [string] }],
+ *   mandatoryQuestions: [string]   // 세션 공통 필수 질문 (예: "참고한 자료는 무엇인가요?") - 마지막 주제에서 묻는다
+ * }
+ *
+ * assignment_sessions.topic_mode:
+ * - 'ai': 과제 분석(analyzeAssignment) 주제만 사용 (기본값)
+ * - 'fixed': 교사 지정 주제만 사용 (과제 분석 없음)
+ * - 'hybrid': 교사 지정 주제를 먼저, 남은 자리(topic_count)는 과제 분석 주제로 채움
+ * 어느 모드든 인터뷰 주제 수는 topic_count를 넘지 않는다.
+ *
+ * 병합된 주제 (student_participants.analyzed_topics):
+ * { id, title, source: 'teacher' | 'ai', seedQuestions?, mandatoryQuestions? }
+ * 필수 질문 진행은 interview_states.topics_state[i].mandatoryAsked (이미 물은 개수)로 추적한다.
+ */
+
+export const TOPIC_MODES = ['ai', 'fixed', 'hybrid'];
+export const DEFAULT_TOPIC_MODE = 'ai';
+
+export const MAX_BANK_TOPICS = 5;
+export const MAX_SEED_QUESTIONS = 5;
+export const MAX_MANDATORY_QUESTIONS = 3;
+const MAX_QUESTION_LENGTH = 300;
+
+function cleanString(value, maxLength) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function cleanQuestions(list, max, path, errors) {
+  if (list === undefined || list === null) return [];
+  if (!Array.isArray(list)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  if (list.length > max) errors.push(`${path} can have at most ${max} questions`);
+  return list.slice(0, max).map((q) => cleanString(q, MAX_QUESTION_LENGTH)).filter(Boolean);
+}
+
+/**
+ * @returns {{ mode: string|null, error: string|null }} - mode null when not given
+ */
+export function validateTopicMode(value) {
+  if (value === null || value === undefined || value === '') {
+    return { mode: null, error: null };
+  }
+  if (!TOPIC_MODES.includes(value)) {
+    return { mode: null, error: `topic_mode must be one of ${TOPIC_MODES.join(', ')}` };
+  }
+  return { mode: value, error: null };
+}
+
+/**
+ * Validate and normalize a question bank from request input
+ * @returns {{ questionBank: object|null, errors: string[] }} questionBank is null when input is null/undefined
+ */
+export function validateQuestionBank(input) {
+  if (input === null || input === undefined) {
+    return { questionBank: null, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { questionBank: null, errors: ['question_bank must be an object'] };
+  }
+
+  const errors = [];
+  const inputTopics = input.topics ?? [];
+  if (!Array.isArray(inputTopics)) {
+    return { questionBank: null, errors: ['question_bank.topics must be an array'] };
+  }
+  if (inputTopics.length > MAX_BANK_TOPICS) {
+    errors.push(`question_bank can have at most ${MAX_BANK_TOPICS} topics`);
+  }
+
+  const seenIds = new Set();
+  const topics = inputTopics.slice(0, MAX_BANK_TOPICS).map((topic, idx) => {
+    const title = cleanString(topic?.title, 100);
+    if (!title) errors.push(`question_bank.topics[${idx}].title is required`);
+
+    let id = cleanString(topic?.id, 40).replace(/[^a-zA-Z0-9_-]/g, '') || `f${idx + 1}`;
+    if (seenIds.has(id)) id = `${id}_${idx + 1}`;
+    seenIds.add(id);
+
+    return {
+      id,
+      title,
+      seedQuestions: cleanQuestions(topic?.seedQuestions, MAX_SEED_QUESTIONS, `question_bank.topics[${idx}].seedQuestions`, errors),
+      mandatoryQuestions: cleanQuestions(
+        topic?.mandatoryQuestions,
+        MAX_MANDATORY_QUESTIONS,
+        `question_bank.topics[${idx}].mandatoryQuestions`,
+        errors
+      ),
+    };
+  });
+
+  const mandatoryQuestions = cleanQuestions(
+    input.mandatoryQuestions,
+    MAX_MANDATORY_QUESTIONS,
+    'question_bank.mandatoryQuestions',
+    errors
+  );
+
+  return { questionBank: errors.length === 0 ? { topics, mandatoryQuestions } : null, errors };
+}
+
+/**
+ * Check that the mode can be used with the bank (fixed mode needs at least one topic)
+ * 교사 지정 주제 수는 topic_count를 넘을 수 없다 (mergeTopics가 topic_count개까지만 쓴다)
+ */
+export function validateTopicSetup(mode, questionBank, topicCount) {
+  const bankTopicCount = questionBank?.topics?.length || 0;
+  if (mode === 'fixed' && bankTopicCount === 0) {
+    return 'Fixed topic mode requires at least one topic in question_bank';
+  }
+  if ((mode === 'fixed' || mode === 'hybrid') && bankTopicCount > topicCount) {
+    return `question_bank can have at most topic_count (${topicCount}) topics`;
+  }
+  return null;
+}
+
+function bankTopics(questionBank) {
+  return (questionBank?.topics || []).map((topic) => ({
+    id: topic.id,
+    title: topic.title,
+    source: 'teacher',
+    seedQuestions: topic.seedQuestions || [],
+    mandatoryQuestions: topic.mandatoryQuestions || [],
+  }));
+}
+
+/**
+ * Number of topics to request from analyzeAssignment (0 → skip analysis)
+ */
+export function aiTopicCount(mode, questionBank, topicCount) {
+  if (mode === 'fixed') return 0;
+  if (mode === 'hybrid') return Math.max(0, topicCount - bankTopics(questionBank).length);
+  return topicCount;
+}
+
+/**
+ * Merge teacher topics with document-derived topics according to the session mode
+ * Idempotent: 이미 병합된 analyzed_topics를 다시 넣어도 교사 주제와 공통 필수 질문은 현재 question_bank에서 새로 만든다.
+ * @param {Array<{ id, title, source? }>} aiTopics - analyzed topics (teacher topics and mandatory questions in the list are ignored)
+ */
+export function mergeTopics(mode, questionBank, aiTopics, topicCount) {
+  const documentTopics = (aiTopics || [])
+    .filter((topic) => topic.source !== 'teacher')
+    .map(({ mandatoryQuestions, ...topic }) => ({ ...topic, source: 'ai' }));
+
+  // 어느 모드든 주제는 topic_count개까지 (validateTopicSetup 참고)
+  let topics;
+  if (mode === 'fixed') {
+    topics = bankTopics(questionBank).slice(0, topicCount);
+  } else if (mode === 'hybrid') {
+    const fixed = bankTopics(questionBank).slice(0, topicCount);
+    topics = [...fixed, ...documentTopics.slice(0, Math.max(0, topicCount - fixed.length))];
+  } else {
+    topics = documentTopics.slice(0, topicCount);
+  }
+
+  // 세션 공통 필수 질문은 마지막 주제에 붙인다
+  const shared = questionBank?.mandatoryQuestions || [];
+  if (shared.length > 0 && topics.length > 0) {
+    const last = topics[topics.length - 1];
+    topics[topics.length - 1] = {
+      ...last,
+      mandatoryQuestions: [...(last.mandatoryQuestions || []), ...shared],
+    };
+  }
+  return topics;
+}
+
+/**
+ * Next mandatory question not yet asked in this topic (null when none left)
+ */
+export function nextMandatoryQuestion(topic, topicState) {
+  const questions = topic?.mandatoryQuestions || [];
+  return questions[topicState?.mandatoryAsked || 0] || null;
+}
+
+/**
+ * Prompt section for generateQuestion (null → nothing to add)
+ */
+export function questionBankPrompt(topic, { isFirstQuestion, mandatoryQuestion }) {
+  if (mandatoryQuestion) {
+    return `교사가 지정한 필수 질문이다. 질문의 취지를 바꾸지 말고, 가능하면 과제 본문 내용과 연결하여 자연스럽게 물어라:\n${mandatoryQuestion}`;
+  }
+  if (isFirstQuestion && topic?.seedQuestions?.length > 0) {
+    const seeds = topic.seedQuestions.map((q) => `- ${q}`).join('\n');
+    return `교사가 준비한 질문 예시다. 이 중 과제 본문에 가장 잘 맞는 것을 골라 본문 내용을 넣어 다듬어 첫 질문으로 사용하라:\n${seeds}`;
+  }
+  return null;
+}
+
+export default {
+  TOPIC_MODES,
+  DEFAULT_TOPIC_MODE,
+  MAX_BANK_TOPICS,
+  MAX_SEED_QUESTIONS,
+  MAX_MANDATORY_QUESTIONS,
+  validateTopicMode,
+  validateQuestionBank,
+  validateTopicSetup,
+  aiTopicCount,
+  mergeTopics,
+  nextMandatoryQuestion,
+  questionBankPrompt,
+};
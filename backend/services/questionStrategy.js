@@ -0,0 +1,117 @@
+/**
+ * Adaptive questioning strategy (주제별 꼬리질문 깊이 조절)
+ *
+ * 학생 답변마다 LLM이 답변 품질을 분류하고(assessAnswer),
+ * planNextStep이 다음 질문의 전략 또는 주제 조기 종료를 결정한다.
+ *
+ * 답변 평가 (interview_conversations.assessment에 저장):
+ * { quality: 'specific' | 'vague' | 'contradictory' | 'off_topic', authorshipShown, rationale }
+ *
+ * 주제 진행 상태 (interview_states.topics_state[i]):
+ * { ..., followUpDepth, completedEarly }
+ */
+
+export const ANSWER_QUALITIES = ['specific', 'vague', 'contradictory', 'off_topic'];
+
+// 조기 종료 전 최소 답변 수
+export const MIN_ANSWERS_TO_COMPLETE = 2;
+// 같은 지점을 연속으로 파고드는 최대 횟수 (넘으면 다른 부분으로 이동)
+export const MAX_FOLLOW_UP_DEPTH = 2;
+// 주제당 최대 답변 수 (도달하면 시간이 남아도 주제 종료)
+export const MAX_ANSWERS_PER_TOPIC = 6;
+
+/**
+ * JSON Schema passed to the LLM (structured output)
+ */
+export const assessmentJsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['quality', 'authorshipShown', 'rationale'],
+  properties: {
+    quality: {
+      type: 'string',
+      enum: ANSWER_QUALITIES,
+      description: '최신 학생 답변의 품질 분류',
+    },
+    authorshipShown: {
+      type: 'boolean',
+      description: '지금까지의 답변으로 이 주제의 직접 작성 여부가 충분히 확인되었는지',
+    },
+    rationale: {
+      type: 'string',
+      description: '분류 근거 (한 문장)',
+    },
+  },
+};
+
+/**
+ * Normalize an LLM assessment; null when unusable (→ strategy falls back to plain follow-up)
+ */
+export function normalizeAssessment(raw) {
+  if (!raw || typeof raw !== 'object' || !ANSWER_QUALITIES.includes(raw.quality)) {
+    return null;
+  }
+  return {
+    quality: raw.quality,
+    authorshipShown: raw.authorshipShown === true,
+    rationale: typeof raw.rationale === 'string' ? raw.rationale.slice(0, 500) : '',
+  };
+}
+
+/**
+ * Decide what happens after a student answer
+ * @param {object|null} assessment - normalized assessment (null → plain follow-up)
+ * @param {{ answerCount: number, followUpDepth: number }} progress - answers in this topic incl. the latest
+ * @returns {{ action: 'ask' | 'complete_topic', strategy: string|null, followUpDepth: number }}
+ */
+export function planNextStep(assessment, { answerCount, followUpDepth = 0 }) {
+  if (answerCount >= MAX_ANSWERS_PER_TOPIC) {
+    return { action: 'complete_topic', strategy: null, followUpDepth };
+  }
+  if (!assessment) {
+    return { action: 'ask', strategy: null, followUpDepth: 0 };
+  }
+
+  if (assessment.quality === 'specific') {
+    if (assessment.authorshipShown && answerCount >= MIN_ANSWERS_TO_COMPLETE) {
+      return { action: 'complete_topic', strategy: null, followUpDepth: 0 };
+    }
+    return { action: 'ask', strategy: 'advance', followUpDepth: 0 };
+  }
+
+  // 약한 답변: 같은 지점을 더 파고들되, 너무 깊어지면 다른 부분으로 이동
+  if (followUpDepth >= MAX_FOLLOW_UP_DEPTH) {
+    return { action: 'ask', strategy: 'advance', followUpDepth: 0 };
+  }
+  const strategy = {
+    vague: 'probe',
+    contradictory: 'clarify',
+    off_topic: 'redirect',
+  }[assessment.quality];
+  return { action: 'ask', strategy, followUpDepth: followUpDepth + 1 };
+}
+
+const STRATEGY_PROMPTS = {
+  advance: '직전 답변이 구체적이었다. 같은 내용을 반복하지 말고, 이 주제에서 아직 다루지 않은 과제 본문의 다른 문장이나 사례에 대해 질문하라.',
+  probe: '직전 답변이 모호했다. 학생이 방금 언급한 부분을 더 파고들어, 실제 작성 과정이나 선택 이유를 구체적으로(언제, 어떻게, 왜) 말하도록 질문하라.',
+  clarify: '직전 답변이 과제 본문 또는 이전 답변과 맞지 않는다. 어느 부분이 어긋나는지 과제 내용을 인용하여 부드럽게 짚고, 학생이 스스로 설명하도록 질문하라.',
+  redirect: '직전 답변이 주제에서 벗어났다. 현재 주제와 관련된 과제 본문의 구체적 내용을 다시 언급하며 질문을 주제로 되돌려라.',
+};
+
+/**
+ * Prompt directive for generateQuestion (null → no directive)
+ */
+export function strategyPrompt(strategy) {
+  return STRATEGY_PROMPTS[strategy] || null;
+}
+
+export default {
+  ANSWER_QUALITIES,
+  MIN_ANSWERS_TO_COMPLETE,
+  MAX_FOLLOW_UP_DEPTH,
+  MAX_ANSWERS_PER_TOPIC,
+  assessmentJsonSchema,
+  normalizeAssessment,
+  planNextStep,
+  strategyPrompt,
+};
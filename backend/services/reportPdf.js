@@ -0,0 +1,238 @@
+import PDFDocument from 'pdfkit';
+import { createRequire } from 'module';
+
+/**
+ * Participant interview report (참가자 인터뷰 보고서 PDF)
+ *
+ * 세션 정보, 학생 정보, 분석된 주제, 주제별 대화 기록(시간 포함),
+ * AI 평가, 교사 최종 판정, 교사 메모를 한 문서로 렌더링한다.
+ *
+ * 한글 출력을 위해 pretendard 패키지의 폰트를 사용한다.
+ * REPORT_FONT_PATH / REPORT_FONT_BOLD_PATH로 다른 폰트를 지정할 수 있다.
+ */
+
+const require = createRequire(import.meta.url);
+
+const FONT_REGULAR = process.env.REPORT_FONT_PATH
+  || require.resolve('pretendard/dist/public/static/Pretendard-Regular.otf');
+const FONT_BOLD = process.env.REPORT_FONT_BOLD_PATH
+  || require.resolve('pretendard/dist/public/static/Pretendard-Bold.otf');
+
+const REPORT_TIMEZONE = process.env.REPORT_TIMEZONE || 'Asia/Seoul';
+
+const VERDICT_LABELS = {
+  authored: '직접 작성',
+  assisted: 'AI 도움 후 검토',
+  not_authored: '직접 작성 아님',
+  undetermined: '판단 불가',
+};
+
+const STATUS_LABELS = {
+  registered: '등록됨',
+  file_submitted: '파일 제출됨',
+  interview_in_progress: '인터뷰 중',
+  interview_paused: '일시정지',
+  completed: '완료',
+  timeout: '시간 초과',
+  abandoned: '중도 이탈',
+};
+
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  ai: '#1d4ed8',
+  student: '#047857',
+  teacher: '#b45309',
+  rule: '#e5e7eb',
+};
+
+function formatDateTime(value) {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('ko-KR', { timeZone: REPORT_TIMEZONE });
+}
+
+function formatClock(value) {
+  if (!value) return '';
+  return new Date(value).toLocaleTimeString('ko-KR', { timeZone: REPORT_TIMEZONE, hour12: false });
+}
+
+function sectionTitle(doc, title) {
+  doc.moveDown(1);
+  doc.font('bold').fontSize(14).fillColor(COLORS.text).text(title);
+  const y = doc.y + 2;
+  doc.moveTo(doc.page.margins.left, y)
+    .lineTo(doc.page.width - doc.page.margins.right, y)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc.moveDown(0.5);
+}
+
+function field(doc, label, value) {
+  doc.font('bold').fontSize(10).fillColor(COLORS.muted).text(`${label}: `, { continued: true });
+  doc.font('regular').fillColor(COLORS.text).text(value || '-');
+}
+
+function bulletList(doc, items) {
+  if (!items || items.length === 0) {
+    doc.font('regular').fontSize(10).fillColor(COLORS.muted).text('없음');
+    return;
+  }
+  doc.font('regular').fontSize(10).fillColor(COLORS.text).list(items, { bulletRadius: 2, textIndent: 10 });
+}
+
+function renderEvaluation(doc, summary) {
+  if (!summary) {
+    doc.font('regular').fontSize(10).fillColor(COLORS.muted).text('평가 결과가 없습니다.');
+    return;
+  }
+
+  field(doc, '직접 작성 가능성', summary.authorshipScore !== null ? `${summary.authorshipScore}/100` : '점수 없음');
+  field(doc, '판정', VERDICT_LABELS[summary.verdict] || summary.verdict);
+  doc.moveDown(0.5);
+
+  doc.font('bold').fontSize(11).fillColor(COLORS.text).text('종합 의견');
+  doc.font('regular').fontSize(10).text(summary.overallComment || '-');
+  doc.moveDown(0.5);
+
+  doc.font('bold').fontSize(11).text('강점');
+  bulletList(doc, summary.strengths);
+  doc.moveDown(0.5);
+
+  doc.font('bold').fontSize(11).fillColor(COLORS.text).text('약점');
+  bulletList(doc, summary.weaknesses);
+
+  if (summary.topicAssessments.length > 0) {
+    doc.moveDown(0.5);
+    doc.font('bold').fontSize(11).fillColor(COLORS.text).text('주제별 평가');
+    for (const topic of summary.topicAssessments) {
+      const score = topic.score !== null ? ` (${topic.score}/100)` : '';
+      doc.font('bold').fontSize(10).text(`${topic.topic}${score}`);
+      doc.font('regular').fontSize(10).text(topic.assessment || '-');
+    }
+  }
+
+  if (summary.criteriaScores.length > 0) {
+    doc.moveDown(0.5);
+    doc.font('bold').fontSize(11).fillColor(COLORS.text).text('루브릭 기준별 평가');
+    for (const criterion of summary.criteriaScores) {
+      const score = criterion.score !== null ? `${criterion.score}/100` : '-';
+      doc.font('bold').fontSize(10).fillColor(COLORS.text)
+        .text(`${criterion.name} (가중치 ${criterion.weight}) - ${score}`);
+      if (criterion.rationale) {
+        doc.font('regular').fontSize(10).text(criterion.rationale);
+      }
+      for (const evidence of criterion.evidence) {
+        doc.font('regular').fontSize(9).fillColor(COLORS.muted)
+          .text(`"${evidence.quote}"${evidence.found ? '' : ' (대화 기록에서 확인되지 않음)'}`, { indent: 12 });
+      }
+      doc.fillColor(COLORS.text);
+    }
+  }
+}
+
+function renderTeacherEvaluation(doc, evaluation) {
+  if (!evaluation) {
+    doc.font('regular').fontSize(10).fillColor(COLORS.muted).text('교사 판정 없음 (AI 평가 기준)');
+    return;
+  }
+  field(doc, '판정', VERDICT_LABELS[evaluation.verdict] || evaluation.verdict);
+  field(doc, '점수', evaluation.score !== null && evaluation.score !== undefined ? `${evaluation.score}/100` : null);
+  field(doc, '판정 시각', formatDateTime(evaluation.decidedAt));
+  if (evaluation.comment) {
+    doc.moveDown(0.3);
+    doc.font('regular').fontSize(10).fillColor(COLORS.text).text(evaluation.comment);
+  }
+}
+
+/**
+ * Render a participant report
+ * @param {object} report
+ * @param {object} report.session - { title, description, topic_count, topic_duration }
+ * @param {object} report.participant - student_participants row (summary already normalized, teacher_evaluation)
+ * @param {object[]} report.conversations - Ordered turns { topic_index, role, content, teacher_annotation, created_at }
+ * @returns {Promise<Buffer>}
+ */
+export function renderParticipantReport({ session, participant, conversations }) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: `${session.title} - ${participant.student_name}`,
+        Author: 'HW Validator',
+      },
+    });
+    doc.registerFont('regular', FONT_REGULAR);
+    doc.registerFont('bold', FONT_BOLD);
+
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Session header
+    doc.font('bold').fontSize(18).fillColor(COLORS.text).text(session.title);
+    if (session.description) {
+      doc.font('regular').fontSize(10).fillColor(COLORS.muted).text(session.description);
+    }
+    doc.font('regular').fontSize(9).fillColor(COLORS.muted)
+      .text(`인터뷰 보고서 · 생성 ${formatDateTime(new Date())}`);
+
+    sectionTitle(doc, '학생 정보');
+    field(doc, '이름', participant.student_name);
+    field(doc, '학번', participant.student_id);
+    field(doc, '상태', STATUS_LABELS[participant.status] || participant.status);
+    field(doc, '인터뷰 모드', participant.chosen_interview_mode === 'voice' ? '음성' : participant.chosen_interview_mode === 'chat' ? '채팅' : null);
+    field(doc, '제출 파일', participant.submitted_file_name);
+    field(doc, '참여', formatDateTime(participant.registered_at));
+    field(doc, '인터뷰 시작', formatDateTime(participant.interview_started_at));
+    field(doc, '인터뷰 종료', formatDateTime(participant.interview_ended_at));
+
+    const topics = participant.analyzed_topics || [];
+    sectionTitle(doc, '분석된 주제');
+    bulletList(doc, topics.map((t, idx) => t.title || `주제 ${idx + 1}`));
+
+    sectionTitle(doc, '대화 기록');
+    if (conversations.length === 0) {
+      doc.font('regular').fontSize(10).fillColor(COLORS.muted).text('대화 기록이 없습니다.');
+    }
+    let currentTopicIndex = -1;
+    for (const turn of conversations) {
+      if (turn.topic_index !== currentTopicIndex) {
+        currentTopicIndex = turn.topic_index;
+        doc.moveDown(0.5);
+        doc.font('bold').fontSize(12).fillColor(COLORS.text)
+          .text(`주제 ${currentTopicIndex + 1}. ${topics[currentTopicIndex]?.title || ''}`);
+        doc.moveDown(0.3);
+      }
+
+      const isAi = turn.role === 'ai';
+      doc.font('bold').fontSize(10).fillColor(isAi ? COLORS.ai : COLORS.student)
+        .text(`${isAi ? 'AI' : '학생'} `, { continued: true });
+      doc.font('regular').fontSize(8).fillColor(COLORS.muted).text(formatClock(turn.created_at));
+      doc.font('regular').fontSize(10).fillColor(COLORS.text).text(turn.content, { indent: 8 });
+      if (turn.teacher_annotation) {
+        doc.font('regular').fontSize(9).fillColor(COLORS.teacher)
+          .text(`교사 주석: ${turn.teacher_annotation}`, { indent: 8 });
+      }
+      doc.moveDown(0.3);
+    }
+
+    sectionTitle(doc, 'AI 평가');
+    renderEvaluation(doc, participant.summary);
+
+    sectionTitle(doc, '교사 최종 판정');
+    renderTeacherEvaluation(doc, participant.teacher_evaluation);
+
+    sectionTitle(doc, '교사 메모');
+    doc.font('regular').fontSize(10)
+      .fillColor(participant.teacher_notes ? COLORS.text : COLORS.muted)
+      .text(participant.teacher_notes || '메모 없음');
+
+    doc.end();
+  });
+}
+
+export default {
+  renderParticipantReport,
+};
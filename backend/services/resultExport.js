@@ -0,0 +1,159 @@
+import ExcelJS from 'exceljs';
+import { normalizeSummary } from './summarySchema.js';
+
+/**
+ * Result export (세션 결과 내보내기)
+ *
+ * GET /api/sessions/:id/export 에서 사용.
+ * 참가자 1명당 1행으로 성적부에 옮기기 쉬운 표를 만든다.
+ *
+ * verdict/authorship_score는 AI 평가, teacher_*는 교사 최종 판정(없으면 빈 칸)이다.
+ * 재응시한 학생은 현재 회차(attempt_number)의 결과만 들어간다.
+ *
+ * 주제별 소요 시간은 해당 주제의 첫 대화부터 마지막 대화까지의 간격(초)이다.
+ * (topics_state.timeLeft는 주제 완료 시 0으로 바뀌므로 사용할 수 없음)
+ */
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+const BASE_COLUMNS = [
+  { key: 'student_name', header: 'student_name', width: 16 },
+  { key: 'student_id', header: 'student_id', width: 14 },
+  { key: 'status', header: 'status', width: 14 },
+  { key: 'attempt_number', header: 'attempt_number', width: 10 },
+  { key: 'interview_mode', header: 'interview_mode', width: 12 },
+  { key: 'registered_at', header: 'registered_at', width: 20, date: true },
+  { key: 'file_submitted_at', header: 'file_submitted_at', width: 20, date: true },
+  { key: 'interview_started_at', header: 'interview_started_at', width: 20, date: true },
+  { key: 'interview_ended_at', header: 'interview_ended_at', width: 20, date: true },
+];
+
+const SUMMARY_COLUMNS = [
+  { key: 'total_turns', header: 'total_turns', width: 10 },
+  { key: 'authorship_score', header: 'authorship_score', width: 14 },
+  { key: 'verdict', header: 'verdict', width: 14 },
+  { key: 'overall_comment', header: 'overall_comment', width: 60 },
+  { key: 'teacher_verdict', header: 'teacher_verdict', width: 14 },
+  { key: 'teacher_score', header: 'teacher_score', width: 12 },
+  { key: 'teacher_comment', header: 'teacher_comment', width: 60 },
+];
+
+/**
+ * Build export columns for a session with `topicCount` topics
+ */
+function buildColumns(topicCount) {
+  const topicColumns = [];
+  for (let i = 0; i < topicCount; i++) {
+    topicColumns.push(
+      { key: `topic_${i + 1}_seconds`, header: `topic_${i + 1}_seconds`, width: 14 },
+      { key: `topic_${i + 1}_turns`, header: `topic_${i + 1}_turns`, width: 12 }
+    );
+  }
+  return [...BASE_COLUMNS, ...topicColumns, ...SUMMARY_COLUMNS];
+}
+
+/**
+ * Build export rows from participants and per-topic conversation stats
+ * @param {object[]} participants - student_participants rows (with summary, teacher_evaluation)
+ * @param {object[]} topicStats - { participant_id, topic_index, student_turns, seconds }
+ * @param {number} topicCount - Session topic count
+ * @returns {{ columns: object[], rows: object[] }}
+ */
+export function buildExportRows(participants, topicStats, topicCount) {
+  const statsByParticipant = new Map();
+  for (const stat of topicStats) {
+    if (!statsByParticipant.has(stat.participant_id)) {
+      statsByParticipant.set(stat.participant_id, []);
+    }
+    statsByParticipant.get(stat.participant_id).push(stat);
+  }
+
+  // 분석된 주제 수가 세션 설정보다 많은 경우까지 포함
+  const maxTopicIndex = topicStats.reduce((max, s) => Math.max(max, s.topic_index + 1), 0);
+  const columns = buildColumns(Math.max(topicCount, maxTopicIndex));
+
+  const rows = participants.map((p) => {
+    const summary = normalizeSummary(p.summary);
+    const stats = statsByParticipant.get(p.id) || [];
+
+    const row = {
+      student_name: p.student_name,
+      student_id: p.student_id || '',
+      status: p.status,
+      attempt_number: p.attempt_number || 1,
+      interview_mode: p.chosen_interview_mode || '',
+      registered_at: p.registered_at,
+      file_submitted_at: p.file_submitted_at,
+      interview_started_at: p.interview_started_at,
+      interview_ended_at: p.interview_ended_at,
+      total_turns: stats.reduce((sum, s) => sum + Number(s.student_turns), 0),
+      authorship_score: summary?.authorshipScore ?? null,
+      verdict: summary?.verdict || '',
+      overall_comment: summary?.overallComment || '',
+      teacher_verdict: p.teacher_evaluation?.verdict || '',
+      teacher_score: p.teacher_evaluation?.score ?? null,
+      teacher_comment: p.teacher_evaluation?.comment || '',
+    };
+
+    for (const stat of stats) {
+      row[`topic_${stat.topic_index + 1}_seconds`] = Math.round(Number(stat.seconds) || 0);
+      row[`topic_${stat.topic_index + 1}_turns`] = Number(stat.student_turns);
+    }
+
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+function csvCell(value) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // 스프레드시트 수식 주입 방지
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV (UTF-8 with BOM so Korean Excel opens it correctly)
+ * @returns {Buffer}
+ */
+export function toCsv({ columns, rows }) {
+  const lines = [
+    columns.map((c) => csvCell(c.header)).join(','),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c.key])).join(',')),
+  ];
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+/**
+ * Render rows as an XLSX workbook
+ * @returns {Promise<Buffer>}
+ */
+export async function toXlsx({ columns, rows }, sheetName = 'Results') {
+  const workbook = new ExcelJS.Workbook();
+  // 시트 이름: 최대 31자, 일부 특수문자 금지
+  const sheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Results');
+
+  sheet.columns = columns.map((c) => ({
+    key: c.key,
+    header: c.header,
+    width: c.width,
+    style: c.date ? { numFmt: 'yyyy-mm-dd hh:mm:ss' } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  for (const row of rows) {
+    sheet.addRow(row);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export default {
+  EXPORT_FORMATS,
+  buildExportRows,
+  toCsv,
+  toXlsx,
+};
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+
+/**
+ * Session roster and join identity check (학생 명단과 참여 본인 확인)
+ *
+ * 교사가 CSV(이름, 학번, 이메일 선택)로 명단을 가져오면 → session_roster
+ * 학생마다 PIN(6자리 숫자)과 1회용 코드(8자)를 만들어 두고, 세션 join_policy에 따라 참여를 확인한다.
+ * - open: 명단 확인 없음 (이름만으로 참여)
+ * - roster: 이름과 학번이 명단과 일치해야 참여
+ * - pin: 명단 + 학생별 PIN (다시 참여할 때도 같은 PIN)
+ * - one_time_code: 명단 + 1회용 코드 (한 번 쓰면 교사가 재발급해야 다시 참여 가능)
+ *
+ * 명단에 없는 이름, 틀린 PIN/코드, 사용한 코드 재사용은 join_conflicts에 기록한다.
+ * 재참여는 다른 기기에서 들어오거나 원래 화면이 아직 인터뷰 중일 때만 중복 참여(rejoin)로 기록한다.
+ */
+
+export const JOIN_POLICIES = ['open', 'roster', 'pin', 'one_time_code'];
+export const JOIN_CONFLICT_REASONS = ['rejoin', 'not_on_roster', 'invalid_credential', 'code_reused'];
+export const MAX_ROSTER_SIZE = 500;
+
+// 같은 클라이언트(IP)에서 학생별 PIN/코드 확인 실패가 이만큼 쌓이면 잠시 막는다
+export const MAX_FAILED_CHECKS = 5;
+// IP를 바꿔 가며 시도해도 학생별 실패가 이만큼 쌓이면 모든 클라이언트를 잠시 막는다
+export const MAX_ROSTER_FAILED_CHECKS = 20;
+export const FAILED_CHECK_WINDOW_MINUTES = 15;
+
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // 헷갈리는 문자 제외 (access code와 동일)
+const CODE_LENGTH = 8;
+const MAX_NAME_LENGTH = 100;
+const MAX_STUDENT_ID_LENGTH = 50;
+const MAX_EMAIL_LENGTH = 255;
+
+// 첫 줄이 헤더인지 판단할 때 쓰는 열 이름
+const HEADER_ALIASES = {
+  student_name: ['name', 'student_name', '이름', '성명'],
+  student_id: ['student_id', 'id', '학번', '번호'],
+  email: ['email', 'e-mail', '이메일'],
+};
+
+/**
+ * @returns {{ policy: string|null, error: string|null }} - policy null = 기본값 (open)
+ */
+export function validateJoinPolicy(value) {
+  if (value === null || value === undefined) return { policy: null, error: null };
+  if (!JOIN_POLICIES.includes(value)) {
+    return { policy: null, error: `join_policy must be one of ${JOIN_POLICIES.join(', ')}` };
+  }
+  return { policy: value, error: null };
+}
+
+/**
+ * Split one CSV line (따옴표로 감싼 값과 "" 이스케이프 지원)
+ */
+function splitCsvLine(line) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function headerColumns(cells) {
+  const normalized = cells.map((cell) => cell.toLowerCase());
+  const columns = {};
+  for (const [key, aliases] of Object.entries(HEADER_ALIASES)) {
+    const index = normalized.findIndex((cell) => aliases.includes(cell));
+    if (index >= 0) columns[key] = index;
+  }
+  return columns.student_name !== undefined && columns.student_id !== undefined ? columns : null;
+}
+
+/**
+ * Parse a roster CSV (헤더가 없으면 이름, 학번, 이메일 순서)
+ * @param {string} text
+ * @returns {{ entries: Array<{ studentName, studentId, email }>, errors: Array<{ line: number, message: string }> }}
+ */
+export function parseRosterCsv(text) {
+  const lines = String(text || '').replace(/^\uFEFF/, '').split(/\r?\n/);
+  const entries = [];
+  const errors = [];
+  const seenIds = new Set();
+
+  let columns = { student_name: 0, student_id: 1, email: 2 };
+  let start = 0;
+  const firstLine = lines.findIndex((line) => line.trim());
+  if (firstLine >= 0) {
+    const header = headerColumns(splitCsvLine(lines[firstLine]));
+    if (header) {
+      columns = header;
+      start = firstLine + 1;
+    }
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const line = i + 1;
+    const cells = splitCsvLine(lines[i]);
+    const studentName = (cells[columns.student_name] || '').replace(/\s+/g, ' ');
+    const studentId = cells[columns.student_id] || '';
+    const email = columns.email !== undefined ? cells[columns.email] || '' : '';
+
+    if (!studentName || !studentId) {
+      errors.push({ line, message: 'Name and student ID are required' });
+      continue;
+    }
+    if (studentName.length > MAX_NAME_LENGTH || studentId.length > MAX_STUDENT_ID_LENGTH) {
+      errors.push({ line, message: 'Name or student ID is too long' });
+      continue;
+    }
+    if (email && (email.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+$/.test(email))) {
+      errors.push({ line, message: 'Invalid email' });
+      continue;
+    }
+    if (seenIds.has(studentId)) {
+      errors.push({ line, message: `Duplicate student ID ${studentId}` });
+      continue;
+    }
+    if (entries.length >= MAX_ROSTER_SIZE) {
+      errors.push({ line, message: `A roster can have at most ${MAX_ROSTER_SIZE} students` });
+      break;
+    }
+
+    seenIds.add(studentId);
+    entries.push({ studentName, studentId, email: email || null });
+  }
+
+  return { entries, errors };
+}
+
+// 6자리, 0으로 시작하지 않음 (스프레드시트에서 앞자리 0이 사라지지 않도록)
+export function generatePin() {
+  return String(crypto.randomInt(100000, 1000000));
+}
+
+export function generateOneTimeCode() {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_CHARS.charAt(crypto.randomInt(CODE_CHARS.length));
+  }
+  return code;
+}
+
+/**
+ * Compare a submitted PIN/code with the stored one (대소문자, 공백 무시)
+ */
+export function credentialMatches(expected, given) {
+  const a = Buffer.from(String(expected || '').toUpperCase());
+  const b = Buffer.from(String(given || '').replace(/\s+/g, '').toUpperCase());
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Whether a typed name matches the roster name (공백, 대소문자 차이 무시)
+ */
+export function sameStudentName(rosterName, typedName) {
+  const normalize = (name) => String(name || '').replace(/\s+/g, '').toLowerCase();
+  return normalize(rosterName) !== '' && normalize(rosterName) === normalize(typedName);
+}
+
+/**
+ * Device id sent by the join page (형식이 맞지 않으면 null)
+ */
+export function normalizeDeviceId(value) {
+  return typeof value === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(value) ? value : null;
+}
+
+/**
+ * Whether joining again conflicts with the existing participant
+ * 다른 기기에서 들어왔거나, 원래 화면이 연결된 채 인터뷰 중일 때만 중복 참여로 본다.
+ * @param {{ status: string, disconnected_at: string|null, join_device_id: string|null }} existing
+ * @param {string|null} deviceId
+ */
+export function isConflictingJoin(existing, deviceId) {
+  const sameDevice = Boolean(deviceId) && existing.join_device_id === deviceId;
+  const otherDevice = Boolean(deviceId) && Boolean(existing.join_device_id) && existing.join_device_id !== deviceId;
+  const stillActive = existing.status === 'interview_in_progress' && !existing.disconnected_at;
+  return otherDevice || (stillActive && !sameDevice);
+}
+
+export default {
+  JOIN_POLICIES,
+  JOIN_CONFLICT_REASONS,
+  MAX_ROSTER_SIZE,
+  MAX_FAILED_CHECKS,
+  MAX_ROSTER_FAILED_CHECKS,
+  FAILED_CHECK_WINDOW_MINUTES,
+  validateJoinPolicy,
+  parseRosterCsv,
+  generatePin,
+  generateOneTimeCode,
+  credentialMatches,
+  sameStudentName,
+  normalizeDeviceId,
+  isConflictingJoin,
+};
@@ -0,0 +1,167 @@
+/**
+ * Rubric (평가 루브릭)
+ *
+ * assignment_sessions.rubric에 저장되는 세션별 평가 기준.
+ * 루브릭이 없는 세션은 DEFAULT_RUBRIC(기존 summarizeSystemPrompt의 판별 기준)을 사용한다.
+ *
+ * 구조:
+ * {
+ *   criteria: [{
+ *     id, name, weight, description,
+ *     descriptors: { strong, partial, weak }
+ *   }]
+ * }
+ */
+
+export const MAX_CRITERIA = 8;
+
+export const DEFAULT_RUBRIC = {
+  criteria: [
+    {
+      id: 'process',
+      name: '작성 과정 설명',
+      weight: 30,
+      description: '"왜 이렇게 썼나요?"에 작성 과정을 구체적으로 설명하는가',
+      descriptors: {
+        strong: '자료 조사, 초안 작성, 수정 과정을 구체적인 일화와 함께 설명한다',
+        partial: '과정을 언급하지만 일반적이거나 세부 내용이 부족하다',
+        weak: '과정 질문에 내용 요약으로 답하거나 설명하지 못한다',
+      },
+    },
+    {
+      id: 'rationale',
+      name: '의사결정 근거',
+      weight: 30,
+      description: '특정 표현, 구조, 사례 선택의 이유와 고려한 대안을 설명하는가',
+      descriptors: {
+        strong: '선택의 이유와 검토했던 대안을 스스로 제시한다',
+        partial: '이유를 말하지만 사후적이거나 모호하다',
+        weak: '"그냥 그게 맞는 것 같아서" 수준의 답변에 그친다',
+      },
+    },
+    {
+      id: 'experience',
+      name: '개인적 경험',
+      weight: 20,
+      description: '조사 과정, 어려웠던 점, 새롭게 알게 된 점을 언급하는가',
+      descriptors: {
+        strong: '본인만 알 수 있는 구체적 경험을 자연스럽게 언급한다',
+        partial: '경험을 언급하지만 과제 내용과의 연결이 약하다',
+        weak: '개인적 경험을 전혀 언급하지 못한다',
+      },
+    },
+    {
+      id: 'consistency',
+      name: '일관성',
+      weight: 20,
+      description: '과제 내용과 답변이 논리적으로 일치하는가',
+      descriptors: {
+        strong: '답변이 과제 본문과 모순 없이 일치한다',
+        partial: '사소한 불일치가 있다',
+        weak: '과제 내용과 모순되는 설명을 한다',
+      },
+    },
+  ],
+};
+
+function cleanString(value, maxLength) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Validate and normalize a rubric from request input
+ * @returns {{ rubric: object|null, errors: string[] }} rubric is null when input is null/undefined
+ */
+export function validateRubric(input) {
+  if (input === null || input === undefined) {
+    return { rubric: null, errors: [] };
+  }
+
+  const errors = [];
+
+  if (typeof input !== 'object' || !Array.isArray(input.criteria)) {
+    return { rubric: null, errors: ['rubric.criteria must be an array'] };
+  }
+
+  if (input.criteria.length === 0) {
+    errors.push('rubric must have at least one criterion');
+  }
+  if (input.criteria.length > MAX_CRITERIA) {
+    errors.push(`rubric can have at most ${MAX_CRITERIA} criteria`);
+  }
+
+  const seenIds = new Set();
+  const criteria = input.criteria.slice(0, MAX_CRITERIA).map((criterion, idx) => {
+    const name = cleanString(criterion?.name, 100);
+    const weight = Number(criterion?.weight);
+    let id = cleanString(criterion?.id, 40).replace(/[^a-zA-Z0-9_-]/g, '') || `c${idx + 1}`;
+
+    if (!name) errors.push(`criteria[${idx}].name is required`);
+    if (!Number.isFinite(weight) || weight <= 0 || weight > 100) {
+      errors.push(`criteria[${idx}].weight must be between 1 and 100`);
+    }
+    if (seenIds.has(id)) id = `${id}_${idx + 1}`;
+    seenIds.add(id);
+
+    return {
+      id,
+      name,
+      weight: Number.isFinite(weight) ? Math.round(weight) : 0,
+      description: cleanString(criterion?.description, 500),
+      descriptors: {
+        strong: cleanString(criterion?.descriptors?.strong, 300),
+        partial: cleanString(criterion?.descriptors?.partial, 300),
+        weak: cleanString(criterion?.descriptors?.weak, 300),
+      },
+    };
+  });
+
+  return { rubric: errors.length === 0 ? { criteria } : null, errors };
+}
+
+/**
+ * Rubric applied to a session (stored rubric or default)
+ */
+export function resolveRubric(rubric) {
+  return rubric?.criteria?.length ? rubric : DEFAULT_RUBRIC;
+}
+
+/**
+ * Render rubric as a prompt section for the summarizer
+ */
+export function rubricPromptSection(rubric) {
+  const lines = rubric.criteria.map((c) => {
+    const descriptors = [
+      c.descriptors.strong && `  - 높음(70~100): ${c.descriptors.strong}`,
+      c.descriptors.partial && `  - 보통(40~69): ${c.descriptors.partial}`,
+      c.descriptors.weak && `  - 낮음(0~39): ${c.descriptors.weak}`,
+    ].filter(Boolean).join('\n');
+    return `- [${c.id}] ${c.name} (가중치 ${c.weight})${c.description ? `: ${c.description}` : ''}${descriptors ? `\n${descriptors}` : ''}`;
+  });
+
+  return `
+평가 루브릭:
+아래 각 기준을 0~100 정수로 채점하고, criteriaScores에 모든 기준을 criterionId와 함께 포함하라.
+각 기준마다 판단 근거(rationale)와, 근거가 된 학생 발화를 대화 로그에서 그대로 인용한 문장(evidence)을 1~3개 제시하라.
+인용은 '학생:' 발화에서만 가져오며, 문장을 바꾸거나 요약하지 않는다. 근거 발화가 없으면 빈 배열로 둔다.
+${lines.join('\n')}`;
+}
+
+/**
+ * Weighted average of criterion scores (0~100)
+ */
+export function weightedRubricScore(criteriaScores) {
+  const scored = criteriaScores.filter((c) => c.score !== null && c.weight > 0);
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return null;
+  return Math.round(scored.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+}
+
+export default {
+  MAX_CRITERIA,
+  DEFAULT_RUBRIC,
+  validateRubric,
+  resolveRubric,
+  rubricPromptSection,
+  weightedRubricScore,
+};
@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Session event bus (세션 실시간 이벤트)
+ *
+ * 학생 상태 변화(참여, 업로드, 주제 검토, 인터뷰 시작, 주제 전환, 이탈, 재접속, 완료, 무결성 모드 기록, 교사 조치, 재응시)를
+ * 교사 대시보드의 SSE 스트림(GET /api/sessions/:id/events)으로 전달한다.
+ *
+ * 프로세스 내부 EventEmitter 기반이므로 단일 인스턴스 배포를 전제로 한다.
+ * (disconnectChecker 워커도 같은 프로세스에서 실행됨)
+ */
+
+export const SESSION_EVENT_TYPES = [
+  'joined',
+  'file_submitted',
+  'topics_reviewed',
+  'interview_started',
+  'topic_changed',
+  'disconnected',
+  'reconnected',
+  'completed',
+  'integrity',
+  'teacher_intervention',
+  'retake_started',
+  'attempt_granted',
+  'duplicate_join',
+];
+
+const emitter = new EventEmitter();
+// 교사 탭마다 리스너가 하나씩 붙으므로 제한 해제
+emitter.setMaxListeners(0);
+
+function channel(sessionId) {
+  return `session:${sessionId}`;
+}
+
+/**
+ * Publish a participant event to everyone watching the session
+ * @param {string} sessionId
+ * @param {string} type - One of SESSION_EVENT_TYPES
+ * @param {object} payload - { participantId, studentName, status, ...extra }
+ */
+export function publishSessionEvent(sessionId, type, payload = {}) {
+  if (!sessionId || !SESSION_EVENT_TYPES.includes(type)) return;
+
+  const event = {
+    type,
+    sessionId,
+    at: new Date().toISOString(),
+    ...payload,
+  };
+
+  try {
+    emitter.emit(channel(sessionId), event);
+  } catch (error) {
+    // 리스너 오류가 요청 처리에 영향을 주지 않도록 격리
+    console.error('[SessionEvents] Listener error:', error);
+  }
+}
+
+/**
+ * Subscribe to a session's events
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeSessionEvents(sessionId, listener) {
+  emitter.on(channel(sessionId), listener);
+  return () => emitter.off(channel(sessionId), listener);
+}
+
+/**
+ * Build the topic portion of an event payload from topics_state
+ */
+export function topicEventFields(topicsState, topicIndex, phase, topicStartedAt = new Date()) {
+  const topic = topicsState?.[topicIndex];
+  return {
+    currentTopicIndex: topicIndex,
+    currentPhase: phase,
+    topicTitle: topic?.title || null,
+    topicTotalTime: topic?.totalTime ?? null,
+    topicStartedAt: topicStartedAt ? new Date(topicStartedAt).toISOString() : null,
+  };
+}
+
+export default {
+  SESSION_EVENT_TYPES,
+  publishSessionEvent,
+  subscribeSessionEvents,
+  topicEventFields,
+};
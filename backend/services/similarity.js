@@ -0,0 +1,219 @@
+/**
+ * Cross-submission similarity (같은 세션 제출물 간 유사도)
+ *
+ * 외부 서비스 없이 로컬에서 계산한다.
+ * 1. 본문을 단어 단위 shingle(연속 SHINGLE_SIZE 단어)로 나누고 MinHash 서명을 만든다
+ *    → student_participants.text_signature (업로드 시 저장)
+ * 2. 서명으로 추정한 유사도가 후보 기준 이상인 쌍만 본문을 다시 비교한다
+ * 3. shingle 집합의 Jaccard 유사도가 SIMILARITY_THRESHOLD 이상이면 겹치는 구간과 함께 기록
+ *    → submission_similarities
+ *
+ * passages: [{ a: { start, end, text }, b: { start, end, text }, words }]
+ * 겹치는 구간 탐색은 비교 횟수에 한도가 있어, 반복이 아주 많은 글은 앞쪽 구간만 기록될 수 있다 (점수는 그대로 정확).
+ * start/end는 각 extracted_text의 문자 위치 (end 미포함), words는 겹치는 단어 수
+ */
+
+export const SHINGLE_SIZE = 5;
+export const SIGNATURE_SIZE = 64;
+export const SIMILARITY_THRESHOLD = Number(process.env.SIMILARITY_THRESHOLD) || 0.3;
+export const MAX_PASSAGES = 20;
+
+// MinHash 추정 오차를 감안해 후보는 넉넉하게 고른다
+const CANDIDATE_RATIO = 0.6;
+const MIN_SHINGLES = 10;
+const MAX_PASSAGE_LENGTH = 1000;
+// 반복이 많은 글에서 구간 탐색이 제곱으로 늘지 않도록 (업로드 요청 중에 실행된다)
+const MAX_POSITIONS_PER_SHINGLE = 16;
+const MAX_MATCH_STEPS = 200000;
+
+/**
+ * Words with their character offsets (문자/숫자 연속 구간, 소문자로 정규화)
+ */
+function tokenize(text) {
+  const tokens = [];
+  for (const match of (text || '').matchAll(/[\p{L}\p{N}]+/gu)) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// FNV-1a 32-bit
+function hashString(value) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer - seed별로 다른 해시 함수를 만든다
+function mixHash(value, seed) {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mixHash(i + 1, 0x9e3779b9));
+
+/**
+ * Shingle hash at each token position (길이 = 단어 수 - SHINGLE_SIZE + 1)
+ */
+function shingleHashes(tokens) {
+  const hashes = [];
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const words = tokens.slice(i, i + SHINGLE_SIZE).map((t) => t.word);
+    hashes.push(hashString(words.join(' ')));
+  }
+  return hashes;
+}
+
+/**
+ * MinHash signature of a submission (짧은 글은 null - 비교하지 않음)
+ * @returns {number[]|null}
+ */
+export function submissionSignature(text) {
+  const shingles = new Set(shingleHashes(tokenize(text)));
+  if (shingles.size < MIN_SHINGLES) return null;
+
+  const signature = new Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const h = mixHash(shingle, SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity from two signatures
+ */
+export function estimateSimilarity(signatureA, signatureB) {
+  if (!Array.isArray(signatureA) || !Array.isArray(signatureB)) return 0;
+  if (signatureA.length !== signatureB.length || signatureA.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < signatureA.length; i++) {
+    if (signatureA[i] === signatureB[i]) equal++;
+  }
+  return equal / signatureA.length;
+}
+
+/**
+ * Whether a pair is worth comparing in full
+ */
+export function isCandidatePair(signatureA, signatureB) {
+  return estimateSimilarity(signatureA, signatureB) >= SIMILARITY_THRESHOLD * CANDIDATE_RATIO;
+}
+
+function passageSide(text, tokens, from, to) {
+  const start = tokens[from].start;
+  const end = tokens[to].end;
+  return { start, end, text: text.slice(start, Math.min(end, start + MAX_PASSAGE_LENGTH)) };
+}
+
+/**
+ * Compare two submissions: exact shingle Jaccard and overlapping passages (긴 구간 우선)
+ * @returns {{ score: number, passages: Array }}
+ */
+export function compareSubmissions(textA, textB) {
+  const tokensA = tokenize(textA);
+  const tokensB = tokenize(textB);
+  const hashesA = shingleHashes(tokensA);
+  const hashesB = shingleHashes(tokensB);
+
+  const setA = new Set(hashesA);
+  const setB = new Set(hashesB);
+  let shared = 0;
+  for (const hash of setA) {
+    if (setB.has(hash)) shared++;
+  }
+  const union = setA.size + setB.size - shared;
+  const score = union > 0 ? shared / union : 0;
+
+  // 같은 shingle이 여러 번 나오면 앞쪽 위치 몇 개만 후보로 본다
+  const positionsB = new Map();
+  hashesB.forEach((hash, index) => {
+    if (!positionsB.has(hash)) positionsB.set(hash, []);
+    const positions = positionsB.get(hash);
+    if (positions.length < MAX_POSITIONS_PER_SHINGLE) positions.push(index);
+  });
+
+  // 연속으로 일치하는 shingle을 하나의 구간으로 묶는다 (비교 횟수가 한도를 넘으면 찾은 구간까지만)
+  const runs = [];
+  let steps = 0;
+  let i = 0;
+  while (i < hashesA.length && steps < MAX_MATCH_STEPS) {
+    let best = null;
+    for (const j of positionsB.get(hashesA[i]) || []) {
+      let length = 1;
+      while (
+        i + length < hashesA.length &&
+        j + length < hashesB.length &&
+        hashesA[i + length] === hashesB[j + length] &&
+        steps < MAX_MATCH_STEPS
+      ) {
+        length++;
+        steps++;
+      }
+      steps++;
+      if (!best || length > best.length) best = { i, j, length };
+    }
+    if (best) {
+      runs.push(best);
+      i += best.length;
+    } else {
+      i++;
+    }
+  }
+
+  const passages = runs
+    .sort((x, y) => y.length - x.length)
+    .slice(0, MAX_PASSAGES)
+    .sort((x, y) => x.i - y.i)
+    .map((run) => {
+      const lastOffset = run.length + SHINGLE_SIZE - 2;
+      return {
+        a: passageSide(textA, tokensA, run.i, run.i + lastOffset),
+        b: passageSide(textB, tokensB, run.j, run.j + lastOffset),
+        words: lastOffset + 1,
+      };
+    });
+
+  return { score: Math.round(score * 10000) / 10000, passages };
+}
+
+/**
+ * Flagged pairs between one submission and the others (ids ordered so a < b)
+ * @param {{ id, text, signature }} submission
+ * @param {Array<{ id, text, signature }>} others
+ * @returns {Array<{ participantAId, participantBId, score, passages }>}
+ */
+export function findSimilarPairs(submission, others) {
+  if (!submission.signature) return [];
+
+  const pairs = [];
+  for (const other of others) {
+    if (other.id === submission.id || !isCandidatePair(submission.signature, other.signature)) continue;
+
+    const [first, second] = submission.id < other.id ? [submission, other] : [other, submission];
+    const { score, passages } = compareSubmissions(first.text, second.text);
+    if (score >= SIMILARITY_THRESHOLD) {
+      pairs.push({ participantAId: first.id, participantBId: second.id, score, passages });
+    }
+  }
+  return pairs;
+}
+
+export default {
+  SHINGLE_SIZE,
+  SIGNATURE_SIZE,
+  SIMILARITY_THRESHOLD,
+  MAX_PASSAGES,
+  submissionSignature,
+  estimateSimilarity,
+  isCandidatePair,
+  compareSubmissions,
+  findSimilarPairs,
+};
@@ -1,93 +1,94 @@
-import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { getTTSProvider, getSTTProvider, resolveSpeechSettings } from './speechProviders/index.js';
 
 dotenv.config();
 
-// ElevenLabs TTS configuration
-const hasElevenLabsKey = Boolean(process.env.ELEVENLABS_API_KEY);
-const elevenlabs = hasElevenLabsKey
-  ? new ElevenLabsClient({ apiKey: process.env.ELEVENLABS_API_KEY })
-  : null;
-const elevenLabsVoiceId = process.env.ELEVENLABS_VOICE_ID || 'XB0fDUnXU5powFXDhCwa'; // Charlotte - multilingual
-const elevenLabsModel = process.env.ELEVENLABS_MODEL || 'eleven_flash_v2_5';
-
-// OpenAI for STT (Whisper)
-const hasOpenAIKey = Boolean(process.env.OPENAI_API_KEY);
-const openai = hasOpenAIKey ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
-
 /**
- * Convert text to speech using ElevenLabs
+ * Convert text to speech with the session's TTS provider
  * @param {string} text - Text to convert
- * @returns {Promise<Buffer>} Audio buffer (MP3)
+ * @param {object} settings - Session speech_settings (null → deployment defaults)
+ * @returns {Promise<{ audio: Buffer, contentType: string }>}
  */
-export async function textToSpeech(text) {
-  if (!elevenlabs) {
-    throw new Error('ElevenLabs API not configured');
+export async function textToSpeech(text, settings = null) {
+  const provider = getTTSProvider(settings);
+  if (!provider.isAvailable()) {
+    throw new Error(`TTS provider '${provider.name}' not configured`);
   }
 
   if (!text || text.trim().length === 0) {
     throw new Error('Text is required');
   }
 
-  const audioStream = await elevenlabs.textToSpeech.convert(elevenLabsVoiceId, {
-    text: text.slice(0, 5000),
-    modelId: elevenLabsModel,
-    outputFormat: 'mp3_44100_128',
-  });
+  const { voice, language } = resolveSpeechSettings(settings);
+  return provider.textToSpeech(text.slice(0, 5000), { voice, language });
+}
+
+/**
+ * Stream text to speech with the session's TTS provider
+ * Providers without streaming support yield the whole buffer as one chunk.
+ * @returns {Promise<{ stream: AsyncIterable<Uint8Array>, contentType: string }>}
+ */
+export async function streamTextToSpeech(text, settings = null) {
+  const provider = getTTSProvider(settings);
+  if (!provider.isAvailable()) {
+    throw new Error(`TTS provider '${provider.name}' not configured`);
+  }
 
-  const chunks = [];
-  for await (const chunk of audioStream) {
-    chunks.push(chunk);
+  if (!text || text.trim().length === 0) {
+    throw new Error('Text is required');
   }
 
-  return Buffer.concat(chunks);
+  const { voice, language } = resolveSpeechSettings(settings);
+  if (provider.streamTextToSpeech) {
+    return provider.streamTextToSpeech(text.slice(0, 5000), { voice, language });
+  }
+
+  const { audio, contentType } = await provider.textToSpeech(text.slice(0, 5000), { voice, language });
+  return { stream: [audio], contentType };
 }
 
 /**
- * Convert speech to text using OpenAI Whisper
+ * Convert speech to text with the session's STT provider
  * @param {Buffer} audioBuffer - Audio file buffer
  * @param {string} mimetype - Audio MIME type
  * @param {string} context - Context for better transcription
+ * @param {object} settings - Session speech_settings (null → deployment defaults)
  * @returns {Promise<string>} Transcribed text
  */
-export async function speechToText(audioBuffer, mimetype = 'audio/webm', context = '') {
-  if (!openai) {
-    throw new Error('OpenAI API not configured');
+export async function speechToText(audioBuffer, mimetype = 'audio/webm', context = '', settings = null) {
+  const provider = getSTTProvider(settings);
+  if (!provider.isAvailable()) {
+    throw new Error(`STT provider '${provider.name}' not configured`);
   }
 
   if (!audioBuffer || audioBuffer.length === 0) {
     throw new Error('Audio file is required');
   }
 
-  const file = new File([audioBuffer], 'audio.webm', { type: mimetype });
-
-  const transcription = await openai.audio.transcriptions.create({
-    model: 'whisper-1',
-    file: file,
-    language: 'ko',
+  const { language } = resolveSpeechSettings(settings);
+  return provider.speechToText(audioBuffer, mimetype, {
+    language,
     prompt: context.slice(0, 500),
   });
-
-  return transcription.text;
 }
 
 /**
- * Check if TTS is available
+ * Check if TTS is available (for the session's settings)
  */
-export function isTTSAvailable() {
-  return hasElevenLabsKey && elevenlabs !== null;
+export function isTTSAvailable(settings = null) {
+  return getTTSProvider(settings).isAvailable();
 }
 
 /**
- * Check if STT is available
+ * Check if STT is available (for the session's settings)
  */
-export function isSTTAvailable() {
-  return hasOpenAIKey && openai !== null;
+export function isSTTAvailable(settings = null) {
+  return getSTTProvider(settings).isAvailable();
 }
 
 export default {
   textToSpeech,
+  streamTextToSpeech,
   speechToText,
   isTTSAvailable,
   isSTTAvailable,
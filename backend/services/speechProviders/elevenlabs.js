@@ -0,0 +1,75 @@
+import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
+
+/**
+ * ElevenLabs TTS adapter
+ *
+ * env: ELEVENLABS_API_KEY, ELEVENLABS_VOICE_ID, ELEVENLABS_MODEL,
+ *      ELEVENLABS_VOICES (선택, "voiceId:이름,voiceId:이름" 형식으로 선택 가능한 음성 추가)
+ */
+
+let client = null;
+
+function getClient() {
+  if (!client && process.env.ELEVENLABS_API_KEY) {
+    client = new ElevenLabsClient({ apiKey: process.env.ELEVENLABS_API_KEY });
+  }
+  return client;
+}
+
+function defaultVoiceId() {
+  return process.env.ELEVENLABS_VOICE_ID || 'XB0fDUnXU5powFXDhCwa'; // Charlotte - multilingual
+}
+
+function listVoices() {
+  const voices = [{ id: defaultVoiceId(), label: '기본 음성' }];
+  for (const entry of (process.env.ELEVENLABS_VOICES || '').split(',')) {
+    const [id, label] = entry.split(':').map((part) => part?.trim());
+    if (id && !voices.some((v) => v.id === id)) {
+      voices.push({ id, label: label || id });
+    }
+  }
+  return voices;
+}
+
+export default {
+  name: 'elevenlabs',
+  label: 'ElevenLabs',
+  supports: { tts: true, stt: false },
+
+  isAvailable() {
+    return Boolean(process.env.ELEVENLABS_API_KEY);
+  },
+
+  voices: listVoices,
+
+  async textToSpeech(text, { voice, language } = {}) {
+    const voiceId = listVoices().some((v) => v.id === voice) ? voice : defaultVoiceId();
+    const audioStream = await getClient().textToSpeech.convert(voiceId, {
+      text,
+      modelId: process.env.ELEVENLABS_MODEL || 'eleven_flash_v2_5',
+      outputFormat: 'mp3_44100_128',
+      languageCode: language,
+    });
+
+    const chunks = [];
+    for await (const chunk of audioStream) {
+      chunks.push(chunk);
+    }
+
+    return { audio: Buffer.concat(chunks), contentType: 'audio/mpeg' };
+  },
+
+  // 첫 청크 지연을 줄이기 위해 streaming 엔드포인트 사용
+  async streamTextToSpeech(text, { voice, language } = {}) {
+    const voiceId = listVoices().some((v) => v.id === voice) ? voice : defaultVoiceId();
+    const stream = await getClient().textToSpeech.stream(voiceId, {
+      text,
+      modelId: process.env.ELEVENLABS_MODEL || 'eleven_flash_v2_5',
+      outputFormat: 'mp3_44100_128',
+      languageCode: language,
+      optimizeStreamingLatency: 3,
+    });
+
+    return { stream, contentType: 'audio/mpeg' };
+  },
+};
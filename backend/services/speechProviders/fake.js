@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Fixture-based fake speech provider (테스트용)
+ *
+ * env: SPEECH_FAKE_PROVIDER=1 - 세션 설정에서 선택할 수 있게 켠다 (NODE_ENV=test이면 항상 켜짐)
+ *      SPEECH_FAKE_FIXTURES (선택) - 픽스처 디렉터리
+ *   tts.mp3 / tts.wav : TTS 응답으로 그대로 반환 (없으면 0.5초 무음 WAV)
+ *   stt.txt           : STT 응답, 호출 순서대로 한 줄씩 반환 (끝나면 처음부터)
+ */
+
+const DEFAULT_TRANSCRIPT = '테스트 음성 답변입니다.';
+
+let sttCallCount = 0;
+
+function fixturePath(name) {
+  const dir = process.env.SPEECH_FAKE_FIXTURES;
+  if (!dir) return null;
+  const file = path.join(dir, name);
+  return fs.existsSync(file) ? file : null;
+}
+
+/**
+ * 16-bit mono PCM WAV of silence
+ */
+function silentWav(seconds = 0.5, sampleRate = 16000) {
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  return buffer;
+}
+
+export default {
+  name: 'fake',
+  label: '테스트용 가짜 음성',
+  supports: { tts: true, stt: true },
+
+  // 명시적으로 켠 경우에만 선택 가능 (SPEECH_FAKE_PROVIDER=1, 테스트 환경, 배포 기본값으로 지정)
+  isAvailable() {
+    return process.env.SPEECH_FAKE_PROVIDER === '1'
+      || process.env.NODE_ENV === 'test'
+      || process.env.TTS_PROVIDER === 'fake'
+      || process.env.STT_PROVIDER === 'fake';
+  },
+
+  voices() {
+    return [{ id: 'fake', label: '무음' }];
+  },
+
+  async textToSpeech() {
+    const mp3 = fixturePath('tts.mp3');
+    if (mp3) return { audio: fs.readFileSync(mp3), contentType: 'audio/mpeg' };
+
+    const wav = fixturePath('tts.wav');
+    return { audio: wav ? fs.readFileSync(wav) : silentWav(), contentType: 'audio/wav' };
+  },
+
+  // 스트리밍 경로 테스트용: 픽스처를 작은 청크로 나눠 전달
+  async streamTextToSpeech(text, options) {
+    const { audio, contentType } = await this.textToSpeech(text, options);
+
+    async function* chunks() {
+      for (let offset = 0; offset < audio.length; offset += 4096) {
+        yield audio.subarray(offset, offset + 4096);
+      }
+    }
+
+    return { stream: chunks(), contentType };
+  },
+
+  async speechToText() {
+    const file = fixturePath('stt.txt');
+    const lines = file
+      ? fs.readFileSync(file, 'utf8').split('\n').map((line) => line.trim()).filter(Boolean)
+      : [];
+
+    const text = lines.length > 0 ? lines[sttCallCount % lines.length] : DEFAULT_TRANSCRIPT;
+    sttCallCount += 1;
+    return text;
+  },
+};
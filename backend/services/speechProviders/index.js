@@ -0,0 +1,160 @@
+import elevenlabs from './elevenlabs.js';
+import openai from './openai.js';
+import whisperServer from './whisperServer.js';
+import fake from './fake.js';
+
+/**
+ * Speech provider registry (TTS/STT 제공자 선택)
+ *
+ * 모든 제공자는 같은 인터페이스를 구현한다:
+ * {
+ *   name, label,
+ *   supports: { tts, stt },
+ *   isAvailable(): boolean,
+ *   voices?(): [{ id, label }],                                        // TTS
+ *   textToSpeech?(text, { voice, language }) → Promise<{ audio, contentType }>,
+ *   streamTextToSpeech?(text, { voice, language }) → Promise<{ stream, contentType }>,  // stream: AsyncIterable
+ *   speechToText?(buffer, mimetype, { language, prompt }) → Promise<string>,
+ * }
+ *
+ * 배포 기본값은 TTS_PROVIDER / STT_PROVIDER / SPEECH_LANGUAGE,
+ * 세션별로 assignment_sessions.speech_settings를 지정하면 그 값을 사용한다.
+ * speech_settings: { ttsProvider, sttProvider, voice, language }
+ */
+
+const providers = {
+  [elevenlabs.name]: elevenlabs,
+  [openai.name]: openai,
+  [whisperServer.name]: whisperServer,
+  [fake.name]: fake,
+};
+
+export const SPEECH_LANGUAGES = [
+  { code: 'ko', label: '한국어' },
+  { code: 'en', label: 'English' },
+  { code: 'ja', label: '日本語' },
+  { code: 'zh', label: '中文' },
+];
+
+function providerFor(kind, name) {
+  const provider = providers[name];
+  return provider?.supports[kind] ? provider : null;
+}
+
+function defaultName(kind) {
+  const configured = kind === 'tts' ? process.env.TTS_PROVIDER : process.env.STT_PROVIDER;
+  const fallback = kind === 'tts' ? 'elevenlabs' : 'openai';
+  return providerFor(kind, configured) ? configured : fallback;
+}
+
+function defaultLanguage() {
+  const code = process.env.SPEECH_LANGUAGE;
+  return SPEECH_LANGUAGES.some((l) => l.code === code) ? code : 'ko';
+}
+
+/**
+ * Effective speech settings for a session (null → deployment defaults)
+ */
+export function resolveSpeechSettings(settings) {
+  return {
+    ttsProvider: providerFor('tts', settings?.ttsProvider) ? settings.ttsProvider : defaultName('tts'),
+    sttProvider: providerFor('stt', settings?.sttProvider) ? settings.sttProvider : defaultName('stt'),
+    voice: settings?.voice || null,
+    language: settings?.language || defaultLanguage(),
+  };
+}
+
+export function getTTSProvider(settings) {
+  return providers[resolveSpeechSettings(settings).ttsProvider];
+}
+
+export function getSTTProvider(settings) {
+  return providers[resolveSpeechSettings(settings).sttProvider];
+}
+
+/**
+ * Validate speech settings from request input
+ * @returns {{ settings: object|null, errors: string[] }} settings is null when input is null/undefined
+ */
+export function validateSpeechSettings(input) {
+  if (input === null || input === undefined) {
+    return { settings: null, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { settings: null, errors: ['speech_settings must be an object'] };
+  }
+
+  const errors = [];
+  const settings = {};
+
+  for (const [key, kind] of [['ttsProvider', 'tts'], ['sttProvider', 'stt']]) {
+    const name = input[key];
+    if (!name) continue;
+    const provider = providerFor(kind, name);
+    if (!provider) {
+      errors.push(`${key} must be a ${kind.toUpperCase()} provider`);
+    } else if (!provider.isAvailable()) {
+      errors.push(`${kind.toUpperCase()} provider '${name}' is not configured on this server`);
+    } else {
+      settings[key] = name;
+    }
+  }
+
+  if (input.language) {
+    if (SPEECH_LANGUAGES.some((l) => l.code === input.language)) {
+      settings.language = input.language;
+    } else {
+      errors.push(`language must be one of ${SPEECH_LANGUAGES.map((l) => l.code).join(', ')}`);
+    }
+  }
+
+  if (input.voice) {
+    const tts = providers[settings.ttsProvider || defaultName('tts')];
+    const voices = tts.voices ? tts.voices() : [];
+    if (voices.some((v) => v.id === input.voice)) {
+      settings.voice = input.voice;
+    } else {
+      errors.push(`voice '${input.voice}' is not available for ${tts.name}`);
+    }
+  }
+
+  return { settings: errors.length === 0 ? settings : null, errors };
+}
+
+/**
+ * Availability report for GET /api/speech/status
+ */
+export function getSpeechStatus() {
+  const describe = (kind) => {
+    const defaultProvider = providers[defaultName(kind)];
+    return {
+      available: defaultProvider.isAvailable(),
+      provider: defaultProvider.label,
+      default: defaultProvider.name,
+      providers: Object.values(providers)
+        .filter((p) => p.supports[kind])
+        .map((p) => ({
+          name: p.name,
+          label: p.label,
+          available: p.isAvailable(),
+          ...(kind === 'tts' ? { voices: p.voices ? p.voices() : [] } : {}),
+        })),
+    };
+  };
+
+  return {
+    tts: describe('tts'),
+    stt: describe('stt'),
+    languages: SPEECH_LANGUAGES,
+    defaultLanguage: defaultLanguage(),
+  };
+}
+
+export default {
+  SPEECH_LANGUAGES,
+  resolveSpeechSettings,
+  getTTSProvider,
+  getSTTProvider,
+  validateSpeechSettings,
+  getSpeechStatus,
+};
@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+
+/**
+ * OpenAI speech adapter (TTS + Whisper STT)
+ *
+ * env: OPENAI_API_KEY, OPENAI_TTS_MODEL, OPENAI_STT_MODEL
+ */
+
+const VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+let client = null;
+
+function getClient() {
+  if (!client && process.env.OPENAI_API_KEY) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+}
+
+export default {
+  name: 'openai',
+  label: 'OpenAI',
+  supports: { tts: true, stt: true },
+
+  isAvailable() {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  voices() {
+    return VOICES.map((id) => ({ id, label: id }));
+  },
+
+  async textToSpeech(text, { voice } = {}) {
+    const response = await getClient().audio.speech.create({
+      model: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+      voice: VOICES.includes(voice) ? voice : 'nova',
+      input: text,
+      response_format: 'mp3',
+    });
+
+    return { audio: Buffer.from(await response.arrayBuffer()), contentType: 'audio/mpeg' };
+  },
+
+  async streamTextToSpeech(text, { voice } = {}) {
+    const response = await getClient().audio.speech.create({
+      model: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+      voice: VOICES.includes(voice) ? voice : 'nova',
+      input: text,
+      response_format: 'mp3',
+    });
+
+    // Response body is streamed as the audio is generated
+    return { stream: response.body, contentType: 'audio/mpeg' };
+  },
+
+  async speechToText(audioBuffer, mimetype, { language, prompt } = {}) {
+    const file = new File([audioBuffer], 'audio.webm', { type: mimetype });
+
+    const transcription = await getClient().audio.transcriptions.create({
+      model: process.env.OPENAI_STT_MODEL || 'whisper-1',
+      file,
+      language,
+      prompt,
+    });
+
+    return transcription.text;
+  },
+};
@@ -0,0 +1,46 @@
+import OpenAI from 'openai';
+
+/**
+ * Local Whisper-compatible STT server adapter
+ * OpenAI 호환 /v1/audio/transcriptions 엔드포인트를 제공하는 서버
+ * (faster-whisper-server, whisper.cpp server, LocalAI 등)
+ *
+ * env: WHISPER_SERVER_URL (예: http://localhost:8000/v1), WHISPER_SERVER_MODEL,
+ *      WHISPER_SERVER_API_KEY (서버가 요구하는 경우)
+ */
+
+let client = null;
+
+function getClient() {
+  if (!client && process.env.WHISPER_SERVER_URL) {
+    client = new OpenAI({
+      baseURL: process.env.WHISPER_SERVER_URL,
+      // SDK requires a key even when the server ignores it
+      apiKey: process.env.WHISPER_SERVER_API_KEY || 'not-needed',
+    });
+  }
+  return client;
+}
+
+export default {
+  name: 'whisper_server',
+  label: '로컬 Whisper 서버',
+  supports: { tts: false, stt: true },
+
+  isAvailable() {
+    return Boolean(process.env.WHISPER_SERVER_URL);
+  },
+
+  async speechToText(audioBuffer, mimetype, { language, prompt } = {}) {
+    const file = new File([audioBuffer], 'audio.webm', { type: mimetype });
+
+    const transcription = await getClient().audio.transcriptions.create({
+      model: process.env.WHISPER_SERVER_MODEL || 'whisper-1',
+      file,
+      language,
+      prompt,
+    });
+
+    return transcription.text;
+  },
+};
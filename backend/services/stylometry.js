@@ -0,0 +1,220 @@
+/**
+ * Stylometric consistency (제출 글과 인터뷰 답변의 문체 일관성)
+ *
+ * 외부 서비스 없이 extracted_text와 학생 답변(interview_conversations, role 'student')의
+ * 문체 특징을 비교해 설명 가능한 보조 지표를 만든다. 판정 근거가 아니라 참고용이다.
+ *
+ * 특징:
+ * - sentence_length: 문장당 평균 단어 수
+ * - vocabulary: 어휘 다양도 (이동 창 type-token ratio)
+ * - function_words: 조사/접속어 사용 분포 (100단어당 빈도의 코사인 유사도)
+ * - endings: 문장 종결 어미 분포 (합니다체/해요체/평서체/명사형)
+ *
+ * 음성 답변은 글보다 문장이 짧고 구어체 어미가 많으므로 answerMode를 함께 돌려준다.
+ */
+
+export const STYLE_FEATURES = ['sentence_length', 'vocabulary', 'function_words', 'endings'];
+export const CONSISTENCY_LEVELS = ['consistent', 'mixed', 'inconsistent', 'insufficient'];
+
+// 이보다 짧으면 비교하지 않는다 (단어 수)
+export const MIN_WRITTEN_WORDS = 100;
+export const MIN_ANSWER_WORDS = 60;
+
+// 인터뷰에서는 글과 달리 존댓말(해요체/합니다체)을 쓰는 것이 자연스러우므로 어미 비중은 낮게 둔다
+const FEATURE_WEIGHTS = {
+  sentence_length: 0.3,
+  vocabulary: 0.25,
+  function_words: 0.35,
+  endings: 0.1,
+};
+const CONSISTENT_SCORE = 0.7;
+const MIXED_SCORE = 0.5;
+const TTR_WINDOW = 50;
+
+// 길이순 (긴 조사를 먼저 확인)
+const PARTICLES = [
+  '에서', '에게', '으로', '부터', '까지', '처럼', '보다', '이라', '라고',
+  '은', '는', '이', '가', '을', '를', '의', '에', '로', '와', '과', '도', '만',
+];
+const FUNCTION_WORDS = [
+  '그리고', '그러나', '하지만', '그래서', '따라서', '또한', '즉', '또', '그런데', '왜냐하면',
+  '예를', '결국', '특히', '먼저', '우선', '이', '그', '저', '것', '수',
+  'the', 'a', 'an', 'of', 'and', 'to', 'in', 'is', 'that', 'it', 'for', 'with', 'as', 'but', 'so',
+];
+const FUNCTION_WORD_SET = new Set(FUNCTION_WORDS);
+const ENDING_TYPES = ['formal', 'polite', 'plain', 'nominal', 'other'];
+
+function tokenize(text) {
+  return (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function splitSentences(text) {
+  return (text || '')
+    .split(/[.!?。？！]+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => tokenize(sentence).length > 0);
+}
+
+function classifyEnding(sentence) {
+  const words = tokenize(sentence);
+  const last = words[words.length - 1] || '';
+  if (/(니다|니까)$/.test(last)) return 'formal';
+  if (/요$/.test(last)) return 'polite';
+  if (/(다|까|냐|니|라|자)$/.test(last)) return 'plain';
+  if (/(음|함|됨|임|것)$/.test(last)) return 'nominal';
+  return 'other';
+}
+
+function functionWordKeys(word) {
+  if (FUNCTION_WORD_SET.has(word)) return [word];
+  if (!/[가-힣]$/.test(word)) return [];
+  const particle = PARTICLES.find((p) => word.length > p.length && word.endsWith(p));
+  return particle ? [`-${particle}`] : [];
+}
+
+// 창 크기보다 짧으면 일반 type-token ratio
+function movingTypeTokenRatio(words) {
+  if (words.length === 0) return 0;
+  if (words.length <= TTR_WINDOW) return new Set(words).size / words.length;
+  let total = 0;
+  let windows = 0;
+  for (let i = 0; i + TTR_WINDOW <= words.length; i += Math.ceil(TTR_WINDOW / 2)) {
+    total += new Set(words.slice(i, i + TTR_WINDOW)).size / TTR_WINDOW;
+    windows++;
+  }
+  return total / windows;
+}
+
+/**
+ * Style features of a text or of several answers (답변은 각각 최소 한 문장으로 센다)
+ * @param {string|string[]} input
+ */
+export function analyzeStyle(input) {
+  const texts = Array.isArray(input) ? input : [input];
+  const sentences = texts.flatMap(splitSentences);
+  const words = texts.flatMap(tokenize);
+
+  const functionWords = {};
+  for (const word of words) {
+    for (const key of functionWordKeys(word)) {
+      functionWords[key] = (functionWords[key] || 0) + 1;
+    }
+  }
+  for (const key of Object.keys(functionWords)) {
+    functionWords[key] = (functionWords[key] / words.length) * 100;
+  }
+
+  const endings = Object.fromEntries(ENDING_TYPES.map((type) => [type, 0]));
+  for (const sentence of sentences) endings[classifyEnding(sentence)]++;
+  for (const type of ENDING_TYPES) {
+    endings[type] = sentences.length > 0 ? endings[type] / sentences.length : 0;
+  }
+
+  return {
+    wordCount: words.length,
+    sentenceCount: sentences.length,
+    avgSentenceLength: sentences.length > 0 ? words.length / sentences.length : 0,
+    vocabularyRichness: movingTypeTokenRatio(words),
+    functionWords,
+    endings,
+  };
+}
+
+function ratioSimilarity(a, b) {
+  const max = Math.max(a, b);
+  return max > 0 ? Math.min(a, b) / max : 1;
+}
+
+function cosineSimilarity(a, b) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const key of keys) {
+    const x = a[key] || 0;
+    const y = b[key] || 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// 1 - total variation distance
+function distributionSimilarity(a, b) {
+  const distance = ENDING_TYPES.reduce((sum, type) => sum + Math.abs(a[type] - b[type]), 0) / 2;
+  return 1 - distance;
+}
+
+function topKeys(profile, count = 5) {
+  return Object.entries(profile)
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, count)
+    .map(([key]) => key);
+}
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Compare the written submission with the student's interview answers
+ * @param {string} writtenText - extracted_text
+ * @param {string[]} answers - student turns
+ * @param {{ answerMode?: string }} options - 'voice' | 'chat' (chosen_interview_mode)
+ * @returns {{ level, score, answerMode, written, answers, features: Array<{ key, written, answers, similarity }> }}
+ */
+export function compareStyle(writtenText, answers, { answerMode = null } = {}) {
+  const written = analyzeStyle(writtenText || '');
+  const spoken = analyzeStyle((answers || []).filter(Boolean));
+  const base = {
+    answerMode,
+    written: { wordCount: written.wordCount, sentenceCount: written.sentenceCount },
+    answers: { wordCount: spoken.wordCount, sentenceCount: spoken.sentenceCount },
+  };
+
+  if (written.wordCount < MIN_WRITTEN_WORDS || spoken.wordCount < MIN_ANSWER_WORDS) {
+    return { ...base, level: 'insufficient', score: null, features: [] };
+  }
+
+  const features = [
+    {
+      key: 'sentence_length',
+      written: round(written.avgSentenceLength, 1),
+      answers: round(spoken.avgSentenceLength, 1),
+      similarity: ratioSimilarity(written.avgSentenceLength, spoken.avgSentenceLength),
+    },
+    {
+      key: 'vocabulary',
+      written: round(written.vocabularyRichness),
+      answers: round(spoken.vocabularyRichness),
+      similarity: ratioSimilarity(written.vocabularyRichness, spoken.vocabularyRichness),
+    },
+    {
+      key: 'function_words',
+      written: topKeys(written.functionWords),
+      answers: topKeys(spoken.functionWords),
+      similarity: cosineSimilarity(written.functionWords, spoken.functionWords),
+    },
+    {
+      key: 'endings',
+      written: Object.fromEntries(ENDING_TYPES.map((type) => [type, round(written.endings[type])])),
+      answers: Object.fromEntries(ENDING_TYPES.map((type) => [type, round(spoken.endings[type])])),
+      similarity: distributionSimilarity(written.endings, spoken.endings),
+    },
+  ].map((feature) => ({ ...feature, similarity: round(feature.similarity) }));
+
+  const score = round(
+    features.reduce((sum, feature) => sum + feature.similarity * FEATURE_WEIGHTS[feature.key], 0)
+  );
+  const level = score >= CONSISTENT_SCORE ? 'consistent' : score >= MIXED_SCORE ? 'mixed' : 'inconsistent';
+
+  return { ...base, level, score, features };
+}
+
+export default {
+  STYLE_FEATURES,
+  CONSISTENCY_LEVELS,
+  MIN_WRITTEN_WORDS,
+  MIN_ANSWER_WORDS,
+  analyzeStyle,
+  compareStyle,
+};
@@ -0,0 +1,299 @@
+/**
+ * Interview summary schema (인터뷰 평가 요약 스키마)
+ *
+ * generateSummary가 반환하고 student_participants.summary에 저장되는 JSON의 단일 계약.
+ * 프론트엔드 lib/summary.ts와 같은 구조를 유지해야 한다.
+ *
+ * v1 (레거시): { strengths, weaknesses, overallComment }
+ * v2: { version, authorshipScore, verdict, strengths, weaknesses, overallComment, topicAssessments }
+ * v3: v2 + criteriaScores (루브릭 기준별 점수와 근거 인용)
+ */
+
+import { weightedRubricScore } from './rubric.js';
+
+export const SUMMARY_SCHEMA_VERSION = 3;
+
+export const AUTHORSHIP_VERDICTS = ['authored', 'assisted', 'not_authored', 'undetermined'];
+
+/**
+ * JSON Schema passed to the LLM (structured output)
+ * Strict mode requires every property to be listed in `required`
+ */
+export const summaryJsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['authorshipScore', 'verdict', 'strengths', 'weaknesses', 'overallComment', 'topicAssessments', 'criteriaScores'],
+  properties: {
+    authorshipScore: {
+      type: ['integer', 'null'],
+      description: '학생이 과제를 직접 작성했을 가능성 (0~100), 판단할 수 없으면 null',
+    },
+    verdict: {
+      type: 'string',
+      enum: AUTHORSHIP_VERDICTS,
+    },
+    strengths: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    weaknesses: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    overallComment: {
+      type: 'string',
+    },
+    topicAssessments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['topicIndex', 'topic', 'assessment', 'score'],
+        properties: {
+          topicIndex: { type: 'integer' },
+          topic: { type: 'string' },
+          assessment: { type: 'string' },
+          score: { type: 'integer', description: '주제별 직접 작성 가능성 (0~100)' },
+        },
+      },
+    },
+    criteriaScores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['criterionId', 'score', 'rationale', 'evidence'],
+        properties: {
+          criterionId: { type: 'string' },
+          score: { type: 'integer', description: '기준별 점수 (0~100)' },
+          rationale: { type: 'string' },
+          evidence: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '대화 로그의 학생 발화를 그대로 인용',
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Collapse whitespace so quotes can be matched against the transcript
+ */
+function squash(text) {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function toStringArray(value) {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+function toScore(value) {
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) return null;
+  return Math.min(100, Math.max(0, Math.round(num)));
+}
+
+/**
+ * Validate a summary object against the current schema
+ * @returns {string[]} List of validation errors (empty if valid)
+ */
+export function validateSummary(summary) {
+  const errors = [];
+
+  if (!summary || typeof summary !== 'object' || Array.isArray(summary)) {
+    return ['summary must be an object'];
+  }
+
+  if (summary.version !== SUMMARY_SCHEMA_VERSION) {
+    errors.push(`version must be ${SUMMARY_SCHEMA_VERSION}`);
+  }
+  if (summary.authorshipScore !== null && toScore(summary.authorshipScore) !== summary.authorshipScore) {
+    errors.push('authorshipScore must be an integer between 0 and 100 or null');
+  }
+  if (!AUTHORSHIP_VERDICTS.includes(summary.verdict)) {
+    errors.push(`verdict must be one of ${AUTHORSHIP_VERDICTS.join(', ')}`);
+  }
+  for (const key of ['strengths', 'weaknesses']) {
+    if (!Array.isArray(summary[key]) || summary[key].some((item) => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`);
+    }
+  }
+  if (typeof summary.overallComment !== 'string') {
+    errors.push('overallComment must be a string');
+  }
+  if (!Array.isArray(summary.topicAssessments)) {
+    errors.push('topicAssessments must be an array');
+  } else {
+    summary.topicAssessments.forEach((topic, idx) => {
+      if (!topic || typeof topic.topic !== 'string' || typeof topic.assessment !== 'string') {
+        errors.push(`topicAssessments[${idx}] must have topic and assessment strings`);
+      }
+    });
+  }
+  if (!Array.isArray(summary.criteriaScores)) {
+    errors.push('criteriaScores must be an array');
+  } else {
+    summary.criteriaScores.forEach((criterion, idx) => {
+      if (!criterion || typeof criterion.criterionId !== 'string' || !Array.isArray(criterion.evidence)) {
+        errors.push(`criteriaScores[${idx}] must have criterionId and evidence`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Derive a verdict from a score when the LLM omitted it (or for legacy rows)
+ */
+function verdictFromScore(score) {
+  if (score === null) return 'undetermined';
+  if (score >= 70) return 'authored';
+  if (score >= 40) return 'assisted';
+  return 'not_authored';
+}
+
+/**
+ * Normalize criterion scores
+ * With a rubric (LLM output), criteria are matched to it and quotes are checked against the transcript.
+ * Without one (stored rows), the stored name/weight/evidence are kept.
+ */
+function normalizeCriteriaScores(rawCriteria, rubric, transcript) {
+  if (!Array.isArray(rawCriteria)) return [];
+
+  const items = rawCriteria.filter((c) => c && typeof c === 'object');
+  const transcriptText = squash(transcript);
+
+  const toEvidence = (evidence) => (Array.isArray(evidence) ? evidence : [])
+    .map((item) => {
+      if (typeof item === 'string') {
+        const quote = item.trim();
+        return quote ? { quote, found: transcriptText ? transcriptText.includes(squash(quote)) : false } : null;
+      }
+      if (item && typeof item.quote === 'string') {
+        return { quote: item.quote, found: Boolean(item.found) };
+      }
+      return null;
+    })
+    .filter(Boolean)
+    .slice(0, 5);
+
+  if (!rubric) {
+    return items.map((c) => ({
+      criterionId: String(c.criterionId || ''),
+      name: typeof c.name === 'string' ? c.name : String(c.criterionId || ''),
+      weight: Number.isFinite(c.weight) ? c.weight : 0,
+      score: toScore(c.score),
+      rationale: typeof c.rationale === 'string' ? c.rationale : '',
+      evidence: toEvidence(c.evidence),
+    }));
+  }
+
+  // 루브릭의 모든 기준을 순서대로 포함 (LLM이 누락한 기준은 score null)
+  return rubric.criteria.map((criterion) => {
+    const match = items.find((c) => c.criterionId === criterion.id);
+    return {
+      criterionId: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight,
+      score: toScore(match?.score),
+      rationale: typeof match?.rationale === 'string' ? match.rationale : '',
+      evidence: toEvidence(match?.evidence),
+    };
+  });
+}
+
+/**
+ * Normalize any known summary shape (v1, v2, v3 or LLM output) into a v3 summary
+ * Unknown input returns null so callers can fall back explicitly
+ *
+ * @param {object} options.rubric - Rubric used for scoring (LLM output only)
+ * @param {string} options.transcript - Transcript used to verify evidence quotes
+ * @param {boolean} options.llmOutput - Fresh LLM response: must carry authorshipScore or a known version
+ *   (임의의 JSON을 v1 요약으로 변환하지 않도록)
+ */
+export function normalizeSummary(raw, { topics = [], rubric = null, transcript = '', llmOutput = false } = {}) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const knownVersion = Number.isInteger(raw.version) && raw.version >= 1 && raw.version <= SUMMARY_SCHEMA_VERSION;
+  if (llmOutput && !('authorshipScore' in raw) && !knownVersion) return null;
+
+  const criteriaScores = normalizeCriteriaScores(raw.criteriaScores, rubric, transcript);
+  // 루브릭 채점 결과가 있으면 가중 평균을 종합 점수로 사용
+  const authorshipScore = weightedRubricScore(criteriaScores) ?? toScore(raw.authorshipScore ?? raw.score);
+  const overallComment = typeof raw.overallComment === 'string'
+    ? raw.overallComment
+    : (typeof raw.overall_assessment === 'string' ? raw.overall_assessment : '');
+
+  const rawTopics = Array.isArray(raw.topicAssessments)
+    ? raw.topicAssessments
+    : (Array.isArray(raw.topic_summaries) ? raw.topic_summaries : []);
+
+  const topicAssessments = rawTopics
+    .filter((t) => t && typeof t === 'object')
+    .map((t, idx) => {
+      const topicIndex = Number.isInteger(t.topicIndex) ? t.topicIndex : idx;
+      return {
+        topicIndex,
+        topic: typeof t.topic === 'string' && t.topic ? t.topic : (topics[topicIndex]?.title || `주제 ${topicIndex + 1}`),
+        assessment: typeof t.assessment === 'string' ? t.assessment : '',
+        score: toScore(t.score),
+      };
+    });
+
+  // 루브릭 점수로 계산한 경우 판정도 점수에 맞춘다 (판단 불가는 유지)
+  const rubricScored = weightedRubricScore(criteriaScores) !== null;
+  const verdict = AUTHORSHIP_VERDICTS.includes(raw.verdict) && (!rubricScored || raw.verdict === 'undetermined')
+    ? raw.verdict
+    : verdictFromScore(authorshipScore);
+
+  const summary = {
+    version: SUMMARY_SCHEMA_VERSION,
+    // 판단 불가는 점수 없음 (0점이면 평균과 내보내기에서 not_authored와 구별되지 않는다)
+    authorshipScore: verdict === 'undetermined' ? null : authorshipScore,
+    verdict,
+    strengths: toStringArray(raw.strengths),
+    weaknesses: toStringArray(raw.weaknesses ?? raw.key_findings),
+    overallComment,
+    topicAssessments,
+    criteriaScores,
+  };
+
+  // LLM output has no version but does have authorshipScore; v1 rows have neither
+  if (Number.isInteger(raw.migratedFrom)) {
+    summary.migratedFrom = raw.migratedFrom;
+  } else if (Number.isInteger(raw.version) && raw.version !== SUMMARY_SCHEMA_VERSION) {
+    summary.migratedFrom = raw.version;
+  } else if (raw.version === undefined && !('authorshipScore' in raw)) {
+    summary.migratedFrom = 1;
+  }
+
+  return summary;
+}
+
+/**
+ * Build a fallback summary used when generation fails
+ */
+export function fallbackSummary(weakness, overallComment) {
+  return {
+    version: SUMMARY_SCHEMA_VERSION,
+    authorshipScore: null,
+    verdict: 'undetermined',
+    strengths: [],
+    weaknesses: [weakness],
+    overallComment,
+    topicAssessments: [],
+    criteriaScores: [],
+  };
+}
+
+export default {
+  SUMMARY_SCHEMA_VERSION,
+  AUTHORSHIP_VERDICTS,
+  summaryJsonSchema,
+  validateSummary,
+  normalizeSummary,
+  fallbackSummary,
+};
@@ -0,0 +1,85 @@
+/**
+ * Topic review before the interview (인터뷰 전 주제 검토)
+ *
+ * 업로드 후 AI가 뽑은 주제는 바로 쓰이지 않고, 세션 정책에 따라 확정되어야 인터뷰를 시작할 수 있다.
+ * - 'student': 학생이 제목을 고치거나 재분석을 요청한 뒤 확정 (교사도 확정 가능)
+ * - 'teacher': 교사가 상세 화면에서 확정, 학생은 대기
+ *
+ * 모든 분석/수정은 topic_analysis_logs에 기록된다.
+ */
+
+export const TOPIC_REVIEW_POLICIES = ['student', 'teacher'];
+export const DEFAULT_TOPIC_REVIEW_POLICY = 'student';
+
+// 학생이 요청할 수 있는 재분석 횟수 (교사는 제한 없음)
+export const MAX_STUDENT_REANALYSES = 2;
+export const MAX_TOPIC_TITLE_LENGTH = 100;
+
+/**
+ * @returns {{ policy: string|null, error: string|null }} - policy null when not given
+ */
+export function validateTopicReviewPolicy(value) {
+  if (value === null || value === undefined || value === '') {
+    return { policy: null, error: null };
+  }
+  if (!TOPIC_REVIEW_POLICIES.includes(value)) {
+    return { policy: null, error: `topic_review_policy must be one of ${TOPIC_REVIEW_POLICIES.join(', ')}` };
+  }
+  return { policy: value, error: null };
+}
+
+/**
+ * Apply edited titles to the analyzed topics (개수와 순서는 유지, 제목만 수정)
+ * 교사 지정 주제(source 'teacher')는 세션 설정에서만 바꿀 수 있으므로 그대로 둔다.
+ * @param {Array<{ id, title, source? }>} current - analyzed_topics
+ * @param {Array<{ title }>} edited
+ * @returns {{ topics: Array<{ id, title }>, changed: boolean, errors: string[] }}
+ */
+export function applyTopicEdits(current, edited) {
+  const topics = current || [];
+  if (!Array.isArray(edited) || edited.length !== topics.length) {
+    return { topics, changed: false, errors: [`topics must contain exactly ${topics.length} items`] };
+  }
+
+  const errors = [];
+  const updated = topics.map((topic, index) => {
+    if (topic.source === 'teacher') return topic;
+    const title = typeof edited[index]?.title === 'string' ? edited[index].title.trim() : '';
+    if (!title) errors.push(`topics[${index}].title is required`);
+    if (title.length > MAX_TOPIC_TITLE_LENGTH) {
+      errors.push(`topics[${index}].title must be at most ${MAX_TOPIC_TITLE_LENGTH} characters`);
+    }
+    return { ...topic, title };
+  });
+
+  if (errors.length > 0) return { topics, changed: false, errors };
+  const changed = updated.some((topic, index) => topic.title !== topics[index].title);
+  return { topics: updated, changed, errors };
+}
+
+/**
+ * Review status shown to the student and teacher
+ */
+export function topicReviewState(participant, studentReanalysisCount = 0) {
+  const policy = participant.topic_review_policy || DEFAULT_TOPIC_REVIEW_POLICY;
+  const confirmed = Boolean(participant.topics_confirmed_at);
+  return {
+    policy,
+    confirmed,
+    confirmedBy: participant.topics_confirmed_by || null,
+    confirmedAt: participant.topics_confirmed_at || null,
+    fallback: participant.topics_fallback === true,
+    reanalysesLeft: Math.max(0, MAX_STUDENT_REANALYSES - studentReanalysisCount),
+    studentCanEdit: !confirmed && policy === 'student' && participant.status === 'file_submitted',
+  };
+}
+
+export default {
+  TOPIC_REVIEW_POLICIES,
+  DEFAULT_TOPIC_REVIEW_POLICY,
+  MAX_STUDENT_REANALYSES,
+  MAX_TOPIC_TITLE_LENGTH,
+  validateTopicReviewPolicy,
+  applyTopicEdits,
+  topicReviewState,
+};
@@ -0,0 +1,92 @@
+import db from '../db/connection.js';
+import { deleteStoredFile } from '../services/fileStorage/index.js';
+
+/**
+ * Audio Retention Worker
+ * 보관 기간이 지난 음성 답변 녹음 삭제
+ *
+ * answer_recordings.expires_at이 지난 녹음의 파일을 지우고 행을 삭제한다.
+ * (interview_conversations.recording_id는 ON DELETE SET NULL)
+ */
+
+const CHECK_INTERVAL = 60 * 60 * 1000; // ms (1시간) - 체크 주기
+const BATCH_SIZE = 100;
+
+/**
+ * 만료된 녹음 삭제 - 파일 삭제에 실패한 녹음은 다음 주기에 다시 시도
+ */
+export async function deleteExpiredRecordings() {
+  try {
+    const expired = await db.query(
+      `SELECT id, storage_url FROM answer_recordings
+       WHERE expires_at < NOW()
+       ORDER BY expires_at
+       LIMIT $1`,
+      [BATCH_SIZE]
+    );
+
+    let deleted = 0;
+    for (const recording of expired.rows) {
+      try {
+        await deleteStoredFile(recording.storage_url);
+      } catch (error) {
+        console.error(`[AudioRetention] Failed to delete file for recording ${recording.id}:`, error.message);
+        continue;
+      }
+
+      await db.query(
+        `UPDATE interview_conversations SET audio_url = NULL WHERE recording_id = $1`,
+        [recording.id]
+      );
+      await db.query('DELETE FROM answer_recordings WHERE id = $1', [recording.id]);
+      deleted++;
+    }
+
+    return deleted;
+  } catch (error) {
+    console.error('[AudioRetention] Error deleting expired recordings:', error);
+    return 0;
+  }
+}
+
+async function runChecks() {
+  const deleted = await deleteExpiredRecordings();
+  if (deleted > 0) {
+    console.log(`[AudioRetention] Deleted ${deleted} expired recordings`);
+  }
+}
+
+let intervalId = null;
+
+/**
+ * 워커 시작
+ */
+export function startAudioRetention() {
+  if (intervalId) {
+    console.log('[AudioRetention] Already running');
+    return;
+  }
+
+  console.log(`[AudioRetention] Starting with ${CHECK_INTERVAL}ms interval`);
+  intervalId = setInterval(runChecks, CHECK_INTERVAL);
+
+  // 즉시 한 번 실행
+  runChecks();
+}
+
+/**
+ * 워커 중지
+ */
+export function stopAudioRetention() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[AudioRetention] Stopped');
+  }
+}
+
+export default {
+  startAudioRetention,
+  stopAudioRetention,
+  deleteExpiredRecordings,
+};
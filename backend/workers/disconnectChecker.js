@@ -1,4 +1,5 @@
 import db from '../db/connection.js';
+import { publishSessionEvent, topicEventFields } from '../services/sessionEvents.js';
 
 /**
  * Disconnect Checker Worker
@@ -7,7 +8,7 @@ import db from '../db/connection.js';
  * 주요 기능:
  * 1. 하트비트 15초 초과 시 이탈 감지
  * 2. 이탈 30분 초과 시 포기(abandoned) 처리
- * 3. 주제별 시간 초과 처리
+ * 3. 주제별 시간 초과 처리 (교사가 일시정지한 인터뷰는 제외)
  */
 
 const HEARTBEAT_TIMEOUT = 15; // seconds - 이탈 감지 기준
@@ -51,6 +52,12 @@ async function checkDisconnectedParticipants() {
             AND current_phase = 'topic_active'
         `, [participant.id]);
 
+        publishSessionEvent(participant.session_id, 'disconnected', {
+          participantId: participant.id,
+          studentName: participant.student_name,
+          status: 'interview_paused',
+        });
+
         console.log(`[DisconnectChecker] Participant disconnected: ${participant.student_name} (${participant.id})`);
       }
     }
@@ -89,6 +96,12 @@ async function checkTimeoutParticipants() {
           WHERE participant_id = $1
         `, [participant.id]);
 
+        publishSessionEvent(participant.session_id, 'completed', {
+          participantId: participant.id,
+          studentName: participant.student_name,
+          status: 'abandoned',
+        });
+
         console.log(`[DisconnectChecker] Participant abandoned (timeout): ${participant.student_name} (${participant.id})`);
       }
     }
@@ -122,6 +135,7 @@ async function checkTopicTimeouts() {
         ist.topics_state,
         ist.topic_started_at,
         sp.student_name,
+        sp.session_id,
         sp.status as participant_status,
         ass.topic_count,
         ass.topic_duration
@@ -129,6 +143,7 @@ async function checkTopicTimeouts() {
       JOIN student_participants sp ON sp.id = ist.participant_id
       JOIN assignment_sessions ass ON ass.id = sp.session_id
       WHERE ist.current_phase IN ('topic_active', 'topic_paused')
+        AND ist.teacher_paused_at IS NULL
         AND sp.status IN ('interview_in_progress', 'interview_paused')
     `);
 
@@ -156,7 +171,8 @@ async function checkTopicTimeouts() {
           status: 'timeout'
         };
 
-        const isLastTopic = row.current_topic_index >= row.topic_count - 1;
+        // 주제 수는 topics_state 기준 (인터뷰 시작 뒤 세션 설정이 바뀌었거나 분석된 주제가 적으면 topic_count와 다르다)
+        const isLastTopic = row.current_topic_index >= topicsState.length - 1;
         const isDisconnected = row.participant_status === 'interview_paused';
 
         if (isLastTopic) {
@@ -179,6 +195,12 @@ async function checkTopicTimeouts() {
             WHERE id = $1
           `, [row.participant_id]);
 
+          publishSessionEvent(row.session_id, 'completed', {
+            participantId: row.participant_id,
+            studentName: row.student_name,
+            status: 'timeout',
+          });
+
           console.log(`[DisconnectChecker] Interview timeout (last topic): ${row.student_name}`);
         } else if (isDisconnected) {
           // 이탈 중 시간 만료 - 재접속 시 전환 페이지 표시 위해 별도 상태
@@ -191,6 +213,13 @@ async function checkTopicTimeouts() {
             WHERE id = $2
           `, [JSON.stringify(updatedTopicsState), row.state_id]);
 
+          publishSessionEvent(row.session_id, 'topic_changed', {
+            participantId: row.participant_id,
+            studentName: row.student_name,
+            status: row.participant_status,
+            ...topicEventFields(updatedTopicsState, row.current_topic_index, 'topic_expired_while_away', null),
+          });
+
           console.log(`[DisconnectChecker] Topic expired while disconnected: ${row.student_name} (topic ${row.current_topic_index + 1})`);
         } else {
           // 접속 중 시간 만료 - 다음 주제로 전환 대기
@@ -204,6 +233,13 @@ async function checkTopicTimeouts() {
             WHERE id = $2
           `, [JSON.stringify(updatedTopicsState), row.state_id]);
 
+          publishSessionEvent(row.session_id, 'topic_changed', {
+            participantId: row.participant_id,
+            studentName: row.student_name,
+            status: row.participant_status,
+            ...topicEventFields(updatedTopicsState, row.current_topic_index, 'topic_transition', null),
+          });
+
           console.log(`[DisconnectChecker] Topic timeout, awaiting transition: ${row.student_name} (topic ${row.current_topic_index + 1})`);
         }
 
@@ -239,7 +275,7 @@ async function checkSessionExpiry() {
     if (expiredSessions.rows.length > 0) {
       for (const session of expiredSessions.rows) {
         // 해당 세션의 진행 중인 모든 참가자 종료 처리
-        await db.query(`
+        const endedParticipants = await db.query(`
           UPDATE student_participants
           SET
             status = CASE
@@ -254,8 +290,18 @@ async function checkSessionExpiry() {
             updated_at = NOW()
           WHERE session_id = $1
             AND status IN ('registered', 'file_submitted', 'interview_in_progress', 'interview_paused')
+          RETURNING id, student_name, status
         `, [session.id]);
 
+        for (const participant of endedParticipants.rows) {
+          if (participant.status !== 'timeout') continue;
+          publishSessionEvent(session.id, 'completed', {
+            participantId: participant.id,
+            studentName: participant.student_name,
+            status: 'timeout',
+          });
+        }
+
         console.log(`[DisconnectChecker] Session expired: ${session.title} (${session.id})`);
       }
     }
@@ -3,29 +3,23 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { CheckCircle, XCircle, Clock, AlertTriangle, Home } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, AlertTriangle, Home, RotateCcw } from 'lucide-react';
 import { interviewApi, ApiError } from '@/lib/api';
 import { useStudentStore } from '@/lib/store';
 import { cn, getStatusLabel } from '@/lib/utils';
-
-interface Summary {
-  overall_assessment?: string;
-  score?: number;
-  key_findings?: string[];
-  topic_summaries?: Array<{
-    topic: string;
-    assessment: string;
-  }>;
-}
+import { parseInterviewSummary, getVerdictLabel, getVerdictColor, type InterviewSummary } from '@/lib/summary';
+import { getAttemptLabel, type AttemptPolicy } from '@/lib/attempts';
 
 export default function InterviewCompletePage() {
   const router = useRouter();
   const { sessionToken, participant, clearSession, setParticipant, _hasHydrated } = useStudentStore();
 
   const [status, setStatus] = useState<string>('');
-  const [summary, setSummary] = useState<Summary | null>(null);
+  const [summary, setSummary] = useState<InterviewSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [attempts, setAttempts] = useState<AttemptPolicy | null>(null);
+  const [isRetaking, setIsRetaking] = useState(false);
 
   useEffect(() => {
     // Wait for hydration
@@ -48,7 +42,7 @@ export default function InterviewCompletePage() {
       // Try to complete the interview (generates summary if not already done)
       try {
         const completeRes = await interviewApi.complete(sessionToken);
-        setSummary(completeRes.summary as Summary);
+        setSummary(parseInterviewSummary(completeRes.summary));
       } catch {
         // Already completed, just get state
       }
@@ -66,8 +60,9 @@ export default function InterviewCompletePage() {
         });
       }
 
-      if (stateRes.participant.summary) {
-        setSummary(stateRes.participant.summary as Summary);
+      const storedSummary = parseInterviewSummary(stateRes.participant.summary);
+      if (storedSummary) {
+        setSummary(storedSummary);
       }
     } catch (err) {
       if (err instanceof ApiError) {
@@ -76,11 +71,41 @@ export default function InterviewCompletePage() {
           router.push('/');
           return;
         }
-        setError(err.message);
+        // 시간 초과/이탈로 끝난 인터뷰는 상태 조회가 막혀 있다
+        const endedStatus = (err.data as { status?: string } | undefined)?.status;
+        if (err.status === 403 && endedStatus) {
+          setStatus(endedStatus);
+        } else {
+          setError(err.message);
+        }
       }
     } finally {
       setIsLoading(false);
     }
+
+    try {
+      const attemptsRes = await interviewApi.getAttempts(sessionToken);
+      setAttempts(attemptsRes.attempts);
+    } catch {
+      setAttempts(null);
+    }
+  };
+
+  const handleRetake = async () => {
+    if (!sessionToken || !attempts) return;
+    if (!confirm(`${getAttemptLabel(attempts.attemptNumber + 1)} 응시를 시작합니다. 과제를 다시 제출하고 인터뷰를 처음부터 진행합니다. 계속하시겠습니까?`)) return;
+
+    try {
+      setIsRetaking(true);
+      const res = await interviewApi.retake(sessionToken);
+      if (participant) {
+        setParticipant({ ...participant, status: res.status });
+      }
+      router.push('/interview/upload');
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      setIsRetaking(false);
+    }
   };
 
   const handleExit = () => {
@@ -143,6 +168,7 @@ export default function InterviewCompletePage() {
             </h1>
             <p className="text-gray-500">
               {participant?.student_name}님의 인터뷰 결과
+              {attempts && attempts.allowedAttempts > 1 && ` (${getAttemptLabel(attempts.attemptNumber)})`}
             </p>
             <span
               className={cn(
@@ -168,53 +194,84 @@ export default function InterviewCompletePage() {
           {summary && (
             <div className="space-y-6">
               {/* Score */}
-              {summary.score !== undefined && (
+              {summary.authorshipScore !== null && (
                 <div className="text-center p-6 bg-primary-50 rounded-xl">
-                  <p className="text-sm text-primary-600 mb-1">종합 점수</p>
+                  <p className="text-sm text-primary-600 mb-1">직접 작성 가능성</p>
                   <p className="text-4xl font-bold text-primary-700">
-                    {summary.score}
+                    {summary.authorshipScore}
                     <span className="text-xl">/100</span>
                   </p>
+                  <span
+                    className={cn(
+                      'inline-block mt-2 px-3 py-1 text-sm font-medium rounded-full',
+                      getVerdictColor(summary.verdict)
+                    )}
+                  >
+                    {getVerdictLabel(summary.verdict)}
+                  </span>
                 </div>
               )}
 
-              {/* Overall Assessment */}
-              {summary.overall_assessment && (
+              {/* Overall Comment */}
+              {summary.overallComment && (
                 <div className="p-4 bg-gray-50 rounded-lg">
                   <h3 className="font-medium text-gray-900 mb-2">종합 평가</h3>
                   <p className="text-gray-700 whitespace-pre-wrap">
-                    {summary.overall_assessment}
+                    {summary.overallComment}
                   </p>
                 </div>
               )}
 
-              {/* Key Findings */}
-              {summary.key_findings && summary.key_findings.length > 0 && (
-                <div className="p-4 bg-gray-50 rounded-lg">
-                  <h3 className="font-medium text-gray-900 mb-2">주요 발견점</h3>
+              {/* Strengths */}
+              {summary.strengths.length > 0 && (
+                <div className="p-4 bg-green-50 rounded-lg">
+                  <h3 className="font-medium text-green-900 mb-2">잘한 점</h3>
+                  <ul className="space-y-2">
+                    {summary.strengths.map((item, index) => (
+                      <li
+                        key={index}
+                        className="flex items-start gap-2 text-green-800"
+                      >
+                        <span className="text-green-500 mt-1">•</span>
+                        {item}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Weaknesses */}
+              {summary.weaknesses.length > 0 && (
+                <div className="p-4 bg-orange-50 rounded-lg">
+                  <h3 className="font-medium text-orange-900 mb-2">보완할 점</h3>
                   <ul className="space-y-2">
-                    {summary.key_findings.map((finding, index) => (
+                    {summary.weaknesses.map((item, index) => (
                       <li
                         key={index}
-                        className="flex items-start gap-2 text-gray-700"
+                        className="flex items-start gap-2 text-orange-800"
                       >
-                        <span className="text-primary-500 mt-1">•</span>
-                        {finding}
+                        <span className="text-orange-500 mt-1">•</span>
+                        {item}
                       </li>
                     ))}
                   </ul>
                 </div>
               )}
 
-              {/* Topic Summaries */}
-              {summary.topic_summaries && summary.topic_summaries.length > 0 && (
+              {/* Topic Assessments */}
+              {summary.topicAssessments.length > 0 && (
                 <div>
                   <h3 className="font-medium text-gray-900 mb-3">주제별 평가</h3>
                   <div className="space-y-3">
-                    {summary.topic_summaries.map((topic, index) => (
-                      <div key={index} className="p-4 bg-gray-50 rounded-lg">
-                        <div className="font-medium text-gray-800 mb-1">
-                          {index + 1}. {topic.topic}
+                    {summary.topicAssessments.map((topic) => (
+                      <div key={topic.topicIndex} className="p-4 bg-gray-50 rounded-lg">
+                        <div className="flex items-center justify-between font-medium text-gray-800 mb-1">
+                          <span>
+                            {topic.topicIndex + 1}. {topic.topic}
+                          </span>
+                          {topic.score !== null && (
+                            <span className="text-sm text-gray-500">{topic.score}/100</span>
+                          )}
                         </div>
                         <p className="text-sm text-gray-600">{topic.assessment}</p>
                       </div>
@@ -234,7 +291,17 @@ export default function InterviewCompletePage() {
           )}
 
           {/* Actions */}
-          <div className="mt-8 pt-6 border-t border-gray-200">
+          <div className="mt-8 pt-6 border-t border-gray-200 space-y-3">
+            {attempts?.canRetake && (
+              <button
+                onClick={handleRetake}
+                disabled={isRetaking}
+                className="w-full py-3 rounded-lg font-medium text-primary-700 border border-primary-300 hover:bg-primary-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <RotateCcw className="w-5 h-5" />
+                {isRetaking ? '준비 중...' : `다시 응시하기 (남은 기회 ${attempts.remaining}회)`}
+              </button>
+            )}
             <button
               onClick={handleExit}
               className="w-full py-3 rounded-lg font-medium text-white bg-primary-600 hover:bg-primary-700 transition-colors flex items-center justify-center gap-2"
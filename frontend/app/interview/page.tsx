@@ -2,14 +2,21 @@
 
 import { useEffect, useState, useRef, useCallback, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Send, Mic, MicOff, Clock, ArrowRight, Volume2 } from 'lucide-react';
+import { Send, Mic, MicOff, Clock, ArrowRight, Volume2, FileText, X, AlertTriangle, Pause } from 'lucide-react';
 import { interviewApi, speechApi, ApiError } from '@/lib/api';
 import { useStudentStore } from '@/lib/store';
 import { cn, formatTime } from '@/lib/utils';
+import { canStreamAudio, playAudioStream, type AudioPlayback } from '@/lib/streamingAudio';
+import { splitByCitations, type Citation } from '@/lib/citations';
+import { createAnswerRecorder, type AnswerTelemetryInput } from '@/lib/answerTelemetry';
+import type { IntegrityEventInput, IntegritySettings } from '@/lib/integrity';
+import { getInterventionNotice } from '@/lib/intervention';
 
 interface Message {
   role: 'ai' | 'student';
   content: string;
+  streaming?: boolean; // AI question still arriving
+  citations?: Citation[] | null; // assignment passages the question refers to
 }
 
 function InterviewPageContent() {
@@ -40,18 +47,105 @@ function InterviewPageContent() {
   const [isTopicExpiredWhileAway, setIsTopicExpiredWhileAway] = useState(false);
   const [handlingTimeout, setHandlingTimeout] = useState(false);
   const [hasTimeInitialized, setHasTimeInitialized] = useState(false);
+  const [assignmentText, setAssignmentText] = useState('');
+  const [showDocument, setShowDocument] = useState(false);
+  const [activeCitations, setActiveCitations] = useState<Citation[] | null>(null);
+  const [integrity, setIntegrity] = useState<IntegritySettings>({ enabled: false, penaltySeconds: 0 });
+  const [focusLossCount, setFocusLossCount] = useState(0);
+  const [showFocusWarning, setShowFocusWarning] = useState(false);
+  const [pasteBlocked, setPasteBlocked] = useState(false);
+  // 교사 조치 (일시정지 중에는 시간이 흐르지 않고 답변할 수 없다)
+  const [teacherPaused, setTeacherPaused] = useState(false);
+  const [teacherNotice, setTeacherNotice] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const citationMarkRef = useRef<HTMLElement | null>(null);
   const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const playbackRef = useRef<AudioPlayback | null>(null);
   const isTimeInitializedRef = useRef(false);
   const isTimerRunningRef = useRef(false);
+  // 채팅 답변 입력 행동 기록 (질문이 표시될 때마다 새로 시작)
+  const answerRecorderRef = useRef(createAnswerRecorder());
+  // 무결성 모드 기록 (다음 heartbeat에 함께 전송)
+  const integrityQueueRef = useRef<IntegrityEventInput[]>([]);
+  const hiddenAtRef = useRef<number | null>(null);
+  // 마지막으로 확인한 교사 조치 (undefined: 아직 확인 전 - 페이지를 열기 전의 조치는 안내하지 않음)
+  const lastTeacherActionRef = useRef<string | null | undefined>(undefined);
 
   const isVoiceMode = participant?.status === 'interview_in_progress'; // Simplified check
 
+  const showCitations = (citations: Citation[]) => {
+    setActiveCitations(citations);
+    setShowDocument(true);
+  };
+
+  useEffect(() => {
+    answerRecorderRef.current = createAnswerRecorder();
+  }, [currentQuestion]);
+
+  // 탭 전환/창 포커스 변화를 현재 답변 기록에 남긴다
+  useEffect(() => {
+    const onVisibilityChange = () => answerRecorderRef.current.visibility(document.hidden);
+    const onBlur = () => answerRecorderRef.current.focus(false);
+    const onFocus = () => answerRecorderRef.current.focus(true);
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', onBlur);
+    window.addEventListener('focus', onFocus);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', onBlur);
+      window.removeEventListener('focus', onFocus);
+    };
+  }, []);
+
+  // 무결성 모드: 화면 이탈/복귀를 기록하고 돌아오면 전체 화면 경고를 보여준다
+  useEffect(() => {
+    if (!integrity.enabled) return;
+
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAtRef.current = Date.now();
+        integrityQueueRef.current.push({ type: 'focus_lost', at: new Date().toISOString() });
+        setFocusLossCount((count) => count + 1);
+        setShowFocusWarning(true);
+      } else if (hiddenAtRef.current !== null) {
+        integrityQueueRef.current.push({
+          type: 'focus_returned',
+          at: new Date().toISOString(),
+          durationMs: Date.now() - hiddenAtRef.current,
+        });
+        hiddenAtRef.current = null;
+      }
+    };
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [integrity.enabled]);
+
+  useEffect(() => {
+    if (!pasteBlocked) return;
+    const timeout = setTimeout(() => setPasteBlocked(false), 3000);
+    return () => clearTimeout(timeout);
+  }, [pasteBlocked]);
+
+  useEffect(() => {
+    if (!teacherNotice) return;
+    const timeout = setTimeout(() => setTeacherNotice(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [teacherNotice]);
+
+  // Bring the first highlighted passage into view
+  useEffect(() => {
+    if (showDocument) {
+      citationMarkRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [activeCitations, showDocument]);
+
   // Handle URL query params for transition page (from reconnect)
   useEffect(() => {
     const showTransitionParam = searchParams.get('showTransition');
@@ -116,7 +210,8 @@ function InterviewPageContent() {
   useEffect(() => {
     const shouldRun = hasTimeInitialized &&
                       interviewState?.current_phase === 'topic_active' &&
-                      !showTransition;
+                      !showTransition &&
+                      !teacherPaused;
 
     if (shouldRun && !isTimerRunningRef.current) {
       isTimerRunningRef.current = true;
@@ -142,7 +237,7 @@ function InterviewPageContent() {
       }
       isTimerRunningRef.current = false;
     };
-  }, [hasTimeInitialized, interviewState?.current_phase, showTransition]);
+  }, [hasTimeInitialized, interviewState?.current_phase, showTransition, teacherPaused]);
 
   // Handle topic timeout when time reaches 0
   useEffect(() => {
@@ -151,11 +246,12 @@ function InterviewPageContent() {
       hasTimeInitialized &&
       interviewState?.current_phase === 'topic_active' &&
       !handlingTimeout &&
-      !showTransition
+      !showTransition &&
+      !teacherPaused
     ) {
       handleTopicTimeout();
     }
-  }, [timeLeft, hasTimeInitialized, interviewState?.current_phase, handlingTimeout, showTransition]);
+  }, [timeLeft, hasTimeInitialized, interviewState?.current_phase, handlingTimeout, showTransition, teacherPaused]);
 
   const handleTopicTimeout = async () => {
     if (!sessionToken || handlingTimeout) return;
@@ -202,13 +298,23 @@ function InterviewPageContent() {
 
       if (res.interview_state) {
         setInterviewState(res.interview_state);
+        setTeacherPaused(!!res.interview_state.teacher_paused);
+      }
+
+      if (res.assignment_text) {
+        setAssignmentText(res.assignment_text);
+      }
+
+      if (res.integrity) {
+        setIntegrity(res.integrity);
       }
 
       // Restore all conversations for current topic
       if (res.conversations && res.conversations.length > 0) {
-        const restoredMessages: Message[] = res.conversations.map((c: { role: string; content: string }) => ({
+        const restoredMessages: Message[] = res.conversations.map((c) => ({
           role: c.role as 'ai' | 'student',
-          content: c.content
+          content: c.content,
+          citations: c.citations,
         }));
         setMessages(restoredMessages);
 
@@ -244,10 +350,30 @@ function InterviewPageContent() {
     heartbeatRef.current = setInterval(async () => {
       if (!sessionToken) return;
 
+      const integrityEvents = integrityQueueRef.current;
+      integrityQueueRef.current = [];
+
       try {
-        const res = await interviewApi.heartbeat(sessionToken);
+        const res = await interviewApi.heartbeat(
+          sessionToken,
+          integrityEvents.length > 0 ? { integrity_events: integrityEvents } : undefined
+        );
         setConnected(true);
 
+        // 교사 조치 반영 (시간 연장은 아래 남은 시간으로 반영됨)
+        setTeacherPaused(!!res.teacher_paused);
+        const teacherActionId = res.teacher_action?.id ?? null;
+        if (lastTeacherActionRef.current !== undefined && teacherActionId !== lastTeacherActionRef.current && res.teacher_action) {
+          setTeacherNotice(getInterventionNotice(res.teacher_action));
+        }
+        lastTeacherActionRef.current = teacherActionId;
+
+        // 교사가 초기화함 - 인터뷰 시작 화면으로
+        if (res.status === 'file_submitted' && !res.current_phase) {
+          router.push('/interview/start');
+          return;
+        }
+
         // Use remaining_time or time_left for backward compatibility
         const timeValue = res.remaining_time ?? res.time_left;
         if (timeValue !== undefined) {
@@ -274,6 +400,8 @@ function InterviewPageContent() {
         }
       } catch (err) {
         setConnected(false);
+        // 전송하지 못한 기록은 다음 heartbeat에 다시 보낸다
+        integrityQueueRef.current = [...integrityEvents, ...integrityQueueRef.current];
         if (err instanceof ApiError && err.status === 401) {
           clearSession();
           router.push('/');
@@ -282,7 +410,7 @@ function InterviewPageContent() {
     }, 5000);
   };
 
-  const handleSubmitAnswer = useCallback(async (answer: string) => {
+  const handleSubmitAnswer = useCallback(async (answer: string, telemetry?: AnswerTelemetryInput, recordingId?: string) => {
     if (!sessionToken || !answer.trim() || isSubmitting) return;
 
     try {
@@ -293,7 +421,25 @@ function InterviewPageContent() {
       setMessages((prev) => [...prev, { role: 'student', content: answer }]);
       setInputText('');
 
-      const res = await interviewApi.submitAnswer(sessionToken, { answer });
+      // Render the next question as it is generated
+      let streamStarted = false;
+      const res = await interviewApi.submitAnswerStream(sessionToken, { answer, telemetry, recording_id: recordingId }, (delta) => {
+        if (!streamStarted) {
+          streamStarted = true;
+          setMessages((prev) => [...prev, { role: 'ai', content: delta, streaming: true }]);
+          return;
+        }
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          return [...prev.slice(0, -1), { ...last, content: last.content + delta }];
+        });
+      }).catch((err) => {
+        // Drop the partial question; the error is shown instead
+        if (streamStarted) {
+          setMessages((prev) => prev.filter((msg) => !msg.streaming));
+        }
+        throw err;
+      });
 
       if (res.topic_complete) {
         if (res.is_last_topic) {
@@ -304,9 +450,13 @@ function InterviewPageContent() {
           setShowTransition(true);
         }
       } else if (res.next_question) {
-        // Add AI response
-        setMessages((prev) => [...prev, { role: 'ai', content: res.next_question! }]);
+        // Replace the streamed text with the saved question (fallback questions arrive only here)
+        setMessages((prev) => [
+          ...prev.filter((msg) => !msg.streaming),
+          { role: 'ai', content: res.next_question!, citations: res.citations },
+        ]);
         setCurrentQuestion(res.next_question);
+        answerRecorderRef.current = createAnswerRecorder();
 
         // Speak the question in voice mode
         if (isVoiceMode) {
@@ -330,7 +480,7 @@ function InterviewPageContent() {
       const res = await interviewApi.nextTopic(sessionToken);
 
       // Reset messages for new topic
-      setMessages([{ role: 'ai', content: res.first_question }]);
+      setMessages([{ role: 'ai', content: res.first_question, citations: res.citations }]);
       setCurrentQuestion(res.first_question);
       setShowTransition(false);
 
@@ -351,23 +501,53 @@ function InterviewPageContent() {
   };
 
   // Voice Mode Functions
+  const stopSpeaking = useCallback(() => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+  }, []);
+
+  // Stop audio when leaving the page
+  useEffect(() => stopSpeaking, [stopSpeaking]);
+
+  const playBuffered = async (audioBuffer: ArrayBuffer): Promise<AudioPlayback> => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+
+    const audioData = await audioContextRef.current.decodeAudioData(audioBuffer);
+    const source = audioContextRef.current.createBufferSource();
+    source.buffer = audioData;
+    source.connect(audioContextRef.current.destination);
+
+    const finished = new Promise<void>((resolve) => {
+      source.onended = () => resolve();
+    });
+    source.start(0);
+
+    return { finished, stop: () => source.stop() };
+  };
+
   const speakText = async (text: string) => {
     if (!sessionToken) return;
 
+    stopSpeaking();
+
     try {
       setIsSpeaking(true);
-      const audioBuffer = await speechApi.textToSpeech(sessionToken, text);
-
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
+      const response = await speechApi.streamTextToSpeech(sessionToken, text);
+      const contentType = response.headers.get('Content-Type') || 'audio/mpeg';
+
+      // MediaSource를 지원하지 않는 브라우저(iOS Safari 등)는 전체 수신 후 재생
+      const playback = canStreamAudio(contentType)
+        ? playAudioStream(response)
+        : await playBuffered(await response.arrayBuffer());
+
+      playbackRef.current = playback;
+      await playback.finished;
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        setIsSpeaking(false);
       }
-
-      const audioData = await audioContextRef.current.decodeAudioData(audioBuffer);
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioData;
-      source.connect(audioContextRef.current.destination);
-      source.onended = () => setIsSpeaking(false);
-      source.start(0);
     } catch (err) {
       console.error('TTS error:', err);
       setIsSpeaking(false);
@@ -396,7 +576,8 @@ function InterviewPageContent() {
         try {
           const res = await speechApi.speechToText(sessionToken, audioBlob);
           if (res.text) {
-            handleSubmitAnswer(res.text);
+            // 녹음을 보관하는 세션이면 답변에 연결한다
+            handleSubmitAnswer(res.text, undefined, res.recording_id || undefined);
           }
         } catch (err) {
           console.error('STT error:', err);
@@ -452,7 +633,7 @@ function InterviewPageContent() {
 
       // Reset messages for new topic
       if (res.first_question) {
-        setMessages([{ role: 'ai', content: res.first_question }]);
+        setMessages([{ role: 'ai', content: res.first_question, citations: res.citations }]);
         setCurrentQuestion(res.first_question);
       }
       setShowTransition(false);
@@ -539,6 +720,47 @@ function InterviewPageContent() {
 
   return (
     <main className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Integrity mode: focus-loss warning */}
+      {showFocusWarning && (
+        <div className="fixed inset-0 z-50 bg-gray-900/90 flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+            <div className="w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mx-auto mb-4">
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">인터뷰 화면을 벗어났습니다</h2>
+            <p className="text-gray-600 mb-2">
+              이 인터뷰는 무결성 모드로 진행됩니다. 화면 이탈은 기록되어 선생님께 전달됩니다.
+            </p>
+            <p className="text-sm text-red-600 mb-6">
+              화면 이탈 {focusLossCount}회
+              {integrity.penaltySeconds > 0 && ` · 이탈할 때마다 주제 시간 ${integrity.penaltySeconds}초 차감`}
+            </p>
+            <button
+              onClick={() => setShowFocusWarning(false)}
+              className="w-full py-3 rounded-lg font-medium text-white bg-primary-600 hover:bg-primary-700"
+            >
+              인터뷰로 돌아가기
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Paused by the teacher */}
+      {teacherPaused && (
+        <div className="fixed inset-0 z-40 bg-gray-900/80 flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+            <div className="w-16 h-16 rounded-full bg-yellow-100 flex items-center justify-center mx-auto mb-4">
+              <Pause className="w-8 h-8 text-yellow-600" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">인터뷰가 일시정지되었습니다</h2>
+            <p className="text-gray-600">
+              선생님이 인터뷰를 잠시 멈췄습니다. 다시 시작되면 이어서 진행됩니다.
+            </p>
+            <p className="text-sm text-green-600 mt-2">일시정지 중에는 시간이 흐르지 않습니다.</p>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className="bg-white shadow-sm px-4 py-3">
         <div className="max-w-4xl mx-auto flex items-center justify-between">
@@ -557,23 +779,73 @@ function InterviewPageContent() {
             )}
           </div>
 
-          {/* Timer */}
-          <div
-            className={cn(
-              'flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg',
-              timeLeft <= 30
-                ? 'bg-red-100 text-red-700'
-                : timeLeft <= 60
-                ? 'bg-yellow-100 text-yellow-700'
-                : 'bg-gray-100 text-gray-700'
+          <div className="flex items-center gap-2">
+            {assignmentText && (
+              <button
+                onClick={() => setShowDocument((prev) => !prev)}
+                className={cn(
+                  'flex items-center gap-1 px-3 py-2 rounded-lg text-sm',
+                  showDocument ? 'bg-primary-100 text-primary-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                )}
+              >
+                <FileText className="w-4 h-4" />
+                과제 보기
+              </button>
             )}
-          >
-            <Clock className="w-5 h-5" />
-            {formatTime(timeLeft)}
+
+            {/* Timer */}
+            <div
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg',
+                timeLeft <= 30
+                  ? 'bg-red-100 text-red-700'
+                  : timeLeft <= 60
+                  ? 'bg-yellow-100 text-yellow-700'
+                  : 'bg-gray-100 text-gray-700'
+              )}
+            >
+              <Clock className="w-5 h-5" />
+              {formatTime(timeLeft)}
+            </div>
           </div>
         </div>
       </header>
 
+      {/* Assignment document (질문을 누르면 인용한 부분 강조) */}
+      {showDocument && assignmentText && (
+        <div className="bg-white border-b px-4 py-3">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">
+                {activeCitations?.length
+                  ? '선택한 질문이 가리키는 부분이 강조되어 있습니다'
+                  : '질문을 누르면 관련된 부분이 강조됩니다'}
+              </span>
+              <button onClick={() => setShowDocument(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="max-h-48 overflow-y-auto p-3 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                {splitByCitations(assignmentText, activeCitations).map((segment, i, segments) =>
+                  segment.highlighted ? (
+                    <mark
+                      key={i}
+                      ref={segments.findIndex((s) => s.highlighted) === i ? citationMarkRef : undefined}
+                      className="bg-yellow-200 text-gray-900 rounded px-0.5"
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-4 py-6">
         <div className="max-w-4xl mx-auto space-y-4">
@@ -586,19 +858,35 @@ function InterviewPageContent() {
               )}
             >
               <div
+                onClick={
+                  msg.role === 'ai' && msg.citations?.length && assignmentText
+                    ? () => showCitations(msg.citations!)
+                    : undefined
+                }
                 className={cn(
                   'max-w-[80%] px-4 py-3 rounded-2xl',
                   msg.role === 'student'
                     ? 'bg-primary-600 text-white rounded-br-md'
-                    : 'bg-white shadow-sm rounded-bl-md'
+                    : 'bg-white shadow-sm rounded-bl-md',
+                  msg.role === 'ai' && msg.citations?.length && assignmentText && 'cursor-pointer',
+                  msg.citations && msg.citations === activeCitations && showDocument && 'ring-2 ring-yellow-300'
                 )}
               >
                 {msg.role === 'ai' && (
                   <div className="flex items-center gap-2 mb-1">
                     <span className="text-xs font-medium text-gray-400">AI</span>
-                    {isVoiceMode && !isSpeaking && (
+                    {msg.citations && msg.citations.length > 0 && assignmentText && (
+                      <span className="flex items-center gap-0.5 text-xs text-yellow-700">
+                        <FileText className="w-3 h-3" />
+                        과제 인용
+                      </span>
+                    )}
+                    {isVoiceMode && !isSpeaking && !msg.streaming && (
                       <button
-                        onClick={() => speakText(msg.content)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          speakText(msg.content);
+                        }}
                         className="text-gray-400 hover:text-gray-600"
                       >
                         <Volume2 className="w-4 h-4" />
@@ -611,7 +899,7 @@ function InterviewPageContent() {
             </div>
           ))}
 
-          {isSubmitting && (
+          {isSubmitting && !messages.some((msg) => msg.streaming) && (
             <div className="flex justify-start">
               <div className="bg-white shadow-sm px-4 py-3 rounded-2xl rounded-bl-md">
                 <div className="flex items-center gap-2">
@@ -628,6 +916,12 @@ function InterviewPageContent() {
       </div>
 
       {/* Error */}
+      {teacherNotice && (
+        <div className="px-4 py-2 bg-blue-50 border-t border-blue-100">
+          <div className="max-w-4xl mx-auto text-blue-700 text-sm">{teacherNotice}</div>
+        </div>
+      )}
+
       {error && (
         <div className="px-4 py-2 bg-red-50 border-t border-red-100">
           <div className="max-w-4xl mx-auto text-red-600 text-sm">
@@ -677,40 +971,56 @@ function InterviewPageContent() {
             </div>
           ) : (
             // Chat Mode Input
-            <form
-              onSubmit={(e) => {
-                e.preventDefault();
-                handleSubmitAnswer(inputText);
-              }}
-              className="flex items-end gap-2"
-            >
-              <textarea
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSubmitAnswer(inputText);
-                  }
+            <>
+              {pasteBlocked && (
+                <p className="mb-2 text-sm text-red-600">이 인터뷰에서는 붙여넣기를 사용할 수 없습니다. 직접 입력해주세요.</p>
+              )}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSubmitAnswer(inputText, answerRecorderRef.current.finish());
                 }}
-                placeholder="답변을 입력하세요..."
-                rows={1}
-                className="flex-1 px-4 py-3 border border-gray-300 rounded-xl resize-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                style={{ minHeight: '48px', maxHeight: '120px' }}
-              />
-              <button
-                type="submit"
-                disabled={!inputText.trim() || isSubmitting}
-                className={cn(
-                  'p-3 rounded-xl transition-colors',
-                  !inputText.trim() || isSubmitting
-                    ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                    : 'bg-primary-600 text-white hover:bg-primary-700'
-                )}
+                className="flex items-end gap-2"
               >
-                <Send className="w-5 h-5" />
-              </button>
-            </form>
+                <textarea
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  onPaste={(e) => {
+                    if (integrity.enabled) {
+                      e.preventDefault();
+                      integrityQueueRef.current.push({ type: 'paste_blocked', at: new Date().toISOString() });
+                      setPasteBlocked(true);
+                      return;
+                    }
+                    answerRecorderRef.current.paste(e.clipboardData.getData('text').length);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSubmitAnswer(inputText, answerRecorderRef.current.finish());
+                      return;
+                    }
+                    answerRecorderRef.current.keyDown(e);
+                  }}
+                  placeholder="답변을 입력하세요..."
+                  rows={1}
+                  className="flex-1 px-4 py-3 border border-gray-300 rounded-xl resize-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  style={{ minHeight: '48px', maxHeight: '120px' }}
+                />
+                <button
+                  type="submit"
+                  disabled={!inputText.trim() || isSubmitting}
+                  className={cn(
+                    'p-3 rounded-xl transition-colors',
+                    !inputText.trim() || isSubmitting
+                      ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                      : 'bg-primary-600 text-white hover:bg-primary-700'
+                  )}
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              </form>
+            </>
           )}
         </div>
       </div>
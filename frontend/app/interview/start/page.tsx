@@ -2,10 +2,11 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Mic, MessageSquare, Play, AlertTriangle } from 'lucide-react';
-import { interviewApi, ApiError } from '@/lib/api';
+import { Mic, MessageSquare, Play, AlertTriangle, ListChecks, RefreshCw, CheckCircle } from 'lucide-react';
+import { interviewApi, ApiError, type AnalyzedTopic, type TopicReview } from '@/lib/api';
 import { useStudentStore } from '@/lib/store';
 import { cn } from '@/lib/utils';
+import type { IntegritySettings } from '@/lib/integrity';
 
 export default function InterviewStartPage() {
   const router = useRouter();
@@ -16,6 +17,12 @@ export default function InterviewStartPage() {
   const [isStarting, setIsStarting] = useState(false);
   const [error, setError] = useState('');
   const [showModeSelection, setShowModeSelection] = useState(false);
+  const [topics, setTopics] = useState<AnalyzedTopic[]>([]);
+  const [titleDrafts, setTitleDrafts] = useState<string[]>([]);
+  const [topicReview, setTopicReview] = useState<TopicReview | null>(null);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [integrity, setIntegrity] = useState<IntegritySettings | null>(null);
 
   useEffect(() => {
     // Wait for hydration
@@ -30,6 +37,20 @@ export default function InterviewStartPage() {
     checkInterviewState();
   }, [sessionToken, router, _hasHydrated]);
 
+  // 교사 확정 대기 중에는 주기적으로 상태 확인
+  const waitingForTeacher = topicReview?.policy === 'teacher' && !topicReview.confirmed;
+  useEffect(() => {
+    if (!waitingForTeacher) return;
+    const timer = setInterval(checkInterviewState, 10000);
+    return () => clearInterval(timer);
+  }, [waitingForTeacher]);
+
+  const applyTopics = (nextTopics: AnalyzedTopic[], review: TopicReview | null) => {
+    setTopics(nextTopics);
+    setTitleDrafts(nextTopics.map((t) => t.title));
+    setTopicReview(review);
+  };
+
   const checkInterviewState = async () => {
     if (!sessionToken) return;
 
@@ -54,6 +75,9 @@ export default function InterviewStartPage() {
         return;
       }
 
+      applyTopics(res.analyzed_topics || [], res.topic_review || null);
+      setIntegrity(res.integrity || null);
+
       // Check if mode selection is needed (student_choice mode)
       if (res.session_interview_mode === 'student_choice') {
         setShowModeSelection(true);
@@ -70,6 +94,53 @@ export default function InterviewStartPage() {
     }
   };
 
+  const handleReanalyze = async () => {
+    if (!sessionToken) return;
+
+    try {
+      setIsReanalyzing(true);
+      setError('');
+      const res = await interviewApi.reanalyzeTopics(sessionToken);
+      applyTopics(res.topics, res.topic_review);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        const code = (err.data as { code?: string })?.code;
+        setError(
+          code === 'reanalysis_limit'
+            ? '다시 분석은 더 이상 요청할 수 없습니다'
+            : '주제를 다시 분석하지 못했습니다. 잠시 후 다시 시도해주세요.'
+        );
+      }
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const handleConfirmTopics = async () => {
+    if (!sessionToken) return;
+
+    if (titleDrafts.some((title) => !title.trim())) {
+      setError('주제 제목을 비워둘 수 없습니다');
+      return;
+    }
+
+    try {
+      setIsConfirming(true);
+      setError('');
+      const res = await interviewApi.confirmTopics(
+        sessionToken,
+        titleDrafts.map((title) => ({ title }))
+      );
+      applyTopics(res.topics, res.topic_review);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError('주제를 확정하지 못했습니다. 다시 시도해주세요.');
+      }
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
   const handleStart = async () => {
     if (!sessionToken) return;
 
@@ -103,6 +174,11 @@ export default function InterviewStartPage() {
           router.push('/');
           return;
         }
+        if ((err.data as { code?: string })?.code === 'topics_unconfirmed') {
+          setError('인터뷰 주제가 아직 확정되지 않았습니다');
+          checkInterviewState();
+          return;
+        }
         setError(err.message);
       } else {
         setError('인터뷰를 시작할 수 없습니다. 다시 시도해주세요.');
@@ -149,6 +225,90 @@ export default function InterviewStartPage() {
             </div>
           )}
 
+          {/* Topic Review */}
+          {topics.length > 0 && (
+            <div className="mb-6">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+                <ListChecks className="w-4 h-4" />
+                인터뷰 주제
+                {topicReview?.confirmed && (
+                  <span className="flex items-center gap-1 text-green-600 font-normal">
+                    <CheckCircle className="w-4 h-4" />
+                    확정됨
+                  </span>
+                )}
+              </label>
+
+              {topicReview?.studentCanEdit ? (
+                <>
+                  <p className="text-sm text-gray-500 mb-3">
+                    AI가 과제에서 찾은 주제입니다. 제목을 고치거나 다시 분석을 요청한 뒤 확정해주세요.
+                  </p>
+                  {topicReview.fallback && (
+                    <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-2 mb-3">
+                      과제를 자동으로 분석하지 못해 기본 주제가 표시되었습니다. 다시 분석하거나 제목을 직접 입력해주세요.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    {titleDrafts.map((title, i) => (
+                      <div key={topics[i]?.id || i} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500 w-6">{i + 1}.</span>
+                        <input
+                          value={title}
+                          maxLength={100}
+                          disabled={topics[i]?.source === 'teacher'}
+                          onChange={(e) =>
+                            setTitleDrafts(titleDrafts.map((t, j) => (j === i ? e.target.value : t)))
+                          }
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-600"
+                        />
+                        {topics[i]?.source === 'teacher' && (
+                          <span className="text-xs text-primary-700 whitespace-nowrap">교사 지정</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mt-3">
+                    <button
+                      onClick={handleReanalyze}
+                      disabled={isReanalyzing || isConfirming || topicReview.reanalysesLeft === 0}
+                      className="py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+                    >
+                      <RefreshCw className={cn('w-4 h-4', isReanalyzing && 'animate-spin')} />
+                      다시 분석 ({topicReview.reanalysesLeft}회 남음)
+                    </button>
+                    <button
+                      onClick={handleConfirmTopics}
+                      disabled={isReanalyzing || isConfirming}
+                      className="py-2 rounded-lg bg-primary-600 text-sm text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      주제 확정
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <ol className="space-y-1">
+                    {topics.map((topic, i) => (
+                      <li key={topic.id || i} className="p-2 bg-gray-50 rounded-lg text-sm text-gray-800">
+                        {i + 1}. {topic.title}
+                        {topic.source === 'teacher' && (
+                          <span className="ml-2 text-xs text-primary-700">교사 지정</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {waitingForTeacher && (
+                    <p className="text-sm text-blue-700 bg-blue-50 rounded-lg p-2 mt-3">
+                      선생님이 주제를 확인하고 있습니다. 확정되면 인터뷰를 시작할 수 있습니다.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Mode Selection */}
           {showModeSelection && (
             <div className="mb-6">
@@ -212,6 +372,15 @@ export default function InterviewStartPage() {
                   <li>• 브라우저를 닫거나 새로고침해도 시간은 계속 흐릅니다</li>
                   <li>• 주제 진행 중 이탈 시 시간이 차감됩니다</li>
                   <li>• 30분 이상 이탈 시 인터뷰가 자동 종료됩니다</li>
+                  {integrity?.enabled && (
+                    <>
+                      <li>• 무결성 모드: 답변 입력창에 붙여넣기를 할 수 없습니다</li>
+                      <li>
+                        • 무결성 모드: 인터뷰 화면을 벗어날 때마다 기록되어 선생님께 전달됩니다
+                        {integrity.penaltySeconds > 0 && ` (이탈 1회당 주제 시간 ${integrity.penaltySeconds}초 차감)`}
+                      </li>
+                    </>
+                  )}
                 </ul>
               </div>
             </div>
@@ -220,10 +389,10 @@ export default function InterviewStartPage() {
           {/* Start Button */}
           <button
             onClick={handleStart}
-            disabled={isStarting || (showModeSelection && !selectedMode)}
+            disabled={isStarting || (showModeSelection && !selectedMode) || !topicReview?.confirmed}
             className={cn(
               'w-full py-4 rounded-lg font-medium text-white transition-colors flex items-center justify-center gap-2 text-lg',
-              isStarting || (showModeSelection && !selectedMode)
+              isStarting || (showModeSelection && !selectedMode) || !topicReview?.confirmed
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-green-600 hover:bg-green-700'
             )}
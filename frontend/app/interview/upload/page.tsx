@@ -3,10 +3,64 @@
 import { useEffect, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Upload, FileText, X, ArrowRight, AlertCircle } from 'lucide-react';
-import { interviewApi, ApiError } from '@/lib/api';
+import { interviewApi, ApiError, type AnalyzedTopic, type UploadErrorData, type UploadFormat } from '@/lib/api';
 import { useStudentStore } from '@/lib/store';
 import { cn } from '@/lib/utils';
 
+// 서버 목록을 받기 전 기본값 (이미지는 서버에 OCR이 설정된 경우에만 추가됨)
+const DEFAULT_FORMATS: UploadFormat[] = [
+  { format: 'pdf', label: 'PDF', extensions: ['.pdf'] },
+  { format: 'docx', label: 'Word (DOCX)', extensions: ['.docx'] },
+  { format: 'hwp', label: '한/글 (HWP)', extensions: ['.hwp'] },
+  { format: 'hwpx', label: '한/글 (HWPX)', extensions: ['.hwpx'] },
+  { format: 'txt', label: '텍스트 (TXT)', extensions: ['.txt'] },
+  { format: 'md', label: 'Markdown', extensions: ['.md', '.markdown'] },
+];
+
+function extensionsLabel(formats: UploadFormat[]) {
+  return formats
+    .flatMap((f) => f.extensions)
+    .filter((ext) => ext !== '.markdown' && ext !== '.jpeg')
+    .map((ext) => ext.slice(1).toUpperCase())
+    .join(', ');
+}
+
+/**
+ * Turn the upload error code into a per-format message
+ */
+function uploadErrorMessage(data: UploadErrorData, formats: UploadFormat[]) {
+  const label = formats.find((f) => f.format === data.format)?.label || '파일';
+
+  switch (data.code) {
+    case 'unsupported_format':
+      return `지원하지 않는 파일 형식입니다. ${extensionsLabel(formats)} 파일을 업로드해주세요`;
+    case 'encrypted':
+      return data.format === 'hwp'
+        ? '암호가 설정되었거나 배포용으로 저장된 한/글 문서입니다. 일반 문서로 다시 저장한 뒤 업로드해주세요'
+        : `${label} 파일에 암호가 설정되어 있습니다. 암호를 해제한 뒤 다시 업로드해주세요`;
+    case 'corrupt':
+      if (data.format === 'hwp') {
+        return '한/글 파일을 읽을 수 없습니다. 한/글 2002 이후 버전에서 저장했는지 확인하거나 HWPX 또는 PDF로 저장해 업로드해주세요';
+      }
+      if (data.format === 'txt' || data.format === 'md') {
+        return '텍스트 파일의 인코딩을 읽을 수 없습니다. UTF-8로 저장한 뒤 업로드해주세요';
+      }
+      return `${label} 파일을 읽을 수 없습니다. 파일이 손상되지 않았는지 확인해주세요`;
+    case 'empty_document':
+      return data.format === 'pdf'
+        ? '스캔한 PDF로 보여 텍스트를 추출할 수 없습니다. 글자가 선택되는 PDF나 원본 문서 파일을 업로드해주세요'
+        : `${label} 파일에서 텍스트를 찾을 수 없습니다`;
+    case 'ocr_unavailable':
+      return `이미지 파일은 업로드할 수 없습니다. ${extensionsLabel(formats)} 문서 파일로 업로드해주세요`;
+    case 'ocr_failed':
+      return '파일에서 글자를 인식하지 못했습니다. 더 선명한 파일로 다시 시도해주세요';
+    case 'too_short':
+      return '과제 내용이 너무 짧습니다. 100자 이상의 과제를 업로드해주세요';
+    default:
+      return data.error || '업로드에 실패했습니다. 다시 시도해주세요.';
+  }
+}
+
 export default function UploadPage() {
   const router = useRouter();
   const { sessionToken, participant, clearSession, setParticipant, _hasHydrated } = useStudentStore();
@@ -15,10 +69,21 @@ export default function UploadPage() {
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadComplete, setUploadComplete] = useState(false);
-  const [topics, setTopics] = useState<Array<{ title: string; description: string }>>([]);
+  const [topics, setTopics] = useState<AnalyzedTopic[]>([]);
   const [error, setError] = useState('');
   const [dragOver, setDragOver] = useState(false);
   const [isRedirecting, setIsRedirecting] = useState(false);
+  const [formats, setFormats] = useState<UploadFormat[]>(DEFAULT_FORMATS);
+
+  useEffect(() => {
+    if (!sessionToken) return;
+    interviewApi
+      .getUploadFormats(sessionToken)
+      .then((res) => setFormats(res.formats))
+      .catch(() => {
+        // keep defaults
+      });
+  }, [sessionToken]);
 
   useEffect(() => {
     // Wait for hydration before checking session
@@ -93,8 +158,9 @@ export default function UploadPage() {
   };
 
   const handleFileSelect = (selectedFile: File) => {
-    if (selectedFile.type !== 'application/pdf') {
-      setError('PDF 파일만 업로드할 수 있습니다');
+    const ext = selectedFile.name.slice(selectedFile.name.lastIndexOf('.')).toLowerCase();
+    if (!formats.some((f) => f.extensions.includes(ext))) {
+      setError(uploadErrorMessage({ code: 'unsupported_format' }, formats));
       return;
     }
 
@@ -141,7 +207,7 @@ export default function UploadPage() {
           router.push('/');
           return;
         }
-        setError(err.message);
+        setError(uploadErrorMessage({ error: err.message, ...(err.data as UploadErrorData) }, formats));
       } else {
         setError('업로드에 실패했습니다. 다시 시도해주세요.');
       }
@@ -215,7 +281,7 @@ export default function UploadPage() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf"
+                  accept={formats.flatMap((f) => f.extensions).join(',')}
                   onChange={(e) => {
                     const selectedFile = e.target.files?.[0];
                     if (selectedFile) handleFileSelect(selectedFile);
@@ -246,10 +312,10 @@ export default function UploadPage() {
                   <>
                     <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                     <p className="text-gray-600 mb-2">
-                      PDF 파일을 드래그하거나 클릭하여 선택
+                      과제 파일을 드래그하거나 클릭하여 선택
                     </p>
                     <p className="text-sm text-gray-400">
-                      최대 10MB까지 업로드 가능
+                      {extensionsLabel(formats)} · 최대 10MB까지 업로드 가능
                     </p>
                   </>
                 )}
@@ -288,7 +354,7 @@ export default function UploadPage() {
                   파일 분석 완료
                 </div>
                 <p className="text-green-600 text-sm">
-                  AI가 과제를 분석했습니다. 인터뷰를 시작해주세요.
+                  AI가 과제에서 {topics.length}개의 인터뷰 주제를 찾았습니다. 다음 화면에서 주제를 확인해주세요.
                 </p>
               </div>
 
@@ -297,7 +363,7 @@ export default function UploadPage() {
                 onClick={handleProceed}
                 className="w-full py-3 rounded-lg font-medium text-white bg-primary-600 hover:bg-primary-700 transition-colors flex items-center justify-center gap-2"
               >
-                인터뷰 시작하기
+                주제 확인하기
                 <ArrowRight className="w-5 h-5" />
               </button>
             </>
@@ -308,7 +374,7 @@ export default function UploadPage() {
             <ul className="text-sm text-blue-700 space-y-1">
               <li>• AI가 제출한 과제를 분석하여 인터뷰 주제를 선정합니다</li>
               <li>• 분석에는 약 10-30초가 소요될 수 있습니다</li>
-              <li>• 분석이 완료되면 인터뷰를 시작할 수 있습니다</li>
+              <li>• 분석된 주제를 확인(확정)한 뒤 인터뷰를 시작할 수 있습니다</li>
             </ul>
           </div>
         </div>
@@ -7,6 +7,7 @@ import { Users, Clock, Settings, ArrowRight, AlertCircle } from 'lucide-react';
 import { joinApi, ApiError } from '@/lib/api';
 import { useStudentStore } from '@/lib/store';
 import { cn, getInterviewModeLabel, formatTime } from '@/lib/utils';
+import { getJoinDeviceId, getJoinErrorMessage, type JoinPolicy } from '@/lib/roster';
 
 interface SessionInfo {
   title: string;
@@ -14,6 +15,8 @@ interface SessionInfo {
   interview_mode: string;
   topic_count: number;
   topic_duration: number;
+  audio_retention_days?: number | null;
+  join_policy?: JoinPolicy;
 }
 
 export default function JoinSessionPage() {
@@ -31,8 +34,19 @@ export default function JoinSessionPage() {
   const [formData, setFormData] = useState({
     student_name: '',
     student_id: '',
+    audio_consent: false,
+    pin: '',
   });
 
+  // 명단 확인 세션: 학번 필수, pin/one_time_code면 PIN 또는 참여 코드도 받는다
+  const joinPolicy: JoinPolicy = sessionInfo?.join_policy || 'open';
+  const needsStudentId = joinPolicy !== 'open';
+  const needsCredential = joinPolicy === 'pin' || joinPolicy === 'one_time_code';
+  const canSubmit =
+    !!formData.student_name.trim() &&
+    (!needsStudentId || !!formData.student_id.trim()) &&
+    (!needsCredential || !!formData.pin.trim());
+
   // Ref to prevent reconnect after successful join
   const hasJoinedRef = useRef(false);
 
@@ -121,7 +135,7 @@ export default function JoinSessionPage() {
 
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.student_name.trim()) return;
+    if (!canSubmit) return;
 
     try {
       setIsJoining(true);
@@ -130,19 +144,25 @@ export default function JoinSessionPage() {
       const res = await joinApi.join(accessCode, {
         student_name: formData.student_name.trim(),
         student_id: formData.student_id.trim() || undefined,
+        audio_consent: formData.audio_consent,
+        pin: needsCredential ? formData.pin.trim() : undefined,
+        device_id: getJoinDeviceId(),
       });
 
       // Prevent reconnect from being triggered by sessionToken change
       hasJoinedRef.current = true;
 
+      // 인터뷰가 끝났지만 재응시할 수 있으면 결과 화면에서 다시 시작한다
+      const ended = res.is_reconnection && ['completed', 'abandoned', 'timeout'].includes(res.status || '');
       setSession(res.session_token, {
         ...res.participant,
-        status: 'registered',
+        status: ended ? res.status! : 'registered',
       });
-      router.push('/interview/upload');
+      router.push(ended ? '/interview/complete' : '/interview/upload');
     } catch (err) {
       if (err instanceof ApiError) {
-        setError(err.message);
+        const code = (err.data as { code?: string } | undefined)?.code;
+        setError(getJoinErrorMessage(code, joinPolicy) || err.message);
       } else {
         setError('참여에 실패했습니다. 다시 시도해주세요.');
       }
@@ -247,10 +267,11 @@ export default function JoinSessionPage() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                학번 (선택)
+                {needsStudentId ? '학번 *' : '학번 (선택)'}
               </label>
               <input
                 type="text"
+                required={needsStudentId}
                 value={formData.student_id}
                 onChange={(e) =>
                   setFormData({ ...formData, student_id: e.target.value })
@@ -260,12 +281,55 @@ export default function JoinSessionPage() {
               />
             </div>
 
+            {needsCredential && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {joinPolicy === 'pin' ? 'PIN *' : '참여 코드 *'}
+                </label>
+                <input
+                  type={joinPolicy === 'pin' ? 'password' : 'text'}
+                  inputMode={joinPolicy === 'pin' ? 'numeric' : undefined}
+                  autoComplete="off"
+                  required
+                  value={formData.pin}
+                  onChange={(e) =>
+                    setFormData({ ...formData, pin: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono tracking-widest"
+                  placeholder={joinPolicy === 'pin' ? '6자리 숫자' : '8자리 코드'}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {joinPolicy === 'pin'
+                    ? '선생님께 받은 PIN을 입력하세요. 다시 참여할 때도 같은 PIN을 사용합니다.'
+                    : '선생님께 받은 1회용 코드를 입력하세요. 한 번 사용한 코드는 다시 쓸 수 없습니다.'}
+                </p>
+              </div>
+            )}
+
+            {!!sessionInfo?.audio_retention_days && (
+              <label className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={formData.audio_consent}
+                  onChange={(e) =>
+                    setFormData({ ...formData, audio_consent: e.target.checked })
+                  }
+                  className="mt-0.5"
+                />
+                <span>
+                  (선택) 음성 인터뷰에서 녹음한 답변을 {sessionInfo.audio_retention_days}일 동안 보관하는 데
+                  동의합니다. 녹음은 선생님만 들을 수 있으며 보관 기간이 지나면 자동으로 삭제됩니다.
+                  동의하지 않으면 녹음은 글자로 변환한 뒤 바로 삭제됩니다.
+                </span>
+              </label>
+            )}
+
             <button
               type="submit"
-              disabled={isJoining || !formData.student_name.trim()}
+              disabled={isJoining || !canSubmit}
               className={cn(
                 'w-full py-3 rounded-lg font-medium text-white transition-colors flex items-center justify-center gap-2',
-                isJoining || !formData.student_name.trim()
+                isJoining || !canSubmit
                   ? 'bg-gray-400 cursor-not-allowed'
                   : 'bg-primary-600 hover:bg-primary-700'
               )}
@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Users, Upload, X, TrendingUp, Layers } from 'lucide-react';
+import { coursesApi, ApiError } from '@/lib/api';
+import { useAuthStore } from '@/lib/store';
+import { cn, formatDate, getStatusLabel, getStatusColor } from '@/lib/utils';
+import { getVerdictLabel, getVerdictColor } from '@/lib/summary';
+import { getAttemptLabel } from '@/lib/attempts';
+import {
+  formatScoreChange,
+  getCourseLabel,
+  getScoreColor,
+  type Course,
+  type CourseStudent,
+  type Gradebook,
+  type ScoreStats,
+  type StudentHistoryEntry,
+} from '@/lib/courses';
+
+interface StudentHistory {
+  student: CourseStudent;
+  entries: StudentHistoryEntry[];
+  stats: ScoreStats;
+}
+
+export default function CourseDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { token, isAuthenticated, logout } = useAuthStore();
+
+  const courseId = params.id as string;
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [rosterCsv, setRosterCsv] = useState('');
+  const [rosterReplace, setRosterReplace] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<string | null>(null);
+  const [history, setHistory] = useState<StudentHistory | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) {
+      router.push('/teacher/login');
+      return;
+    }
+
+    loadCourse();
+  }, [isAuthenticated, token, courseId, router]);
+
+  const loadCourse = async () => {
+    if (!token) return;
+
+    try {
+      setIsLoading(true);
+      const [courseRes, gradebookRes] = await Promise.all([
+        coursesApi.get(token, courseId),
+        coursesApi.getGradebook(token, courseId),
+      ]);
+      setCourse(courseRes.course);
+      setGradebook(gradebookRes);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status === 401) {
+          logout();
+          router.push('/teacher/login');
+          return;
+        }
+        setError(err.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRosterFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(setRosterCsv).catch(() => setError('파일을 읽을 수 없습니다'));
+  };
+
+  const handleImport = async () => {
+    if (!token || !rosterCsv.trim()) return;
+    if (rosterReplace && !confirm('파일에 없는 학생은 과목 명단에서 삭제됩니다. 계속하시겠습니까?')) return;
+    try {
+      setIsImporting(true);
+      const res = await coursesApi.importStudents(token, courseId, rosterCsv, rosterReplace);
+      setImportResult(
+        [
+          `추가 ${res.added}명, 갱신 ${res.updated}명` + (res.removed ? `, 삭제 ${res.removed}명` : ''),
+          ...res.errors.map((item) => `${item.line}행: ${item.message}`),
+        ].join('\n')
+      );
+      setRosterCsv('');
+      setGradebook(await coursesApi.getGradebook(token, courseId));
+    } catch (err) {
+      if (err instanceof ApiError) {
+        const details = (err.data as { details?: Array<{ line: number; message: string }> } | undefined)?.details;
+        setImportResult(
+          [err.message, ...(details || []).map((item) => `${item.line}행: ${item.message}`)].join('\n')
+        );
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRemoveStudent = async (student: CourseStudent) => {
+    if (!token) return;
+    if (!confirm(`${student.student_name} 학생을 과목 명단에서 삭제할까요? 세션 참여 기록은 남습니다.`)) return;
+    try {
+      await coursesApi.removeStudent(token, courseId, student.id);
+      setGradebook((prev) => prev && { ...prev, students: prev.students.filter((item) => item.id !== student.id) });
+      if (history?.student.id === student.id) setHistory(null);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleOpenHistory = async (student: CourseStudent) => {
+    if (!token) return;
+    try {
+      setHistory(await coursesApi.getStudentHistory(token, courseId, student.id));
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!course || !gradebook) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">{error || '과목을 찾을 수 없습니다'}</p>
+      </div>
+    );
+  }
+
+  const unmatchedTotal = Object.values(gradebook.unmatched).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <Link
+            href="/teacher/courses"
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            과목 목록으로 돌아가기
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{getCourseLabel(course)}</h1>
+          {course.description && <p className="text-gray-500 mt-1">{course.description}</p>}
+          <div className="flex flex-wrap gap-4 mt-4 text-sm text-gray-600">
+            <span className="flex items-center gap-1">
+              <Layers className="w-4 h-4" />
+              세션 {gradebook.sessions.length}개
+            </span>
+            <span className="flex items-center gap-1">
+              <Users className="w-4 h-4" />
+              학생 {gradebook.students.length}명
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600">
+            {error}
+            <button onClick={() => setError('')} className="ml-2 underline">
+              닫기
+            </button>
+          </div>
+        )}
+
+        {/* Gradebook - students × sessions (과목 성적표) */}
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              과목 성적표
+            </h2>
+            <button
+              onClick={() => {
+                setShowImport((prev) => !prev);
+                setImportResult(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+            >
+              <Upload className="w-4 h-4" />
+              명단 가져오기
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            세션 참여 기록을 학번으로 과목 명단과 연결합니다 (학번 없이 참여한 기록은 이름이 같을 때만).
+            점수는 교사 점수가 있으면 교사 점수, 없으면 AI 작성 확인 점수입니다.
+          </p>
+
+          {showImport && (
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg space-y-2">
+              <p className="text-xs text-gray-500">
+                한 줄에 한 명씩 이름, 학번, 이메일(선택) 순서로 입력하거나 CSV 파일을 선택하세요.
+                세션 상세 화면에서 이 명단을 세션 명단으로 불러올 수 있습니다.
+              </p>
+              <textarea
+                value={rosterCsv}
+                onChange={(e) => setRosterCsv(e.target.value)}
+                rows={5}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                placeholder={'이름,학번,이메일\n홍길동,2024001,hong@example.com'}
+              />
+              <input type="file" accept=".csv,text/csv,text/plain" onChange={handleRosterFile} className="text-xs" />
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={rosterReplace}
+                  onChange={(e) => setRosterReplace(e.target.checked)}
+                />
+                파일에 없는 학생 삭제
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || !rosterCsv.trim()}
+                className="px-4 py-1.5 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                {isImporting ? '가져오는 중...' : '가져오기'}
+              </button>
+              {importResult && <p className="text-xs text-gray-700 whitespace-pre-line">{importResult}</p>}
+            </div>
+          )}
+
+          {gradebook.students.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">과목 명단이 비어 있습니다. 명단을 가져오세요.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-3 font-medium">학생</th>
+                    {gradebook.sessions.map((session) => (
+                      <th key={session.id} className="py-2 px-2 font-medium text-center min-w-[6rem]">
+                        <Link href={`/teacher/sessions/${session.id}`} className="hover:text-primary-600">
+                          {session.title}
+                        </Link>
+                      </th>
+                    ))}
+                    <th className="py-2 px-2 font-medium text-center">평균</th>
+                    <th className="py-2 px-2 font-medium text-center">변화</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {gradebook.students.map((student) => (
+                    <tr
+                      key={student.id}
+                      className={cn(
+                        'border-b border-gray-100 hover:bg-gray-50 cursor-pointer',
+                        history?.student.id === student.id && 'bg-primary-50'
+                      )}
+                      onClick={() => handleOpenHistory(student)}
+                    >
+                      <td className="py-2 pr-3">
+                        <div className="font-medium text-gray-900">{student.student_name}</div>
+                        <div className="text-xs text-gray-500">{student.student_id}</div>
+                      </td>
+                      {gradebook.sessions.map((session) => {
+                        const cell = student.cells[session.id];
+                        return (
+                          <td key={session.id} className="py-2 px-2 text-center">
+                            {!cell ? (
+                              <span className="text-gray-300">-</span>
+                            ) : cell.score !== null ? (
+                              <span className={cn('font-semibold', getScoreColor(cell.score))}>{cell.score}</span>
+                            ) : (
+                              <span className={cn('px-1.5 py-0.5 text-xs rounded-full', getStatusColor(cell.status))}>
+                                {getStatusLabel(cell.status)}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className={cn('py-2 px-2 text-center font-semibold', getScoreColor(student.stats.averageScore))}>
+                        {student.stats.averageScore ?? '-'}
+                      </td>
+                      <td
+                        className={cn(
+                          'py-2 px-2 text-center',
+                          (student.stats.change ?? 0) > 0 && 'text-green-700',
+                          (student.stats.change ?? 0) < 0 && 'text-red-700'
+                        )}
+                      >
+                        {formatScoreChange(student.stats.change)}
+                      </td>
+                      <td className="py-2 pl-2 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRemoveStudent(student);
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="명단에서 삭제"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {gradebook.sessions.length === 0 && (
+            <p className="text-sm text-gray-500 mt-3">
+              아직 이 과목에 속한 세션이 없습니다. 대시보드에서 세션을 만들 때 과목을 선택하세요.
+            </p>
+          )}
+          {unmatchedTotal > 0 && (
+            <p className="text-xs text-orange-700 mt-3">
+              과목 명단과 연결되지 않은 참여 기록이 {unmatchedTotal}건 있습니다 (학번이 다르거나 명단에 없는 학생)
+            </p>
+          )}
+        </div>
+
+        {/* Student history across the course sessions (학생별 세션 이력) */}
+        {history && (
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <TrendingUp className="w-5 h-5" />
+                {history.student.student_name} ({history.student.student_id}) 세션 이력
+              </h2>
+              <button onClick={() => setHistory(null)} className="p-1 text-gray-400 hover:text-gray-700">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-center">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">참여</p>
+                <p className="font-semibold">
+                  {history.stats.participatedCount} / {history.entries.length}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">완료</p>
+                <p className="font-semibold">{history.stats.completedCount}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">평균 점수</p>
+                <p className={cn('font-semibold', getScoreColor(history.stats.averageScore))}>
+                  {history.stats.averageScore ?? '-'}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">처음 → 최근</p>
+                <p className="font-semibold">
+                  {history.stats.firstScore ?? '-'} → {history.stats.latestScore ?? '-'}
+                  <span className="ml-1 text-xs text-gray-500">({formatScoreChange(history.stats.change)})</span>
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {history.entries.map((entry) => (
+                <div key={entry.sessionId} className="flex items-center gap-3 text-sm">
+                  <div className="w-48 shrink-0">
+                    <Link href={`/teacher/sessions/${entry.sessionId}`} className="text-gray-900 hover:text-primary-600 truncate block">
+                      {entry.title}
+                    </Link>
+                    <span className="text-xs text-gray-400">{formatDate(entry.createdAt)}</span>
+                  </div>
+                  {entry.result ? (
+                    <>
+                      <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                        {entry.result.score !== null && (
+                          <div
+                            className={cn(
+                              'h-full rounded-full',
+                              entry.result.score >= 70 ? 'bg-green-500' : entry.result.score >= 40 ? 'bg-yellow-500' : 'bg-red-500'
+                            )}
+                            style={{ width: `${entry.result.score}%` }}
+                          />
+                        )}
+                      </div>
+                      <span className={cn('w-10 text-right font-semibold', getScoreColor(entry.result.score))}>
+                        {entry.result.score ?? '-'}
+                      </span>
+                      <div className="w-56 shrink-0 flex flex-wrap gap-1 text-xs">
+                        {entry.result.teacherVerdict ? (
+                          <span className={cn('px-1.5 py-0.5 rounded', getVerdictColor(entry.result.teacherVerdict))}>
+                            교사: {getVerdictLabel(entry.result.teacherVerdict)}
+                          </span>
+                        ) : entry.result.verdict ? (
+                          <span className={cn('px-1.5 py-0.5 rounded', getVerdictColor(entry.result.verdict))}>
+                            {getVerdictLabel(entry.result.verdict)}
+                          </span>
+                        ) : (
+                          <span className={cn('px-1.5 py-0.5 rounded', getStatusColor(entry.result.status))}>
+                            {getStatusLabel(entry.result.status)}
+                          </span>
+                        )}
+                        {entry.result.attemptNumber > 1 && (
+                          <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">
+                            {getAttemptLabel(entry.result.attemptNumber)}
+                          </span>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <span className="flex-1 text-gray-400">참여하지 않음</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, BookOpen, Plus, Users, Layers, Archive, ArchiveRestore, Trash2, Eye } from 'lucide-react';
+import { coursesApi, ApiError } from '@/lib/api';
+import { useAuthStore } from '@/lib/store';
+import { cn, formatDate } from '@/lib/utils';
+import type { Course } from '@/lib/courses';
+
+const EMPTY_COURSE_FORM = { name: '', term: '', description: '' };
+
+export default function CoursesPage() {
+  const router = useRouter();
+  const { token, isAuthenticated, logout } = useAuthStore();
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_COURSE_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) {
+      router.push('/teacher/login');
+      return;
+    }
+
+    loadCourses();
+  }, [isAuthenticated, token, showArchived, router]);
+
+  const loadCourses = async () => {
+    if (!token) return;
+
+    try {
+      setIsLoading(true);
+      const res = await coursesApi.list(token, showArchived);
+      setCourses(res.courses);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status === 401) {
+          logout();
+          router.push('/teacher/login');
+          return;
+        }
+        setError(err.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !form.name.trim()) return;
+
+    try {
+      setIsSaving(true);
+      await coursesApi.create(token, {
+        name: form.name.trim(),
+        term: form.term.trim() || undefined,
+        description: form.description.trim() || undefined,
+      });
+      setForm(EMPTY_COURSE_FORM);
+      setShowForm(false);
+      loadCourses();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchive = async (course: Course) => {
+    if (!token) return;
+    try {
+      await coursesApi.update(token, course.id, { archived: !course.archived_at });
+      loadCourses();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleDelete = async (course: Course) => {
+    if (!token) return;
+    if (!confirm(`'${course.name}' 과목을 삭제하시겠습니까? 세션과 참여 기록은 과목 없음으로 남습니다.`)) return;
+    try {
+      await coursesApi.delete(token, course.id);
+      loadCourses();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <Link
+            href="/teacher/dashboard"
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            대시보드로 돌아가기
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600">
+            {error}
+            <button onClick={() => setError('')} className="ml-2 underline">
+              닫기
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">과목 관리</h2>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              보관한 과목 포함
+            </label>
+            <button
+              onClick={() => setShowForm((prev) => !prev)}
+              className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              새 과목
+            </button>
+          </div>
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="bg-white rounded-xl border border-gray-200 p-6 mb-6 space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">과목 이름 *</label>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  placeholder="예: 국어 2반"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">학기 (선택)</label>
+                <input
+                  type="text"
+                  value={form.term}
+                  onChange={(e) => setForm({ ...form, term: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  placeholder="예: 2026-2학기"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">설명 (선택)</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                취소
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !form.name.trim()}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                {isSaving ? '만드는 중...' : '만들기'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto" />
+            <p className="text-gray-500 mt-2">로딩 중...</p>
+          </div>
+        ) : courses.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+            <BookOpen className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">아직 과목이 없습니다</p>
+            <p className="text-sm text-gray-400 mt-1">과목을 만들면 세션을 과목별로 묶고 학생별 이력을 볼 수 있습니다</p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {courses.map((course) => (
+              <div
+                key={course.id}
+                className={cn('bg-white rounded-xl border border-gray-200 p-6', course.archived_at && 'opacity-60')}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <h3 className="text-lg font-semibold text-gray-900">{course.name}</h3>
+                  {course.term && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-50 text-indigo-700">{course.term}</span>
+                  )}
+                  {course.archived_at && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-500">보관됨</span>
+                  )}
+                </div>
+                {course.description && <p className="text-gray-500 mb-2">{course.description}</p>}
+                <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                  <span className="flex items-center gap-1">
+                    <Layers className="w-4 h-4" />
+                    세션 {course.session_count ?? 0}개
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    학생 {course.student_count ?? 0}명
+                  </span>
+                  <span className="text-gray-400">{formatDate(course.created_at)}</span>
+                </div>
+
+                <div className="flex items-center gap-2 mt-4 pt-4 border-t border-gray-100">
+                  <Link
+                    href={`/teacher/courses/${course.id}`}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <Eye className="w-4 h-4" />
+                    상세보기
+                  </Link>
+                  <button
+                    onClick={() => handleArchive(course)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    {course.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    {course.archived_at ? '보관 해제' : '보관'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(course)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors ml-auto"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    삭제
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -16,9 +16,30 @@ import {
   Eye,
   Copy,
   Check,
+  Pencil,
+  X,
+  Download,
+  BookOpen,
 } from 'lucide-react';
-import { sessionsApi, ApiError } from '@/lib/api';
+import {
+  sessionsApi,
+  coursesApi,
+  speechApi,
+  ApiError,
+  Rubric,
+  RubricCriterion,
+  LLMProviderInfo,
+  SpeechSettings,
+  SpeechStatus,
+  TopicReviewPolicy,
+  TopicMode,
+  QuestionBank,
+} from '@/lib/api';
 import { useAuthStore } from '@/lib/store';
+import { FOCUS_PENALTY_OPTIONS } from '@/lib/integrity';
+import { MAX_ATTEMPTS_OPTIONS, getMaxAttemptsLabel } from '@/lib/attempts';
+import { JOIN_POLICIES, getJoinPolicyLabel, type JoinPolicy } from '@/lib/roster';
+import { getCourseLabel, type Course } from '@/lib/courses';
 import {
   cn,
   formatDate,
@@ -26,6 +47,7 @@ import {
   getStatusColor,
   getInterviewModeLabel,
   formatTime,
+  downloadBlob,
 } from '@/lib/utils';
 
 interface Session {
@@ -39,6 +61,97 @@ interface Session {
   status: 'draft' | 'active' | 'closed';
   created_at: string;
   participant_count?: number;
+  rubric?: Rubric | null;
+  llm_provider?: string | null;
+  speech_settings?: SpeechSettings | null;
+  topic_review_policy?: TopicReviewPolicy;
+  topic_mode?: TopicMode;
+  question_bank?: QuestionBank | null;
+  integrity_mode?: boolean;
+  focus_penalty_seconds?: number;
+  audio_retention_days?: number | null;
+  max_attempts?: number;
+  join_policy?: JoinPolicy;
+  course_id?: string | null;
+  course_name?: string | null;
+}
+
+const MAX_RUBRIC_CRITERIA = 8;
+// backend/services/questionBank.js 제한과 동일
+const MAX_BANK_TOPICS = 5;
+// 음성 답변 녹음 보관 기간 (일)
+const AUDIO_RETENTION_OPTIONS = [7, 30, 90];
+
+// 질문은 한 줄에 하나씩 입력받는다 (편집 중에는 원문 유지)
+interface BankTopicForm {
+  id?: string;
+  title: string;
+  seedText: string;
+  mandatoryText: string;
+}
+
+interface BankForm {
+  topics: BankTopicForm[];
+  mandatoryText: string;
+}
+
+const EMPTY_BANK_FORM: BankForm = { topics: [], mandatoryText: '' };
+
+const splitLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function toBankForm(bank: QuestionBank | null | undefined): BankForm {
+  if (!bank) return EMPTY_BANK_FORM;
+  return {
+    topics: bank.topics.map((topic) => ({
+      id: topic.id,
+      title: topic.title,
+      seedText: topic.seedQuestions.join('\n'),
+      mandatoryText: topic.mandatoryQuestions.join('\n'),
+    })),
+    mandatoryText: (bank.mandatoryQuestions || []).join('\n'),
+  };
+}
+
+// 주제도 공통 필수 질문도 없으면 null (교사 지정 없음)
+function fromBankForm(form: BankForm): QuestionBank | null {
+  const bank: QuestionBank = {
+    topics: form.topics.map((topic) => ({
+      id: topic.id,
+      title: topic.title.trim(),
+      seedQuestions: splitLines(topic.seedText),
+      mandatoryQuestions: splitLines(topic.mandatoryText),
+    })),
+    mandatoryQuestions: splitLines(form.mandatoryText),
+  };
+  return bank.topics.length > 0 || bank.mandatoryQuestions.length > 0 ? bank : null;
+}
+
+const EMPTY_SESSION_FORM = {
+  title: '',
+  description: '',
+  topic_count: 3,
+  topic_duration: 180,
+  interview_mode: 'student_choice' as 'voice' | 'chat' | 'student_choice',
+  llm_provider: '',
+  speech_settings: {} as SpeechSettings,
+  topic_review_policy: 'student' as TopicReviewPolicy,
+  topic_mode: 'ai' as TopicMode,
+  integrity_mode: false,
+  focus_penalty_seconds: 0,
+  audio_retention_days: null as number | null,
+  max_attempts: 1,
+  join_policy: 'open' as JoinPolicy,
+  course_id: '', // '' = 과목 없음
+};
+
+// 빈 값은 배포 기본값을 뜻하므로 전송하지 않는다
+function compactSpeechSettings(settings: SpeechSettings): SpeechSettings | null {
+  const entries = Object.entries(settings).filter(([, value]) => Boolean(value));
+  return entries.length > 0 ? (Object.fromEntries(entries) as SpeechSettings) : null;
 }
 
 export default function TeacherDashboard() {
@@ -49,17 +162,20 @@ export default function TeacherDashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  // '' = 전체, 'none' = 과목 없음, 그 외 과목 id
+  const [courseFilter, setCourseFilter] = useState('');
 
-  // Create session modal state
+  // Create/edit session modal state
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [newSession, setNewSession] = useState({
-    title: '',
-    description: '',
-    topic_count: 3,
-    topic_duration: 180,
-    interview_mode: 'student_choice' as 'voice' | 'chat' | 'student_choice',
-  });
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [newSession, setNewSession] = useState(EMPTY_SESSION_FORM);
   const [isCreating, setIsCreating] = useState(false);
+  // rubric: null이면 기본 루브릭 사용
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [bankForm, setBankForm] = useState<BankForm>(EMPTY_BANK_FORM);
+  const [llmProviders, setLLMProviders] = useState<LLMProviderInfo[]>([]);
+  const [speechStatus, setSpeechStatus] = useState<SpeechStatus | null>(null);
 
   useEffect(() => {
     if (!isAuthenticated || !token) {
@@ -67,15 +183,30 @@ export default function TeacherDashboard() {
       return;
     }
 
-    loadSessions();
+    coursesApi
+      .list(token)
+      .then((res) => setCourses(res.courses))
+      .catch(() => setCourses([]));
+    sessionsApi
+      .getLLMProviders(token)
+      .then((res) => setLLMProviders(res.providers))
+      .catch(() => setLLMProviders([]));
+    speechApi
+      .getStatus()
+      .then(setSpeechStatus)
+      .catch(() => setSpeechStatus(null));
   }, [isAuthenticated, token, router]);
 
+  useEffect(() => {
+    if (isAuthenticated && token) loadSessions();
+  }, [isAuthenticated, token, courseFilter]);
+
   const loadSessions = async () => {
     if (!token) return;
 
     try {
       setIsLoading(true);
-      const response = await sessionsApi.list(token);
+      const response = await sessionsApi.list(token, courseFilter || undefined);
       setSessions(response.sessions);
     } catch (err) {
       if (err instanceof ApiError) {
@@ -91,27 +222,161 @@ export default function TeacherDashboard() {
     }
   };
 
-  const handleCreateSession = async (e: React.FormEvent) => {
+  const openCreateModal = () => {
+    setEditingSessionId(null);
+    // 과목을 골라 둔 상태면 그 과목의 세션으로 만든다
+    setNewSession({
+      ...EMPTY_SESSION_FORM,
+      course_id: courseFilter && courseFilter !== 'none' ? courseFilter : '',
+    });
+    setRubric(null);
+    setBankForm(EMPTY_BANK_FORM);
+    setShowCreateModal(true);
+  };
+
+  const openEditModal = (session: Session) => {
+    setEditingSessionId(session.id);
+    setNewSession({
+      title: session.title,
+      description: session.description || '',
+      topic_count: session.topic_count,
+      topic_duration: session.topic_duration,
+      interview_mode: session.interview_mode as 'voice' | 'chat' | 'student_choice',
+      llm_provider: session.llm_provider || '',
+      speech_settings: session.speech_settings || {},
+      topic_review_policy: session.topic_review_policy || 'student',
+      topic_mode: session.topic_mode || 'ai',
+      integrity_mode: session.integrity_mode ?? false,
+      focus_penalty_seconds: session.focus_penalty_seconds ?? 0,
+      audio_retention_days: session.audio_retention_days ?? null,
+      max_attempts: session.max_attempts ?? 1,
+      join_policy: session.join_policy || 'open',
+      course_id: session.course_id || '',
+    });
+    setRubric(session.rubric?.criteria?.length ? session.rubric : null);
+    setBankForm(toBankForm(session.question_bank));
+    setShowCreateModal(true);
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingSessionId(null);
+  };
+
+  const toggleDefaultRubric = async (useDefault: boolean) => {
+    if (useDefault) {
+      setRubric(null);
+      return;
+    }
+    if (!token) return;
+
+    // 기본 루브릭을 편집 시작점으로 사용
+    try {
+      const response = await sessionsApi.getDefaultRubric(token);
+      setRubric(response.rubric);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    if (!rubric) return;
+    setRubric({
+      criteria: rubric.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const addCriterion = () => {
+    if (!rubric || rubric.criteria.length >= MAX_RUBRIC_CRITERIA) return;
+    setRubric({
+      criteria: [
+        ...rubric.criteria,
+        {
+          id: `c${Date.now().toString(36)}`,
+          name: '',
+          weight: 10,
+          description: '',
+          descriptors: { strong: '', partial: '', weak: '' },
+        },
+      ],
+    });
+  };
+
+  const removeCriterion = (index: number) => {
+    if (!rubric || rubric.criteria.length <= 1) return;
+    setRubric({ criteria: rubric.criteria.filter((_, i) => i !== index) });
+  };
+
+  const updateBankTopic = (index: number, changes: Partial<BankTopicForm>) => {
+    setBankForm({
+      ...bankForm,
+      topics: bankForm.topics.map((t, i) => (i === index ? { ...t, ...changes } : t)),
+    });
+  };
+
+  const addBankTopic = () => {
+    if (bankForm.topics.length >= MAX_BANK_TOPICS) return;
+    setBankForm({
+      ...bankForm,
+      topics: [...bankForm.topics, { title: '', seedText: '', mandatoryText: '' }],
+    });
+  };
+
+  const removeBankTopic = (index: number) => {
+    setBankForm({ ...bankForm, topics: bankForm.topics.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmitSession = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!token) return;
 
     try {
       setIsCreating(true);
-      await sessionsApi.create(token, {
-        title: newSession.title,
-        description: newSession.description || undefined,
-        topic_count: newSession.topic_count,
-        topic_duration: newSession.topic_duration,
-        interview_mode: newSession.interview_mode,
-      });
-      setShowCreateModal(false);
-      setNewSession({
-        title: '',
-        description: '',
-        topic_count: 3,
-        topic_duration: 180,
-        interview_mode: 'student_choice',
-      });
+      if (editingSessionId) {
+        await sessionsApi.update(token, editingSessionId, {
+          title: newSession.title,
+          description: newSession.description,
+          topic_count: newSession.topic_count,
+          topic_duration: newSession.topic_duration,
+          interview_mode: newSession.interview_mode,
+          rubric,
+          llm_provider: newSession.llm_provider || null,
+          speech_settings: compactSpeechSettings(newSession.speech_settings),
+          topic_review_policy: newSession.topic_review_policy,
+          topic_mode: newSession.topic_mode,
+          question_bank: fromBankForm(bankForm),
+          integrity_mode: newSession.integrity_mode,
+          focus_penalty_seconds: newSession.focus_penalty_seconds,
+          audio_retention_days: newSession.audio_retention_days,
+          max_attempts: newSession.max_attempts,
+          join_policy: newSession.join_policy,
+          course_id: newSession.course_id || null,
+        });
+      } else {
+        await sessionsApi.create(token, {
+          title: newSession.title,
+          description: newSession.description || undefined,
+          topic_count: newSession.topic_count,
+          topic_duration: newSession.topic_duration,
+          interview_mode: newSession.interview_mode,
+          rubric,
+          llm_provider: newSession.llm_provider || null,
+          speech_settings: compactSpeechSettings(newSession.speech_settings),
+          topic_review_policy: newSession.topic_review_policy,
+          topic_mode: newSession.topic_mode,
+          question_bank: fromBankForm(bankForm),
+          integrity_mode: newSession.integrity_mode,
+          focus_penalty_seconds: newSession.focus_penalty_seconds,
+          audio_retention_days: newSession.audio_retention_days,
+          max_attempts: newSession.max_attempts,
+          join_policy: newSession.join_policy,
+          course_id: newSession.course_id || null,
+        });
+      }
+      closeModal();
+      setNewSession(EMPTY_SESSION_FORM);
+      setRubric(null);
+      setBankForm(EMPTY_BANK_FORM);
       loadSessions();
     } catch (err) {
       if (err instanceof ApiError) {
@@ -154,6 +419,16 @@ export default function TeacherDashboard() {
     }
   };
 
+  const handleExport = async (session: Session, format: 'csv' | 'xlsx') => {
+    if (!token) return;
+    try {
+      const blob = await sessionsApi.exportResults(token, session.id, format);
+      downloadBlob(blob, `${session.title}_results.${format}`);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
   const copyAccessCode = (code: string) => {
     const url = `${window.location.origin}/join/${code}`;
     navigator.clipboard.writeText(url);
@@ -202,15 +477,56 @@ export default function TeacherDashboard() {
         {/* Actions */}
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-gray-900">내 세션</h2>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            새 세션 만들기
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/teacher/courses"
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <BookOpen className="w-5 h-5" />
+              과목 관리
+            </Link>
+            <button
+              onClick={openCreateModal}
+              className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              새 세션 만들기
+            </button>
+          </div>
         </div>
 
+        {/* Course filter (과목별 세션) */}
+        {courses.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {[
+              { id: '', label: '전체' },
+              ...courses.map((course) => ({ id: course.id, label: getCourseLabel(course) })),
+              { id: 'none', label: '과목 없음' },
+            ].map((option) => (
+              <button
+                key={option.id || 'all'}
+                onClick={() => setCourseFilter(option.id)}
+                className={cn(
+                  'px-3 py-1.5 text-sm rounded-full border transition-colors',
+                  courseFilter === option.id
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+            {courseFilter && courseFilter !== 'none' && (
+              <Link
+                href={`/teacher/courses/${courseFilter}`}
+                className="ml-2 text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                과목 성적표 보기 →
+              </Link>
+            )}
+          </div>
+        )}
+
         {/* Sessions List */}
         {isLoading ? (
           <div className="text-center py-12">
@@ -220,9 +536,11 @@ export default function TeacherDashboard() {
         ) : sessions.length === 0 ? (
           <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
             <Settings className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">아직 세션이 없습니다</p>
+            <p className="text-gray-500">
+              {courseFilter ? '이 과목에 속한 세션이 없습니다' : '아직 세션이 없습니다'}
+            </p>
             <button
-              onClick={() => setShowCreateModal(true)}
+              onClick={openCreateModal}
               className="mt-4 text-primary-600 hover:text-primary-700 font-medium"
             >
               첫 번째 세션 만들기
@@ -249,6 +567,11 @@ export default function TeacherDashboard() {
                       >
                         {getStatusLabel(session.status)}
                       </span>
+                      {session.course_name && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-50 text-indigo-700">
+                          {session.course_name}
+                        </span>
+                      )}
                     </div>
                     {session.description && (
                       <p className="text-gray-500 mb-3">{session.description}</p>
@@ -316,6 +639,37 @@ export default function TeacherDashboard() {
                     </Link>
                   )}
 
+                  {(session.participant_count || 0) > 0 && (
+                    <>
+                      <button
+                        onClick={() => handleExport(session, 'csv')}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="결과 내보내기 (CSV)"
+                      >
+                        <Download className="w-4 h-4" />
+                        CSV
+                      </button>
+                      <button
+                        onClick={() => handleExport(session, 'xlsx')}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="결과 내보내기 (Excel)"
+                      >
+                        <Download className="w-4 h-4" />
+                        XLSX
+                      </button>
+                    </>
+                  )}
+
+                  {session.status !== 'closed' && (
+                    <button
+                      onClick={() => openEditModal(session)}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      편집
+                    </button>
+                  )}
+
                   {session.status === 'draft' && (
                     <>
                       <button
@@ -351,16 +705,16 @@ export default function TeacherDashboard() {
         )}
       </main>
 
-      {/* Create Session Modal */}
+      {/* Create/Edit Session Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-4">
-                새 세션 만들기
+                {editingSessionId ? '세션 편집' : '새 세션 만들기'}
               </h2>
 
-              <form onSubmit={handleCreateSession} className="space-y-4">
+              <form onSubmit={handleSubmitSession} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     세션 제목 *
@@ -377,6 +731,26 @@ export default function TeacherDashboard() {
                   />
                 </div>
 
+                {courses.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      과목
+                    </label>
+                    <select
+                      value={newSession.course_id}
+                      onChange={(e) => setNewSession({ ...newSession, course_id: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">과목 없음</option>
+                      {courses.map((course) => (
+                        <option key={course.id} value={course.id}>
+                          {getCourseLabel(course)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     설명 (선택)
@@ -463,10 +837,450 @@ export default function TeacherDashboard() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    주제 확정
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      ['student', '학생이 확인 후 확정'],
+                      ['teacher', '교사가 확정'],
+                    ] as const).map(([policy, label]) => (
+                      <button
+                        key={policy}
+                        type="button"
+                        onClick={() => setNewSession({ ...newSession, topic_review_policy: policy })}
+                        className={cn(
+                          'px-4 py-2 rounded-lg border text-sm font-medium transition-colors',
+                          newSession.topic_review_policy === policy
+                            ? 'bg-primary-100 border-primary-500 text-primary-700'
+                            : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    AI가 뽑은 인터뷰 주제는 확정된 뒤에만 인터뷰를 시작할 수 있습니다
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    주제 구성
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['ai', 'AI 분석'],
+                      ['fixed', '고정 주제'],
+                      ['hybrid', '혼합'],
+                    ] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setNewSession({ ...newSession, topic_mode: mode })}
+                        className={cn(
+                          'px-4 py-2 rounded-lg border text-sm font-medium transition-colors',
+                          newSession.topic_mode === mode
+                            ? 'bg-primary-100 border-primary-500 text-primary-700'
+                            : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {newSession.topic_mode === 'fixed'
+                      ? '아래 교사 지정 주제만 사용합니다'
+                      : newSession.topic_mode === 'hybrid'
+                      ? '교사 지정 주제를 먼저 묻고, 남은 주제 수는 과제 분석으로 채웁니다'
+                      : '제출한 과제를 분석해 주제를 정합니다'}
+                  </p>
+
+                  <div className="mt-3 space-y-3">
+                    {newSession.topic_mode !== 'ai' &&
+                      bankForm.topics.map((topic, index) => (
+                        <div
+                          key={topic.id || `new-${index}`}
+                          className="p-3 border border-gray-200 rounded-lg space-y-2"
+                        >
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              required
+                              value={topic.title}
+                              onChange={(e) => updateBankTopic(index, { title: e.target.value })}
+                              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                              placeholder={`교사 지정 주제 ${index + 1}`}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeBankTopic(index)}
+                              className="p-1.5 text-gray-400 hover:text-red-600"
+                              title="주제 삭제"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                          <textarea
+                            value={topic.seedText}
+                            onChange={(e) => updateBankTopic(index, { seedText: e.target.value })}
+                            rows={2}
+                            className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-xs"
+                            placeholder="질문 예시 (한 줄에 하나, AI가 과제에 맞게 다듬어 첫 질문으로 사용)"
+                          />
+                          <textarea
+                            value={topic.mandatoryText}
+                            onChange={(e) => updateBankTopic(index, { mandatoryText: e.target.value })}
+                            rows={2}
+                            className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-xs"
+                            placeholder="필수 질문 (한 줄에 하나, 이 주제에서 반드시 질문)"
+                          />
+                        </div>
+                      ))}
+
+                    {newSession.topic_mode !== 'ai' && bankForm.topics.length < MAX_BANK_TOPICS && (
+                      <button
+                        type="button"
+                        onClick={addBankTopic}
+                        className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+                      >
+                        <Plus className="w-4 h-4" />
+                        주제 추가
+                      </button>
+                    )}
+
+                    <textarea
+                      value={bankForm.mandatoryText}
+                      onChange={(e) => setBankForm({ ...bankForm, mandatoryText: e.target.value })}
+                      rows={2}
+                      className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-xs"
+                      placeholder="모든 학생에게 묻는 공통 필수 질문 (한 줄에 하나, 마지막 주제에서 질문)"
+                    />
+                  </div>
+                </div>
+
+                {newSession.interview_mode !== 'chat' && speechStatus && (() => {
+                  const speech = newSession.speech_settings;
+                  const setSpeech = (changes: SpeechSettings) =>
+                    setNewSession({ ...newSession, speech_settings: { ...speech, ...changes } });
+                  const ttsName = speech.ttsProvider || speechStatus.tts.default;
+                  const voices =
+                    speechStatus.tts.providers.find((p) => p.name === ttsName)?.voices || [];
+                  const selectClass =
+                    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+                  return (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        음성 설정
+                      </label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={speech.ttsProvider || ''}
+                          onChange={(e) => setSpeech({ ttsProvider: e.target.value, voice: '' })}
+                          className={selectClass}
+                          title="음성 합성(TTS)"
+                        >
+                          <option value="">TTS 기본값 ({speechStatus.tts.provider})</option>
+                          {speechStatus.tts.providers
+                            .filter((p) => p.available)
+                            .map((p) => (
+                              <option key={p.name} value={p.name}>
+                                TTS: {p.label}
+                              </option>
+                            ))}
+                        </select>
+                        <select
+                          value={speech.voice || ''}
+                          onChange={(e) => setSpeech({ voice: e.target.value })}
+                          className={selectClass}
+                          title="음성"
+                        >
+                          <option value="">기본 음성</option>
+                          {voices.map((v) => (
+                            <option key={v.id} value={v.id}>
+                              {v.label}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={speech.sttProvider || ''}
+                          onChange={(e) => setSpeech({ sttProvider: e.target.value })}
+                          className={selectClass}
+                          title="음성 인식(STT)"
+                        >
+                          <option value="">STT 기본값 ({speechStatus.stt.provider})</option>
+                          {speechStatus.stt.providers
+                            .filter((p) => p.available)
+                            .map((p) => (
+                              <option key={p.name} value={p.name}>
+                                STT: {p.label}
+                              </option>
+                            ))}
+                        </select>
+                        <select
+                          value={speech.language || ''}
+                          onChange={(e) => setSpeech({ language: e.target.value })}
+                          className={selectClass}
+                          title="인터뷰 언어"
+                        >
+                          <option value="">
+                            기본 언어 (
+                            {speechStatus.languages.find(
+                              (l) => l.code === speechStatus.defaultLanguage
+                            )?.label || speechStatus.defaultLanguage}
+                            )
+                          </option>
+                          {speechStatus.languages.map((l) => (
+                            <option key={l.code} value={l.code}>
+                              {l.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                {newSession.interview_mode !== 'chat' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      음성 답변 녹음 보관
+                    </label>
+                    <select
+                      value={newSession.audio_retention_days ?? ''}
+                      onChange={(e) =>
+                        setNewSession({
+                          ...newSession,
+                          audio_retention_days: e.target.value ? Number(e.target.value) : null,
+                        })
+                      }
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">보관하지 않음 (글자로 변환 후 삭제)</option>
+                      {AUDIO_RETENTION_OPTIONS.map((days) => (
+                        <option key={days} value={days}>
+                          {days}일 보관 후 자동 삭제
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      참여 화면에서 동의한 학생의 녹음만 보관되며, 대화 기록에서 다시 들을 수 있습니다
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      무결성 모드
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={newSession.integrity_mode}
+                        onChange={(e) =>
+                          setNewSession({ ...newSession, integrity_mode: e.target.checked })
+                        }
+                      />
+                      사용
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    채팅 답변 붙여넣기를 막고, 학생이 화면을 벗어나면 경고를 띄운 뒤 기록합니다
+                  </p>
+                  {newSession.integrity_mode && (
+                    <select
+                      value={newSession.focus_penalty_seconds}
+                      onChange={(e) =>
+                        setNewSession({ ...newSession, focus_penalty_seconds: Number(e.target.value) })
+                      }
+                      className="mt-2 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {FOCUS_PENALTY_OPTIONS.map((seconds) => (
+                        <option key={seconds} value={seconds}>
+                          {seconds === 0 ? '화면 이탈 시 시간 차감 없음' : `화면 이탈 1회당 주제 시간 ${seconds}초 차감`}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    응시 횟수
+                  </label>
+                  <select
+                    value={newSession.max_attempts}
+                    onChange={(e) => setNewSession({ ...newSession, max_attempts: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    {MAX_ATTEMPTS_OPTIONS.map((count) => (
+                      <option key={count} value={count}>
+                        {getMaxAttemptsLabel(count)}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    인터뷰가 끝난 학생은 남은 횟수만큼 과제를 다시 제출하고 새로 응시할 수 있습니다 (지난 회차 기록은 보관)
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    참여 확인
+                  </label>
+                  <select
+                    value={newSession.join_policy}
+                    onChange={(e) => setNewSession({ ...newSession, join_policy: e.target.value as JoinPolicy })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    {JOIN_POLICIES.map((policy) => (
+                      <option key={policy} value={policy}>
+                        {getJoinPolicyLabel(policy)}
+                      </option>
+                    ))}
+                  </select>
+                  {newSession.join_policy !== 'open' && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      세션 상세 화면에서 학생 명단(CSV)을 가져와야 학생이 참여할 수 있습니다
+                    </p>
+                  )}
+                </div>
+
+                {llmProviders.filter((p) => p.available).length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      AI 모델 제공자
+                    </label>
+                    <select
+                      value={newSession.llm_provider}
+                      onChange={(e) =>
+                        setNewSession({ ...newSession, llm_provider: e.target.value })
+                      }
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">
+                        기본값 ({llmProviders.find((p) => p.isDefault)?.label || '서버 설정'})
+                      </option>
+                      {llmProviders
+                        .filter((p) => p.available)
+                        .map((p) => (
+                          <option key={p.name} value={p.name}>
+                            {p.label}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      평가 루브릭
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={rubric === null}
+                        onChange={(e) => toggleDefaultRubric(e.target.checked)}
+                      />
+                      기본 루브릭 사용
+                    </label>
+                  </div>
+
+                  {rubric && (
+                    <div className="space-y-3">
+                      {rubric.criteria.map((criterion, index) => (
+                        <div
+                          key={criterion.id}
+                          className="p-3 border border-gray-200 rounded-lg space-y-2"
+                        >
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              required
+                              value={criterion.name}
+                              onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                              placeholder="기준 이름"
+                            />
+                            <input
+                              type="number"
+                              required
+                              min={1}
+                              max={100}
+                              value={criterion.weight}
+                              onChange={(e) =>
+                                updateCriterion(index, { weight: parseInt(e.target.value) || 0 })
+                              }
+                              className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                              title="가중치"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeCriterion(index)}
+                              disabled={rubric.criteria.length <= 1}
+                              className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                              title="기준 삭제"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                          <input
+                            type="text"
+                            value={criterion.description}
+                            onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                            className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                            placeholder="무엇을 평가하는지 설명"
+                          />
+                          {(['strong', 'partial', 'weak'] as const).map((level) => (
+                            <input
+                              key={level}
+                              type="text"
+                              value={criterion.descriptors[level]}
+                              onChange={(e) =>
+                                updateCriterion(index, {
+                                  descriptors: { ...criterion.descriptors, [level]: e.target.value },
+                                })
+                              }
+                              className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-xs"
+                              placeholder={
+                                level === 'strong'
+                                  ? '높음(70~100) 기준'
+                                  : level === 'partial'
+                                  ? '보통(40~69) 기준'
+                                  : '낮음(0~39) 기준'
+                              }
+                            />
+                          ))}
+                        </div>
+                      ))}
+
+                      {rubric.criteria.length < MAX_RUBRIC_CRITERIA && (
+                        <button
+                          type="button"
+                          onClick={addCriterion}
+                          className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+                        >
+                          <Plus className="w-4 h-4" />
+                          기준 추가
+                        </button>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        종합 점수는 기준별 점수의 가중 평균으로 계산됩니다.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex items-center justify-end gap-3 pt-4">
                   <button
                     type="button"
-                    onClick={() => setShowCreateModal(false)}
+                    onClick={closeModal}
                     className="px-4 py-2 text-gray-600 hover:text-gray-900"
                   >
                     취소
@@ -481,7 +1295,11 @@ export default function TeacherDashboard() {
                         : 'bg-primary-600 hover:bg-primary-700'
                     )}
                   >
-                    {isCreating ? '생성 중...' : '세션 생성'}
+                    {isCreating
+                      ? '저장 중...'
+                      : editingSessionId
+                      ? '변경 저장'
+                      : '세션 생성'}
                   </button>
                 </div>
               </form>
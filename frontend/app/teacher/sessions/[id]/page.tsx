@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -15,8 +15,34 @@ import {
   MessageSquare,
   ChevronDown,
   ChevronUp,
+  Radio,
+  Activity,
+  Download,
+  StickyNote,
+  RefreshCw,
+  AlertTriangle,
+  X,
+  Volume2,
+  Gavel,
+  History,
+  Pause,
+  SkipForward,
+  RotateCcw,
+  Hand,
+  Layers,
+  Plus,
+  Upload,
+  UserCheck,
 } from 'lucide-react';
-import { sessionsApi, ApiError } from '@/lib/api';
+import {
+  sessionsApi,
+  ApiError,
+  type SessionEvent,
+  type TopicLogEntry,
+  type SimilarityPair,
+  type SimilarityPassage,
+  type LLMProviderInfo,
+} from '@/lib/api';
 import { useAuthStore } from '@/lib/store';
 import {
   cn,
@@ -25,7 +51,48 @@ import {
   getStatusColor,
   getInterviewModeLabel,
   formatTime,
+  downloadBlob,
 } from '@/lib/utils';
+import { parseInterviewSummary, getVerdictLabel, getVerdictColor, type InterviewSummary } from '@/lib/summary';
+import { splitByCitations, type Citation } from '@/lib/citations';
+import {
+  getTelemetryFlagLabel,
+  describeTelemetryEvent,
+  formatDuration,
+  type AnswerTelemetry,
+} from '@/lib/answerTelemetry';
+import {
+  getStyleLevelLabel,
+  getStyleLevelColor,
+  getStyleFeatureLabel,
+  formatStyleValue,
+  type StyleConsistency,
+} from '@/lib/stylometry';
+import { getIntegrityEventLabel, type IntegrityLogEntry } from '@/lib/integrity';
+import {
+  TEACHER_VERDICTS,
+  MAX_COMMENT_LENGTH,
+  MAX_ANNOTATION_LENGTH,
+  MAX_INSTRUCTIONS_LENGTH,
+  getEvaluationVersionLabel,
+  type EvaluationVersion,
+  type TeacherEvaluation,
+  type TeacherVerdict,
+} from '@/lib/evaluation';
+import {
+  EXTEND_TIME_OPTIONS,
+  getInterventionLabel,
+  type InterventionAction,
+  type InterventionLogEntry,
+} from '@/lib/intervention';
+import { getAttemptLabel, type AttemptPolicy, type AttemptSummary } from '@/lib/attempts';
+import {
+  getJoinConflictLabel,
+  getJoinPolicyLabel,
+  type JoinConflict,
+  type JoinPolicy,
+  type RosterEntry,
+} from '@/lib/roster';
 
 interface Session {
   id: string;
@@ -37,6 +104,7 @@ interface Session {
   access_code: string;
   status: 'draft' | 'active' | 'closed';
   created_at: string;
+  course_id?: string | null;
 }
 
 interface Participant {
@@ -48,24 +116,156 @@ interface Participant {
   file_submitted_at?: string;
   interview_started_at?: string;
   interview_ended_at?: string;
-  summary?: {
-    overall_assessment?: string;
-    score?: number;
-    key_findings?: string[];
-  };
+  disconnected_at?: string | null;
+  current_topic_index?: number | null;
+  current_phase?: string | null;
+  topic_started_at?: string | null;
+  topics_state?: Array<{ title: string; totalTime: number }> | null;
+  topics_fallback?: boolean;
+  topics_confirmed_at?: string | null;
+  focus_loss_count?: number;
+  teacher_verdict?: TeacherVerdict | null;
+  teacher_paused_at?: string | null;
+  attempt_number?: number;
+}
+
+interface TimelineEntry {
+  type: SessionEvent['type'];
+  at: string;
+  detail?: string;
+}
+
+const EVENT_LABELS: Record<SessionEvent['type'], string> = {
+  joined: '참여',
+  file_submitted: '파일 제출',
+  topics_reviewed: '주제 검토',
+  interview_started: '인터뷰 시작',
+  topic_changed: '주제 전환',
+  disconnected: '이탈',
+  reconnected: '재접속',
+  completed: '종료',
+  integrity: '무결성',
+  teacher_intervention: '교사 조치',
+  retake_started: '재응시',
+  attempt_granted: '응시 횟수 추가',
+  duplicate_join: '중복 참여',
+};
+
+// Timeline entries reconstructed from stored timestamps (before the live stream connected)
+function buildBaseTimeline(p: Participant): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  if (p.registered_at) entries.push({ type: 'joined', at: p.registered_at });
+  if (p.file_submitted_at) entries.push({ type: 'file_submitted', at: p.file_submitted_at });
+  if (p.interview_started_at) entries.push({ type: 'interview_started', at: p.interview_started_at });
+  if (p.disconnected_at) entries.push({ type: 'disconnected', at: p.disconnected_at });
+  if (p.interview_ended_at) {
+    entries.push({ type: 'completed', at: p.interview_ended_at, detail: getStatusLabel(p.status) });
+  }
+  return entries;
 }
 
+function describeEvent(event: SessionEvent): string | undefined {
+  switch (event.type) {
+    case 'interview_started':
+    case 'topic_changed':
+      if (event.currentPhase === 'finalizing') return '모든 주제 종료';
+      if (event.currentPhase === 'topic_transition') return `주제 ${(event.currentTopicIndex ?? 0) + 1} 대기`;
+      if (event.currentPhase === 'topic_expired_while_away') return '이탈 중 주제 시간 만료';
+      return event.topicTitle
+        ? `주제 ${(event.currentTopicIndex ?? 0) + 1}: ${event.topicTitle}`
+        : undefined;
+    case 'file_submitted':
+      return event.topicsFallback ? '주제 분석 실패 (기본 주제)' : undefined;
+    case 'topics_reviewed':
+      if (event.topicsConfirmed) return '주제 확정';
+      return event.topicsFallback ? '재분석 실패 (기본 주제)' : '주제 재분석';
+    case 'reconnected':
+      return event.disconnectedDuration ? `이탈 ${formatTime(event.disconnectedDuration)}` : undefined;
+    case 'completed':
+      return event.status ? getStatusLabel(event.status) : undefined;
+    case 'integrity': {
+      if (!event.integrityType) return undefined;
+      const label = getIntegrityEventLabel(event.integrityType);
+      if (event.penaltySeconds) return `${label} (${event.penaltySeconds}초 차감)`;
+      return event.durationMs ? `${label} (${formatDuration(event.durationMs)} 이탈)` : label;
+    }
+    case 'teacher_intervention':
+      if (!event.action) return undefined;
+      return event.action === 'extend_time' && event.seconds
+        ? `${getInterventionLabel(event.action)} +${Math.round(event.seconds / 60)}분`
+        : getInterventionLabel(event.action);
+    case 'retake_started':
+      return event.attemptNumber ? getAttemptLabel(event.attemptNumber) : undefined;
+    case 'attempt_granted':
+      return event.remaining !== undefined ? `남은 재응시 ${event.remaining}회` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+const TOPIC_LOG_LABELS: Record<string, string> = {
+  upload: '업로드 분석',
+  student_reanalysis: '학생 재분석',
+  teacher_reanalysis: '교사 재분석',
+  student_edit: '학생 수정',
+  teacher_edit: '교사 수정',
+};
+
+function getRemainingTime(p: Participant, now: number): number | null {
+  if (
+    p.current_phase !== 'topic_active' && p.current_phase !== 'topic_paused'
+  ) return null;
+  const topic = p.topics_state?.[p.current_topic_index ?? 0];
+  if (!topic || !p.topic_started_at) return null;
+  // 교사 일시정지 중에는 멈춘 시점 기준
+  const until = p.teacher_paused_at ? new Date(p.teacher_paused_at).getTime() : now;
+  const elapsed = (until - new Date(p.topic_started_at).getTime()) / 1000;
+  return Math.max(0, Math.floor(topic.totalTime - elapsed));
+}
+
+type SimilarityPairDetail = Omit<SimilarityPair, 'passage_count'> & { passages: SimilarityPassage[] };
+
 interface ConversationTurn {
+  id: string;
   role: 'ai' | 'student';
   content: string;
   topic_index: number;
   created_at: string;
+  citations?: Citation[] | null;
+  telemetry?: AnswerTelemetry | null; // student turns (chat mode)
+  recording_id?: string | null; // student turns (voice mode, retained audio)
+  teacher_annotation?: string | null;
+}
+
+interface TeacherEvaluationDraft {
+  verdict: TeacherVerdict | null;
+  score: string;
+  comment: string;
 }
 
 interface ParticipantDetail extends Participant {
+  summary: InterviewSummary | null;
   conversations: ConversationTurn[];
   extracted_text?: string;
-  analyzed_topics?: Array<{ title: string; description: string }>;
+  analyzed_topics?: Array<{ id?: string; title: string; description?: string; source?: 'teacher' | 'ai' }>;
+  topics_confirmed_by?: string | null;
+  topicLog?: TopicLogEntry[];
+  integrityLog?: IntegrityLogEntry[];
+  interventionLog?: InterventionLogEntry[];
+  stylometry?: StyleConsistency | null;
+  evaluations?: EvaluationVersion[];
+  teacher_evaluation?: TeacherEvaluation | null;
+  teacher_notes?: string | null;
+  submitted_file_url?: string | null;
+  submitted_file_name?: string | null;
+  attempts?: AttemptSummary[];
+  attemptPolicy?: AttemptPolicy;
+}
+
+// GET /api/sessions/:id/participants/:pid/attempts/:attemptId
+interface AttemptTranscript {
+  attemptNumber: number;
+  conversations: Array<{ id: string; role: 'ai' | 'student'; content: string; topic_index: number }>;
 }
 
 export default function SessionDetailPage() {
@@ -79,6 +279,43 @@ export default function SessionDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [expandedTopics, setExpandedTopics] = useState<number[]>([]);
+  const [isLive, setIsLive] = useState(false);
+  const [liveEvents, setLiveEvents] = useState<Record<string, TimelineEntry[]>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [notesDraft, setNotesDraft] = useState('');
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [topicDrafts, setTopicDrafts] = useState<string[]>([]);
+  const [isUpdatingTopics, setIsUpdatingTopics] = useState(false);
+  const [activeTurn, setActiveTurn] = useState<ConversationTurn | null>(null);
+  const [similarity, setSimilarity] = useState<{ threshold: number; pairs: SimilarityPair[] } | null>(null);
+  const [openPair, setOpenPair] = useState<SimilarityPairDetail | null>(null);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  // recording_id → object URL (불러온 녹음만)
+  const [recordingUrls, setRecordingUrls] = useState<Record<string, string>>({});
+  const [loadingRecordingId, setLoadingRecordingId] = useState<string | null>(null);
+  const [evaluationDraft, setEvaluationDraft] = useState<TeacherEvaluationDraft>({ verdict: null, score: '', comment: '' });
+  const [isSavingEvaluation, setIsSavingEvaluation] = useState(false);
+  // 편집 중인 턴 주석 (turn id → 초안)
+  const [annotationDrafts, setAnnotationDrafts] = useState<Record<string, string>>({});
+  const [savingAnnotationId, setSavingAnnotationId] = useState<string | null>(null);
+  const [llmProviders, setLlmProviders] = useState<LLMProviderInfo[]>([]);
+  const [regradeInstructions, setRegradeInstructions] = useState('');
+  const [regradeProvider, setRegradeProvider] = useState('');
+  const [isRegrading, setIsRegrading] = useState(false);
+  // 비교할 AI 평가 버전 (최대 2개)
+  const [compareVersions, setCompareVersions] = useState<number[]>([]);
+  const [pendingIntervention, setPendingIntervention] = useState<InterventionAction | null>(null);
+  const [isGrantingAttempt, setIsGrantingAttempt] = useState(false);
+  const [openAttempt, setOpenAttempt] = useState<AttemptTranscript | null>(null);
+  const [roster, setRoster] = useState<{ joinPolicy: JoinPolicy; roster: RosterEntry[]; conflicts: JoinConflict[] } | null>(null);
+  const [showRosterImport, setShowRosterImport] = useState(false);
+  const [rosterCsv, setRosterCsv] = useState('');
+  const [rosterReplace, setRosterReplace] = useState(false);
+  const [isImportingRoster, setIsImportingRoster] = useState(false);
+  const [rosterImportResult, setRosterImportResult] = useState<string | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  const citationMarkRef = useRef<HTMLElement | null>(null);
 
   const sessionId = params.id as string;
 
@@ -91,6 +328,175 @@ export default function SessionDetailPage() {
     loadSessionData();
   }, [isAuthenticated, token, sessionId, router]);
 
+  // Live event stream (재연결 포함)
+  useEffect(() => {
+    if (!isAuthenticated || !token) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = async () => {
+      try {
+        setIsLive(true);
+        await sessionsApi.streamEvents(token, sessionId, handleSessionEvent, controller.signal);
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+          logout();
+          router.push('/teacher/login');
+          return;
+        }
+      }
+      setIsLive(false);
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, 3000);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [isAuthenticated, token, sessionId]);
+
+  // 남은 시간 표시용 1초 틱
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleSessionEvent = (event: SessionEvent) => {
+    setLiveEvents((prev) => ({
+      ...prev,
+      [event.participantId]: [
+        ...(prev[event.participantId] || []),
+        { type: event.type, at: event.at, detail: describeEvent(event) },
+      ],
+    }));
+
+    setParticipants((prev) => {
+      const existing = prev.find((p) => p.id === event.participantId);
+      if (!existing) {
+        if (event.type !== 'joined') return prev;
+        return [
+          {
+            id: event.participantId,
+            student_name: event.studentName,
+            student_id: event.studentId || undefined,
+            status: event.status || 'registered',
+            registered_at: event.at,
+          },
+          ...prev,
+        ];
+      }
+
+      return prev.map((p) => {
+        if (p.id !== event.participantId) return p;
+        const updated: Participant = { ...p, status: event.status || p.status };
+        if (event.currentTopicIndex !== undefined) {
+          updated.current_topic_index = event.currentTopicIndex;
+          updated.current_phase = event.currentPhase;
+          updated.topic_started_at = event.topicStartedAt;
+          if (event.topicTitle && event.topicTotalTime) {
+            const topics = [...(p.topics_state || [])];
+            topics[event.currentTopicIndex] = { title: event.topicTitle, totalTime: event.topicTotalTime };
+            updated.topics_state = topics;
+          }
+        }
+        if (event.type === 'file_submitted') {
+          updated.file_submitted_at = event.at;
+          updated.topics_fallback = event.topicsFallback;
+          updated.topics_confirmed_at = null;
+        }
+        if (event.type === 'topics_reviewed') {
+          updated.topics_fallback = event.topicsFallback;
+          updated.topics_confirmed_at = event.topicsConfirmed ? event.at : null;
+        }
+        if (event.type === 'interview_started') updated.interview_started_at = event.at;
+        if (event.type === 'integrity') {
+          if (event.focusLossCount !== undefined) updated.focus_loss_count = event.focusLossCount;
+          // 시간 차감은 현재 주제의 totalTime에 반영된다 (남은 시간 표시)
+          const topicIndex = p.current_topic_index ?? 0;
+          const topic = p.topics_state?.[topicIndex];
+          if (event.penaltySeconds && topic) {
+            const topics = [...(p.topics_state || [])];
+            topics[topicIndex] = { ...topic, totalTime: Math.max(0, topic.totalTime - event.penaltySeconds) };
+            updated.topics_state = topics;
+          }
+        }
+        if (event.type === 'teacher_intervention') {
+          if (event.teacherPausedAt !== undefined) updated.teacher_paused_at = event.teacherPausedAt;
+          if (event.action === 'reset') {
+            updated.interview_started_at = undefined;
+            updated.interview_ended_at = undefined;
+            updated.disconnected_at = null;
+            updated.current_topic_index = null;
+            updated.current_phase = null;
+            updated.topic_started_at = null;
+            updated.topics_state = null;
+            updated.focus_loss_count = 0;
+            updated.teacher_verdict = null;
+          }
+        }
+        if (event.type === 'retake_started') {
+          // 지난 회차는 보관되고 파일 제출부터 다시 시작한다
+          updated.attempt_number = event.attemptNumber;
+          updated.file_submitted_at = undefined;
+          updated.interview_started_at = undefined;
+          updated.interview_ended_at = undefined;
+          updated.disconnected_at = null;
+          updated.current_topic_index = null;
+          updated.current_phase = null;
+          updated.topic_started_at = null;
+          updated.topics_state = null;
+          updated.topics_fallback = false;
+          updated.topics_confirmed_at = null;
+          updated.focus_loss_count = 0;
+          updated.teacher_verdict = null;
+        }
+        if (event.type === 'disconnected') {
+          updated.disconnected_at = event.at;
+          if (updated.current_phase === 'topic_active') updated.current_phase = 'topic_paused';
+        }
+        if (event.type === 'reconnected') {
+          updated.disconnected_at = null;
+          if (updated.current_phase === 'topic_paused') updated.current_phase = 'topic_active';
+        }
+        if (event.type === 'completed') {
+          updated.interview_ended_at = event.at;
+          updated.current_phase = 'completed';
+        }
+        return updated;
+      });
+    });
+
+    // 명단의 참여 상태와 중복 참여 기록
+    if (event.type === 'joined' || event.type === 'duplicate_join') loadRoster();
+
+    // 업로드 시 유사도 검사가 끝난 뒤 이벤트가 오므로 목록을 다시 불러온다 (재응시하면 지난 제출물 결과가 지워진다)
+    if (event.type === 'file_submitted' || event.type === 'retake_started') loadSimilarity();
+
+    // 선택된 학생이 완료되거나 주제가 바뀌면 상세를 다시 불러온다
+    if (
+      ['completed', 'topics_reviewed', 'teacher_intervention', 'retake_started', 'attempt_granted'].includes(event.type) &&
+      selectedIdRef.current === event.participantId
+    ) {
+      loadParticipantDetail(event.participantId);
+    }
+  };
+
+  const getTimeline = (p: Participant): TimelineEntry[] => {
+    const base = buildBaseTimeline(p);
+    const live = liveEvents[p.id] || [];
+    // 라이브 이벤트와 겹치는 저장된 타임스탬프는 제외
+    const merged = [
+      ...base.filter((b) => !live.some((l) => l.type === b.type && l.at >= b.at)),
+      ...live,
+    ];
+    return merged.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  };
+
   const loadSessionData = async () => {
     if (!token) return;
 
@@ -102,6 +508,11 @@ export default function SessionDetailPage() {
       ]);
       setSession(sessionRes.session);
       setParticipants(participantsRes.participants);
+      loadSimilarity();
+      loadRoster();
+      sessionsApi.getLLMProviders(token)
+        .then((res) => setLlmProviders(res.providers.filter((provider) => provider.available)))
+        .catch(() => setLlmProviders([]));
     } catch (err) {
       if (err instanceof ApiError) {
         if (err.status === 401) {
@@ -116,8 +527,142 @@ export default function SessionDetailPage() {
     }
   };
 
+  const loadSimilarity = async () => {
+    if (!token) return;
+    try {
+      setSimilarity(await sessionsApi.getSimilarity(token, sessionId));
+    } catch {
+      setSimilarity(null);
+    }
+  };
+
+  const loadRoster = async () => {
+    if (!token) return;
+    try {
+      setRoster(await sessionsApi.getRoster(token, sessionId));
+    } catch {
+      setRoster(null);
+    }
+  };
+
+  const handleRosterFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(setRosterCsv).catch(() => setError('파일을 읽을 수 없습니다'));
+  };
+
+  const handleImportRoster = async () => {
+    if (!token || !rosterCsv.trim()) return;
+    if (rosterReplace && !confirm('파일에 없는 학생 중 아직 참여하지 않은 학생은 명단에서 삭제됩니다. 계속하시겠습니까?')) return;
+    try {
+      setIsImportingRoster(true);
+      const res = await sessionsApi.importRoster(token, sessionId, rosterCsv, rosterReplace);
+      setRoster((prev) => (prev ? { ...prev, roster: res.roster } : prev));
+      setRosterImportResult(
+        [
+          `추가 ${res.added}명, 갱신 ${res.updated}명` + (res.removed ? `, 삭제 ${res.removed}명` : ''),
+          ...res.errors.map((item) => `${item.line}행: ${item.message}`),
+        ].join('\n')
+      );
+      setRosterCsv('');
+    } catch (err) {
+      if (err instanceof ApiError) {
+        const details = (err.data as { details?: Array<{ line: number; message: string }> } | undefined)?.details;
+        setRosterImportResult(
+          [err.message, ...(details || []).map((item) => `${item.line}행: ${item.message}`)].join('\n')
+        );
+      }
+    } finally {
+      setIsImportingRoster(false);
+    }
+  };
+
+  const handleImportCourseRoster = async () => {
+    if (!token) return;
+    try {
+      setIsImportingRoster(true);
+      const res = await sessionsApi.importCourseRoster(token, sessionId);
+      setRoster((prev) => (prev ? { ...prev, roster: res.roster } : prev));
+      setRosterImportResult(`과목 명단: 추가 ${res.added}명, 갱신 ${res.updated}명`);
+    } catch (err) {
+      if (err instanceof ApiError) setRosterImportResult(err.message);
+    } finally {
+      setIsImportingRoster(false);
+    }
+  };
+
+  const handleDownloadRoster = async () => {
+    if (!token || !session) return;
+    try {
+      const blob = await sessionsApi.downloadRoster(token, sessionId);
+      downloadBlob(blob, `${session.title}_roster.csv`);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleReissueRoster = async (entry: RosterEntry) => {
+    if (!token) return;
+    if (!confirm(`${entry.student_name} 학생의 PIN과 1회용 코드를 새로 발급할까요? 이전 값은 더 이상 사용할 수 없습니다.`)) return;
+    try {
+      const res = await sessionsApi.reissueRosterCredentials(token, sessionId, entry.id);
+      setRoster((prev) => prev && {
+        ...prev,
+        roster: prev.roster.map((item) => (item.id === entry.id ? { ...item, ...res.entry } : item)),
+      });
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleRemoveRosterEntry = async (entry: RosterEntry) => {
+    if (!token) return;
+    if (!confirm(`${entry.student_name} 학생을 명단에서 삭제할까요?`)) return;
+    try {
+      await sessionsApi.removeRosterEntry(token, sessionId, entry.id);
+      setRoster((prev) => prev && { ...prev, roster: prev.roster.filter((item) => item.id !== entry.id) });
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleOpenPair = async (pairId: string) => {
+    if (!token) return;
+    try {
+      const res = await sessionsApi.getSimilarityPair(token, sessionId, pairId);
+      setOpenPair(res.pair);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleRecomputeSimilarity = async () => {
+    if (!token) return;
+    try {
+      setIsRecomputing(true);
+      await sessionsApi.recomputeSimilarity(token, sessionId);
+      await loadSimilarity();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
+
   const loadParticipantDetail = async (participantId: string) => {
     if (!token) return;
+    if (selectedIdRef.current !== participantId) {
+      // 다른 학생으로 바뀌면 불러온 녹음을 해제한다
+      setRecordingUrls((prev) => {
+        Object.values(prev).forEach((url) => URL.revokeObjectURL(url));
+        return {};
+      });
+      setCompareVersions([]);
+      setRegradeInstructions('');
+      setOpenAttempt(null);
+    }
+    selectedIdRef.current = participantId;
 
     try {
       const res = await sessionsApi.getParticipantDetail(token, sessionId, participantId);
@@ -137,8 +682,26 @@ export default function SessionDetailPage() {
 
       setSelectedParticipant({
         ...res.participant,
+        summary: parseInterviewSummary(res.participant.summary),
         conversations: conversationsArray,
+        topicLog: res.topicLog || [],
+        integrityLog: res.integrityLog || [],
+        stylometry: res.stylometry || null,
+        interventionLog: res.interventionLog || [],
+        evaluations: res.evaluations || [],
+        attempts: res.attempts || [],
+        attemptPolicy: res.attemptPolicy,
       } as ParticipantDetail);
+      setActiveTurn(null);
+      const decision = res.participant.teacher_evaluation;
+      setEvaluationDraft({
+        verdict: decision?.verdict || null,
+        score: decision?.score !== null && decision?.score !== undefined ? String(decision.score) : '',
+        comment: decision?.comment || '',
+      });
+      setAnnotationDrafts({});
+      setTopicDrafts((res.participant.analyzed_topics || []).map((t) => t.title));
+      setNotesDraft(res.participant.teacher_notes || '');
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.message);
@@ -146,6 +709,240 @@ export default function SessionDetailPage() {
     }
   };
 
+  const handleSaveNotes = async () => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsSavingNotes(true);
+      const res = await sessionsApi.saveNotes(
+        token,
+        sessionId,
+        selectedParticipant.id,
+        notesDraft.trim() || null
+      );
+      setSelectedParticipant({ ...selectedParticipant, teacher_notes: res.notes });
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
+
+  const handleIntervention = async (action: InterventionAction, seconds?: number) => {
+    if (!token || !selectedParticipant) return;
+    const confirmMessages: Partial<Record<InterventionAction, string>> = {
+      skip_topic: '현재 주제를 끝내고 다음 주제로 넘기시겠습니까?',
+      force_complete: '인터뷰를 지금 종료하고 평가를 생성하시겠습니까?',
+      reset: '대화 기록과 진행 상태를 지우고 학생이 인터뷰를 처음부터 다시 하도록 하시겠습니까?',
+    };
+    if (confirmMessages[action] && !confirm(confirmMessages[action])) return;
+
+    try {
+      setPendingIntervention(action);
+      await sessionsApi.intervene(token, sessionId, selectedParticipant.id, { action, seconds });
+      // 라이브 이벤트로도 반영되지만 조치한 화면은 바로 다시 불러온다
+      const participantsRes = await sessionsApi.getParticipants(token, sessionId);
+      setParticipants(participantsRes.participants);
+      await loadParticipantDetail(selectedParticipant.id);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setPendingIntervention(null);
+    }
+  };
+
+  const handleGrantAttempt = async () => {
+    if (!token || !selectedParticipant) return;
+    if (!confirm(`${selectedParticipant.student_name} 학생에게 재응시 기회를 1회 더 주시겠습니까?`)) return;
+    try {
+      setIsGrantingAttempt(true);
+      await sessionsApi.grantAttempt(token, sessionId, selectedParticipant.id);
+      await loadParticipantDetail(selectedParticipant.id);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsGrantingAttempt(false);
+    }
+  };
+
+  const handleOpenAttempt = async (attempt: AttemptSummary) => {
+    if (!token || !selectedParticipant || !attempt.id) return;
+    if (openAttempt?.attemptNumber === attempt.attempt_number) {
+      setOpenAttempt(null);
+      return;
+    }
+    try {
+      const res = await sessionsApi.getAttempt(token, sessionId, selectedParticipant.id, attempt.id);
+      setOpenAttempt({
+        attemptNumber: attempt.attempt_number,
+        conversations: Object.values(res.conversations).flat(),
+      });
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    }
+  };
+
+  const handleSaveEvaluation = async () => {
+    if (!token || !selectedParticipant || !evaluationDraft.verdict) return;
+    try {
+      setIsSavingEvaluation(true);
+      const res = await sessionsApi.saveTeacherEvaluation(token, sessionId, selectedParticipant.id, {
+        verdict: evaluationDraft.verdict,
+        score: evaluationDraft.score.trim() ? Number(evaluationDraft.score) : null,
+        comment: evaluationDraft.comment,
+      });
+      setParticipants((prev) =>
+        prev.map((p) => (p.id === selectedParticipant.id ? { ...p, teacher_verdict: res.teacherEvaluation.verdict } : p))
+      );
+      await loadParticipantDetail(selectedParticipant.id);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsSavingEvaluation(false);
+    }
+  };
+
+  const handleRegrade = async () => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsRegrading(true);
+      const res = await sessionsApi.regradeEvaluation(token, sessionId, selectedParticipant.id, {
+        instructions: regradeInstructions.trim() || undefined,
+        llm_provider: regradeProvider || null,
+      });
+      if (res.summary === null) setError('재채점에 실패했습니다. 현재 평가는 그대로 유지됩니다.');
+      await loadParticipantDetail(selectedParticipant.id);
+      // 직전 AI 버전과 바로 비교
+      const previous = (selectedParticipant.evaluations || [])
+        .filter((e) => e.kind === 'ai' && !e.fallback)
+        .pop();
+      setCompareVersions(previous ? [previous.version, res.evaluation.version] : [res.evaluation.version]);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsRegrading(false);
+    }
+  };
+
+  const toggleCompareVersion = (version: number) => {
+    setCompareVersions((prev) =>
+      prev.includes(version) ? prev.filter((v) => v !== version) : [...prev, version].slice(-2)
+    );
+  };
+
+  const handleSaveAnnotation = async (turn: ConversationTurn) => {
+    if (!token || !selectedParticipant) return;
+    const draft = annotationDrafts[turn.id] ?? '';
+    try {
+      setSavingAnnotationId(turn.id);
+      const res = await sessionsApi.annotateTurn(token, sessionId, selectedParticipant.id, turn.id, draft.trim() || null);
+      setSelectedParticipant({
+        ...selectedParticipant,
+        conversations: selectedParticipant.conversations.map((c) =>
+          c.id === turn.id ? { ...c, teacher_annotation: res.turn.teacher_annotation } : c
+        ),
+      });
+      setAnnotationDrafts((prev) => {
+        const next = { ...prev };
+        delete next[turn.id];
+        return next;
+      });
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setSavingAnnotationId(null);
+    }
+  };
+
+  const handleReanalyzeTopics = async () => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsUpdatingTopics(true);
+      await sessionsApi.reanalyzeTopics(token, sessionId, selectedParticipant.id);
+      await loadParticipantDetail(selectedParticipant.id);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsUpdatingTopics(false);
+    }
+  };
+
+  const handleSaveTopics = async (confirm: boolean) => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsUpdatingTopics(true);
+      const res = await sessionsApi.updateTopics(token, sessionId, selectedParticipant.id, {
+        topics: topicDrafts.map((title) => ({ title })),
+        confirm,
+      });
+      setParticipants((prev) =>
+        prev.map((p) =>
+          p.id === selectedParticipant.id
+            ? { ...p, topics_confirmed_at: res.participant.topics_confirmed_at }
+            : p
+        )
+      );
+      await loadParticipantDetail(selectedParticipant.id);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsUpdatingTopics(false);
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsDownloading(true);
+      const blob = await sessionsApi.downloadReport(token, sessionId, selectedParticipant.id);
+      downloadBlob(blob, `${selectedParticipant.student_name}_report.pdf`);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDownloadSubmittedFile = async () => {
+    if (!token || !selectedParticipant) return;
+    try {
+      setIsDownloading(true);
+      const blob = await sessionsApi.downloadSubmittedFile(token, sessionId, selectedParticipant.id);
+      downloadBlob(blob, selectedParticipant.submitted_file_name || 'submission');
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handlePlayRecording = async (recordingId: string) => {
+    if (!token || !selectedParticipant || recordingUrls[recordingId]) return;
+    try {
+      setLoadingRecordingId(recordingId);
+      const blob = await sessionsApi.getRecording(token, sessionId, selectedParticipant.id, recordingId);
+      setRecordingUrls((prev) => ({ ...prev, [recordingId]: URL.createObjectURL(blob) }));
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.status === 404 ? '녹음을 찾을 수 없습니다 (보관 기간 만료)' : err.message);
+      }
+    } finally {
+      setLoadingRecordingId(null);
+    }
+  };
+
+  const handleDownloadAllReports = async () => {
+    if (!token || !session) return;
+    try {
+      setIsDownloading(true);
+      const blob = await sessionsApi.downloadAllReports(token, sessionId);
+      downloadBlob(blob, `${session.title}_reports.zip`);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const handleActivate = async () => {
     if (!token || !session) return;
     try {
@@ -166,6 +963,10 @@ export default function SessionDetailPage() {
     }
   };
 
+  useEffect(() => {
+    citationMarkRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeTurn]);
+
   const toggleTopic = (index: number) => {
     setExpandedTopics((prev) =>
       prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
@@ -227,6 +1028,16 @@ export default function SessionDetailPage() {
                 >
                   {getStatusLabel(session.status)}
                 </span>
+                <span
+                  className={cn(
+                    'flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full',
+                    isLive ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-500'
+                  )}
+                  title={isLive ? '실시간 업데이트 중' : '실시간 연결 끊김 - 재연결 중'}
+                >
+                  <Radio className="w-3 h-3" />
+                  {isLive ? 'LIVE' : '연결 중...'}
+                </span>
               </div>
               {session.description && (
                 <p className="text-gray-500 mt-1">{session.description}</p>
@@ -234,6 +1045,16 @@ export default function SessionDetailPage() {
             </div>
 
             <div className="flex items-center gap-2">
+              {participants.length > 0 && (
+                <button
+                  onClick={handleDownloadAllReports}
+                  disabled={isDownloading}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  <Download className="w-5 h-5" />
+                  전체 보고서 (ZIP)
+                </button>
+              )}
               {session.status === 'active' && (
                 <Link
                   href={`/teacher/sessions/${session.id}/qr`}
@@ -338,11 +1159,278 @@ export default function SessionDetailPage() {
                           {p.student_id}
                         </span>
                       )}
+                      {p.status === 'file_submitted' && (p.topics_fallback || !p.topics_confirmed_at) && (
+                        <div className="mt-1 flex flex-wrap gap-1 text-xs">
+                          {p.topics_fallback && (
+                            <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700">기본 주제</span>
+                          )}
+                          {!p.topics_confirmed_at && (
+                            <span className="px-1.5 py-0.5 rounded bg-yellow-50 text-yellow-700">주제 확인 필요</span>
+                          )}
+                        </div>
+                      )}
+                      {(() => {
+                        const similarCount =
+                          similarity?.pairs.filter(
+                            (pair) => pair.participant_a_id === p.id || pair.participant_b_id === p.id
+                          ).length || 0;
+                        return similarCount > 0 ? (
+                          <div className="mt-1 text-xs">
+                            <span className="px-1.5 py-0.5 rounded bg-orange-50 text-orange-700">
+                              유사 제출 {similarCount}건
+                            </span>
+                          </div>
+                        ) : null;
+                      })()}
+                      {p.teacher_verdict && (
+                        <div className="mt-1 text-xs">
+                          <span className={cn('px-1.5 py-0.5 rounded', getVerdictColor(p.teacher_verdict))}>
+                            교사 판정: {getVerdictLabel(p.teacher_verdict)}
+                          </span>
+                        </div>
+                      )}
+                      {(() => {
+                        const rejoinCount =
+                          roster?.conflicts.filter(
+                            (conflict) => conflict.reason === 'rejoin' && conflict.participant_id === p.id
+                          ).length || 0;
+                        return rejoinCount > 0 ? (
+                          <div className="mt-1 text-xs">
+                            <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+                              중복 참여 {rejoinCount}회
+                            </span>
+                          </div>
+                        ) : null;
+                      })()}
+                      {(p.attempt_number ?? 1) > 1 && (
+                        <div className="mt-1 text-xs">
+                          <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">
+                            {getAttemptLabel(p.attempt_number!)}
+                          </span>
+                        </div>
+                      )}
+                      {!!p.focus_loss_count && (
+                        <div className="mt-1 text-xs">
+                          <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700">
+                            화면 이탈 {p.focus_loss_count}회
+                          </span>
+                        </div>
+                      )}
+                      {(p.status === 'interview_in_progress' || p.status === 'interview_paused') &&
+                        p.current_topic_index !== null && p.current_topic_index !== undefined && (
+                        <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                          <span className="truncate">
+                            주제 {p.current_topic_index + 1}
+                            {p.topics_state?.[p.current_topic_index]?.title &&
+                              ` - ${p.topics_state[p.current_topic_index].title}`}
+                          </span>
+                          {getRemainingTime(p, now) !== null && (
+                            <span className={cn('flex items-center gap-1 font-mono', p.teacher_paused_at && 'text-yellow-700')}>
+                              {p.teacher_paused_at ? <Pause className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                              {formatTime(getRemainingTime(p, now)!)}
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </button>
                   ))}
                 </div>
               )}
             </div>
+
+            {/* Similar Submissions (유사 제출물) */}
+            {similarity && (
+              <div className="bg-white rounded-xl border border-gray-200 p-4 mt-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-orange-500" />
+                    유사 제출물 ({similarity.pairs.length}쌍)
+                  </h2>
+                  <button
+                    onClick={handleRecomputeSimilarity}
+                    disabled={isRecomputing}
+                    className="p-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                    title="전체 다시 검사"
+                  >
+                    <RefreshCw className={cn('w-4 h-4', isRecomputing && 'animate-spin')} />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  연속된 5단어 표현이 {Math.round(similarity.threshold * 100)}% 이상 겹치는 제출물 쌍입니다
+                </p>
+                {similarity.pairs.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">유사한 제출물이 없습니다</p>
+                ) : (
+                  <div className="space-y-1">
+                    {similarity.pairs.map((pair) => (
+                      <button
+                        key={pair.id}
+                        onClick={() => handleOpenPair(pair.id)}
+                        className="w-full flex items-center justify-between p-2 rounded-lg text-left text-sm hover:bg-gray-50"
+                      >
+                        <span className="truncate text-gray-800">
+                          {pair.participant_a_name} ↔ {pair.participant_b_name}
+                        </span>
+                        <span className="ml-2 font-medium text-orange-700">
+                          {Math.round(pair.score * 100)}%
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {/* Class roster and join checks (학생 명단) */}
+            {roster && (
+              <div className="bg-white rounded-xl border border-gray-200 p-4 mt-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <UserCheck className="w-5 h-5" />
+                    학생 명단 ({roster.roster.length}명)
+                  </h2>
+                  <div className="flex items-center gap-1">
+                    {roster.roster.length > 0 && (
+                      <button
+                        onClick={handleDownloadRoster}
+                        className="p-1.5 text-gray-500 hover:text-gray-800"
+                        title="PIN/코드 포함 명단 내려받기 (CSV)"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        setShowRosterImport((prev) => !prev);
+                        setRosterImportResult(null);
+                      }}
+                      className="p-1.5 text-gray-500 hover:text-gray-800"
+                      title="명단 가져오기 (CSV)"
+                    >
+                      <Upload className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  참여 확인: {getJoinPolicyLabel(roster.joinPolicy)}
+                  {roster.joinPolicy === 'open' && ' - 명단은 참고용이며 세션 설정에서 참여 확인 방식을 바꿀 수 있습니다'}
+                </p>
+
+                {showRosterImport && (
+                  <div className="mb-3 p-3 bg-gray-50 rounded-lg space-y-2">
+                    <p className="text-xs text-gray-500">
+                      한 줄에 한 명씩 이름, 학번, 이메일(선택) 순서로 입력하거나 CSV 파일을 선택하세요.
+                      이미 있는 학번은 이름과 이메일만 바뀌고 PIN/코드는 유지됩니다.
+                    </p>
+                    <textarea
+                      value={rosterCsv}
+                      onChange={(e) => setRosterCsv(e.target.value)}
+                      rows={5}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                      placeholder={'이름,학번,이메일\n홍길동,2024001,hong@example.com'}
+                    />
+                    <input type="file" accept=".csv,text/csv,text/plain" onChange={handleRosterFile} className="text-xs" />
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={rosterReplace}
+                        onChange={(e) => setRosterReplace(e.target.checked)}
+                      />
+                      파일에 없는 학생 삭제 (이미 참여한 학생은 유지)
+                    </label>
+                    <button
+                      onClick={handleImportRoster}
+                      disabled={isImportingRoster || !rosterCsv.trim()}
+                      className="w-full py-1.5 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      {isImportingRoster ? '가져오는 중...' : '가져오기'}
+                    </button>
+                    {session.course_id && (
+                      <button
+                        onClick={handleImportCourseRoster}
+                        disabled={isImportingRoster}
+                        className="w-full py-1.5 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        과목 명단 불러오기
+                      </button>
+                    )}
+                    {rosterImportResult && (
+                      <p className="text-xs text-gray-700 whitespace-pre-line">{rosterImportResult}</p>
+                    )}
+                  </div>
+                )}
+
+                {roster.roster.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">등록된 학생이 없습니다</p>
+                ) : (
+                  <div className="space-y-1 max-h-80 overflow-y-auto">
+                    {roster.roster.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between p-2 rounded-lg text-sm hover:bg-gray-50">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="truncate text-gray-800">{entry.student_name}</span>
+                            <span className="text-xs text-gray-500">{entry.student_id}</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-gray-500 font-mono">
+                            {roster.joinPolicy !== 'one_time_code' && <span title="PIN">PIN {entry.pin}</span>}
+                            {roster.joinPolicy !== 'pin' && (
+                              <span title="1회용 코드" className={cn(entry.code_used_at && 'line-through')}>
+                                {entry.one_time_code}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 ml-2 shrink-0">
+                          <span
+                            className={cn(
+                              'px-1.5 py-0.5 text-xs rounded',
+                              entry.participant_status ? getStatusColor(entry.participant_status) : 'bg-gray-100 text-gray-500'
+                            )}
+                          >
+                            {entry.participant_status ? getStatusLabel(entry.participant_status) : '미참여'}
+                          </span>
+                          <button
+                            onClick={() => handleReissueRoster(entry)}
+                            className="p-1 text-gray-400 hover:text-gray-700"
+                            title="PIN/코드 재발급"
+                          >
+                            <RefreshCw className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleRemoveRosterEntry(entry)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="명단에서 삭제"
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {roster.conflicts.length > 0 && (
+                  <div className="mt-4 pt-3 border-t border-gray-100">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                      <AlertTriangle className="w-4 h-4 text-amber-500" />
+                      참여 확인 기록
+                    </h3>
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                      {roster.conflicts.map((conflict) => (
+                        <div key={conflict.id} className="flex items-center justify-between text-xs">
+                          <span className="truncate text-gray-700">
+                            <span className="font-medium">{getJoinConflictLabel(conflict.reason)}</span>
+                            {' · '}
+                            {conflict.student_name}
+                            {conflict.student_id && ` (${conflict.student_id})`}
+                          </span>
+                          <span className="ml-2 text-gray-400 shrink-0">{formatDate(conflict.created_at)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Participant Detail */}
@@ -360,134 +1448,1165 @@ export default function SessionDetailPage() {
                       </p>
                     )}
                   </div>
-                  <span
-                    className={cn(
-                      'px-3 py-1 text-sm font-medium rounded-full',
-                      getStatusColor(selectedParticipant.status)
+                  <div className="flex items-center gap-2">
+                    {selectedParticipant.submitted_file_url && (
+                      <button
+                        onClick={handleDownloadSubmittedFile}
+                        disabled={isDownloading}
+                        title={selectedParticipant.submitted_file_name || undefined}
+                        className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Download className="w-4 h-4" />
+                        제출 파일
+                      </button>
                     )}
-                  >
-                    {getStatusLabel(selectedParticipant.status)}
-                  </span>
+                    <button
+                      onClick={handleDownloadReport}
+                      disabled={isDownloading}
+                      className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      PDF 보고서
+                    </button>
+                    <span
+                      className={cn(
+                        'px-3 py-1 text-sm font-medium rounded-full',
+                        getStatusColor(selectedParticipant.status)
+                      )}
+                    >
+                      {getStatusLabel(selectedParticipant.status)}
+                    </span>
+                  </div>
                 </div>
 
+                {/* Live interview controls (진행 중 인터뷰 조치) */}
+                {(() => {
+                  const listed = participants.find((p) => p.id === selectedParticipant.id);
+                  if (!listed) return null;
+                  const isLive = listed.status === 'interview_in_progress' || listed.status === 'interview_paused';
+                  const isTimed = isLive && (listed.current_phase === 'topic_active' || listed.current_phase === 'topic_paused');
+                  const canSkip = isTimed || (isLive && listed.current_phase === 'topic_intro');
+                  const canComplete = isLive && listed.current_phase !== 'completed' && listed.current_phase !== 'finalizing';
+                  const canReset =
+                    !!listed.file_submitted_at &&
+                    (isLive || ['completed', 'timeout', 'abandoned'].includes(listed.status));
+                  const log = selectedParticipant.interventionLog || [];
+                  if (!canComplete && !canReset && log.length === 0) return null;
+                  const busy = pendingIntervention !== null;
+                  return (
+                    <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+                      <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+                        <Hand className="w-5 h-5" />
+                        인터뷰 조치
+                        {listed.teacher_paused_at && (
+                          <span className="px-1.5 py-0.5 text-xs font-normal rounded bg-yellow-100 text-yellow-800">일시정지 중</span>
+                        )}
+                      </h3>
+                      <div className="flex flex-wrap gap-2">
+                        {isTimed &&
+                          EXTEND_TIME_OPTIONS.map((seconds) => (
+                            <button
+                              key={seconds}
+                              onClick={() => handleIntervention('extend_time', seconds)}
+                              disabled={busy}
+                              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              <Clock className="w-4 h-4" />+{seconds / 60}분
+                            </button>
+                          ))}
+                        {isTimed && (
+                          <button
+                            onClick={() => handleIntervention(listed.teacher_paused_at ? 'resume' : 'pause')}
+                            disabled={busy}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {listed.teacher_paused_at ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                            {listed.teacher_paused_at ? '재개' : '일시정지'}
+                          </button>
+                        )}
+                        {canSkip && (
+                          <button
+                            onClick={() => handleIntervention('skip_topic')}
+                            disabled={busy}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <SkipForward className="w-4 h-4" />
+                            주제 건너뛰기
+                          </button>
+                        )}
+                        {canComplete && (
+                          <button
+                            onClick={() => handleIntervention('force_complete')}
+                            disabled={busy}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-200 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                          >
+                            <Square className="w-4 h-4" />
+                            {pendingIntervention === 'force_complete' ? '종료 중...' : '강제 종료'}
+                          </button>
+                        )}
+                        {canReset && (
+                          <button
+                            onClick={() => handleIntervention('reset')}
+                            disabled={busy}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-200 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                            초기화 (재응시)
+                          </button>
+                        )}
+                      </div>
+                      {log.length > 0 && (
+                        <ul className="mt-3 text-sm border-t border-gray-100 pt-2 space-y-1">
+                          {log.map((entry) => (
+                            <li key={entry.id} className="flex items-center justify-between">
+                              <span className="text-gray-700">
+                                {getInterventionLabel(entry.action)}
+                                {entry.details?.seconds && ` +${Math.round(entry.details.seconds / 60)}분`}
+                                {entry.details?.pausedSeconds !== undefined && ` (${formatTime(entry.details.pausedSeconds)} 정지)`}
+                                {entry.topic_index !== null && entry.topic_index !== undefined && (
+                                  <span className="text-gray-400"> · 주제 {entry.topic_index + 1}</span>
+                                )}
+                              </span>
+                              <span className="text-xs text-gray-400">{formatDate(entry.created_at)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Live Timeline */}
+                {(() => {
+                  const listed = participants.find((p) => p.id === selectedParticipant.id);
+                  const timeline = listed ? getTimeline(listed) : [];
+                  if (timeline.length === 0) return null;
+                  return (
+                    <div className="mb-6">
+                      <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                        <Activity className="w-5 h-5" />
+                        진행 타임라인
+                      </h3>
+                      <ol className="relative border-l border-gray-200 ml-2 space-y-2">
+                        {timeline.map((entry, i) => (
+                          <li key={i} className="ml-4">
+                            <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary-400 border border-white" />
+                            <span className="text-xs text-gray-400 mr-2">
+                              {new Date(entry.at).toLocaleTimeString('ko-KR')}
+                            </span>
+                            <span className="text-sm font-medium text-gray-800">
+                              {EVENT_LABELS[entry.type]}
+                            </span>
+                            {entry.detail && (
+                              <span className="text-sm text-gray-500 ml-2">{entry.detail}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  );
+                })()}
+
                 {/* Summary */}
                 {selectedParticipant.summary && (
                   <div className="mb-6 p-4 bg-blue-50 rounded-lg">
-                    <h3 className="font-medium text-blue-900 mb-2">
-                      AI 평가 요약
-                    </h3>
-                    {selectedParticipant.summary.score !== undefined && (
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-medium text-blue-900">
+                        AI 평가 요약
+                      </h3>
+                      <span
+                        className={cn(
+                          'px-2 py-0.5 text-xs font-medium rounded-full',
+                          getVerdictColor(selectedParticipant.summary.verdict)
+                        )}
+                      >
+                        {getVerdictLabel(selectedParticipant.summary.verdict)}
+                      </span>
+                    </div>
+                    {selectedParticipant.summary.authorshipScore !== null && (
                       <p className="text-blue-800 mb-2">
-                        점수: {selectedParticipant.summary.score}점
+                        직접 작성 가능성: {selectedParticipant.summary.authorshipScore}/100
                       </p>
                     )}
-                    {selectedParticipant.summary.overall_assessment && (
-                      <p className="text-blue-800">
-                        {selectedParticipant.summary.overall_assessment}
+                    {selectedParticipant.summary.overallComment && (
+                      <p className="text-blue-800 whitespace-pre-wrap">
+                        {selectedParticipant.summary.overallComment}
                       </p>
                     )}
-                    {selectedParticipant.summary.key_findings && (
-                      <ul className="mt-2 list-disc list-inside text-blue-700 text-sm">
-                        {selectedParticipant.summary.key_findings.map((f, i) => (
-                          <li key={i}>{f}</li>
+                    {selectedParticipant.summary.strengths.length > 0 && (
+                      <div className="mt-3">
+                        <div className="text-sm font-medium text-green-800">근거 (직접 작성)</div>
+                        <ul className="list-disc list-inside text-green-700 text-sm">
+                          {selectedParticipant.summary.strengths.map((f, i) => (
+                            <li key={i}>{f}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {selectedParticipant.summary.weaknesses.length > 0 && (
+                      <div className="mt-3">
+                        <div className="text-sm font-medium text-red-800">의심 신호</div>
+                        <ul className="list-disc list-inside text-red-700 text-sm">
+                          {selectedParticipant.summary.weaknesses.map((f, i) => (
+                            <li key={i}>{f}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {selectedParticipant.summary.topicAssessments.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {selectedParticipant.summary.topicAssessments.map((topic) => (
+                          <div key={topic.topicIndex} className="p-2 bg-white rounded">
+                            <div className="flex items-center justify-between text-sm font-medium text-gray-800">
+                              <span>
+                                {topic.topicIndex + 1}. {topic.topic}
+                              </span>
+                              {topic.score !== null && (
+                                <span className="text-gray-500">{topic.score}/100</span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600">{topic.assessment}</p>
+                          </div>
                         ))}
-                      </ul>
+                      </div>
+                    )}
+                    {selectedParticipant.summary.criteriaScores.length > 0 && (
+                      <div className="mt-4">
+                        <div className="text-sm font-medium text-blue-900 mb-2">루브릭 기준별 평가</div>
+                        <div className="space-y-2">
+                          {selectedParticipant.summary.criteriaScores.map((criterion) => (
+                            <div key={criterion.criterionId} className="p-3 bg-white rounded">
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="font-medium text-gray-800">
+                                  {criterion.name}
+                                  <span className="ml-1 text-xs text-gray-400">
+                                    (가중치 {criterion.weight})
+                                  </span>
+                                </span>
+                                <span className="font-mono text-gray-700">
+                                  {criterion.score !== null ? `${criterion.score}/100` : '-'}
+                                </span>
+                              </div>
+                              {criterion.score !== null && (
+                                <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                  <div
+                                    className={cn(
+                                      'h-full rounded-full',
+                                      criterion.score >= 70
+                                        ? 'bg-green-500'
+                                        : criterion.score >= 40
+                                        ? 'bg-yellow-500'
+                                        : 'bg-red-500'
+                                    )}
+                                    style={{ width: `${criterion.score}%` }}
+                                  />
+                                </div>
+                              )}
+                              {criterion.rationale && (
+                                <p className="mt-2 text-sm text-gray-600">{criterion.rationale}</p>
+                              )}
+                              {criterion.evidence.length > 0 && (
+                                <ul className="mt-2 space-y-1">
+                                  {criterion.evidence.map((e, i) => (
+                                    <li
+                                      key={i}
+                                      className="text-xs text-gray-600 border-l-2 border-gray-300 pl-2 italic"
+                                    >
+                                      &ldquo;{e.quote}&rdquo;
+                                      {!e.found && (
+                                        <span className="ml-1 not-italic text-orange-600">
+                                          (대화 기록에서 확인되지 않음)
+                                        </span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
                     )}
+                    {selectedParticipant.summary.migratedFrom && (
+                      <p className="mt-2 text-xs text-gray-500">
+                        이전 버전(v{selectedParticipant.summary.migratedFrom}) 평가에서 변환됨
+                        {selectedParticipant.summary.authorshipScore === null && ' - 점수 없음'}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Teacher decision (교사 최종 판정) - AI 평가와 함께 표시, 있으면 결과에 우선 */}
+                {selectedParticipant.interview_ended_at && (
+                  <div className="mb-6 p-4 bg-amber-50 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-medium text-amber-900 flex items-center gap-2">
+                        <Gavel className="w-5 h-5" />
+                        교사 최종 판정
+                      </h3>
+                      {selectedParticipant.teacher_evaluation ? (
+                        <span className="text-xs text-amber-800">
+                          v{selectedParticipant.teacher_evaluation.version} ·{' '}
+                          {formatDate(selectedParticipant.teacher_evaluation.decidedAt)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-gray-500">판정 전 (AI 평가 기준)</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {TEACHER_VERDICTS.map((verdict) => (
+                        <button
+                          key={verdict}
+                          onClick={() => setEvaluationDraft({ ...evaluationDraft, verdict })}
+                          className={cn(
+                            'px-3 py-1.5 text-sm rounded-lg border',
+                            evaluationDraft.verdict === verdict
+                              ? cn(getVerdictColor(verdict), 'border-transparent font-medium')
+                              : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                          )}
+                        >
+                          {getVerdictLabel(verdict)}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <label className="text-sm text-amber-900">점수</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={evaluationDraft.score}
+                        onChange={(e) => setEvaluationDraft({ ...evaluationDraft, score: e.target.value })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        placeholder="0~100"
+                      />
+                      <span className="text-xs text-gray-500">/100 (선택)</span>
+                    </div>
+                    <textarea
+                      value={evaluationDraft.comment}
+                      onChange={(e) => setEvaluationDraft({ ...evaluationDraft, comment: e.target.value })}
+                      rows={3}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="판정 근거 (결과 내보내기와 PDF 보고서에 포함됩니다)"
+                    />
+                    <div className="flex justify-end mt-2">
+                      <button
+                        onClick={handleSaveEvaluation}
+                        disabled={isSavingEvaluation || !evaluationDraft.verdict}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:bg-gray-300"
+                      >
+                        {isSavingEvaluation ? '저장 중...' : '판정 저장'}
+                      </button>
+                    </div>
                   </div>
                 )}
 
-                {/* Extracted Text (업로드 과제 내용) */}
-                {selectedParticipant.extracted_text && (
+                {/* Evaluation history - re-grade and compare versions (평가 이력) */}
+                {selectedParticipant.interview_ended_at && (
                   <div className="mb-6">
                     <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
-                      <FileText className="w-5 h-5" />
-                      업로드된 과제 내용
+                      <History className="w-5 h-5" />
+                      평가 이력
                     </h3>
-                    <div className="p-3 bg-gray-50 rounded-lg max-h-64 overflow-y-auto">
-                      <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                        {selectedParticipant.extracted_text}
+                    <div className="p-3 mb-3 border border-gray-200 rounded-lg">
+                      <p className="text-xs text-gray-500 mb-2">
+                        추가 지침이나 다른 모델로 AI 평가를 다시 실행합니다. 새 결과는 새 버전으로 기록되고 이전 버전은 유지됩니다.
                       </p>
+                      <textarea
+                        value={regradeInstructions}
+                        onChange={(e) => setRegradeInstructions(e.target.value)}
+                        rows={2}
+                        maxLength={MAX_INSTRUCTIONS_LENGTH}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="추가 지침 (예: 주제 2의 답변을 더 엄격하게 평가)"
+                      />
+                      <div className="flex items-center justify-end gap-2 mt-2">
+                        <select
+                          value={regradeProvider}
+                          onChange={(e) => setRegradeProvider(e.target.value)}
+                          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="">세션 기본 모델</option>
+                          {llmProviders.map((provider) => (
+                            <option key={provider.name} value={provider.name}>
+                              {provider.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={handleRegrade}
+                          disabled={isRegrading}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:bg-gray-300"
+                        >
+                          <RefreshCw className={cn('w-4 h-4', isRegrading && 'animate-spin')} />
+                          {isRegrading ? '재채점 중...' : '다시 채점'}
+                        </button>
+                      </div>
                     </div>
+
+                    {(selectedParticipant.evaluations || []).length > 0 && (
+                      <ul className="text-sm border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {[...(selectedParticipant.evaluations || [])].reverse().map((evaluation) => {
+                          const summary = evaluation.kind === 'ai' ? parseInterviewSummary(evaluation.summary) : null;
+                          return (
+                            <li key={evaluation.version} className="flex items-start gap-2 px-3 py-2">
+                              {evaluation.kind === 'ai' && (
+                                <input
+                                  type="checkbox"
+                                  checked={compareVersions.includes(evaluation.version)}
+                                  onChange={() => toggleCompareVersion(evaluation.version)}
+                                  disabled={!summary}
+                                  className="mt-1"
+                                  title="비교"
+                                />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span className="font-medium text-gray-800">{getEvaluationVersionLabel(evaluation)}</span>
+                                  {evaluation.kind === 'teacher' && evaluation.verdict && (
+                                    <span className={cn('px-1.5 py-0.5 text-xs rounded', getVerdictColor(evaluation.verdict))}>
+                                      {getVerdictLabel(evaluation.verdict)}
+                                      {evaluation.score !== null && ` ${evaluation.score}`}
+                                    </span>
+                                  )}
+                                  {summary && (
+                                    <span className={cn('px-1.5 py-0.5 text-xs rounded', getVerdictColor(summary.verdict))}>
+                                      {getVerdictLabel(summary.verdict)}
+                                      {summary.authorshipScore !== null && ` ${summary.authorshipScore}`}
+                                    </span>
+                                  )}
+                                  {evaluation.fallback && (
+                                    <span className="px-1.5 py-0.5 text-xs rounded bg-red-50 text-red-700">실패</span>
+                                  )}
+                                  {evaluation.llm_provider && (
+                                    <span className="text-xs text-gray-400">{evaluation.llm_provider}</span>
+                                  )}
+                                  <span className="text-xs text-gray-400 ml-auto">{formatDate(evaluation.created_at)}</span>
+                                </div>
+                                {evaluation.instructions && (
+                                  <p className="text-xs text-gray-500 mt-0.5 truncate">지침: {evaluation.instructions}</p>
+                                )}
+                                {evaluation.kind === 'teacher' && evaluation.comment && (
+                                  <p className="text-xs text-gray-600 mt-0.5 whitespace-pre-wrap">{evaluation.comment}</p>
+                                )}
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+
+                    {compareVersions.length === 2 && (() => {
+                      const [left, right] = [...compareVersions]
+                        .sort((a, b) => a - b)
+                        .map((version) => {
+                          const evaluation = selectedParticipant.evaluations?.find((e) => e.version === version);
+                          return { evaluation, summary: parseInterviewSummary(evaluation?.summary) };
+                        });
+                      if (!left.evaluation || !right.evaluation || !left.summary || !right.summary) return null;
+                      const criterionIds = Array.from(
+                        new Set([...left.summary.criteriaScores, ...right.summary.criteriaScores].map((c) => c.criterionId))
+                      );
+                      return (
+                        <table className="w-full text-sm mt-3 border border-gray-200 rounded-lg">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 bg-gray-50">
+                              <th className="font-normal p-2 w-1/5"></th>
+                              <th className="font-normal p-2">{getEvaluationVersionLabel(left.evaluation)}</th>
+                              <th className="font-normal p-2">{getEvaluationVersionLabel(right.evaluation)}</th>
+                            </tr>
+                          </thead>
+                          <tbody className="align-top">
+                            <tr className="border-t border-gray-100">
+                              <td className="p-2 text-gray-500">판정</td>
+                              <td className="p-2">{getVerdictLabel(left.summary.verdict)}</td>
+                              <td className="p-2">{getVerdictLabel(right.summary.verdict)}</td>
+                            </tr>
+                            <tr className="border-t border-gray-100">
+                              <td className="p-2 text-gray-500">직접 작성 가능성</td>
+                              <td className="p-2 font-mono">{left.summary.authorshipScore ?? '-'}</td>
+                              <td className="p-2 font-mono">{right.summary.authorshipScore ?? '-'}</td>
+                            </tr>
+                            {criterionIds.map((criterionId) => {
+                              const a = left.summary!.criteriaScores.find((c) => c.criterionId === criterionId);
+                              const b = right.summary!.criteriaScores.find((c) => c.criterionId === criterionId);
+                              return (
+                                <tr key={criterionId} className="border-t border-gray-100">
+                                  <td className="p-2 text-gray-500">{a?.name || b?.name}</td>
+                                  <td className="p-2 font-mono">{a?.score ?? '-'}</td>
+                                  <td className="p-2 font-mono">{b?.score ?? '-'}</td>
+                                </tr>
+                              );
+                            })}
+                            <tr className="border-t border-gray-100">
+                              <td className="p-2 text-gray-500">모델 / 지침</td>
+                              <td className="p-2 text-xs text-gray-600">
+                                {left.evaluation.llm_provider || '-'}
+                                {left.evaluation.instructions && ` · ${left.evaluation.instructions}`}
+                              </td>
+                              <td className="p-2 text-xs text-gray-600">
+                                {right.evaluation.llm_provider || '-'}
+                                {right.evaluation.instructions && ` · ${right.evaluation.instructions}`}
+                              </td>
+                            </tr>
+                            <tr className="border-t border-gray-100">
+                              <td className="p-2 text-gray-500">종합 의견</td>
+                              <td className="p-2 text-xs text-gray-700 whitespace-pre-wrap">{left.summary.overallComment || '-'}</td>
+                              <td className="p-2 text-xs text-gray-700 whitespace-pre-wrap">{right.summary.overallComment || '-'}</td>
+                            </tr>
+                          </tbody>
+                        </table>
+                      );
+                    })()}
                   </div>
                 )}
 
-                {/* Analyzed Topics */}
-                {selectedParticipant.analyzed_topics && (
-                  <div className="mb-6">
-                    <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
-                      <FileText className="w-5 h-5" />
-                      분석된 주제
-                    </h3>
-                    <div className="space-y-2">
-                      {selectedParticipant.analyzed_topics.map((topic, i) => (
-                        <div
-                          key={i}
-                          className="p-3 bg-gray-50 rounded-lg"
+                {/* Attempts - compare earlier attempts with the current one (응시 회차) */}
+                {selectedParticipant.attemptPolicy && (() => {
+                  const policy = selectedParticipant.attemptPolicy;
+                  const attempts = selectedParticipant.attempts || [];
+                  const hasEnded = ['completed', 'timeout', 'abandoned'].includes(selectedParticipant.status);
+                  if (attempts.length < 2 && !hasEnded) return null;
+                  return (
+                    <div className="mb-6">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-medium text-gray-900 flex items-center gap-2">
+                          <Layers className="w-5 h-5" />
+                          응시 회차
+                          <span className="text-xs font-normal text-gray-500">
+                            {policy.attemptNumber} / {policy.allowedAttempts}회
+                          </span>
+                        </h3>
+                        <button
+                          onClick={handleGrantAttempt}
+                          disabled={isGrantingAttempt}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
                         >
-                          <div className="font-medium text-gray-800">
-                            {i + 1}. {topic.title}
+                          <Plus className="w-4 h-4" />
+                          {isGrantingAttempt ? '처리 중...' : '재응시 1회 추가'}
+                        </button>
+                      </div>
+                      {policy.remaining > 0 && (
+                        <p className="text-xs text-gray-500 mb-2">
+                          {hasEnded
+                            ? `학생이 결과 화면에서 다시 응시할 수 있습니다 (남은 ${policy.remaining}회).`
+                            : `이번 회차가 끝나면 ${policy.remaining}회 더 응시할 수 있습니다.`}
+                        </p>
+                      )}
+                      {attempts.length > 1 && (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm border border-gray-200 rounded-lg">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 bg-gray-50">
+                                <th className="font-normal p-2 w-1/5"></th>
+                                {attempts.map((attempt) => (
+                                  <th key={attempt.attempt_number} className="font-normal p-2">
+                                    {getAttemptLabel(attempt.attempt_number)}
+                                    {attempt.current && ' (현재)'}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody className="align-top">
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">상태</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2">
+                                    <span className={cn('px-1.5 py-0.5 text-xs rounded', getStatusColor(attempt.status))}>
+                                      {getStatusLabel(attempt.status)}
+                                    </span>
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">제출 파일</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2 text-xs text-gray-700 break-all">
+                                    {attempt.submitted_file_name || '-'}
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">방식 / 답변 수</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2 text-xs text-gray-700">
+                                    {attempt.chosen_interview_mode ? getInterviewModeLabel(attempt.chosen_interview_mode) : '-'}
+                                    {' · '}
+                                    {attempt.student_turns}개
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">AI 판정</td>
+                                {attempts.map((attempt) => {
+                                  const summary = parseInterviewSummary(attempt.summary);
+                                  return (
+                                    <td key={attempt.attempt_number} className="p-2">
+                                      {summary ? (
+                                        <span className={cn('px-1.5 py-0.5 text-xs rounded', getVerdictColor(summary.verdict))}>
+                                          {getVerdictLabel(summary.verdict)}
+                                          {summary.authorshipScore !== null && ` ${summary.authorshipScore}`}
+                                        </span>
+                                      ) : '-'}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">교사 판정</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2">
+                                    {attempt.teacher_evaluation ? (
+                                      <span className={cn('px-1.5 py-0.5 text-xs rounded', getVerdictColor(attempt.teacher_evaluation.verdict))}>
+                                        {getVerdictLabel(attempt.teacher_evaluation.verdict)}
+                                        {attempt.teacher_evaluation.score !== null && ` ${attempt.teacher_evaluation.score}`}
+                                      </span>
+                                    ) : '-'}
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">화면 이탈</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2 text-xs text-gray-700">
+                                    {attempt.focus_loss_count ? `${attempt.focus_loss_count}회` : '-'}
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2 text-gray-500">종료</td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2 text-xs text-gray-500">
+                                    {attempt.interview_ended_at ? formatDate(attempt.interview_ended_at) : '-'}
+                                  </td>
+                                ))}
+                              </tr>
+                              <tr className="border-t border-gray-100">
+                                <td className="p-2"></td>
+                                {attempts.map((attempt) => (
+                                  <td key={attempt.attempt_number} className="p-2">
+                                    {!attempt.current && (
+                                      <button
+                                        onClick={() => handleOpenAttempt(attempt)}
+                                        className="text-xs text-primary-600 hover:underline"
+                                      >
+                                        {openAttempt?.attemptNumber === attempt.attempt_number ? '대화 닫기' : '대화 보기'}
+                                      </button>
+                                    )}
+                                  </td>
+                                ))}
+                              </tr>
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                      {openAttempt && (
+                        <div className="mt-3 p-3 border border-gray-200 rounded-lg bg-gray-50">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm font-medium text-gray-800">
+                              {getAttemptLabel(openAttempt.attemptNumber)} 대화 기록
+                            </span>
+                            <button onClick={() => setOpenAttempt(null)} className="text-gray-400 hover:text-gray-600">
+                              <X className="w-4 h-4" />
+                            </button>
                           </div>
-                          <p className="text-sm text-gray-600">
-                            {topic.description}
-                          </p>
+                          {openAttempt.conversations.length === 0 ? (
+                            <p className="text-sm text-gray-500">대화 기록이 없습니다.</p>
+                          ) : (
+                            <ul className="space-y-2 max-h-96 overflow-y-auto">
+                              {openAttempt.conversations.map((turn) => (
+                                <li key={turn.id} className="text-sm">
+                                  <span className="text-xs text-gray-400 mr-2">
+                                    주제 {turn.topic_index + 1} · {turn.role === 'ai' ? 'AI' : '학생'}
+                                  </span>
+                                  <span className={turn.role === 'ai' ? 'text-gray-600' : 'text-gray-900'}>{turn.content}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
-                      ))}
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Stylometric consistency - supporting signal only (문체 일관성 보조 지표) */}
+                {selectedParticipant.stylometry && (
+                  <div className="mb-6 p-4 border border-dashed border-gray-300 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <h3 className="font-medium text-gray-900">문체 일관성 (보조 지표)</h3>
+                      <span
+                        className={cn(
+                          'px-2 py-0.5 text-xs font-medium rounded-full',
+                          getStyleLevelColor(selectedParticipant.stylometry.level)
+                        )}
+                      >
+                        {getStyleLevelLabel(selectedParticipant.stylometry.level)}
+                        {selectedParticipant.stylometry.score !== null &&
+                          ` ${Math.round(selectedParticipant.stylometry.score * 100)}`}
+                      </span>
                     </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      제출 글({selectedParticipant.stylometry.written.wordCount}단어)과 인터뷰 답변(
+                      {selectedParticipant.stylometry.answers.wordCount}단어)의 문체를 통계적으로 비교한 참고
+                      자료입니다. 이 지표만으로 직접 작성 여부를 판단하지 마세요.
+                      {selectedParticipant.stylometry.answerMode === 'voice' &&
+                        ' 음성 답변은 글보다 문장이 짧고 구어체 어미가 많은 것이 일반적입니다.'}
+                    </p>
+                    {selectedParticipant.stylometry.level === 'insufficient' ? (
+                      <p className="text-sm text-gray-500">비교할 답변이나 본문이 충분하지 않습니다.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500">
+                            <th className="font-normal pb-1">특징</th>
+                            <th className="font-normal pb-1">제출 글</th>
+                            <th className="font-normal pb-1">답변</th>
+                            <th className="font-normal pb-1 text-right">유사도</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {selectedParticipant.stylometry.features.map((feature) => (
+                            <tr key={feature.key} className="border-t border-gray-100 align-top">
+                              <td className="py-1 pr-2 text-gray-700">{getStyleFeatureLabel(feature.key)}</td>
+                              <td className="py-1 pr-2 text-gray-600">{formatStyleValue(feature, 'written')}</td>
+                              <td className="py-1 pr-2 text-gray-600">{formatStyleValue(feature, 'answers')}</td>
+                              <td className="py-1 text-right font-mono text-gray-700">
+                                {Math.round(feature.similarity * 100)}%
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
                   </div>
                 )}
 
-                {/* Conversations */}
-                {selectedParticipant.conversations?.length > 0 && (
-                  <div>
+                {/* Integrity mode events (무결성 기록) */}
+                {selectedParticipant.integrityLog && selectedParticipant.integrityLog.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                      <AlertTriangle className="w-5 h-5 text-red-500" />
+                      무결성 기록
+                      <span className="text-sm font-normal text-gray-500">
+                        화면 이탈 {selectedParticipant.integrityLog.filter((e) => e.type === 'focus_lost').length}회
+                        · 붙여넣기 차단 {selectedParticipant.integrityLog.filter((e) => e.type === 'paste_blocked').length}회
+                        {(() => {
+                          const penalty = selectedParticipant.integrityLog.reduce((sum, e) => sum + e.penalty_seconds, 0);
+                          return penalty > 0 ? ` · 차감 ${penalty}초` : '';
+                        })()}
+                      </span>
+                    </h3>
+                    <ul className="text-sm border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                      {selectedParticipant.integrityLog.map((entry, i) => (
+                        <li key={i} className="flex items-center justify-between px-3 py-1.5">
+                          <span className="text-gray-700">
+                            {getIntegrityEventLabel(entry.type)}
+                            {entry.topic_index !== null && (
+                              <span className="text-gray-400"> · 주제 {entry.topic_index + 1}</span>
+                            )}
+                            {entry.duration_ms !== null && (
+                              <span className="text-gray-500"> · {formatDuration(entry.duration_ms)} 이탈</span>
+                            )}
+                            {entry.penalty_seconds > 0 && (
+                              <span className="text-red-600"> · {entry.penalty_seconds}초 차감</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-gray-400">{new Date(entry.occurred_at).toLocaleTimeString('ko-KR')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Teacher Notes (교사 메모) */}
+                <div className="mb-6">
+                  <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                    <StickyNote className="w-5 h-5" />
+                    교사 메모
+                  </h3>
+                  <textarea
+                    value={notesDraft}
+                    onChange={(e) => setNotesDraft(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="이 학생에 대한 메모를 남기세요 (PDF 보고서에 포함됩니다)"
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={handleSaveNotes}
+                      disabled={isSavingNotes || notesDraft === (selectedParticipant.teacher_notes || '')}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:bg-gray-300"
+                    >
+                      {isSavingNotes ? '저장 중...' : '메모 저장'}
+                    </button>
+                  </div>
+                </div>
+
+                {/* Analyzed Topics (주제 검토) */}
+                {selectedParticipant.analyzed_topics && (
+                  <div className="mb-6">
                     <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
-                      <MessageSquare className="w-5 h-5" />
-                      인터뷰 기록
+                      <FileText className="w-5 h-5" />
+                      분석된 주제
+                      {selectedParticipant.topics_confirmed_at ? (
+                        <span className="text-xs font-normal text-green-600">
+                          {selectedParticipant.topics_confirmed_by === 'teacher'
+                            ? '교사 확정'
+                            : selectedParticipant.topics_confirmed_by === 'student'
+                            ? '학생 확정'
+                            : '확정됨'}
+                        </span>
+                      ) : (
+                        <span className="text-xs font-normal text-yellow-700">확정 전</span>
+                      )}
                     </h3>
-                    <div className="space-y-2">
-                      {Object.entries(
-                        groupConversationsByTopic(selectedParticipant.conversations)
-                      ).map(([topicIndex, convs]) => (
-                        <div key={topicIndex} className="border rounded-lg">
+                    {selectedParticipant.topics_fallback && (
+                      <div className="mb-2 p-2 bg-red-50 rounded-lg text-sm text-red-700 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        AI가 과제를 분석하지 못해 기본 주제가 사용되었습니다. 주제를 확인해주세요.
+                      </div>
+                    )}
+                    {selectedParticipant.status === 'file_submitted' ? (
+                      <>
+                        <div className="space-y-2">
+                          {topicDrafts.map((title, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                              <span className="text-sm text-gray-500 w-6">{i + 1}.</span>
+                              <input
+                                value={title}
+                                maxLength={100}
+                                disabled={selectedParticipant.analyzed_topics?.[i]?.source === 'teacher'}
+                                onChange={(e) =>
+                                  setTopicDrafts(topicDrafts.map((t, j) => (j === i ? e.target.value : t)))
+                                }
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-600"
+                              />
+                              {selectedParticipant.analyzed_topics?.[i]?.source === 'teacher' && (
+                                <span className="text-xs text-primary-700 whitespace-nowrap">교사 지정</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-end gap-2 mt-2">
                           <button
-                            onClick={() => toggleTopic(parseInt(topicIndex))}
-                            className="w-full p-3 flex items-center justify-between text-left hover:bg-gray-50"
+                            onClick={handleReanalyzeTopics}
+                            disabled={isUpdatingTopics}
+                            className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
                           >
-                            <span className="font-medium">
-                              주제 {parseInt(topicIndex) + 1}
-                            </span>
-                            {expandedTopics.includes(parseInt(topicIndex)) ? (
-                              <ChevronUp className="w-5 h-5" />
-                            ) : (
-                              <ChevronDown className="w-5 h-5" />
-                            )}
+                            <RefreshCw className={cn('w-4 h-4', isUpdatingTopics && 'animate-spin')} />
+                            다시 분석
                           </button>
-                          {expandedTopics.includes(parseInt(topicIndex)) && (
-                            <div className="p-3 pt-0 space-y-3">
-                              {convs.map((conv, i) => (
-                                <div
-                                  key={i}
-                                  className={cn(
-                                    'p-3 rounded-lg',
-                                    conv.role === 'ai'
-                                      ? 'bg-blue-50 text-blue-900'
-                                      : 'bg-gray-100 text-gray-900 ml-8'
+                          <button
+                            onClick={() => handleSaveTopics(false)}
+                            disabled={isUpdatingTopics || topicDrafts.some((t) => !t.trim())}
+                            className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            저장
+                          </button>
+                          <button
+                            onClick={() => handleSaveTopics(true)}
+                            disabled={isUpdatingTopics || topicDrafts.some((t) => !t.trim())}
+                            className="px-3 py-1.5 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:bg-gray-300"
+                          >
+                            저장 후 확정
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="space-y-2">
+                        {selectedParticipant.analyzed_topics.map((topic, i) => (
+                          <div
+                            key={i}
+                            className="p-3 bg-gray-50 rounded-lg"
+                          >
+                            <div className="font-medium text-gray-800">
+                              {i + 1}. {topic.title}
+                              {topic.source === 'teacher' && (
+                                <span className="ml-2 text-xs font-normal text-primary-700">교사 지정</span>
+                              )}
+                            </div>
+                            {topic.description && (
+                              <p className="text-sm text-gray-600">
+                                {topic.description}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {selectedParticipant.topicLog && selectedParticipant.topicLog.length > 0 && (
+                      <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer text-gray-600">
+                          분석 이력 ({selectedParticipant.topicLog.length})
+                        </summary>
+                        <ul className="mt-2 space-y-2">
+                          {selectedParticipant.topicLog.map((entry, i) => (
+                            <li key={i} className="p-2 border border-gray-100 rounded-lg">
+                              <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span>
+                                  {TOPIC_LOG_LABELS[entry.action] || entry.action}
+                                  {entry.llm_provider && ` · ${entry.llm_provider}`}
+                                  {entry.fallback && (
+                                    <span className="ml-1 text-red-600">· 기본 주제</span>
                                   )}
+                                </span>
+                                <span>{formatDate(entry.created_at)}</span>
+                              </div>
+                              <div className="text-gray-700 mt-1">
+                                {entry.topics.map((t) => t.title).join(' / ')}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
+                )}
+
+                <div
+                  className={cn(
+                    selectedParticipant.extracted_text &&
+                      selectedParticipant.conversations?.length > 0 &&
+                      'xl:grid xl:grid-cols-2 xl:gap-4 xl:items-start'
+                  )}
+                >
+                  {/* Extracted Text (업로드 과제 내용) - 선택한 질문이 인용한 구간 강조 */}
+                  {selectedParticipant.extracted_text && (
+                    <div className="mb-6 xl:sticky xl:top-4">
+                      <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                        <FileText className="w-5 h-5" />
+                        업로드된 과제 내용
+                      </h3>
+                      <div className="p-3 bg-gray-50 rounded-lg max-h-64 xl:max-h-[32rem] overflow-y-auto">
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                          {(() => {
+                            let firstMark = true;
+                            return splitByCitations(
+                              selectedParticipant.extracted_text,
+                              activeTurn?.citations
+                            ).map((segment, i) => {
+                              if (!segment.highlighted) return <span key={i}>{segment.text}</span>;
+                              const isFirst = firstMark;
+                              firstMark = false;
+                              return (
+                                <mark
+                                  key={i}
+                                  ref={isFirst ? citationMarkRef : undefined}
+                                  className="bg-yellow-200 text-gray-900 rounded px-0.5"
                                 >
-                                  <div className="text-xs text-gray-500 mb-1">
-                                    {conv.role === 'ai' ? 'AI' : '학생'}
+                                  {segment.text}
+                                </mark>
+                              );
+                            });
+                          })()}
+                        </p>
+                      </div>
+                      {activeTurn && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {activeTurn.citations?.length
+                            ? '선택한 질문이 인용한 부분이 강조되어 있습니다.'
+                            : '선택한 질문에 연결된 인용 구간이 없습니다.'}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Conversations */}
+                  {selectedParticipant.conversations?.length > 0 && (
+                    <div>
+                      <h3 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                        <MessageSquare className="w-5 h-5" />
+                        인터뷰 기록
+                      </h3>
+                      <div className="space-y-2">
+                        {Object.entries(
+                          groupConversationsByTopic(selectedParticipant.conversations)
+                        ).map(([topicIndex, convs]) => (
+                          <div key={topicIndex} className="border rounded-lg">
+                            <button
+                              onClick={() => toggleTopic(parseInt(topicIndex))}
+                              className="w-full p-3 flex items-center justify-between text-left hover:bg-gray-50"
+                            >
+                              <span className="font-medium">
+                                주제 {parseInt(topicIndex) + 1}
+                              </span>
+                              {expandedTopics.includes(parseInt(topicIndex)) ? (
+                                <ChevronUp className="w-5 h-5" />
+                              ) : (
+                                <ChevronDown className="w-5 h-5" />
+                              )}
+                            </button>
+                            {expandedTopics.includes(parseInt(topicIndex)) && (
+                              <div className="p-3 pt-0 space-y-3">
+                                {convs.map((conv) => (
+                                  <div
+                                    key={conv.id}
+                                    onClick={
+                                      conv.role === 'ai' && selectedParticipant.extracted_text
+                                        ? () => setActiveTurn(activeTurn === conv ? null : conv)
+                                        : undefined
+                                    }
+                                    className={cn(
+                                      'p-3 rounded-lg',
+                                      conv.role === 'ai'
+                                        ? 'bg-blue-50 text-blue-900'
+                                        : 'bg-gray-100 text-gray-900 ml-8',
+                                      conv.role === 'ai' &&
+                                        selectedParticipant.extracted_text &&
+                                        'cursor-pointer hover:ring-2 hover:ring-blue-200',
+                                      activeTurn === conv && 'ring-2 ring-yellow-400'
+                                    )}
+                                  >
+                                    <div className="text-xs text-gray-500 mb-1 flex items-center justify-between">
+                                      <span>{conv.role === 'ai' ? 'AI' : '학생'}</span>
+                                      {conv.citations && conv.citations.length > 0 && (
+                                        <span className="text-yellow-700">인용 {conv.citations.length}</span>
+                                      )}
+                                    </div>
+                                    <p className="whitespace-pre-wrap">
+                                      {conv.content}
+                                    </p>
+                                    {conv.recording_id && (
+                                      <div className="mt-2">
+                                        {recordingUrls[conv.recording_id] ? (
+                                          <audio
+                                            controls
+                                            autoPlay
+                                            src={recordingUrls[conv.recording_id]}
+                                            className="w-full h-8"
+                                          />
+                                        ) : (
+                                          <button
+                                            onClick={() => handlePlayRecording(conv.recording_id!)}
+                                            disabled={loadingRecordingId === conv.recording_id}
+                                            className="flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+                                          >
+                                            <Volume2 className="w-4 h-4" />
+                                            {loadingRecordingId === conv.recording_id ? '불러오는 중...' : '녹음 듣기'}
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                    {conv.role === 'student' && (
+                                      <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                                        {annotationDrafts[conv.id] !== undefined ? (
+                                          <div>
+                                            <textarea
+                                              value={annotationDrafts[conv.id]}
+                                              onChange={(e) =>
+                                                setAnnotationDrafts((prev) => ({ ...prev, [conv.id]: e.target.value }))
+                                              }
+                                              rows={2}
+                                              maxLength={MAX_ANNOTATION_LENGTH}
+                                              className="w-full px-2 py-1 border border-amber-300 rounded text-sm bg-white"
+                                              placeholder="이 답변에 대한 주석 (비우면 삭제)"
+                                            />
+                                            <div className="flex justify-end gap-2 mt-1 text-xs">
+                                              <button
+                                                onClick={() =>
+                                                  setAnnotationDrafts((prev) => {
+                                                    const next = { ...prev };
+                                                    delete next[conv.id];
+                                                    return next;
+                                                  })
+                                                }
+                                                className="text-gray-500 hover:text-gray-700"
+                                              >
+                                                취소
+                                              </button>
+                                              <button
+                                                onClick={() => handleSaveAnnotation(conv)}
+                                                disabled={savingAnnotationId === conv.id}
+                                                className="text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+                                              >
+                                                {savingAnnotationId === conv.id ? '저장 중...' : '저장'}
+                                              </button>
+                                            </div>
+                                          </div>
+                                        ) : conv.teacher_annotation ? (
+                                          <button
+                                            onClick={() =>
+                                              setAnnotationDrafts((prev) => ({ ...prev, [conv.id]: conv.teacher_annotation || '' }))
+                                            }
+                                            className="w-full text-left px-2 py-1 rounded bg-amber-50 text-sm text-amber-900 whitespace-pre-wrap hover:bg-amber-100"
+                                          >
+                                            교사 주석: {conv.teacher_annotation}
+                                          </button>
+                                        ) : (
+                                          <button
+                                            onClick={() => setAnnotationDrafts((prev) => ({ ...prev, [conv.id]: '' }))}
+                                            className="text-xs text-gray-500 hover:text-amber-700"
+                                          >
+                                            + 주석
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                    {conv.telemetry && (
+                                      <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-600">
+                                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                                          <span>
+                                            첫 입력{' '}
+                                            {conv.telemetry.firstKeyMs !== null
+                                              ? formatDuration(conv.telemetry.firstKeyMs)
+                                              : '없음'}
+                                          </span>
+                                          {conv.telemetry.typingMs !== null && (
+                                            <span>입력 {formatDuration(conv.telemetry.typingMs)}</span>
+                                          )}
+                                          {conv.telemetry.pasteCount > 0 && (
+                                            <span>
+                                              붙여넣기 {conv.telemetry.pasteCount}회 ({conv.telemetry.pastedChars}자)
+                                            </span>
+                                          )}
+                                          {conv.telemetry.hiddenCount > 0 && (
+                                            <span>
+                                              화면 이탈 {conv.telemetry.hiddenCount}회 (
+                                              {formatDuration(conv.telemetry.hiddenMs)})
+                                            </span>
+                                          )}
+                                        </div>
+                                        {conv.telemetry.flags.length > 0 && (
+                                          <div className="mt-1 flex flex-wrap gap-1">
+                                            {conv.telemetry.flags.map((flag) => (
+                                              <span
+                                                key={flag}
+                                                className="px-1.5 py-0.5 rounded bg-orange-50 text-orange-700"
+                                              >
+                                                {getTelemetryFlagLabel(flag)}
+                                              </span>
+                                            ))}
+                                          </div>
+                                        )}
+                                        {conv.telemetry.events.length > 0 && (
+                                          <details className="mt-1">
+                                            <summary className="cursor-pointer text-gray-500">행동 기록</summary>
+                                            <ol className="mt-1 space-y-0.5 font-mono">
+                                              <li>0.0초 질문 표시</li>
+                                              {conv.telemetry.events.map((event, j) => (
+                                                <li key={j}>
+                                                  {formatDuration(event.atMs)} {describeTelemetryEvent(event)}
+                                                </li>
+                                              ))}
+                                              <li>{formatDuration(conv.telemetry.totalMs)} 제출</li>
+                                            </ol>
+                                          </details>
+                                        )}
+                                      </div>
+                                    )}
                                   </div>
-                                  <p className="whitespace-pre-wrap">
-                                    {conv.content}
-                                  </p>
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      ))}
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             ) : (
               <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
@@ -500,6 +2619,49 @@ export default function SessionDetailPage() {
           </div>
         </div>
       </main>
+
+      {/* Similar pair - overlapping passages side by side */}
+      {openPair && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {openPair.participant_a_name} ↔ {openPair.participant_b_name}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  유사도 {Math.round(openPair.score * 100)}% · 겹치는 구간 {openPair.passages.length}개
+                </p>
+              </div>
+              <button onClick={() => setOpenPair(null)} className="p-2 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3 text-sm font-medium text-gray-700">
+                <span>
+                  {openPair.participant_a_name}
+                  {openPair.participant_a_student_id && ` (${openPair.participant_a_student_id})`}
+                </span>
+                <span>
+                  {openPair.participant_b_name}
+                  {openPair.participant_b_student_id && ` (${openPair.participant_b_student_id})`}
+                </span>
+              </div>
+              {openPair.passages.map((passage, i) => (
+                <div key={i} className="grid grid-cols-2 gap-3">
+                  {([passage.a, passage.b] as const).map((side, j) => (
+                    <div key={j} className="p-3 bg-orange-50 rounded-lg text-sm text-gray-800 whitespace-pre-wrap">
+                      {side.text}
+                    </div>
+                  ))}
+                  <p className="col-span-2 text-xs text-gray-400 -mt-2">{passage.words}단어 일치</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,99 @@
+// Chat answer behavior telemetry (backend/services/answerTelemetry.js)
+
+export type TelemetryEventType = 'first_key' | 'paste' | 'hidden' | 'visible' | 'blur' | 'focus';
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  atMs: number; // 질문 표시 후 경과 시간
+  length?: number; // paste: 붙여넣은 글자 수
+}
+
+// Sent with interviewApi.submitAnswer
+export interface AnswerTelemetryInput {
+  totalMs: number;
+  keystrokes: number;
+  events: TelemetryEvent[];
+}
+
+export type TelemetryFlag = 'long_pause' | 'pasted_after_pause' | 'mostly_pasted' | 'left_page';
+
+// Stored per student turn (interview_conversations.telemetry)
+export interface AnswerTelemetry extends AnswerTelemetryInput {
+  firstKeyMs: number | null;
+  typingMs: number | null;
+  pasteCount: number;
+  pastedChars: number;
+  pasteRatio: number;
+  hiddenCount: number;
+  hiddenMs: number;
+  blurCount: number;
+  flags: TelemetryFlag[];
+}
+
+export interface AnswerRecorder {
+  keyDown: (event: { key: string; ctrlKey: boolean; metaKey: boolean; altKey: boolean }) => void;
+  paste: (length: number) => void;
+  visibility: (hidden: boolean) => void;
+  focus: (focused: boolean) => void;
+  finish: () => AnswerTelemetryInput;
+}
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'CapsLock', 'Tab'];
+
+/**
+ * Record one answer from the moment the question is shown until submission
+ */
+export function createAnswerRecorder(): AnswerRecorder {
+  const startedAt = Date.now();
+  const events: TelemetryEvent[] = [];
+  let keystrokes = 0;
+
+  const elapsed = () => Date.now() - startedAt;
+
+  return {
+    keyDown: (event) => {
+      // 붙여넣기 단축키 같은 조합 키는 타이핑으로 보지 않는다
+      if (event.ctrlKey || event.metaKey || event.altKey || MODIFIER_KEYS.includes(event.key)) return;
+      if (keystrokes === 0) events.push({ type: 'first_key', atMs: elapsed() });
+      keystrokes++;
+    },
+    paste: (length) => events.push({ type: 'paste', atMs: elapsed(), length }),
+    visibility: (hidden) => events.push({ type: hidden ? 'hidden' : 'visible', atMs: elapsed() }),
+    focus: (focused) => events.push({ type: focused ? 'focus' : 'blur', atMs: elapsed() }),
+    finish: () => ({ totalMs: elapsed(), keystrokes, events: [...events] }),
+  };
+}
+
+export function getTelemetryFlagLabel(flag: TelemetryFlag): string {
+  const labels: Record<TelemetryFlag, string> = {
+    long_pause: '1분 이상 입력 없음',
+    pasted_after_pause: '대기 후 긴 붙여넣기',
+    mostly_pasted: '답변 대부분 붙여넣기',
+    left_page: '화면 이탈',
+  };
+  return labels[flag];
+}
+
+export function describeTelemetryEvent(event: TelemetryEvent): string {
+  switch (event.type) {
+    case 'first_key':
+      return '입력 시작';
+    case 'paste':
+      return `붙여넣기 ${event.length ?? 0}자`;
+    case 'hidden':
+      return '다른 탭/앱으로 이동';
+    case 'visible':
+      return '화면 복귀';
+    case 'blur':
+      return '창 포커스 잃음';
+    case 'focus':
+      return '창 포커스 복귀';
+  }
+}
+
+// 1234 → "1.2초", 95000 → "1분 35초"
+export function formatDuration(ms: number): string {
+  if (ms < 10000) return `${(ms / 1000).toFixed(1)}초`;
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}분 ${seconds % 60}초` : `${seconds}초`;
+}
@@ -1,4 +1,13 @@
 import type { InterviewState, StudentParticipant } from './store';
+import type { Citation } from './citations';
+import type { StyleConsistency } from './stylometry';
+import type { IntegrityEventInput, IntegrityEventType, IntegrityLogEntry, IntegritySettings } from './integrity';
+import type { AnswerTelemetry, AnswerTelemetryInput } from './answerTelemetry';
+import type { EvaluationVersion, TeacherEvaluation, TeacherVerdict } from './evaluation';
+import type { InterventionAction, InterventionLogEntry } from './intervention';
+import type { AttemptPolicy, AttemptSummary } from './attempts';
+import type { JoinConflict, JoinPolicy, RosterEntry, RosterImportResult } from './roster';
+import type { Course, CourseSession, CourseStudent, Gradebook, ScoreStats, StudentHistoryEntry } from './courses';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4010';
 
@@ -7,16 +16,8 @@ interface FetchOptions extends RequestInit {
   sessionToken?: string;
 }
 
-// Summary types
-export interface InterviewSummary {
-  overall_assessment?: string;
-  score?: number;
-  key_findings?: string[];
-  topic_summaries?: Array<{
-    topic: string;
-    assessment: string;
-  }>;
-}
+// Summary payloads are untrusted JSON; validate with parseInterviewSummary before rendering
+export type { InterviewSummary } from './summary';
 
 class ApiError extends Error {
   status: number;
@@ -60,6 +61,87 @@ async function fetchApi<T>(endpoint: string, options: FetchOptions = {}): Promis
   return data as T;
 }
 
+/**
+ * Fetch a binary response (file download) with the same auth headers as fetchApi.
+ */
+async function fetchBlob(endpoint: string, options: FetchOptions = {}): Promise<Blob> {
+  const { token, sessionToken, ...fetchOptions } = options;
+
+  const headers: Record<string, string> = { ...(options.headers as Record<string, string>) };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  if (sessionToken) headers['X-Session-Token'] = sessionToken;
+
+  const response = await fetch(`${API_URL}${endpoint}`, { ...fetchOptions, headers });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Request failed', response.status, data);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Read a Server-Sent Events stream over fetch.
+ * EventSource cannot send Authorization headers, so the body is parsed manually.
+ * Resolves when the server closes the stream; rejects on network errors or abort.
+ */
+async function streamSse(
+  endpoint: string,
+  options: FetchOptions,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const { token, sessionToken, ...fetchOptions } = options;
+
+  const headers: Record<string, string> = {
+    Accept: 'text/event-stream',
+    ...(options.headers as Record<string, string>),
+  };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  if (sessionToken) headers['X-Session-Token'] = sessionToken;
+
+  const response = await fetch(`${API_URL}${endpoint}`, { ...fetchOptions, headers });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Stream failed', response.status, data);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let eventName = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue; // comment / keep-alive
+
+      const rawData = dataLines.join('\n');
+      let data: unknown = rawData;
+      try {
+        data = JSON.parse(rawData);
+      } catch {
+        // plain text payload
+      }
+      onEvent(eventName, data);
+    }
+  }
+}
+
 // Auth API
 export const authApi = {
   register: (data: { email: string; password: string; name: string }) =>
@@ -87,6 +169,113 @@ export const authApi = {
     fetchApi<{ message: string }>('/api/auth/password', { method: 'PUT', token, body: JSON.stringify(data) }),
 };
 
+// Rubric types (backend/services/rubric.js)
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  weight: number;
+  description: string;
+  descriptors: {
+    strong: string;
+    partial: string;
+    weak: string;
+  };
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+// LLM providers (backend/services/llmProviders)
+export interface LLMProviderInfo {
+  name: string;
+  label: string;
+  available: boolean;
+  isDefault: boolean;
+}
+
+// Speech settings (backend/services/speechProviders)
+export interface SpeechSettings {
+  ttsProvider?: string;
+  sttProvider?: string;
+  voice?: string;
+  language?: string;
+}
+
+export interface SpeechProviderInfo {
+  name: string;
+  label: string;
+  available: boolean;
+  voices?: Array<{ id: string; label: string }>;
+}
+
+export interface SpeechStatus {
+  tts: { available: boolean; provider: string; default: string; providers: SpeechProviderInfo[] };
+  stt: { available: boolean; provider: string; default: string; providers: SpeechProviderInfo[] };
+  languages: Array<{ code: string; label: string }>;
+  defaultLanguage: string;
+}
+
+// Assignment upload formats (backend/services/documentExtraction)
+export interface UploadFormat {
+  format: string;
+  label: string;
+  extensions: string[];
+}
+
+// Upload error body: code is one of unsupported_format | encrypted | corrupt |
+// empty_document | ocr_unavailable | ocr_failed | too_short
+export interface UploadErrorData {
+  error?: string;
+  code?: string;
+  format?: string | null;
+}
+
+// Topic review before the interview (backend/services/topicReview.js)
+export type TopicReviewPolicy = 'student' | 'teacher';
+
+export interface TopicReview {
+  policy: TopicReviewPolicy;
+  confirmed: boolean;
+  confirmedBy: 'student' | 'teacher' | 'system' | null;
+  confirmedAt: string | null;
+  fallback: boolean; // 분석 실패로 기본 주제가 사용됨
+  reanalysesLeft: number;
+  studentCanEdit: boolean;
+}
+
+export interface AnalyzedTopic {
+  id: string;
+  title: string;
+  source?: 'teacher' | 'ai'; // 'teacher' 주제는 세션 설정에서만 수정
+  seedQuestions?: string[];
+  mandatoryQuestions?: string[];
+}
+
+// Teacher-defined topics and questions (backend/services/questionBank.js)
+export type TopicMode = 'ai' | 'fixed' | 'hybrid';
+
+export interface QuestionBankTopic {
+  id?: string;
+  title: string;
+  seedQuestions: string[];
+  mandatoryQuestions: string[];
+}
+
+export interface QuestionBank {
+  topics: QuestionBankTopic[];
+  mandatoryQuestions: string[]; // 세션 공통 필수 질문 (마지막 주제에서 질문)
+}
+
+// action: upload | student_reanalysis | teacher_reanalysis | student_edit | teacher_edit
+export interface TopicLogEntry {
+  action: string;
+  topics: AnalyzedTopic[];
+  fallback: boolean;
+  llm_provider: string | null;
+  created_at: string;
+}
+
 // Session types
 interface SessionSettings {
   topic_count: number;
@@ -108,6 +297,19 @@ interface Session {
   ends_at?: string;
   created_at: string;
   participant_count?: number;
+  rubric?: Rubric | null;
+  llm_provider?: string | null;
+  speech_settings?: SpeechSettings | null;
+  topic_review_policy?: TopicReviewPolicy;
+  topic_mode?: TopicMode;
+  question_bank?: QuestionBank | null;
+  integrity_mode?: boolean;
+  focus_penalty_seconds?: number;
+  audio_retention_days?: number | null;
+  max_attempts?: number;
+  join_policy?: JoinPolicy;
+  course_id?: string | null;
+  course_name?: string | null; // list only
 }
 
 interface Participant {
@@ -119,13 +321,100 @@ interface Participant {
   file_submitted_at?: string;
   interview_started_at?: string;
   interview_ended_at?: string;
-  summary?: InterviewSummary;
+  disconnected_at?: string | null;
+  summary?: unknown;
+  topics_fallback?: boolean;
+  topics_confirmed_at?: string | null;
+  focus_loss_count?: number;
+  attempt_number?: number;
+  teacher_verdict?: TeacherVerdict | null; // participants list only
+  // Live interview state (participants list only)
+  current_topic_index?: number | null;
+  current_phase?: string | null;
+  topic_started_at?: string | null;
+  topics_state?: Array<{ index: number; title: string; totalTime: number; timeLeft: number; status: string }> | null;
+  teacher_paused_at?: string | null;
+}
+
+// Live session events (GET /api/sessions/:id/events)
+export type SessionEventType =
+  | 'joined'
+  | 'file_submitted'
+  | 'topics_reviewed'
+  | 'interview_started'
+  | 'topic_changed'
+  | 'disconnected'
+  | 'reconnected'
+  | 'completed'
+  | 'integrity'
+  | 'teacher_intervention'
+  | 'retake_started'
+  | 'attempt_granted'
+  | 'duplicate_join';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  sessionId: string;
+  at: string;
+  participantId: string;
+  studentName: string;
+  studentId?: string | null;
+  status?: string;
+  currentTopicIndex?: number;
+  currentPhase?: string;
+  topicTitle?: string | null;
+  topicTotalTime?: number | null;
+  topicStartedAt?: string | null;
+  disconnectedDuration?: number;
+  authorshipScore?: number | null;
+  topicsFallback?: boolean;
+  topicsConfirmed?: boolean;
+  integrityType?: IntegrityEventType;
+  durationMs?: number | null;
+  penaltySeconds?: number;
+  focusLossCount?: number;
+  action?: InterventionAction; // teacher_intervention
+  seconds?: number | null;
+  teacherPausedAt?: string | null;
+  attemptNumber?: number; // retake_started
+  remaining?: number; // attempt_granted
+}
+
+// Cross-submission similarity (backend/services/similarity.js)
+export interface SimilarityPair {
+  id: string;
+  score: number; // 0~1 (5단어 shingle Jaccard)
+  passage_count: number;
+  created_at: string;
+  participant_a_id: string;
+  participant_a_name: string;
+  participant_a_student_id?: string | null;
+  participant_b_id: string;
+  participant_b_name: string;
+  participant_b_student_id?: string | null;
+}
+
+export interface SimilarityPassage {
+  a: { start: number; end: number; text: string };
+  b: { start: number; end: number; text: string };
+  words: number;
 }
 
+type ReviewedTopics = {
+  analyzed_topics: AnalyzedTopic[];
+  topics_fallback: boolean;
+  topics_confirmed_at: string | null;
+  topics_confirmed_by: string | null;
+};
+
 // Sessions API
 export const sessionsApi = {
-  list: (token: string) =>
-    fetchApi<{ sessions: Session[] }>('/api/sessions', { token }),
+  // courseId: 'none'이면 과목에 속하지 않은 세션만
+  list: (token: string, courseId?: string) =>
+    fetchApi<{ sessions: Session[] }>(
+      courseId ? `/api/sessions?course_id=${encodeURIComponent(courseId)}` : '/api/sessions',
+      { token }
+    ),
 
   get: (token: string, id: string) =>
     fetchApi<{ session: Session }>(`/api/sessions/${id}`, { token }),
@@ -136,12 +425,30 @@ export const sessionsApi = {
     topic_count?: number;
     topic_duration?: number;
     interview_mode?: 'voice' | 'chat' | 'student_choice';
+    rubric?: Rubric | null;
+    llm_provider?: string | null;
+    speech_settings?: SpeechSettings | null;
+    topic_review_policy?: TopicReviewPolicy;
+    topic_mode?: TopicMode;
+    question_bank?: QuestionBank | null;
+    integrity_mode?: boolean;
+    focus_penalty_seconds?: number;
+    audio_retention_days?: number | null;
+    max_attempts?: number;
+    join_policy?: JoinPolicy;
+    course_id?: string | null;
   }) =>
     fetchApi<{ message: string; session: Session }>('/api/sessions', { method: 'POST', token, body: JSON.stringify(data) }),
 
-  update: (token: string, id: string, data: Partial<{ title: string; description: string } & SessionSettings>) =>
+  update: (token: string, id: string, data: Partial<{ title: string; description: string; rubric: Rubric | null; llm_provider: string | null; speech_settings: SpeechSettings | null; topic_review_policy: TopicReviewPolicy; topic_mode: TopicMode; question_bank: QuestionBank | null; integrity_mode: boolean; focus_penalty_seconds: number; audio_retention_days: number | null; max_attempts: number; join_policy: JoinPolicy; course_id: string | null } & SessionSettings>) =>
     fetchApi<{ message: string; session: Session }>(`/api/sessions/${id}`, { method: 'PUT', token, body: JSON.stringify(data) }),
 
+  getDefaultRubric: (token: string) =>
+    fetchApi<{ rubric: Rubric }>('/api/sessions/rubric/default', { token }),
+
+  getLLMProviders: (token: string) =>
+    fetchApi<{ providers: LLMProviderInfo[] }>('/api/sessions/llm/providers', { token }),
+
   delete: (token: string, id: string) =>
     fetchApi<{ message: string }>(`/api/sessions/${id}`, { method: 'DELETE', token }),
 
@@ -157,18 +464,240 @@ export const sessionsApi = {
   getParticipants: (token: string, id: string) =>
     fetchApi<{ participants: Participant[] }>(`/api/sessions/${id}/participants`, { token }),
 
+  streamEvents: (token: string, id: string, onEvent: (event: SessionEvent) => void, signal?: AbortSignal) =>
+    streamSse(`/api/sessions/${id}/events`, { token, signal }, (name, data) => {
+      if (name === 'participant') onEvent(data as SessionEvent);
+    }),
+
+  exportResults: (token: string, id: string, format: 'csv' | 'xlsx') =>
+    fetchBlob(`/api/sessions/${id}/export?format=${format}`, { token }),
+
   getParticipantDetail: (token: string, sessionId: string, participantId: string) =>
     fetchApi<{
       participant: Participant & {
         extracted_text?: string;
         analyzed_topics?: Array<{ title: string; description: string }>;
+        teacher_notes?: string | null;
+        submitted_file_url?: string | null;
+        submitted_file_name?: string | null;
+        submitted_file_size?: number | null;
+        teacher_evaluation?: TeacherEvaluation | null;
       };
-      conversations: Record<string, Array<{ role: 'ai' | 'student'; content: string; topic_index: number; created_at: string }>>;
+      conversations: Record<string, Array<{
+        id: string;
+        role: 'ai' | 'student';
+        content: string;
+        topic_index: number;
+        citations?: Citation[] | null;
+        telemetry?: AnswerTelemetry | null;
+        recording_id?: string | null;
+        teacher_annotation?: string | null;
+        created_at: string;
+      }>>;
       totalTurns: number;
+      topicLog?: TopicLogEntry[];
+      integrityLog?: IntegrityLogEntry[];
+      interventionLog?: InterventionLogEntry[];
+      evaluations?: EvaluationVersion[];
+      stylometry?: StyleConsistency | null;
+      attempts?: AttemptSummary[];
+      attemptPolicy?: AttemptPolicy;
     }>(
       `/api/sessions/${sessionId}/participants/${participantId}`,
       { token }
     ),
+
+  // 재응시 전 회차의 대화와 평가 이력
+  getAttempt: (token: string, sessionId: string, participantId: string, attemptId: string) =>
+    fetchApi<{
+      attempt: Omit<AttemptSummary, 'student_turns' | 'current'> & { extracted_text?: string | null };
+      conversations: Record<string, Array<{
+        id: string;
+        role: 'ai' | 'student';
+        content: string;
+        topic_index: number;
+        teacher_annotation?: string | null;
+        created_at: string;
+      }>>;
+      totalTurns: number;
+      evaluations: EvaluationVersion[];
+      integrityLog: IntegrityLogEntry[];
+    }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/attempts/${attemptId}`,
+      { token }
+    ),
+
+  grantAttempt: (token: string, sessionId: string, participantId: string) =>
+    fetchApi<{ message: string; attemptPolicy: AttemptPolicy }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/attempts/grant`,
+      { method: 'POST', token }
+    ),
+
+  reanalyzeTopics: (token: string, sessionId: string, participantId: string) =>
+    fetchApi<{ message: string; participant: ReviewedTopics }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/topics/reanalyze`,
+      { method: 'POST', token }
+    ),
+
+  updateTopics: (
+    token: string,
+    sessionId: string,
+    participantId: string,
+    data: { topics?: Array<{ title: string }>; confirm?: boolean }
+  ) =>
+    fetchApi<{ message: string; participant: ReviewedTopics }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/topics`,
+      { method: 'PUT', token, body: JSON.stringify(data) }
+    ),
+
+  getSimilarity: (token: string, sessionId: string) =>
+    fetchApi<{ threshold: number; pairs: SimilarityPair[] }>(`/api/sessions/${sessionId}/similarity`, { token }),
+
+  getSimilarityPair: (token: string, sessionId: string, pairId: string) =>
+    fetchApi<{ pair: Omit<SimilarityPair, 'passage_count'> & { passages: SimilarityPassage[] } }>(
+      `/api/sessions/${sessionId}/similarity/${pairId}`,
+      { token }
+    ),
+
+  recomputeSimilarity: (token: string, sessionId: string) =>
+    fetchApi<{ message: string; compared: number; flagged: number }>(
+      `/api/sessions/${sessionId}/similarity/recompute`,
+      { method: 'POST', token }
+    ),
+
+  saveNotes: (token: string, sessionId: string, participantId: string, notes: string | null) =>
+    fetchApi<{ message: string; notes: string | null }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/notes`,
+      { method: 'PUT', token, body: JSON.stringify({ notes }) }
+    ),
+
+  // 진행 중 인터뷰 조치 (시간 연장, 주제 건너뛰기, 일시정지/재개, 강제 종료, 초기화)
+  intervene: (
+    token: string,
+    sessionId: string,
+    participantId: string,
+    data: { action: InterventionAction; seconds?: number }
+  ) =>
+    fetchApi<{ message: string; intervention: InterventionLogEntry; status: string; current_phase: string | null }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/interventions`,
+      { method: 'POST', token, body: JSON.stringify(data) }
+    ),
+
+  saveTeacherEvaluation: (
+    token: string,
+    sessionId: string,
+    participantId: string,
+    data: { verdict: TeacherVerdict; score: number | null; comment: string }
+  ) =>
+    fetchApi<{ message: string; teacherEvaluation: TeacherEvaluation }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/evaluation`,
+      { method: 'PUT', token, body: JSON.stringify(data) }
+    ),
+
+  // 다른 지침/모델로 AI 평가를 다시 실행 (새 버전으로 기록, 실패하면 summary는 null)
+  regradeEvaluation: (
+    token: string,
+    sessionId: string,
+    participantId: string,
+    data: { instructions?: string; llm_provider?: string | null }
+  ) =>
+    fetchApi<{ message: string; evaluation: EvaluationVersion; summary: unknown }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/evaluation/regrade`,
+      { method: 'POST', token, body: JSON.stringify(data) }
+    ),
+
+  annotateTurn: (token: string, sessionId: string, participantId: string, turnId: string, annotation: string | null) =>
+    fetchApi<{ message: string; turn: { id: string; teacher_annotation: string | null } }>(
+      `/api/sessions/${sessionId}/participants/${participantId}/turns/${turnId}/annotation`,
+      { method: 'PUT', token, body: JSON.stringify({ annotation }) }
+    ),
+
+  downloadSubmittedFile: (token: string, sessionId: string, participantId: string) =>
+    fetchBlob(`/api/sessions/${sessionId}/participants/${participantId}/file`, { token }),
+
+  // 보관 중인 음성 답변 녹음 (보관 기간이 지나면 404)
+  getRecording: (token: string, sessionId: string, participantId: string, recordingId: string) =>
+    fetchBlob(`/api/sessions/${sessionId}/participants/${participantId}/recordings/${recordingId}`, { token }),
+
+  downloadReport: (token: string, sessionId: string, participantId: string) =>
+    fetchBlob(`/api/sessions/${sessionId}/participants/${participantId}/report`, { token }),
+
+  downloadAllReports: (token: string, sessionId: string) =>
+    fetchBlob(`/api/sessions/${sessionId}/reports`, { token }),
+
+  // 학생 명단 (join_policy가 open이 아닐 때 참여 확인에 사용)
+  getRoster: (token: string, sessionId: string) =>
+    fetchApi<{ joinPolicy: JoinPolicy; roster: RosterEntry[]; conflicts: JoinConflict[] }>(
+      `/api/sessions/${sessionId}/roster`,
+      { token }
+    ),
+
+  importRoster: (token: string, sessionId: string, csv: string, replace = false) =>
+    fetchApi<{ message: string } & RosterImportResult>(
+      `/api/sessions/${sessionId}/roster`,
+      { method: 'POST', token, body: JSON.stringify({ csv, replace }) }
+    ),
+
+  importCourseRoster: (token: string, sessionId: string, replace = false) =>
+    fetchApi<{ message: string } & RosterImportResult>(
+      `/api/sessions/${sessionId}/roster/from-course`,
+      { method: 'POST', token, body: JSON.stringify({ replace }) }
+    ),
+
+  downloadRoster: (token: string, sessionId: string) =>
+    fetchBlob(`/api/sessions/${sessionId}/roster/export`, { token }),
+
+  reissueRosterCredentials: (token: string, sessionId: string, rosterId: string) =>
+    fetchApi<{ message: string; entry: Pick<RosterEntry, 'id' | 'pin' | 'one_time_code' | 'code_used_at'> }>(
+      `/api/sessions/${sessionId}/roster/${rosterId}/reissue`,
+      { method: 'POST', token }
+    ),
+
+  removeRosterEntry: (token: string, sessionId: string, rosterId: string) =>
+    fetchApi<{ message: string }>(
+      `/api/sessions/${sessionId}/roster/${rosterId}`,
+      { method: 'DELETE', token }
+    ),
+};
+
+// Courses API (과목/반)
+export const coursesApi = {
+  list: (token: string, includeArchived = false) =>
+    fetchApi<{ courses: Course[] }>(`/api/courses${includeArchived ? '?archived=true' : ''}`, { token }),
+
+  get: (token: string, id: string) =>
+    fetchApi<{ course: Course; sessions: CourseSession[]; students: CourseStudent[] }>(`/api/courses/${id}`, { token }),
+
+  create: (token: string, data: { name: string; description?: string; term?: string }) =>
+    fetchApi<{ message: string; course: Course }>('/api/courses', { method: 'POST', token, body: JSON.stringify(data) }),
+
+  update: (token: string, id: string, data: Partial<{ name: string; description: string | null; term: string | null; archived: boolean }>) =>
+    fetchApi<{ message: string; course: Course }>(`/api/courses/${id}`, { method: 'PUT', token, body: JSON.stringify(data) }),
+
+  delete: (token: string, id: string) =>
+    fetchApi<{ message: string }>(`/api/courses/${id}`, { method: 'DELETE', token }),
+
+  importStudents: (token: string, id: string, csv: string, replace = false) =>
+    fetchApi<{
+      message: string;
+      added: number;
+      updated: number;
+      removed: number;
+      errors: Array<{ line: number; message: string }>;
+      students: CourseStudent[];
+    }>(`/api/courses/${id}/students`, { method: 'POST', token, body: JSON.stringify({ csv, replace }) }),
+
+  removeStudent: (token: string, id: string, studentId: string) =>
+    fetchApi<{ message: string }>(`/api/courses/${id}/students/${studentId}`, { method: 'DELETE', token }),
+
+  getGradebook: (token: string, id: string) =>
+    fetchApi<Gradebook>(`/api/courses/${id}/gradebook`, { token }),
+
+  getStudentHistory: (token: string, id: string, studentId: string) =>
+    fetchApi<{ student: CourseStudent; entries: StudentHistoryEntry[]; stats: ScoreStats }>(
+      `/api/courses/${id}/students/${studentId}/history`,
+      { token }
+    ),
 };
 
 // Join API (for students)
@@ -181,14 +710,23 @@ export const joinApi = {
         interview_mode: string;
         topic_count: number;
         topic_duration: number;
+        audio_retention_days?: number | null;
+        join_policy?: JoinPolicy;
       };
     }>(`/api/join/${accessCode}`),
 
-  join: (accessCode: string, data: { student_name: string; student_id?: string }) =>
+  // pin: join_policy가 pin이면 학생별 PIN, one_time_code면 1회용 코드
+  // device_id: 브라우저 기기 식별자 (다른 기기에서 다시 들어올 때만 중복 참여로 기록)
+  join: (
+    accessCode: string,
+    data: { student_name: string; student_id?: string; audio_consent?: boolean; pin?: string; device_id?: string }
+  ) =>
     fetchApi<{
       message: string;
       participant: { id: string; student_name: string };
       session_token: string;
+      status?: string;
+      is_reconnection?: boolean;
     }>(`/api/join/${accessCode}`, { method: 'POST', body: JSON.stringify(data) }),
 
   reconnect: (sessionToken: string) =>
@@ -212,11 +750,23 @@ export const joinApi = {
       show_transition_page?: boolean;
       expired_topic_titles?: string[];
       next_topic_index?: number;
+      attempts?: AttemptPolicy; // 인터뷰가 끝났지만 재응시 가능
     }>('/api/join/reconnect', { method: 'POST', body: JSON.stringify({ sessionToken }) }),
 };
 
 // Interview API
+type SubmitAnswerResponse = {
+  next_question?: string;
+  citations?: Citation[];
+  turn_index?: number;
+  topic_complete?: boolean;
+  is_last_topic?: boolean;
+};
+
 export const interviewApi = {
+  getUploadFormats: (sessionToken: string) =>
+    fetchApi<{ formats: UploadFormat[] }>('/api/interview/upload-formats', { sessionToken }),
+
   uploadFile: async (sessionToken: string, file: File) => {
     const formData = new FormData();
     formData.append('file', file);
@@ -235,10 +785,26 @@ export const interviewApi = {
     }
     return data as {
       message: string;
-      topics: Array<{ title: string; description: string }>;
+      topics: AnalyzedTopic[];
+      fallback: boolean;
+      topic_review: TopicReview;
     };
   },
 
+  reanalyzeTopics: (sessionToken: string) =>
+    fetchApi<{ topics: AnalyzedTopic[]; fallback: boolean; topic_review: TopicReview }>(
+      '/api/interview/topics/reanalyze',
+      { method: 'POST', sessionToken }
+    ),
+
+  // topics가 있으면 제목 수정 후 확정
+  confirmTopics: (sessionToken: string, topics?: Array<{ title: string }>) =>
+    fetchApi<{ topics: AnalyzedTopic[]; topic_review: TopicReview }>('/api/interview/topics', {
+      method: 'PUT',
+      sessionToken,
+      body: JSON.stringify({ topics }),
+    }),
+
   start: (sessionToken: string, data?: { chosenInterviewMode?: 'voice' | 'chat' }) =>
     fetchApi<{
       message: string;
@@ -247,6 +813,7 @@ export const interviewApi = {
       current_topic: { title: string; description: string };
       topics_state: Array<{ index: number; title: string; totalTime: number; timeLeft: number; status: string; started: boolean }>;
       first_question: string;
+      citations?: Citation[];
       interview_state: InterviewState;
     }>('/api/interview/start', { method: 'POST', sessionToken, body: JSON.stringify(data || {}) }),
 
@@ -257,18 +824,28 @@ export const interviewApi = {
         id: string;
         student_name: string;
         status: string;
-        summary?: InterviewSummary;
+        summary?: unknown;
       };
       interview_state: InterviewState | null;
       has_started?: boolean;
-      conversations?: Array<{ topic_index: number; turn_index: number; role: string; content: string }>;
+      conversations?: Array<{
+        topic_index: number;
+        turn_index: number;
+        role: string;
+        content: string;
+        citations?: Citation[] | null;
+      }>;
       reconnection_info?: unknown;
-      analyzed_topics?: Array<{ title: string; description: string }>;
+      analyzed_topics?: AnalyzedTopic[];
+      topic_review?: TopicReview | null;
+      assignment_text?: string | null;
       session_interview_mode?: 'voice' | 'chat' | 'student_choice';
       chosen_interview_mode?: string;
+      integrity?: IntegritySettings;
     }>('/api/interview/state', { sessionToken }),
 
-  heartbeat: (sessionToken: string) =>
+  // 무결성 모드에서는 모아 둔 화면 이탈/붙여넣기 차단 기록을 함께 보낸다
+  heartbeat: (sessionToken: string, data?: { integrity_events?: IntegrityEventInput[] }) =>
     fetchApi<{
       status: string;
       current_topic_index?: number;
@@ -277,14 +854,51 @@ export const interviewApi = {
       time_left?: number;
       time_expired?: boolean;
       topics_state?: Array<{ index: number; title: string; totalTime: number; timeLeft: number; status: string; started: boolean }>;
-    }>('/api/interview/heartbeat', { method: 'POST', sessionToken }),
+      teacher_paused?: boolean;
+      teacher_action?: InterventionLogEntry | null; // 가장 최근 교사 조치
+    }>('/api/interview/heartbeat', { method: 'POST', sessionToken, body: JSON.stringify(data || {}) }),
 
-  submitAnswer: (sessionToken: string, data: { answer: string }) =>
-    fetchApi<{
-      next_question?: string;
-      topic_complete?: boolean;
-      is_last_topic?: boolean;
-    }>('/api/interview/answer', { method: 'POST', sessionToken, body: JSON.stringify(data) }),
+  submitAnswer: (sessionToken: string, data: { answer: string; telemetry?: AnswerTelemetryInput; recording_id?: string }) =>
+    fetchApi<SubmitAnswerResponse>('/api/interview/answer', {
+      method: 'POST',
+      sessionToken,
+      body: JSON.stringify(data),
+    }),
+
+  // 다음 질문을 SSE로 받아 조각마다 onDelta 호출, 완성된 응답으로 resolve
+  submitAnswerStream: async (
+    sessionToken: string,
+    data: { answer: string; telemetry?: AnswerTelemetryInput; recording_id?: string },
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<SubmitAnswerResponse> => {
+    let result: SubmitAnswerResponse | null = null;
+
+    await streamSse(
+      '/api/interview/answer/stream',
+      {
+        method: 'POST',
+        sessionToken,
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      },
+      (name, payload) => {
+        if (name === 'delta') {
+          onDelta((payload as { text: string }).text);
+        } else if (name === 'done') {
+          result = payload as SubmitAnswerResponse;
+        } else if (name === 'error') {
+          throw new ApiError((payload as { error?: string }).error || 'Stream failed', 500, payload);
+        }
+      }
+    );
+
+    if (!result) {
+      throw new ApiError('Stream ended before the question was complete', 500);
+    }
+    return result;
+  },
 
   nextTopic: (sessionToken: string) =>
     fetchApi<{
@@ -294,6 +908,7 @@ export const interviewApi = {
       current_topic: { title: string; description: string };
       topic_title: string;
       first_question: string;
+      citations?: Citation[];
       topics_state: Array<{ index: number; title: string; totalTime: number; timeLeft: number; status: string; started: boolean }>;
     }>('/api/interview/next-topic', { method: 'POST', sessionToken }),
 
@@ -314,23 +929,31 @@ export const interviewApi = {
       current_topic?: { title: string; description: string };
       topic_title?: string;
       first_question?: string;
+      citations?: Citation[];
       topics_state?: Array<{ index: number; title: string; totalTime: number; timeLeft: number; status: string; started: boolean }>;
     }>('/api/interview/confirm-transition', { method: 'POST', sessionToken }),
 
   complete: (sessionToken: string) =>
     fetchApi<{
       message: string;
-      summary: InterviewSummary;
+      summary: unknown;
     }>('/api/interview/complete', { method: 'POST', sessionToken }),
+
+  getAttempts: (sessionToken: string) =>
+    fetchApi<{ attempts: AttemptPolicy }>('/api/interview/attempts', { sessionToken }),
+
+  // 현재 회차를 보관하고 파일 제출부터 다시 시작
+  retake: (sessionToken: string) =>
+    fetchApi<{ message: string; status: string; attempts: AttemptPolicy }>('/api/interview/retake', {
+      method: 'POST',
+      sessionToken,
+    }),
 };
 
 // Speech API
 export const speechApi = {
   getStatus: () =>
-    fetchApi<{
-      tts: { available: boolean; provider: string };
-      stt: { available: boolean; provider: string };
-    }>('/api/speech/status'),
+    fetchApi<SpeechStatus>('/api/speech/status'),
 
   textToSpeech: async (sessionToken: string, text: string): Promise<ArrayBuffer> => {
     const response = await fetch(`${API_URL}/api/speech/tts`, {
@@ -350,7 +973,32 @@ export const speechApi = {
     return response.arrayBuffer();
   },
 
-  speechToText: async (sessionToken: string, audioBlob: Blob): Promise<{ text: string }> => {
+  // 스트리밍 TTS - 본문을 다 받기 전에 재생을 시작할 수 있도록 Response를 그대로 반환
+  streamTextToSpeech: async (
+    sessionToken: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<Response> => {
+    const response = await fetch(`${API_URL}/api/speech/tts-stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Session-Token': sessionToken,
+      },
+      body: JSON.stringify({ text }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(data.error || 'TTS failed', response.status, data);
+    }
+
+    return response;
+  },
+
+  // recording_id: 세션이 녹음을 보관하고 학생이 동의한 경우 (답변 제출 시 함께 전송)
+  speechToText: async (sessionToken: string, audioBlob: Blob): Promise<{ text: string; recording_id?: string | null }> => {
     const formData = new FormData();
     formData.append('audio', audioBlob, 'audio.webm');
 
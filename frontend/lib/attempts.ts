@@ -0,0 +1,39 @@
+// Interview attempts / retakes (backend/services/attempts.js)
+
+import type { TeacherEvaluation } from './evaluation';
+
+// 세션 설정 선택지 (1 = 재응시 없음, 서버 상한 10)
+export const MAX_ATTEMPTS_OPTIONS = [1, 2, 3, 5];
+
+export interface AttemptPolicy {
+  attemptNumber: number;
+  allowedAttempts: number; // 세션 max_attempts + 교사 추가 허용
+  remaining: number;
+  canRetake: boolean;
+}
+
+// participant_attempts row, or the current attempt (id null, current true)
+export interface AttemptSummary {
+  id: string | null;
+  attempt_number: number;
+  status: string;
+  chosen_interview_mode: string | null;
+  submitted_file_name: string | null;
+  summary: unknown;
+  teacher_evaluation: TeacherEvaluation | null;
+  focus_loss_count: number | null;
+  file_submitted_at: string | null;
+  interview_started_at: string | null;
+  interview_ended_at: string | null;
+  archived_at: string | null;
+  student_turns: number;
+  current: boolean;
+}
+
+export function getAttemptLabel(attemptNumber: number): string {
+  return `${attemptNumber}회차`;
+}
+
+export function getMaxAttemptsLabel(maxAttempts: number): string {
+  return maxAttempts <= 1 ? '재응시 없음' : `최대 ${maxAttempts}회 응시`;
+}
@@ -0,0 +1,34 @@
+// Question citations (backend/services/citations.js)
+// start/end are character offsets into the participant's extracted_text
+
+export interface Citation {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+export interface TextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split the document into plain and highlighted segments.
+ * Out-of-range or overlapping citations are ignored.
+ */
+export function splitByCitations(text: string, citations: Citation[] | null | undefined): TextSegment[] {
+  const spans = (citations || [])
+    .filter((c) => c.start >= 0 && c.end <= text.length && c.start < c.end)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.start < cursor) continue;
+    if (span.start > cursor) segments.push({ text: text.slice(cursor, span.start), highlighted: false });
+    segments.push({ text: text.slice(span.start, span.end), highlighted: true });
+    cursor = span.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlighted: false });
+  return segments;
+}
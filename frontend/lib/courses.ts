@@ -0,0 +1,86 @@
+// Courses/classes above sessions (backend/services/courses.js)
+
+import type { AuthorshipVerdict } from './summary';
+import type { TeacherVerdict } from './evaluation';
+
+export interface Course {
+  id: string;
+  name: string;
+  description: string | null;
+  term: string | null;
+  archived_at: string | null;
+  created_at: string;
+  session_count?: number;
+  student_count?: number;
+}
+
+export interface CourseStudent {
+  id: string;
+  student_name: string;
+  student_id: string;
+  email: string | null;
+  created_at: string;
+}
+
+export interface CourseSession {
+  id: string;
+  title: string;
+  status: 'draft' | 'active' | 'closed';
+  access_code: string;
+  created_at: string;
+  ends_at: string | null;
+  participant_count: number;
+  completed_count: number;
+}
+
+// 한 학생의 한 세션 결과 (참여 기록이 없으면 null)
+export interface CourseResult {
+  participantId: string;
+  status: string;
+  attemptNumber: number;
+  authorshipScore: number | null;
+  verdict: AuthorshipVerdict | null;
+  teacherVerdict: TeacherVerdict | null;
+  teacherScore: number | null;
+  score: number | null; // 교사 점수 우선
+  interviewEndedAt: string | null;
+}
+
+export interface ScoreStats {
+  participatedCount: number;
+  completedCount: number;
+  averageScore: number | null;
+  firstScore: number | null;
+  latestScore: number | null;
+  change: number | null;
+}
+
+export interface Gradebook {
+  sessions: CourseSession[];
+  students: Array<CourseStudent & { cells: Record<string, CourseResult | null>; stats: ScoreStats }>;
+  unmatched: Record<string, number>; // 세션별 명단에 없는 참여 기록 수
+}
+
+export interface StudentHistoryEntry {
+  sessionId: string;
+  title: string;
+  status: CourseSession['status'];
+  createdAt: string;
+  result: CourseResult | null;
+}
+
+export function getCourseLabel(course: Pick<Course, 'name' | 'term'>): string {
+  return course.term ? `${course.name} (${course.term})` : course.name;
+}
+
+export function getScoreColor(score: number | null): string {
+  if (score === null) return 'text-gray-400';
+  if (score >= 70) return 'text-green-700';
+  if (score >= 40) return 'text-yellow-700';
+  return 'text-red-700';
+}
+
+export function formatScoreChange(change: number | null): string {
+  if (change === null) return '-';
+  return change > 0 ? `+${change}` : String(change);
+}
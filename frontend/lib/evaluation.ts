@@ -0,0 +1,38 @@
+// Evaluation history and teacher decision (backend/services/evaluationHistory.js)
+
+import type { AuthorshipVerdict } from './summary';
+
+export type TeacherVerdict = Exclude<AuthorshipVerdict, 'undetermined'>;
+
+export const TEACHER_VERDICTS: TeacherVerdict[] = ['authored', 'assisted', 'not_authored'];
+
+// student_participants.teacher_evaluation - 있으면 AI 평가보다 우선한다
+export interface TeacherEvaluation {
+  verdict: TeacherVerdict;
+  score: number | null;
+  comment: string;
+  version: number;
+  decidedAt: string;
+}
+
+// participant_evaluations 한 버전 (summary는 parseInterviewSummary로 검증 후 사용)
+export interface EvaluationVersion {
+  version: number;
+  kind: 'ai' | 'teacher';
+  summary: unknown;
+  llm_provider: string | null;
+  instructions: string | null;
+  fallback: boolean;
+  verdict: TeacherVerdict | null;
+  score: number | null;
+  comment: string | null;
+  created_at: string;
+}
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_ANNOTATION_LENGTH = 2000;
+export const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+export function getEvaluationVersionLabel(evaluation: EvaluationVersion): string {
+  return `v${evaluation.version} ${evaluation.kind === 'teacher' ? '교사 판정' : 'AI 평가'}`;
+}
@@ -0,0 +1,35 @@
+// Session integrity mode (backend/services/integrity.js)
+
+export type IntegrityEventType = 'focus_lost' | 'focus_returned' | 'paste_blocked';
+
+// Queued on the student page and sent with interviewApi.heartbeat
+export interface IntegrityEventInput {
+  type: IntegrityEventType;
+  at: string; // ISO
+  durationMs?: number; // focus_returned: 화면을 벗어나 있던 시간
+}
+
+export interface IntegritySettings {
+  enabled: boolean;
+  penaltySeconds: number;
+}
+
+// integrity_events row (GET /api/sessions/:id/participants/:pid)
+export interface IntegrityLogEntry {
+  type: IntegrityEventType;
+  topic_index: number | null;
+  duration_ms: number | null;
+  penalty_seconds: number;
+  occurred_at: string;
+}
+
+export const FOCUS_PENALTY_OPTIONS = [0, 10, 30, 60];
+
+export function getIntegrityEventLabel(type: IntegrityEventType): string {
+  const labels: Record<IntegrityEventType, string> = {
+    focus_lost: '화면 이탈',
+    focus_returned: '화면 복귀',
+    paste_blocked: '붙여넣기 차단',
+  };
+  return labels[type];
+}
@@ -0,0 +1,51 @@
+// Teacher intervention on a live interview (backend/services/interviewControl.js)
+
+export type InterventionAction = 'extend_time' | 'skip_topic' | 'pause' | 'resume' | 'force_complete' | 'reset';
+
+export interface InterventionDetails {
+  seconds?: number; // extend_time
+  pausedSeconds?: number; // resume
+  authorshipScore?: number | null; // force_complete
+  previousStatus?: string; // reset
+}
+
+// interview_interventions row (GET /api/sessions/:id/participants/:pid, heartbeat teacher_action)
+export interface InterventionLogEntry {
+  id: string;
+  action: InterventionAction;
+  topic_index?: number | null;
+  details: InterventionDetails | null;
+  created_at: string;
+}
+
+export const EXTEND_TIME_OPTIONS = [60, 180, 300];
+
+export function getInterventionLabel(action: InterventionAction): string {
+  const labels: Record<InterventionAction, string> = {
+    extend_time: '시간 연장',
+    skip_topic: '주제 건너뛰기',
+    pause: '일시정지',
+    resume: '재개',
+    force_complete: '강제 종료',
+    reset: '초기화',
+  };
+  return labels[action];
+}
+
+// 학생 화면 안내 문구
+export function getInterventionNotice(entry: Pick<InterventionLogEntry, 'action' | 'details'>): string {
+  switch (entry.action) {
+    case 'extend_time':
+      return `선생님이 이 주제 시간을 ${Math.round((entry.details?.seconds ?? 0) / 60)}분 연장했습니다.`;
+    case 'skip_topic':
+      return '선생님이 현재 주제를 마쳤습니다.';
+    case 'pause':
+      return '선생님이 인터뷰를 일시정지했습니다.';
+    case 'resume':
+      return '인터뷰가 다시 시작되었습니다.';
+    case 'force_complete':
+      return '선생님이 인터뷰를 종료했습니다.';
+    case 'reset':
+      return '선생님이 인터뷰를 초기화했습니다. 처음부터 다시 진행합니다.';
+  }
+}
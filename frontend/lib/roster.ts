@@ -0,0 +1,104 @@
+// Class roster and join identity check (backend/services/roster.js)
+
+export type JoinPolicy = 'open' | 'roster' | 'pin' | 'one_time_code';
+
+export const JOIN_POLICIES: JoinPolicy[] = ['open', 'roster', 'pin', 'one_time_code'];
+
+export type JoinConflictReason = 'rejoin' | 'not_on_roster' | 'invalid_credential' | 'code_reused';
+
+// session_roster row + 참여 상태
+export interface RosterEntry {
+  id: string;
+  student_name: string;
+  student_id: string;
+  email: string | null;
+  pin: string;
+  one_time_code: string;
+  code_used_at: string | null;
+  participant_id: string | null;
+  participant_status: string | null;
+  conflict_count: number;
+  created_at: string;
+}
+
+export interface JoinConflict {
+  id: string;
+  roster_id: string | null;
+  participant_id: string | null;
+  student_name: string | null;
+  student_id: string | null;
+  reason: JoinConflictReason;
+  created_at: string;
+}
+
+export interface RosterImportResult {
+  added: number;
+  updated: number;
+  removed: number;
+  errors: Array<{ line: number; message: string }>;
+  roster: RosterEntry[];
+}
+
+export function getJoinPolicyLabel(policy: JoinPolicy): string {
+  switch (policy) {
+    case 'roster':
+      return '명단 확인 (이름 + 학번)';
+    case 'pin':
+      return '명단 + 학생별 PIN';
+    case 'one_time_code':
+      return '명단 + 1회용 코드';
+    default:
+      return '누구나 참여 (이름만)';
+  }
+}
+
+export function getJoinConflictLabel(reason: JoinConflictReason): string {
+  switch (reason) {
+    case 'rejoin':
+      return '중복 참여';
+    case 'not_on_roster':
+      return '명단에 없음';
+    case 'invalid_credential':
+      return 'PIN/코드 불일치';
+    case 'code_reused':
+      return '사용한 코드 재사용';
+    default:
+      return reason;
+  }
+}
+
+// 참여 화면 오류 코드 → 안내 문구
+export function getJoinErrorMessage(code: string | undefined, policy: JoinPolicy): string | null {
+  switch (code) {
+    case 'STUDENT_ID_REQUIRED':
+      return '학번을 입력해주세요.';
+    case 'NOT_ON_ROSTER':
+      return '이름과 학번이 명단과 일치하지 않습니다. 선생님께 확인해주세요.';
+    case 'INVALID_PIN':
+      return policy === 'pin' ? 'PIN이 올바르지 않습니다.' : '참여 코드가 올바르지 않습니다.';
+    case 'TOO_MANY_ATTEMPTS':
+      return '잘못 입력한 횟수가 많습니다. 잠시 후 다시 시도해주세요.';
+    case 'CODE_ALREADY_USED':
+      return '이미 사용한 참여 코드입니다. 선생님께 새 코드를 받아주세요.';
+    case 'ALREADY_JOINED':
+      return '이미 참여한 학생입니다.';
+    default:
+      return null;
+  }
+}
+
+const DEVICE_ID_KEY = 'hw-validator-device';
+
+// 참여 요청에 보내는 기기 식별자 (세션 토큰을 지워도 유지, 같은 기기의 재참여는 중복 참여로 알리지 않음)
+export function getJoinDeviceId(): string | undefined {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return undefined;
+  }
+}
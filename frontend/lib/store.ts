@@ -52,6 +52,7 @@ export interface InterviewState {
   current_phase: string;
   topics_state: TopicState[];
   remaining_time?: number;  // 서버에서 계산된 남은 시간
+  teacher_paused?: boolean; // 교사가 일시정지함 (시간이 흐르지 않음)
 }
 
 interface StudentState {
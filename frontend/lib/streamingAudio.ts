@@ -0,0 +1,104 @@
+// Progressive playback of streamed TTS audio (POST /api/speech/tts-stream)
+
+export interface AudioPlayback {
+  // Resolves when playback finishes (or is stopped)
+  finished: Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Whether the browser can append MP3 chunks to a MediaSource.
+ * Safari on iOS has no MediaSource; callers fall back to buffered playback.
+ */
+export function canStreamAudio(contentType: string): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'MediaSource' in window &&
+    MediaSource.isTypeSupported(contentType)
+  );
+}
+
+function waitForUpdateEnd(sourceBuffer: SourceBuffer): Promise<void> {
+  if (!sourceBuffer.updating) return Promise.resolve();
+  return new Promise((resolve) =>
+    sourceBuffer.addEventListener('updateend', () => resolve(), { once: true })
+  );
+}
+
+/**
+ * Play an audio response as it downloads.
+ * Playback starts after the first chunk is appended instead of after the whole file.
+ */
+export function playAudioStream(response: Response): AudioPlayback {
+  const contentType = response.headers.get('Content-Type') || 'audio/mpeg';
+  const mediaSource = new MediaSource();
+  const audio = new Audio();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  const reader = response.body!.getReader();
+  let stopped = false;
+
+  audio.src = objectUrl;
+
+  const cleanup = () => {
+    URL.revokeObjectURL(objectUrl);
+    audio.removeAttribute('src');
+  };
+
+  const finished = new Promise<void>((resolve, reject) => {
+    audio.addEventListener('ended', () => {
+      cleanup();
+      resolve();
+    });
+    audio.addEventListener('error', () => {
+      cleanup();
+      if (stopped) resolve();
+      else reject(new Error('Audio playback failed'));
+    });
+
+    mediaSource.addEventListener(
+      'sourceopen',
+      async () => {
+        try {
+          const sourceBuffer = mediaSource.addSourceBuffer(contentType);
+          let started = false;
+
+          while (!stopped) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            await waitForUpdateEnd(sourceBuffer);
+            sourceBuffer.appendBuffer(value);
+
+            if (!started) {
+              started = true;
+              audio.play().catch(reject);
+            }
+          }
+
+          await waitForUpdateEnd(sourceBuffer);
+          if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+          if (stopped || !started) {
+            cleanup();
+            resolve();
+          }
+        } catch (err) {
+          cleanup();
+          if (stopped) resolve();
+          else reject(err);
+        }
+      },
+      { once: true }
+    );
+  });
+
+  return {
+    finished,
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      reader.cancel().catch(() => {});
+      audio.pause();
+      audio.dispatchEvent(new Event('ended'));
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// Stylometric consistency (backend/services/stylometry.js) - 보조 지표, 판정 근거 아님
+
+export type StyleConsistencyLevel = 'consistent' | 'mixed' | 'inconsistent' | 'insufficient';
+export type StyleFeatureKey = 'sentence_length' | 'vocabulary' | 'function_words' | 'endings';
+type EndingType = 'formal' | 'polite' | 'plain' | 'nominal' | 'other';
+
+export interface StyleFeature {
+  key: StyleFeatureKey;
+  // sentence_length/vocabulary: 수치, function_words: 자주 쓴 조사/접속어, endings: 어미 비율
+  written: number | string[] | Record<EndingType, number>;
+  answers: number | string[] | Record<EndingType, number>;
+  similarity: number; // 0~1
+}
+
+export interface StyleConsistency {
+  level: StyleConsistencyLevel;
+  score: number | null; // 0~1
+  answerMode: string | null;
+  written: { wordCount: number; sentenceCount: number };
+  answers: { wordCount: number; sentenceCount: number };
+  features: StyleFeature[];
+}
+
+const ENDING_LABELS: Record<EndingType, string> = {
+  formal: '합니다체',
+  polite: '해요체',
+  plain: '평서체(-다)',
+  nominal: '명사형(-음/-함)',
+  other: '기타',
+};
+
+export function getStyleLevelLabel(level: StyleConsistencyLevel): string {
+  const labels: Record<StyleConsistencyLevel, string> = {
+    consistent: '문체 유사',
+    mixed: '일부 차이',
+    inconsistent: '문체 차이 큼',
+    insufficient: '답변 부족',
+  };
+  return labels[level];
+}
+
+export function getStyleLevelColor(level: StyleConsistencyLevel): string {
+  const colors: Record<StyleConsistencyLevel, string> = {
+    consistent: 'bg-green-100 text-green-800',
+    mixed: 'bg-yellow-100 text-yellow-800',
+    inconsistent: 'bg-orange-100 text-orange-800',
+    insufficient: 'bg-gray-100 text-gray-700',
+  };
+  return colors[level];
+}
+
+export function getStyleFeatureLabel(key: StyleFeatureKey): string {
+  const labels: Record<StyleFeatureKey, string> = {
+    sentence_length: '문장 길이 (문장당 단어)',
+    vocabulary: '어휘 다양도',
+    function_words: '자주 쓰는 조사/접속어',
+    endings: '문장 어미',
+  };
+  return labels[key];
+}
+
+// 특징 값을 사람이 읽을 수 있는 문자열로
+export function formatStyleValue(feature: StyleFeature, side: 'written' | 'answers'): string {
+  const value = feature[side];
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-';
+
+  const top = (Object.entries(value) as Array<[EndingType, number]>)
+    .filter(([, ratio]) => ratio > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2);
+  return top.length > 0
+    ? top.map(([type, ratio]) => `${ENDING_LABELS[type]} ${Math.round(ratio * 100)}%`).join(', ')
+    : '-';
+}
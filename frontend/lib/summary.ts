@@ -0,0 +1,125 @@
+// Interview summary contract (backend/services/summarySchema.js와 동일한 구조)
+
+export const SUMMARY_SCHEMA_VERSION = 3;
+
+export type AuthorshipVerdict = 'authored' | 'assisted' | 'not_authored' | 'undetermined';
+
+const VERDICTS: AuthorshipVerdict[] = ['authored', 'assisted', 'not_authored', 'undetermined'];
+
+export interface TopicAssessment {
+  topicIndex: number;
+  topic: string;
+  assessment: string;
+  score: number | null;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number | null;
+  rationale: string;
+  // found: 인용문이 실제 대화 로그에서 확인되었는지 여부
+  evidence: Array<{ quote: string; found: boolean }>;
+}
+
+export interface InterviewSummary {
+  version: typeof SUMMARY_SCHEMA_VERSION;
+  authorshipScore: number | null;
+  verdict: AuthorshipVerdict;
+  strengths: string[];
+  weaknesses: string[];
+  overallComment: string;
+  topicAssessments: TopicAssessment[];
+  criteriaScores: CriterionScore[];
+  migratedFrom?: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function toScore(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(100, Math.max(0, Math.round(value)))
+    : null;
+}
+
+/**
+ * Validate an untrusted summary payload from the API.
+ * Older rows (v1/v2) are upgraded in place;
+ * anything that is not a summary returns null.
+ */
+export function parseInterviewSummary(raw: unknown): InterviewSummary | null {
+  if (!isRecord(raw)) return null;
+
+  const hasContent =
+    'overallComment' in raw || 'strengths' in raw || 'weaknesses' in raw || 'authorshipScore' in raw;
+  if (!hasContent) return null;
+
+  const topicAssessments = Array.isArray(raw.topicAssessments)
+    ? raw.topicAssessments.filter(isRecord).map((t, idx) => ({
+        topicIndex: typeof t.topicIndex === 'number' ? t.topicIndex : idx,
+        topic: typeof t.topic === 'string' ? t.topic : `주제 ${idx + 1}`,
+        assessment: typeof t.assessment === 'string' ? t.assessment : '',
+        score: toScore(t.score),
+      }))
+    : [];
+
+  const criteriaScores = Array.isArray(raw.criteriaScores)
+    ? raw.criteriaScores.filter(isRecord).map((c) => ({
+        criterionId: typeof c.criterionId === 'string' ? c.criterionId : '',
+        name: typeof c.name === 'string' ? c.name : String(c.criterionId ?? ''),
+        weight: typeof c.weight === 'number' ? c.weight : 0,
+        score: toScore(c.score),
+        rationale: typeof c.rationale === 'string' ? c.rationale : '',
+        evidence: Array.isArray(c.evidence)
+          ? c.evidence.filter(isRecord).map((e) => ({
+              quote: typeof e.quote === 'string' ? e.quote : '',
+              found: e.found === true,
+            }))
+          : [],
+      }))
+    : [];
+
+  const verdict = VERDICTS.includes(raw.verdict as AuthorshipVerdict)
+    ? (raw.verdict as AuthorshipVerdict)
+    : 'undetermined';
+
+  return {
+    version: SUMMARY_SCHEMA_VERSION,
+    // 판단 불가는 점수 없음 (backend normalizeSummary와 동일)
+    authorshipScore: raw.verdict === 'undetermined' ? null : toScore(raw.authorshipScore),
+    verdict,
+    strengths: toStringArray(raw.strengths),
+    weaknesses: toStringArray(raw.weaknesses),
+    overallComment: typeof raw.overallComment === 'string' ? raw.overallComment : '',
+    topicAssessments,
+    criteriaScores,
+    migratedFrom: typeof raw.migratedFrom === 'number' ? raw.migratedFrom : undefined,
+  };
+}
+
+export function getVerdictLabel(verdict: AuthorshipVerdict): string {
+  const labels: Record<AuthorshipVerdict, string> = {
+    authored: '직접 작성',
+    assisted: 'AI 도움 후 검토',
+    not_authored: '직접 작성 아님',
+    undetermined: '판단 불가',
+  };
+  return labels[verdict];
+}
+
+export function getVerdictColor(verdict: AuthorshipVerdict): string {
+  const colors: Record<AuthorshipVerdict, string> = {
+    authored: 'bg-green-100 text-green-800',
+    assisted: 'bg-yellow-100 text-yellow-800',
+    not_authored: 'bg-red-100 text-red-800',
+    undetermined: 'bg-gray-100 text-gray-800',
+  };
+  return colors[verdict];
+}
@@ -62,3 +62,12 @@ export function getInterviewModeLabel(mode: string): string {
   };
   return labels[mode] || mode;
 }
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}